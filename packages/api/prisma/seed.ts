@@ -95,6 +95,7 @@ async function main() {
     prisma.paymentMethodRecord.deleteMany(),
     prisma.transaction.deleteMany(),
     prisma.recurringTemplate.deleteMany(),
+    prisma.signingEvent.deleteMany(),
     prisma.leaseAddendum.deleteMany(),
     prisma.leaseTenant.deleteMany(),
     prisma.lease.deleteMany(),
@@ -29,11 +29,94 @@ const envSchema = z.object({
   MAILGUN_DOMAIN: z.string().optional(),
   EMAIL_FROM: z.string().default("noreply@brevva.io"),
   EMAIL_FROM_NAME: z.string().default("Brevva"),
+  // Replies to message notifications go to reply+<thread>@INBOUND_EMAIL_DOMAIN
+  // (defaults to MAILGUN_DOMAIN); a Mailgun route forwards them to
+  // /api/v1/webhooks/email, signed with MAILGUN_WEBHOOK_SIGNING_KEY
+  INBOUND_EMAIL_DOMAIN: z.string().optional(),
+  MAILGUN_WEBHOOK_SIGNING_KEY: z.string().optional(),
+
+  // OAuth apps for sending from an organization's own mailbox. Redirect URI:
+  // <API_URL>/api/v1/mailboxes/callback/google (or /microsoft)
+  GOOGLE_OAUTH_CLIENT_ID: z.string().optional(),
+  GOOGLE_OAUTH_CLIENT_SECRET: z.string().optional(),
+  MICROSOFT_OAUTH_CLIENT_ID: z.string().optional(),
+  MICROSOFT_OAUTH_CLIENT_SECRET: z.string().optional(),
+  MICROSOFT_OAUTH_TENANT: z.string().default("common"),
+
+  // Chromium binary used to render lease and addendum PDFs
+  // (`apk add chromium` installs it here on Alpine)
+  CHROMIUM_PATH: z.string().default("/usr/bin/chromium-browser"),
 
   UPLOAD_DIR: z.string().default("./uploads"),
   MAX_FILE_SIZE: z.coerce.number().default(10485760),
 
-  ENCRYPTION_KEY: z.string().optional(),
+  // "local" keeps files in UPLOAD_DIR; "s3" works with AWS S3 or any
+  // S3-compatible service such as MinIO (set S3_ENDPOINT)
+  STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_ENDPOINT: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+
+  // 32-byte hex keys for AES-256-GCM field encryption. After rotating,
+  // list retired keys as "version:hex,..." until `db:encrypt` has rewritten
+  // every row with the current version.
+  ENCRYPTION_KEY: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/, "must be 32 bytes encoded as 64 hex characters")
+    .optional()
+    .or(z.literal("")),
+  ENCRYPTION_KEY_VERSION: z.coerce.number().int().min(1).default(1),
+  ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
+
+  // FAKE returns canned reports for development; it is refused in production
+  SCREENING_PROVIDER: z.enum(["TRANSUNION", "CERTN", "FAKE"]).default("FAKE"),
+
+  // "console" logs outbound texts (and appends them to SMS_LOG_FILE when
+  // set) instead of sending; "twilio" sends through the Twilio REST API
+  SMS_PROVIDER: z.enum(["console", "twilio"]).default("console"),
+  SMS_FROM_NUMBER: z.string().optional(),
+  SMS_LOG_FILE: z.string().optional(),
+  TWILIO_ACCOUNT_SID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+}).superRefine((value, ctx) => {
+  if (value.NODE_ENV === "production" && !value.ENCRYPTION_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["ENCRYPTION_KEY"],
+      message: "is required in production",
+    });
+  }
+  if (value.NODE_ENV === "production" && value.SCREENING_PROVIDER === "FAKE") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["SCREENING_PROVIDER"],
+      message: "must be a real provider in production",
+    });
+  }
+  if (value.STORAGE_DRIVER === "s3" && !value.S3_BUCKET) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["S3_BUCKET"],
+      message: "is required when STORAGE_DRIVER is s3",
+    });
+  }
+  if (value.SMS_PROVIDER === "twilio") {
+    for (const key of ["TWILIO_ACCOUNT_SID", "TWILIO_AUTH_TOKEN", "SMS_FROM_NUMBER"] as const) {
+      if (!value[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: "is required when SMS_PROVIDER is twilio",
+        });
+      }
+    }
+  }
 });
 
 function loadEnv() {
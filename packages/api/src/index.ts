@@ -1,11 +1,11 @@
 import express from "express";
 import cors from "cors";
 import helmet from "helmet";
+import cookieParser from "cookie-parser";
 import rateLimit from "express-rate-limit";
-import path from "path";
-import fs from "fs";
 import { env } from "./config/env.js";
 import { errorHandler } from "./middleware/error-handler.js";
+import { csrfProtection } from "./middleware/csrf.js";
 import authRoutes from "./routes/auth.js";
 import propertyRoutes from "./routes/properties.js";
 import {
@@ -13,7 +13,9 @@ import {
   unitStandaloneRouter,
 } from "./routes/units.js";
 import tenantRoutes from "./routes/tenants.js";
+import applicationRoutes from "./routes/applications.js";
 import leaseRoutes from "./routes/leases.js";
+import leaseTemplateRoutes from "./routes/leaseTemplates.js";
 import paymentRoutes from "./routes/payments.js";
 import transactionRoutes from "./routes/transactions.js";
 import maintenanceRoutes from "./routes/maintenance.js";
@@ -23,6 +25,13 @@ import portalRoutes from "./routes/portal.js";
 import dashboardRoutes from "./routes/dashboard.js";
 import reportRoutes from "./routes/reports.js";
 import webhookRoutes from "./routes/webhooks.js";
+import fileRoutes from "./routes/files.js";
+import documentRoutes from "./routes/documents.js";
+import meRoutes from "./routes/me.js";
+import mailboxRoutes from "./routes/mailboxes.js";
+import teamRoutes from "./routes/team.js";
+import eventRoutes from "./routes/events.js";
+import { serveSignedUpload } from "./services/fileAccess.js";
 
 const app = express();
 
@@ -33,7 +42,7 @@ app.use(
     origin: allowedOrigins,
     credentials: true,
     methods: ["GET", "POST", "PATCH", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-CSRF-Token", "X-Client-App"],
   })
 );
 
@@ -70,22 +79,38 @@ const authLimiter = rateLimit({
   },
 });
 
+// Public application form: a handful of submissions per IP per hour
+const applicationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => req.method !== "POST",
+  message: {
+    error: {
+      code: "RATE_LIMIT_EXCEEDED",
+      message: "Too many applications submitted, please try again later",
+    },
+  },
+});
+
 app.use("/api/v1/auth", authLimiter);
+app.use("/api/v1/applications/apply", applicationLimiter);
 app.use(generalLimiter);
 
-// ─── 4. Stripe webhooks (raw body, before JSON parser) ──────────────
+// ─── 4. Webhooks (raw/form bodies, before JSON parser) ──────────────
 app.use("/api/v1/webhooks", webhookRoutes);
 
 // ─── 5. Body parsing ─────────────────────────────────────────────────
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
+app.use(cookieParser());
+
+// Cookie-authenticated requests must echo the CSRF cookie in a header
+app.use("/api/v1", csrfProtection);
 
-// ─── 6. Static file serving for uploads ──────────────────────────────
-const uploadDir = path.resolve(env.UPLOAD_DIR);
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-app.use("/uploads", express.static(uploadDir));
+// ─── 6. Uploaded files (signed links only) ───────────────────────────
+app.use("/uploads", serveSignedUpload);
 
 // ─── 7. Health check ─────────────────────────────────────────────────
 app.get("/health", (_req, res) => {
@@ -98,7 +123,9 @@ app.use("/api/v1/properties", propertyRoutes);
 app.use("/api/v1/properties/:propertyId/units", unitNestedRouter);
 app.use("/api/v1/units", unitStandaloneRouter);
 app.use("/api/v1/tenants", tenantRoutes);
+app.use("/api/v1/applications", applicationRoutes);
 app.use("/api/v1/leases", leaseRoutes);
+app.use("/api/v1/lease-templates", leaseTemplateRoutes);
 app.use("/api/v1/payments", paymentRoutes);
 app.use("/api/v1/transactions", transactionRoutes);
 app.use("/api/v1/maintenance", maintenanceRoutes);
@@ -107,6 +134,12 @@ app.use("/api/v1/messages", messageRoutes);
 app.use("/api/v1/portal", portalRoutes);
 app.use("/api/v1/dashboard", dashboardRoutes);
 app.use("/api/v1/reports", reportRoutes);
+app.use("/api/v1/files", fileRoutes);
+app.use("/api/v1/documents", documentRoutes);
+app.use("/api/v1/me", meRoutes);
+app.use("/api/v1/mailboxes", mailboxRoutes);
+app.use("/api/v1/team", teamRoutes);
+app.use("/api/v1/events", eventRoutes);
 
 // ─── 9. 404 handler ──────────────────────────────────────────────────
 app.use((_req, res) => {
@@ -0,0 +1,45 @@
+import { runRecurringTransactions } from "./recurringTransactions.js";
+import { runNotificationReminders } from "./notificationReminders.js";
+import { runLateFeeAssessment } from "../services/lateFees.js";
+import { runLedgerPosting } from "../services/ledger.js";
+import { runLeaseRenewals } from "../services/leaseRenewals.js";
+
+export interface ScheduledJob {
+  name: string;
+  /** Cron pattern, evaluated in UTC */
+  pattern: string;
+  handler: () => Promise<unknown>;
+}
+
+/**
+ * Background jobs run by the worker process (`src/worker.ts`).
+ */
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  {
+    name: "recurring-transactions",
+    pattern: "5 * * * *",
+    handler: () => runRecurringTransactions(),
+  },
+  {
+    // Ahead of ledger posting, so an original lease stops charging rent on
+    // the day its successor starts
+    name: "lease-renewals",
+    pattern: "0 5 * * *",
+    handler: () => runLeaseRenewals(),
+  },
+  {
+    name: "ledger-posting",
+    pattern: "30 5 * * *",
+    handler: () => runLedgerPosting(),
+  },
+  {
+    name: "late-fee-assessment",
+    pattern: "0 6 * * *",
+    handler: () => runLateFeeAssessment(),
+  },
+  {
+    name: "notification-reminders",
+    pattern: "0 14 * * *",
+    handler: () => runNotificationReminders(),
+  },
+];
@@ -0,0 +1,104 @@
+import { prisma } from "../lib/prisma.js";
+import { startOfDayUTC } from "../lib/dates.js";
+import {
+  notify,
+  staffRecipients,
+  tenantRecipient,
+} from "../services/notifications.js";
+
+/** Days before the due date that tenants are reminded to pay rent */
+const RENT_DUE_REMINDER_DAYS = 3;
+
+/** Days before a lease ends that tenants and staff are told it is expiring */
+const LEASE_EXPIRY_NOTICE_DAYS = [60, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tenantSelect = {
+  tenant: { select: { userId: true, email: true, phone: true, firstName: true, lastName: true } },
+} as const;
+
+async function sendRentDueReminders(today: Date): Promise<number> {
+  const dueDate = new Date(today.getTime() + RENT_DUE_REMINDER_DAYS * DAY_MS);
+
+  const leases = await prisma.lease.findMany({
+    where: {
+      status: "ACTIVE",
+      rentDueDay: dueDate.getUTCDate(),
+      startDate: { lte: dueDate },
+      endDate: { gte: dueDate },
+    },
+    include: {
+      unit: { select: { unitNumber: true, property: { select: { name: true } } } },
+      tenants: { select: tenantSelect },
+    },
+  });
+
+  for (const lease of leases) {
+    await notify(
+      lease.tenants.map((lt) => tenantRecipient(lt.tenant)),
+      {
+        type: "RENT_DUE",
+        amount: Number(lease.monthlyRent),
+        dueDate: dueDate.toISOString(),
+        propertyName: lease.unit.property.name,
+        unitNumber: lease.unit.unitNumber,
+      },
+      {
+        dedupeKey: `${lease.id}-${dueDate.toISOString().slice(0, 10)}`,
+        organizationId: lease.organizationId,
+      }
+    );
+  }
+  return leases.length;
+}
+
+async function sendLeaseExpiryNotices(today: Date): Promise<number> {
+  let count = 0;
+
+  for (const days of LEASE_EXPIRY_NOTICE_DAYS) {
+    const from = new Date(today.getTime() + days * DAY_MS);
+    const to = new Date(from.getTime() + DAY_MS);
+
+    const leases = await prisma.lease.findMany({
+      where: { status: "ACTIVE", endDate: { gte: from, lt: to } },
+      include: {
+        unit: { select: { unitNumber: true, property: { select: { name: true } } } },
+        tenants: { select: tenantSelect },
+      },
+    });
+
+    for (const lease of leases) {
+      const tenants = lease.tenants.map((lt) => lt.tenant);
+      await notify(
+        [
+          ...tenants.map(tenantRecipient),
+          ...(await staffRecipients(lease.organizationId)),
+        ],
+        {
+          type: "LEASE_EXPIRING",
+          leaseId: lease.id,
+          endDate: lease.endDate.toISOString(),
+          daysRemaining: days,
+          propertyName: lease.unit.property.name,
+          unitNumber: lease.unit.unitNumber,
+          tenantNames: tenants.map((t) => `${t.firstName} ${t.lastName}`).join(", "),
+        },
+        { dedupeKey: `${lease.id}-${days}`, organizationId: lease.organizationId }
+      );
+    }
+    count += leases.length;
+  }
+  return count;
+}
+
+/**
+ * Daily reminders: rent coming due and leases nearing their end date.
+ * Deliveries are deduplicated, so re-running for the same day is harmless.
+ */
+export async function runNotificationReminders(asOf: Date = new Date()) {
+  const today = startOfDayUTC(asOf);
+  const rentDue = await sendRentDueReminders(today);
+  const leasesExpiring = await sendLeaseExpiryNotices(today);
+  return { rentDue, leasesExpiring };
+}
@@ -0,0 +1,166 @@
+import type { RecurringFrequency, RecurringTemplate } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { addMonthsUTC } from "../lib/dates.js";
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  ANNUAL: 12,
+};
+
+/**
+ * Upper bound on periods posted for a single template in one pass. A template
+ * that is further behind than this is picked up again on the next run.
+ */
+const MAX_PERIODS_PER_RUN = 60;
+
+export interface RecurringRunSummary {
+  templatesProcessed: number;
+  periodsPosted: number;
+  failures: number;
+}
+
+/**
+ * Compute the occurrence that follows `date` for the given frequency.
+ */
+export function nextOccurrence(
+  date: Date,
+  frequency: RecurringFrequency,
+  anchorDay?: number
+): Date {
+  return addMonthsUTC(date, FREQUENCY_MONTHS[frequency], anchorDay);
+}
+
+/**
+ * Post every period of a template that is due on or before `asOf`.
+ *
+ * Each period is claimed by advancing `nextDate` with a compare-and-set
+ * update, and the transaction itself is unique on (recurringTemplateId, date),
+ * so concurrent workers or a retried job never post the same period twice.
+ */
+async function postDuePeriods(
+  template: RecurringTemplate,
+  asOf: Date
+): Promise<number> {
+  // Anchor on the first posted occurrence so month-end schedules don't drift
+  const firstPosted = await prisma.transaction.findFirst({
+    where: { recurringTemplateId: template.id },
+    orderBy: { date: "asc" },
+    select: { date: true },
+  });
+  const anchorDay = (firstPosted?.date ?? template.nextDate).getUTCDate();
+
+  let occurrence = template.nextDate;
+  let posted = 0;
+
+  for (let i = 0; i < MAX_PERIODS_PER_RUN && occurrence <= asOf; i++) {
+    const following = nextOccurrence(occurrence, template.frequency, anchorDay);
+
+    const claimed = await prisma.$transaction(async (tx) => {
+      const advanced = await tx.recurringTemplate.updateMany({
+        where: { id: template.id, isActive: true, nextDate: occurrence },
+        data: { nextDate: following },
+      });
+      if (advanced.count === 0) return false;
+
+      const created = await tx.transaction.createMany({
+        data: [
+          {
+            organizationId: template.organizationId,
+            propertyId: template.propertyId,
+            unitId: template.unitId,
+            type: template.type,
+            category: template.category,
+            amount: template.amount,
+            date: occurrence,
+            description: template.description,
+            isRecurring: true,
+            recurringTemplateId: template.id,
+          },
+        ],
+        skipDuplicates: true,
+      });
+      posted += created.count;
+      return true;
+    });
+
+    // Another worker advanced the template or it was deactivated mid-run
+    if (!claimed) break;
+
+    occurrence = following;
+  }
+
+  return posted;
+}
+
+/**
+ * Materialize a single template and record the outcome in its run history.
+ * Returns null when the template is inactive or not yet due.
+ */
+export async function runRecurringTemplate(
+  templateId: string,
+  asOf: Date = new Date()
+) {
+  const template = await prisma.recurringTemplate.findUnique({
+    where: { id: templateId },
+  });
+  if (!template || !template.isActive || template.nextDate > asOf) {
+    return null;
+  }
+
+  const startedAt = new Date();
+  try {
+    const periodsPosted = await postDuePeriods(template, asOf);
+    return await prisma.recurringTemplateRun.create({
+      data: {
+        organizationId: template.organizationId,
+        templateId: template.id,
+        status: "SUCCESS",
+        periodsPosted,
+        startedAt,
+        completedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    console.error(`Recurring template ${template.id} failed:`, err);
+    return prisma.recurringTemplateRun.create({
+      data: {
+        organizationId: template.organizationId,
+        templateId: template.id,
+        status: "FAILED",
+        error: err instanceof Error ? err.message : String(err),
+        startedAt,
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Scheduled entry point: materialize every active template that is due.
+ */
+export async function runRecurringTransactions(
+  asOf: Date = new Date()
+): Promise<RecurringRunSummary> {
+  const due = await prisma.recurringTemplate.findMany({
+    where: { isActive: true, nextDate: { lte: asOf } },
+    select: { id: true },
+    orderBy: { nextDate: "asc" },
+  });
+
+  const summary: RecurringRunSummary = {
+    templatesProcessed: 0,
+    periodsPosted: 0,
+    failures: 0,
+  };
+
+  for (const { id } of due) {
+    const run = await runRecurringTemplate(id, asOf);
+    if (!run) continue;
+    summary.templatesProcessed++;
+    summary.periodsPosted += run.periodsPosted;
+    if (run.status === "FAILED") summary.failures++;
+  }
+
+  return summary;
+}
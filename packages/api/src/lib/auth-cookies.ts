@@ -0,0 +1,93 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { CookieOptions, Request, Response } from "express";
+import { env } from "../config/env.js";
+import { parseExpiryToMs } from "./tokens.js";
+
+/**
+ * The dashboard and the tenant portal are served from the same origin, so
+ * each keeps its refresh token under its own cookie name. Clients say which
+ * app they are with the X-Client-App header.
+ */
+export type ClientApp = "web" | "portal";
+
+const REFRESH_COOKIES: Record<ClientApp, string> = {
+  web: "brevva_web_refresh",
+  portal: "brevva_portal_refresh",
+};
+
+// Only the auth endpoints ever need the refresh token
+const REFRESH_COOKIE_PATH = "/api/v1/auth";
+
+export const CSRF_COOKIE = "brevva_csrf";
+export const CSRF_HEADER = "X-CSRF-Token";
+
+function baseCookieOptions(): CookieOptions {
+  return {
+    secure: env.NODE_ENV === "production",
+    sameSite: "strict",
+  };
+}
+
+export function clientApp(req: Request): ClientApp {
+  return req.get("X-Client-App") === "portal" ? "portal" : "web";
+}
+
+export function readRefreshCookie(req: Request): string | undefined {
+  const value: unknown = req.cookies?.[REFRESH_COOKIES[clientApp(req)]];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** True when the request carries either app's refresh cookie. */
+export function hasRefreshCookie(req: Request): boolean {
+  return Object.values(REFRESH_COOKIES).some((name) => !!req.cookies?.[name]);
+}
+
+function signCsrfNonce(nonce: string): string {
+  return createHmac("sha256", env.JWT_SECRET).update(`csrf:${nonce}`).digest("hex");
+}
+
+/** `<nonce>.<hmac>` so a cookie planted by another subdomain won't verify. */
+export function createCsrfToken(): string {
+  const nonce = randomBytes(16).toString("hex");
+  return `${nonce}.${signCsrfNonce(nonce)}`;
+}
+
+/** Double-submit check: the header must echo a CSRF cookie we issued. */
+export function isValidCsrfToken(cookie: unknown, header: string | undefined): boolean {
+  if (typeof cookie !== "string" || !header || cookie.length !== header.length) return false;
+  if (!timingSafeEqual(Buffer.from(cookie), Buffer.from(header))) return false;
+
+  const [nonce, signature] = cookie.split(".");
+  if (!nonce || !signature) return false;
+  const expected = signCsrfNonce(nonce);
+  return (
+    expected.length === signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+/** Issues the refresh token as an httpOnly cookie plus a fresh CSRF token. */
+export function setAuthCookies(req: Request, res: Response, refreshToken: string): void {
+  const maxAge = parseExpiryToMs(env.JWT_REFRESH_EXPIRY);
+  res.cookie(REFRESH_COOKIES[clientApp(req)], refreshToken, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: REFRESH_COOKIE_PATH,
+    maxAge,
+  });
+  // Readable by the client so it can echo it back in CSRF_HEADER
+  res.cookie(CSRF_COOKIE, createCsrfToken(), {
+    ...baseCookieOptions(),
+    httpOnly: false,
+    path: "/",
+    maxAge,
+  });
+}
+
+export function clearAuthCookies(req: Request, res: Response): void {
+  res.clearCookie(REFRESH_COOKIES[clientApp(req)], {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Add calendar months to a date in UTC, clamping to the last day of the
+ * target month. Pass `anchorDay` to keep month-end schedules from drifting
+ * (Jan 31 → Feb 28 → Mar 31 rather than Mar 28).
+ */
+export function addMonthsUTC(
+  date: Date,
+  months: number,
+  anchorDay: number = date.getUTCDate()
+): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(anchorDay, lastDayOfMonth),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Midnight UTC on the same calendar day.
+ */
+export function startOfDayUTC(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
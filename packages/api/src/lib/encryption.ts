@@ -0,0 +1,129 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { env } from "../config/env.js";
+import { AppError } from "./errors.js";
+
+// Ciphertext format: enc:v<keyVersion>:<iv>:<authTag>:<data>, base64 parts
+const PREFIX = "enc:v";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+let keyring: Map<number, Buffer> | null = null;
+
+function parseKey(hex: string, label: string): Buffer {
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`${label} must be 32 bytes encoded as 64 hex characters`);
+  }
+  return Buffer.from(hex, "hex");
+}
+
+/**
+ * Current key plus any retired keys still needed to read older rows. Outside
+ * production a key derived from JWT_SECRET stands in when ENCRYPTION_KEY is
+ * unset, so local databases work without extra setup.
+ */
+function getKeyring(): Map<number, Buffer> {
+  if (keyring) return keyring;
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of (env.ENCRYPTION_PREVIOUS_KEYS ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [version, hex] = entry.trim().split(":");
+    const parsed = Number(version);
+    if (!Number.isInteger(parsed) || parsed < 1 || !hex) {
+      throw new Error(
+        "ENCRYPTION_PREVIOUS_KEYS entries must look like <version>:<hex key>"
+      );
+    }
+    keys.set(parsed, parseKey(hex, `ENCRYPTION_PREVIOUS_KEYS version ${parsed}`));
+  }
+
+  if (env.ENCRYPTION_KEY) {
+    keys.set(env.ENCRYPTION_KEY_VERSION, parseKey(env.ENCRYPTION_KEY, "ENCRYPTION_KEY"));
+  } else {
+    console.warn(
+      "ENCRYPTION_KEY is not set; using a development key derived from JWT_SECRET"
+    );
+    keys.set(
+      env.ENCRYPTION_KEY_VERSION,
+      createHash("sha256").update(`brevva-dev-encryption:${env.JWT_SECRET}`).digest()
+    );
+  }
+
+  keyring = keys;
+  return keys;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+function keyVersionOf(value: string): number | null {
+  if (!isEncrypted(value)) return null;
+  const version = Number(value.slice(PREFIX.length).split(":")[0]);
+  return Number.isInteger(version) ? version : null;
+}
+
+export function encrypt(plaintext: string): string {
+  const version = env.ENCRYPTION_KEY_VERSION;
+  const key = getKeyring().get(version)!;
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [
+    `${PREFIX}${version}`,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    data.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a value written by `encrypt`. Values without the ciphertext prefix
+ * are rows that predate encryption and are returned unchanged.
+ */
+export function decrypt(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [versionPart, iv, tag, data] = value.slice(PREFIX.length).split(":");
+  const key = getKeyring().get(Number(versionPart));
+  if (!key || !iv || !tag || data === undefined) {
+    throw new AppError(
+      "DECRYPTION_FAILED",
+      `No encryption key available for version ${versionPart}`,
+      500
+    );
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new AppError("DECRYPTION_FAILED", "Encrypted value could not be read", 500);
+  }
+}
+
+/**
+ * True when a stored value is plaintext or was encrypted with a key other
+ * than the current one, i.e. the `db:encrypt` command should rewrite it.
+ */
+export function needsReencryption(value: string): boolean {
+  return keyVersionOf(value) !== env.ENCRYPTION_KEY_VERSION;
+}
+
+export function encryptNullable(value: string | null | undefined) {
+  return value == null ? value : encrypt(value);
+}
+
+export function decryptNullable(value: string | null) {
+  return value == null ? value : decrypt(value);
+}
+
+/** Show only the last four digits of an SSN, e.g. ***-**-6789 */
+export function maskSsn(ssn: string): string {
+  const digits = ssn.replace(/\D/g, "");
+  return `***-**-${digits.slice(-4).padStart(4, "*")}`;
+}
@@ -0,0 +1,72 @@
+import puppeteer, { type Browser } from "puppeteer-core";
+import { env } from "../config/env.js";
+
+export interface PdfOptions {
+  /**
+   * Printed at the bottom of every page. Rendered by Chromium in its own
+   * context, so it needs inline styles and an explicit font size; the
+   * `pageNumber` and `totalPages` classes are filled in per page.
+   */
+  footerTemplate?: string;
+}
+
+const RENDER_TIMEOUT_MS = 30_000;
+
+let browserPromise: Promise<Browser> | null = null;
+
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = puppeteer
+      .launch({
+        executablePath: env.CHROMIUM_PATH,
+        headless: true,
+        args: ["--no-sandbox", "--disable-dev-shm-usage", "--disable-gpu"],
+      })
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          browserPromise = null;
+        });
+        return browser;
+      })
+      .catch((err) => {
+        browserPromise = null;
+        throw err;
+      });
+  }
+  return browserPromise;
+}
+
+/**
+ * Render an HTML document to a paginated US Letter PDF. The page gets no
+ * network access and no JavaScript: anything not inlined (images must be
+ * data: URLs) is left out rather than fetched.
+ */
+export async function renderPdf(html: string, options: PdfOptions = {}): Promise<Buffer> {
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+  try {
+    page.setDefaultTimeout(RENDER_TIMEOUT_MS);
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on("request", (request) => {
+      if (request.url().startsWith("data:")) {
+        void request.continue();
+      } else {
+        void request.abort("blockedbyclient");
+      }
+    });
+
+    await page.setContent(html, { waitUntil: "load" });
+    const pdf = await page.pdf({
+      format: "Letter",
+      printBackground: true,
+      margin: { top: "0.6in", bottom: "0.8in", left: "0.5in", right: "0.5in" },
+      displayHeaderFooter: !!options.footerTemplate,
+      headerTemplate: "<span></span>",
+      footerTemplate: options.footerTemplate ?? "<span></span>",
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
@@ -0,0 +1,80 @@
+/** Every permission a team member can be granted, with its description. */
+export const PERMISSIONS = {
+  "properties:view": "View properties and units",
+  "properties:manage": "Create and edit properties and units",
+  "tenants:view": "View tenant profiles",
+  "tenants:manage": "Create and edit tenants, documents, vehicles and pets",
+  "tenants:view_pii": "See tenant SSNs, dates of birth and income",
+  "leases:view": "View leases, addendums and ledgers",
+  "leases:manage": "Draft, edit and send leases and addendums",
+  "leases:sign": "Countersign leases and addendums for the organization",
+  "payments:view": "View payments",
+  "payments:record": "Record manual payments and charge tenants",
+  "payments:refund": "Refund payments",
+  "maintenance:view": "View maintenance requests",
+  "maintenance:manage": "Update and assign maintenance requests",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+export interface RoleTemplate {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+/**
+ * Starting points offered when an owner creates a permission role. Roles
+ * are copied into the organization, so editing one never changes another.
+ */
+export const ROLE_TEMPLATES: RoleTemplate[] = [
+  {
+    key: "property_manager",
+    name: "Property manager",
+    description: "Runs day-to-day operations; no refunds or tenant PII",
+    permissions: ALL_PERMISSIONS.filter(
+      (p) => p !== "payments:refund" && p !== "tenants:view_pii"
+    ),
+  },
+  {
+    key: "leasing_agent",
+    name: "Leasing agent",
+    description: "Manages tenants and lease paperwork",
+    permissions: [
+      "properties:view",
+      "tenants:view",
+      "tenants:manage",
+      "leases:view",
+      "leases:manage",
+    ],
+  },
+  {
+    key: "maintenance_coordinator",
+    name: "Maintenance coordinator",
+    description: "Handles maintenance requests",
+    permissions: ["properties:view", "tenants:view", "maintenance:view", "maintenance:manage"],
+  },
+  {
+    key: "bookkeeper",
+    name: "Bookkeeper",
+    description: "Tracks rent and refunds",
+    permissions: [
+      "properties:view",
+      "tenants:view",
+      "leases:view",
+      "payments:view",
+      "payments:record",
+      "payments:refund",
+    ],
+  },
+];
+
+/** Team members without an assigned role keep the property manager set. */
+export const DEFAULT_TEAM_MEMBER_PERMISSIONS: Permission[] = ROLE_TEMPLATES[0]!.permissions;
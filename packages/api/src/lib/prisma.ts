@@ -1,16 +1,150 @@
 import { PrismaClient } from "@prisma/client";
+import {
+  decrypt,
+  decryptNullable,
+  encrypt,
+  maskSsn,
+} from "./encryption.js";
 
-const globalForPrisma = globalThis as unknown as { prisma: PrismaClient };
-
-export const prisma =
-  globalForPrisma.prisma ||
-  new PrismaClient({
+function createBaseClient() {
+  return new PrismaClient({
     log:
       process.env["NODE_ENV"] === "development"
         ? ["query", "warn", "error"]
         : ["warn", "error"],
   });
+}
+
+/**
+ * Columns stored encrypted. Writes through `prisma` encrypt them; nested
+ * writes from another model (e.g. `tenant: { create: ... }`) are not covered,
+ * so create these records through their own model.
+ */
+export const ENCRYPTED_FIELDS = {
+  tenant: ["ssn"],
+  screeningReport: ["reportData"],
+  connectedEmail: ["accessToken", "refreshToken"],
+  user: ["twoFactorSecret"],
+} as const;
+
+function encryptFields(data: unknown, fields: readonly string[]): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item) => encryptFields(item, fields));
+  }
+  if (!data || typeof data !== "object") return data;
+
+  const result = { ...(data as Record<string, unknown>) };
+  for (const field of fields) {
+    const value = result[field];
+    if (typeof value === "string") {
+      result[field] = encrypt(value);
+    } else if (
+      value &&
+      typeof value === "object" &&
+      typeof (value as { set?: unknown }).set === "string"
+    ) {
+      result[field] = { set: encrypt((value as { set: string }).set) };
+    }
+  }
+  return result;
+}
+
+function encryptArgs<T>(args: T, fields: readonly string[]): T {
+  const a = args as Record<string, unknown>;
+  return {
+    ...a,
+    ...("data" in a ? { data: encryptFields(a["data"], fields) } : {}),
+    ...("create" in a ? { create: encryptFields(a["create"], fields) } : {}),
+    ...("update" in a ? { update: encryptFields(a["update"], fields) } : {}),
+  } as T;
+}
+
+/**
+ * Application-level field encryption. Reads decrypt transparently, except
+ * `Tenant.ssn`, which always comes back masked to the last four digits;
+ * use `revealTenantSsn` for the full value.
+ */
+function withFieldEncryption(client: PrismaClient) {
+  return client.$extends({
+    name: "field-encryption",
+    query: {
+      tenant: {
+        $allOperations: ({ args, query }) =>
+          query(encryptArgs(args, ENCRYPTED_FIELDS.tenant)),
+      },
+      screeningReport: {
+        $allOperations: ({ args, query }) =>
+          query(encryptArgs(args, ENCRYPTED_FIELDS.screeningReport)),
+      },
+      connectedEmail: {
+        $allOperations: ({ args, query }) =>
+          query(encryptArgs(args, ENCRYPTED_FIELDS.connectedEmail)),
+      },
+      user: {
+        $allOperations: ({ args, query }) =>
+          query(encryptArgs(args, ENCRYPTED_FIELDS.user)),
+      },
+    },
+    result: {
+      tenant: {
+        ssn: {
+          needs: { ssn: true },
+          compute: (tenant) =>
+            tenant.ssn == null ? null : maskSsn(decrypt(tenant.ssn)),
+        },
+      },
+      screeningReport: {
+        reportData: {
+          needs: { reportData: true },
+          compute: (report) => decryptNullable(report.reportData),
+        },
+      },
+      connectedEmail: {
+        accessToken: {
+          needs: { accessToken: true },
+          compute: (mailbox) => decrypt(mailbox.accessToken),
+        },
+        refreshToken: {
+          needs: { refreshToken: true },
+          compute: (mailbox) => decrypt(mailbox.refreshToken),
+        },
+      },
+      user: {
+        twoFactorSecret: {
+          needs: { twoFactorSecret: true },
+          compute: (user) => decryptNullable(user.twoFactorSecret),
+        },
+      },
+    },
+  });
+}
+
+const globalForPrisma = globalThis as unknown as { basePrisma: PrismaClient };
+
+/**
+ * Client without the encryption extension; values come back exactly as
+ * stored. Only for code that handles ciphertext itself.
+ */
+export const basePrisma = globalForPrisma.basePrisma || createBaseClient();
+
+export const prisma = withFieldEncryption(basePrisma);
+
+export type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
 
 if (process.env["NODE_ENV"] !== "production") {
-  globalForPrisma.prisma = prisma;
+  globalForPrisma.basePrisma = basePrisma;
+}
+
+/**
+ * Full, decrypted SSN for a tenant. Callers are responsible for authorizing
+ * and auditing access.
+ */
+export async function revealTenantSsn(tenantId: string): Promise<string | null> {
+  const tenant = await basePrisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { ssn: true },
+  });
+  return decryptNullable(tenant?.ssn ?? null);
 }
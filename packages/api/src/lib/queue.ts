@@ -0,0 +1,79 @@
+import { Queue } from "bullmq";
+import { Redis } from "ioredis";
+import { env } from "../config/env.js";
+
+export const SCHEDULED_QUEUE_NAME = "scheduled-jobs";
+export const NOTIFICATION_QUEUE_NAME = "notifications";
+
+let connection: Redis | null = null;
+let producerConnection: Redis | null = null;
+let scheduledQueue: Queue | null = null;
+let notificationQueue: Queue | null = null;
+
+/**
+ * Shared Redis connection for BullMQ. Workers use blocking commands, which
+ * BullMQ requires to run with `maxRetriesPerRequest: null`.
+ */
+export function getRedisConnection(): Redis {
+  if (!connection) {
+    connection = new Redis(env.REDIS_URL, { maxRetriesPerRequest: null });
+  }
+  return connection;
+}
+
+/**
+ * Redis connection for adding jobs and publishing from request handlers.
+ * Commands fail fast while Redis is unreachable instead of waiting for a
+ * reconnect, so callers can fall back (e.g. deliver a notification inline).
+ */
+export function getProducerConnection(): Redis {
+  if (!producerConnection) {
+    producerConnection = new Redis(env.REDIS_URL, { enableOfflineQueue: false });
+  }
+  return producerConnection;
+}
+
+/**
+ * Queue that holds the repeatable background jobs registered in `jobs/index.ts`.
+ */
+export function getScheduledQueue(): Queue {
+  if (!scheduledQueue) {
+    scheduledQueue = new Queue(SCHEDULED_QUEUE_NAME, {
+      connection: getProducerConnection(),
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 500,
+      },
+    });
+  }
+  return scheduledQueue;
+}
+
+/**
+ * Queue of outgoing notifications, delivered by the worker with retries.
+ */
+export function getNotificationQueue(): Queue {
+  if (!notificationQueue) {
+    notificationQueue = new Queue(NOTIFICATION_QUEUE_NAME, {
+      connection: getProducerConnection(),
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: "exponential", delay: 30_000 },
+        removeOnComplete: 1000,
+        removeOnFail: 5000,
+      },
+    });
+  }
+  return notificationQueue;
+}
+
+export async function closeQueues(): Promise<void> {
+  await scheduledQueue?.close();
+  await notificationQueue?.close();
+  await producerConnection?.quit();
+  await connection?.quit();
+  scheduledQueue = null;
+  notificationQueue = null;
+  producerConnection = null;
+  connection = null;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { buildStorageKey, contentTypeFor, uploadFileName } from "./storage.js";
+
+describe("buildStorageKey", () => {
+  it("takes the extension from the MIME type, not the file name", () => {
+    const key = buildStorageKey("application-doc", "application/pdf");
+    expect(key).toMatch(/^application-doc-[0-9a-f-]{36}\.pdf$/);
+  });
+
+  it("leaves unknown types without an extension", () => {
+    expect(buildStorageKey("document", "text/html")).toMatch(/^document-[0-9a-f-]{36}$/);
+  });
+});
+
+describe("uploadFileName", () => {
+  it("replaces the client's extension", () => {
+    expect(uploadFileName("lease.html", "application/pdf")).toBe("lease.pdf");
+    expect(uploadFileName("my lease (1).docx.html", "application/pdf")).toBe(
+      "my_lease__1_.docx.pdf"
+    );
+  });
+});
+
+describe("contentTypeFor", () => {
+  it("never serves uploads as HTML", () => {
+    expect(contentTypeFor("application-doc-1.html")).toBe("application/octet-stream");
+    expect(contentTypeFor("leases/0f7a7f3e-33a4-4b0e-9a53-0d5f1e6f1a10/x.html")).toBe(
+      "application/octet-stream"
+    );
+  });
+
+  it("serves server-rendered documents as HTML", () => {
+    expect(
+      contentTypeFor("lease-0f7a7f3e-33a4-4b0e-9a53-0d5f1e6f1a10-1700000000000.html")
+    ).toBe("text/html; charset=utf-8");
+  });
+});
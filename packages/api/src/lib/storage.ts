@@ -0,0 +1,304 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { env } from "../config/env.js";
+
+export type StorageDriver = "local" | "s3";
+
+export interface StoredObject {
+  body: Readable;
+  contentType: string;
+  size: number | null;
+}
+
+/**
+ * Where uploaded and generated files live. Records store provider-neutral
+ * keys such as `tenant-doc-<uuid>.pdf` or `leases/<leaseId>/lease.pdf`;
+ * downloads go through the signed `/uploads/<key>` route.
+ */
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+  put(key: string, body: Buffer | string, contentType?: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): AsyncIterable<string>;
+}
+
+// No ".html": files are served from the app's origin, so only documents the
+// server rendered itself (GENERATED_HTML) are ever served as a page
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".txt": "text/plain; charset=utf-8",
+  ".csv": "text/csv; charset=utf-8",
+};
+
+/** Extensions for the file types upload routes accept, by MIME type */
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+};
+
+/** Lease, addendum and adverse action documents rendered by the server */
+const GENERATED_HTML = /^(?:lease|addendum|adverse-action)-[0-9a-f-]{36}-\d+\.html$/i;
+
+export function contentTypeFor(key: string): string {
+  if (GENERATED_HTML.test(key)) return "text/html; charset=utf-8";
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Normalize a stored file reference to a storage key. Accepts keys and the
+ * `/uploads/<key>` URLs written before storage was pluggable; returns null
+ * for anything else (external URLs, path traversal).
+ */
+export function toStorageKey(value: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value)) return null;
+  let key = value.split("?")[0] ?? "";
+  key = key.replace(/^\/uploads\//, "");
+  try {
+    key = decodeURIComponent(key);
+  } catch {
+    return null;
+  }
+  if (!key || key.startsWith("/")) return null;
+  if (key.split(/[/\\]/).some((part) => part === ".." || part === "." || part === "")) {
+    return null;
+  }
+  return key;
+}
+
+/**
+ * New key for an upload. The extension comes from the MIME type the route
+ * allowed, never the client's file name, so an upload can't pick the type
+ * it is served with; unknown types get none and are served as binary.
+ */
+export function buildStorageKey(prefix: string, mimeType: string): string {
+  return `${prefix}-${randomUUID()}${UPLOAD_EXTENSIONS[mimeType.toLowerCase()] ?? ""}`;
+}
+
+/**
+ * The client's file name made safe for a storage key, with the extension
+ * for its MIME type in place of the one the client sent.
+ */
+export function uploadFileName(originalName: string, mimeType: string): string {
+  const base = path
+    .basename(originalName, path.extname(originalName))
+    .replace(/[^a-zA-Z0-9._-]/g, "_");
+  return `${base || "file"}${UPLOAD_EXTENSIONS[mimeType.toLowerCase()] ?? ""}`;
+}
+
+// ─── Local disk ─────────────────────────────────────────────────────
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = "local" as const;
+
+  constructor(private readonly root: string = path.resolve(env.UPLOAD_DIR)) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer | string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile()) return null;
+      return {
+        body: fs.createReadStream(filePath),
+        contentType: contentTypeFor(key),
+        size: stat.size,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async *list(): AsyncIterable<string> {
+    if (!fs.existsSync(this.root)) return;
+    const entries = await fs.promises.readdir(this.root, {
+      recursive: true,
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      yield path
+        .relative(this.root, path.join(entry.parentPath, entry.name))
+        .split(path.sep)
+        .join("/");
+    }
+  }
+}
+
+// ─── S3-compatible ──────────────────────────────────────────────────
+
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = "s3" as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string = env.S3_BUCKET!) {
+    this.client = new S3Client({
+      region: env.S3_REGION,
+      ...(env.S3_ENDPOINT ? { endpoint: env.S3_ENDPOINT } : {}),
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      ...(env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+        ? {
+            credentials: {
+              accessKeyId: env.S3_ACCESS_KEY_ID,
+              secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+            },
+          }
+        : {}),
+    });
+  }
+
+  async put(key: string, body: Buffer | string, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType ?? contentTypeFor(key),
+      })
+    );
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      if (!result.Body) return null;
+      return {
+        body: result.Body as Readable,
+        contentType: result.ContentType ?? contentTypeFor(key),
+        size: result.ContentLength ?? null,
+      };
+    } catch (err) {
+      if (err instanceof NoSuchKey || err instanceof NotFound) return null;
+      throw err;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (err) {
+      if (err instanceof NotFound || err instanceof NoSuchKey) return false;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async *list(): AsyncIterable<string> {
+    let token: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, ContinuationToken: token })
+      );
+      for (const object of page.Contents ?? []) {
+        if (object.Key) yield object.Key;
+      }
+      token = page.NextContinuationToken;
+    } while (token);
+  }
+}
+
+// ─── Active provider ────────────────────────────────────────────────
+
+export function createStorageProvider(driver: StorageDriver): StorageProvider {
+  return driver === "s3" ? new S3StorageProvider() : new LocalStorageProvider();
+}
+
+let storage: StorageProvider | null = null;
+
+/**
+ * Provider selected by STORAGE_DRIVER.
+ */
+export function getStorage(): StorageProvider {
+  if (!storage) {
+    storage = createStorageProvider(env.STORAGE_DRIVER);
+  }
+  return storage;
+}
+
+export async function readStoredFile(key: string): Promise<Buffer | null> {
+  const object = await getStorage().get(key);
+  if (!object) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Store multer uploads (memory storage) under new keys, in order.
+ */
+export async function storeUploads(
+  files: Express.Multer.File[],
+  prefix: string
+): Promise<string[]> {
+  const keys: string[] = [];
+  for (const file of files) {
+    const key = buildStorageKey(prefix, file.mimetype);
+    await getStorage().put(key, file.buffer, contentTypeFor(key));
+    keys.push(key);
+  }
+  return keys;
+}
@@ -6,6 +6,7 @@ export interface AccessTokenPayload {
   userId: string;
   organizationId: string;
   role: string;
+  sessionId: string;
 }
 
 export function signAccessToken(payload: AccessTokenPayload): string {
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { totpCode, verifyTotp } from "./totp.js";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890"
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const STEP_MS = 30 * 1000;
+const NOW = 1_700_000_000_000;
+const CURRENT = Math.floor(NOW / STEP_MS);
+
+describe("totpCode", () => {
+  it("matches the RFC 6238 SHA-1 test vector", () => {
+    // 94287082 at T = 59s, truncated to six digits
+    expect(totpCode(SECRET, 1)).toBe("287082");
+  });
+});
+
+describe("verifyTotp", () => {
+  it("accepts the current step and one either side", () => {
+    for (const step of [CURRENT - 1, CURRENT, CURRENT + 1]) {
+      expect(verifyTotp(SECRET, totpCode(SECRET, step), { now: NOW })).toBe(step);
+    }
+  });
+
+  it("rejects codes two or more steps away", () => {
+    for (const step of [CURRENT - 2, CURRENT + 2]) {
+      expect(verifyTotp(SECRET, totpCode(SECRET, step), { now: NOW })).toBeNull();
+    }
+  });
+
+  it("rejects a step already used", () => {
+    const code = totpCode(SECRET, CURRENT);
+    expect(verifyTotp(SECRET, code, { now: NOW, afterStep: CURRENT })).toBeNull();
+    expect(verifyTotp(SECRET, code, { now: NOW, afterStep: CURRENT - 1 })).toBe(CURRENT);
+  });
+
+  it("ignores spaces and rejects anything but six digits", () => {
+    const code = totpCode(SECRET, CURRENT);
+    expect(verifyTotp(SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { now: NOW })).toBe(
+      CURRENT
+    );
+    expect(verifyTotp(SECRET, code.slice(0, 5), { now: NOW })).toBeNull();
+    expect(verifyTotp(SECRET, "abcdef", { now: NOW })).toBeNull();
+  });
+});
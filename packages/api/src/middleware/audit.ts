@@ -3,6 +3,20 @@ import type { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
 import { getClientIp } from "../lib/client-ip.js";
 
+// Encrypted at rest, so never copied into audit entries in the clear
+const REDACTED_FIELDS = ["ssn", "accessToken", "refreshToken"];
+
+function redact(body: unknown): object {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return (body as object) ?? {};
+  }
+  const result: Record<string, unknown> = { ...(body as object) };
+  for (const field of REDACTED_FIELDS) {
+    if (result[field] != null) result[field] = "[REDACTED]";
+  }
+  return result;
+}
+
 export function auditLog(
   action: string,
   entityType: string,
@@ -28,7 +42,7 @@ export function auditLog(
               entityType,
               entityId: String(entityId),
               changes: {
-                ...(req.body as object),
+                ...redact(req.body),
                 userAgent: req.headers["user-agent"] ?? "unknown",
               },
               ipAddress: getClientIp(req),
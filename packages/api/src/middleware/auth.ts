@@ -9,6 +9,7 @@ export interface AuthUser {
   organizationId: string;
   role: UserRole;
   email: string;
+  sessionId?: string;
 }
 
 declare global {
@@ -37,6 +38,7 @@ export function authenticate(
       organizationId: payload.organizationId,
       role: payload.role as UserRole,
       email: "",
+      sessionId: payload.sessionId,
     };
     next();
   } catch {
@@ -63,6 +65,7 @@ export function optionalAuth(
       organizationId: payload.organizationId,
       role: payload.role as UserRole,
       email: "",
+      sessionId: payload.sessionId,
     };
   } catch {
     // Token invalid — proceed without auth
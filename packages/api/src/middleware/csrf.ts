@@ -0,0 +1,31 @@
+import type { Request, Response, NextFunction } from "express";
+import { AuthorizationError } from "../lib/errors.js";
+import {
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  hasRefreshCookie,
+  isValidCsrfToken,
+} from "../lib/auth-cookies.js";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Requires the CSRF header on state-changing requests that carry the
+ * refresh cookie. Everything else authenticates with a bearer token, which
+ * a cross-site form can't attach.
+ */
+export function csrfProtection(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (SAFE_METHODS.has(req.method) || !hasRefreshCookie(req)) {
+    next();
+    return;
+  }
+
+  if (!isValidCsrfToken(req.cookies?.[CSRF_COOKIE], req.get(CSRF_HEADER))) {
+    throw new AuthorizationError("Invalid or missing CSRF token");
+  }
+  next();
+}
@@ -1,5 +1,18 @@
 import type { Request, Response, NextFunction, RequestHandler } from "express";
-import { AuthorizationError } from "../lib/errors.js";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+} from "../lib/errors.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { prisma } from "../lib/prisma.js";
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_TEAM_MEMBER_PERMISSIONS,
+  isPermission,
+} from "../lib/permissions.js";
+import type { Permission } from "../lib/permissions.js";
+import type { AuthUser } from "./auth.js";
 import type { UserRole } from "@prisma/client";
 
 const ROLE_HIERARCHY: Record<UserRole, number> = {
@@ -37,3 +50,104 @@ export function requireMinRole(minRole: UserRole): RequestHandler {
     next();
   };
 }
+
+export interface AccessScope {
+  permissions: ReadonlySet<Permission>;
+  /** Properties the user is limited to; null means every property */
+  propertyIds: string[] | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      access?: AccessScope;
+    }
+  }
+}
+
+async function resolveAccess(user: AuthUser): Promise<AccessScope> {
+  if (user.role === "OWNER") {
+    return { permissions: new Set(ALL_PERMISSIONS), propertyIds: null };
+  }
+  // Tenants hold no staff permissions; their own routes check ownership
+  if (user.role !== "TEAM_MEMBER") {
+    return { permissions: new Set(), propertyIds: null };
+  }
+
+  const member = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: {
+      isActive: true,
+      allPropertiesAccess: true,
+      permissionRole: { select: { permissions: true } },
+      accessibleProperties: { select: { id: true } },
+    },
+  });
+  if (!member?.isActive) {
+    throw new AuthenticationError("This account has been deactivated");
+  }
+
+  return {
+    permissions: new Set(
+      member.permissionRole
+        ? member.permissionRole.permissions.filter(isPermission)
+        : DEFAULT_TEAM_MEMBER_PERMISSIONS
+    ),
+    propertyIds: member.allPropertiesAccess
+      ? null
+      : member.accessibleProperties.map((p) => p.id),
+  };
+}
+
+/**
+ * Loads the caller's permissions and property scope onto `req.access`.
+ * Mount after `authenticate` on routers that use `requirePermission` or
+ * `propertyScopeWhere`.
+ */
+export const loadAccess: RequestHandler = asyncHandler(async (req, _res, next) => {
+  if (!req.user) {
+    throw new AuthorizationError("Authentication required");
+  }
+  req.access = await resolveAccess(req.user);
+  next();
+});
+
+export function hasPermission(req: Request, permission: Permission): boolean {
+  return req.access?.permissions.has(permission) ?? false;
+}
+
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.access) {
+      throw new AuthorizationError("Authentication required");
+    }
+    const missing = permissions.filter((p) => !req.access!.permissions.has(p));
+    if (missing.length > 0) {
+      throw new AuthorizationError(
+        `This action requires the ${missing.join(", ")} permission`
+      );
+    }
+    next();
+  };
+}
+
+/**
+ * Where-clause fragment limiting a query to the caller's properties, or `{}`
+ * when they see everything. `build` maps the allowed ids onto the model,
+ * e.g. `(ids) => ({ unit: { propertyId: { in: ids } } })` for leases.
+ */
+export function propertyScopeWhere<T extends object>(
+  req: Request,
+  build: (propertyIds: string[]) => T
+): T | Record<string, never> {
+  const propertyIds = req.access?.propertyIds;
+  return propertyIds ? build(propertyIds) : {};
+}
+
+/** Throws NotFoundError when the property is outside the caller's scope. */
+export function assertPropertyAccess(req: Request, propertyId: string): void {
+  const propertyIds = req.access?.propertyIds;
+  if (propertyIds && !propertyIds.includes(propertyId)) {
+    throw new NotFoundError("Property", propertyId);
+  }
+}
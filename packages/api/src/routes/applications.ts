@@ -0,0 +1,1075 @@
+import { Router } from "express";
+import multer from "multer";
+import type { Request } from "express";
+import type { Prisma, ScreeningReport } from "@prisma/client";
+import {
+  prisma,
+  revealTenantSsn,
+  type TransactionClient,
+} from "../lib/prisma.js";
+import { getStorage, storeUploads } from "../lib/storage.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "../lib/errors.js";
+import { getPaginationMeta } from "../lib/pagination.js";
+import { param } from "../lib/params.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import {
+  assertPropertyAccess,
+  hasPermission,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
+import { auditLog, createAuditEntry } from "../middleware/audit.js";
+import { getClientIp } from "../lib/client-ip.js";
+import {
+  createApplicationSchema,
+  applicationListQuerySchema,
+  applicationIdParamSchema,
+  requestScreeningSchema,
+  decideApplicationSchema,
+  convertApplicationSchema,
+  sendAdverseActionSchema,
+  linkApplicantTenantSchema,
+  publicApplicationSchema,
+  publicUnitParamSchema,
+} from "../schemas/applications.js";
+import type {
+  CreateApplicationInput,
+  ApplicationListQuery,
+  RequestScreeningInput,
+  DecideApplicationInput,
+  ConvertApplicationInput,
+  SendAdverseActionInput,
+  LinkApplicantTenantInput,
+  PublicApplicationInput,
+} from "../schemas/applications.js";
+import {
+  requestScreening,
+  refreshScreening,
+  summarizeScreening,
+  parseReportData,
+  getScreeningProvider,
+} from "../services/screening.js";
+import {
+  generateAdverseActionLetterHTML,
+  saveAdverseActionLetter,
+} from "../services/adverseActionLetter.js";
+import {
+  buildAdverseActionEmail,
+  buildApplicationReceivedEmail,
+} from "../services/email.js";
+import { queueEmail } from "../services/notifications.js";
+import { applicantDetailsToMerge } from "../services/applicantMerge.js";
+import {
+  EMAIL_LINK_TTL_SECONDS,
+  signUploadUrl,
+} from "../services/fileAccess.js";
+import { env } from "../config/env.js";
+
+const router = Router();
+
+// ─── Multer for applicant document uploads ──────────────────────────
+const applicantDocumentStorage = multer.memoryStorage();
+
+const applicantDocumentUpload = multer({
+  storage: applicantDocumentStorage,
+  limits: { fileSize: env.MAX_FILE_SIZE, files: 10 },
+  fileFilter: (_req, file, cb) => {
+    const allowed = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+    if (!allowed.includes(file.mimetype)) {
+      cb(new ValidationError("Only JPEG, PNG, WebP, and PDF files are allowed"));
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+/** Forms submitted faster than this after rendering are treated as bots */
+const MIN_FORM_FILL_MS = 3000;
+
+function removeStoredFiles(keys: string[]) {
+  for (const key of keys) {
+    getStorage().delete(key).catch(() => {});
+  }
+}
+
+type ApplicantInput = PublicApplicationInput["applicant"];
+
+/**
+ * Create a fresh APPLICANT tenant record from the public form. Submissions
+ * are never matched to existing tenants by email: anyone can type any email
+ * address, so linking to a tenant on file is a staff action taken after
+ * review (POST /applications/:id/link-tenant).
+ */
+async function createApplicant(
+  tx: TransactionClient,
+  orgId: string,
+  applicant: ApplicantInput
+) {
+  return tx.tenant.create({
+    data: {
+      organizationId: orgId,
+      firstName: applicant.firstName,
+      lastName: applicant.lastName,
+      email: applicant.email,
+      phone: applicant.phone,
+      dateOfBirth: applicant.dateOfBirth,
+      ssn: applicant.ssn,
+      employerName: applicant.employment?.employerName,
+      monthlyIncome: applicant.employment?.monthlyIncome,
+      status: "APPLICANT",
+    },
+  });
+}
+
+// ─── Public routes: online application form (NO auth required) ─────
+// These must be defined BEFORE the auth middleware
+
+// GET /applications/apply/:unitId — listing details for the form
+router.get(
+  "/apply/:unitId",
+  validate({ params: publicUnitParamSchema }),
+  asyncHandler(async (req, res) => {
+    const unit = await prisma.unit.findFirst({
+      where: { id: param(req, "unitId"), status: "LISTED" },
+      select: {
+        id: true,
+        unitNumber: true,
+        bedrooms: true,
+        bathrooms: true,
+        sqFt: true,
+        rent: true,
+        deposit: true,
+        description: true,
+        amenities: true,
+        photos: {
+          select: { id: true, url: true, caption: true },
+          orderBy: { sortOrder: "asc" },
+        },
+        organization: { select: { name: true } },
+        property: {
+          select: {
+            name: true,
+            address: true,
+            city: true,
+            state: true,
+            zip: true,
+          },
+        },
+      },
+    });
+    if (!unit) {
+      throw new NotFoundError("Listing");
+    }
+
+    res.json({
+      ...unit,
+      photos: unit.photos.map((photo) => ({
+        ...photo,
+        url: signUploadUrl(photo.url),
+      })),
+    });
+  })
+);
+
+// POST /applications/apply/:unitId — submit an application
+// Multipart: `data` holds the JSON form, `documents` the uploaded files
+router.post(
+  "/apply/:unitId",
+  validate({ params: publicUnitParamSchema }),
+  applicantDocumentUpload.array("documents", 10),
+  asyncHandler(async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    let body: PublicApplicationInput;
+    try {
+      const raw = (req.body as { data?: string }).data;
+      if (!raw) {
+        throw new ValidationError("Application data is required");
+      }
+      body = publicApplicationSchema.parse(JSON.parse(raw));
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        throw new ValidationError("Application data must be valid JSON");
+      }
+      throw err;
+    }
+
+    // Bots fill in the hidden field or submit instantly; accept silently so
+    // they get no signal, but store nothing
+    const filledTooFast =
+      body.startedAt !== undefined &&
+      Date.now() - body.startedAt.getTime() < MIN_FORM_FILL_MS;
+    if (body.website || filledTooFast) {
+      res.status(201).json({ message: "Application submitted successfully" });
+      return;
+    }
+
+    const unit = await prisma.unit.findFirst({
+      where: { id: param(req, "unitId"), status: "LISTED" },
+      include: {
+        organization: { select: { name: true } },
+        property: { select: { address: true } },
+      },
+    });
+    if (!unit) {
+      throw new NotFoundError("Listing");
+    }
+
+    const emails = [body.applicant, ...body.coApplicants].map((a) =>
+      a.email.toLowerCase()
+    );
+    if (new Set(emails).size !== emails.length) {
+      throw new ValidationError("Each applicant must use a different email");
+    }
+
+    const duplicate = await prisma.application.findFirst({
+      where: {
+        unitId: unit.id,
+        status: { in: ["SUBMITTED", "SCREENING", "APPROVED"] },
+        tenant: { email: { equals: body.applicant.email, mode: "insensitive" } },
+      },
+    });
+    if (duplicate) {
+      throw new ConflictError(
+        "An application for this unit has already been submitted with this email"
+      );
+    }
+
+    const orgId = unit.organizationId;
+    const consentedAt = new Date();
+    const consentIp = getClientIp(req);
+    const sharedDetails = {
+      currentAddress: body.currentAddress,
+      currentLandlord: body.currentLandlord,
+      notes: body.notes,
+    };
+
+    const documentKeys = await storeUploads(files, "application-doc");
+
+    let application;
+    try {
+      application = await prisma.$transaction(async (tx) => {
+        const tenant = await createApplicant(tx, orgId, body.applicant);
+
+        const primary = await tx.application.create({
+          data: {
+            organizationId: orgId,
+            unitId: unit.id,
+            tenantId: tenant.id,
+            desiredMoveIn: body.desiredMoveIn,
+            details: {
+              ...sharedDetails,
+              employment: body.applicant.employment,
+            } as Prisma.InputJsonValue,
+            consentedAt,
+            consentIp,
+          },
+        });
+
+        for (const coApplicant of body.coApplicants) {
+          const coTenant = await createApplicant(tx, orgId, coApplicant);
+          await tx.application.create({
+            data: {
+              organizationId: orgId,
+              unitId: unit.id,
+              tenantId: coTenant.id,
+              primaryApplicationId: primary.id,
+              desiredMoveIn: body.desiredMoveIn,
+              details: {
+                ...sharedDetails,
+                employment: coApplicant.employment,
+              } as Prisma.InputJsonValue,
+              consentedAt,
+              consentIp,
+            },
+          });
+        }
+
+        if (body.pets.length > 0) {
+          await tx.tenantPet.createMany({
+            data: body.pets.map((pet) => ({ tenantId: tenant.id, ...pet })),
+          });
+        }
+        if (body.vehicles.length > 0) {
+          await tx.tenantVehicle.createMany({
+            data: body.vehicles.map((vehicle) => ({
+              tenantId: tenant.id,
+              ...vehicle,
+            })),
+          });
+        }
+        if (files.length > 0) {
+          await tx.tenantDocument.createMany({
+            data: files.map((file, i) => ({
+              tenantId: tenant.id,
+              organizationId: orgId,
+              name: file.originalname,
+              type: body.documentTypes[i] ?? "OTHER",
+              url: documentKeys[i]!,
+            })),
+          });
+        }
+
+        return { ...primary, tenant };
+      });
+    } catch (err) {
+      removeStoredFiles(documentKeys);
+      throw err;
+    }
+
+    const email = buildApplicationReceivedEmail({
+      applicantName: `${body.applicant.firstName} ${body.applicant.lastName}`,
+      organizationName: unit.organization.name,
+      propertyAddress: unit.property.address,
+      unitNumber: unit.unitNumber,
+    });
+    queueEmail({ to: application.tenant.email, organizationId: orgId, ...email }).catch(() => {});
+
+    res.status(201).json({ message: "Application submitted successfully" });
+  })
+);
+
+// All remaining application routes require auth + tenancy
+router.use(authenticate, tenancy, loadAccess, requireMinRole("TEAM_MEMBER"));
+
+// Scoped team members see applications for units at their properties
+const applicationScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ unit: { propertyId: { in: ids } } }));
+
+const applicationInclude = {
+  tenant: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      status: true,
+    },
+  },
+  unit: {
+    select: {
+      id: true,
+      unitNumber: true,
+      rent: true,
+      status: true,
+      property: { select: { id: true, name: true, address: true } },
+    },
+  },
+} satisfies Prisma.ApplicationInclude;
+
+/** Report findings are consumer report data; only tenants:view_pii sees them. */
+function presentReport(req: Request, report: ScreeningReport) {
+  const { reportData, ...rest } = report;
+  return {
+    ...rest,
+    report: hasPermission(req, "tenants:view_pii")
+      ? parseReportData(reportData)
+      : null,
+  };
+}
+
+function presentScreening(req: Request, reports: ScreeningReport[]) {
+  const summary = summarizeScreening(reports);
+  if (hasPermission(req, "tenants:view_pii")) return summary;
+  return { ...summary, reasons: [] };
+}
+
+async function findApplication(req: Request, id: string) {
+  const application = await prisma.application.findFirst({
+    where: { id, organizationId: req.organizationId!, ...applicationScope(req) },
+  });
+  if (!application) {
+    throw new NotFoundError("Application", id);
+  }
+  return application;
+}
+
+/**
+ * Generate, store and email an FCRA adverse action notice for a denied
+ * application. Reasons default to the findings in its screening reports.
+ */
+async function issueAdverseAction(opts: {
+  applicationId: string;
+  userId: string;
+  reasons?: string[];
+  ipAddress?: string | null;
+}) {
+  const application = await prisma.application.findUniqueOrThrow({
+    where: { id: opts.applicationId },
+    include: {
+      organization: { select: { name: true } },
+      tenant: true,
+      unit: { include: { property: true } },
+      screeningReports: { where: { status: "COMPLETED" } },
+    },
+  });
+
+  const screening = summarizeScreening(application.screeningReports);
+  const reasons =
+    opts.reasons ??
+    (screening.reasons.length > 0
+      ? [...new Set(screening.reasons)]
+      : ["Information contained in your consumer report"]);
+
+  const providers = [
+    ...new Set(application.screeningReports.map((r) => r.provider)),
+  ];
+  const agencies = providers.map((p) => getScreeningProvider(p).agency);
+
+  const creditReport = application.screeningReports.find(
+    (r) => r.type === "CREDIT"
+  );
+  const creditScore = parseReportData(creditReport?.reportData ?? null)
+    ?.details["creditScore"];
+
+  const adverseAction = await prisma.adverseAction.create({
+    data: { applicationId: application.id, reason: reasons.join("; ") },
+  });
+
+  const applicantName = `${application.tenant.firstName} ${application.tenant.lastName}`;
+  const html = generateAdverseActionLetterHTML({
+    adverseActionId: adverseAction.id,
+    organizationName: application.organization.name,
+    applicantName,
+    applicantEmail: application.tenant.email,
+    property: application.unit.property,
+    unitNumber: application.unit.unitNumber,
+    noticeDate: new Date().toISOString(),
+    reasons,
+    agencies,
+    creditScore: typeof creditScore === "number" ? creditScore : null,
+  });
+  const letterUrl = await saveAdverseActionLetter(html, adverseAction.id);
+
+  const email = buildAdverseActionEmail({
+    applicantName,
+    organizationName: application.organization.name,
+    propertyAddress: application.unit.property.address,
+    unitNumber: application.unit.unitNumber,
+    reasons,
+    agencies,
+    letterUrl: `${env.WEB_URL}${signUploadUrl(letterUrl, EMAIL_LINK_TTL_SECONDS)}`,
+  });
+  const sent = await prisma.adverseAction.update({
+    where: { id: adverseAction.id },
+    data: { letterUrl },
+  });
+
+  // The worker stamps `sentAt` once the notice is actually delivered
+  await queueEmail(
+    {
+      to: application.tenant.email,
+      organizationId: application.organizationId,
+      ...email,
+    },
+    adverseAction.id
+  );
+
+  await createAuditEntry({
+    organizationId: application.organizationId,
+    userId: opts.userId,
+    action: "SEND_ADVERSE_ACTION",
+    entityType: "Application",
+    entityId: application.id,
+    changes: {
+      adverseActionId: sent.id,
+      recipient: application.tenant.email,
+      reasons,
+      agencies: agencies.map((a) => a.name),
+      letterUrl,
+    },
+    ipAddress: opts.ipAddress,
+  });
+
+  return sent;
+}
+
+// ─── GET /applications ──────────────────────────────────────────────
+router.get(
+  "/",
+  requirePermission("tenants:view"),
+  validate({ query: applicationListQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const query = req.query as unknown as ApplicationListQuery;
+    const { page, limit, sortOrder, status, unitId, tenantId, propertyId } =
+      query;
+
+    const where: Prisma.ApplicationWhereInput = {
+      organizationId: orgId,
+      ...(status ? { status } : {}),
+      ...(unitId ? { unitId } : {}),
+      ...(tenantId ? { tenantId } : {}),
+      ...(propertyId ? { unit: { propertyId } } : {}),
+      ...applicationScope(req),
+    };
+
+    const [applications, total] = await Promise.all([
+      prisma.application.findMany({
+        where,
+        include: {
+          ...applicationInclude,
+          screeningReports: true,
+        },
+        orderBy: { submittedAt: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.application.count({ where }),
+    ]);
+
+    res.json({
+      data: applications.map(({ screeningReports, ...application }) => ({
+        ...application,
+        screening: presentScreening(req, screeningReports),
+      })),
+      pagination: getPaginationMeta(total, page, limit),
+    });
+  })
+);
+
+// ─── POST /applications ─────────────────────────────────────────────
+router.post(
+  "/",
+  requirePermission("tenants:manage"),
+  validate({ body: createApplicationSchema }),
+  auditLog("CREATE", "Application"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as CreateApplicationInput;
+
+    const [unit, tenant] = await Promise.all([
+      prisma.unit.findFirst({
+        where: { id: body.unitId, organizationId: orgId },
+      }),
+      prisma.tenant.findFirst({
+        where: { id: body.tenantId, organizationId: orgId },
+      }),
+    ]);
+    if (!unit) {
+      throw new NotFoundError("Unit", body.unitId);
+    }
+    assertPropertyAccess(req, unit.propertyId);
+    if (!tenant) {
+      throw new NotFoundError("Tenant", body.tenantId);
+    }
+
+    const open = await prisma.application.findFirst({
+      where: {
+        unitId: unit.id,
+        tenantId: tenant.id,
+        status: { in: ["SUBMITTED", "SCREENING", "APPROVED"] },
+      },
+    });
+    if (open) {
+      throw new ConflictError(
+        "This tenant already has an open application for this unit"
+      );
+    }
+
+    const application = await prisma.$transaction(async (tx) => {
+      if (tenant.status === "PROSPECT") {
+        await tx.tenant.update({
+          where: { id: tenant.id },
+          data: { status: "APPLICANT" },
+        });
+      }
+
+      return tx.application.create({
+        data: {
+          organizationId: orgId,
+          unitId: unit.id,
+          tenantId: tenant.id,
+        },
+        include: applicationInclude,
+      });
+    });
+
+    res.status(201).json(application);
+  })
+);
+
+// ─── GET /applications/:id ──────────────────────────────────────────
+router.get(
+  "/:id",
+  requirePermission("tenants:view"),
+  validate({ params: applicationIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const application = await prisma.application.findFirst({
+      where: {
+        id: param(req, "id"),
+        organizationId: orgId,
+        ...applicationScope(req),
+      },
+      include: {
+        ...applicationInclude,
+        screeningReports: { orderBy: { requestedAt: "desc" } },
+        adverseActions: { orderBy: { sentAt: "desc" } },
+        lease: { select: { id: true, status: true } },
+        primaryApplication: {
+          select: { id: true, status: true, tenant: applicationInclude.tenant },
+        },
+        coApplications: {
+          select: { id: true, status: true, tenant: applicationInclude.tenant },
+        },
+      },
+    });
+    if (!application) {
+      throw new NotFoundError("Application", param(req, "id"));
+    }
+
+    const { screeningReports, ...rest } = application;
+
+    res.json({
+      ...rest,
+      screeningReports: screeningReports.map((r) => presentReport(req, r)),
+      screening: presentScreening(req, screeningReports),
+    });
+  })
+);
+
+// ─── POST /applications/:id/screening ───────────────────────────────
+router.post(
+  "/:id/screening",
+  requirePermission("tenants:manage"),
+  validate({ params: applicationIdParamSchema, body: requestScreeningSchema }),
+  auditLog("REQUEST_SCREENING", "Application"),
+  asyncHandler(async (req, res) => {
+    const body = req.body as RequestScreeningInput;
+
+    const application = await findApplication(req, param(req, "id"));
+    if (
+      application.status !== "SUBMITTED" &&
+      application.status !== "SCREENING"
+    ) {
+      throw new ValidationError(
+        `Screening can only be requested for SUBMITTED or SCREENING applications (currently ${application.status})`
+      );
+    }
+
+    await prisma.application.update({
+      where: { id: application.id },
+      data: { status: "SCREENING" },
+    });
+
+    const reports = await requestScreening(application.id, body.types);
+
+    res.status(201).json({
+      data: reports.map((r) => presentReport(req, r)),
+      screening: presentScreening(req, reports),
+    });
+  })
+);
+
+// ─── POST /applications/:id/screening/refresh ───────────────────────
+// Poll the provider for reports that are still pending
+router.post(
+  "/:id/screening/refresh",
+  requirePermission("tenants:manage"),
+  validate({ params: applicationIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const application = await findApplication(req, param(req, "id"));
+    const updated = await refreshScreening(application.id);
+
+    const reports = await prisma.screeningReport.findMany({
+      where: { applicationId: application.id },
+      orderBy: { requestedAt: "desc" },
+    });
+
+    res.json({
+      updated,
+      data: reports.map((r) => presentReport(req, r)),
+      screening: presentScreening(req, reports),
+    });
+  })
+);
+
+// ─── POST /applications/:id/decision ────────────────────────────────
+router.post(
+  "/:id/decision",
+  requireMinRole("OWNER"),
+  validate({ params: applicationIdParamSchema, body: decideApplicationSchema }),
+  auditLog("DECIDE", "Application"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as DecideApplicationInput;
+
+    const application = await prisma.application.findFirst({
+      where: {
+        id: param(req, "id"),
+        organizationId: orgId,
+        ...applicationScope(req),
+      },
+      include: { screeningReports: true },
+    });
+    if (!application) {
+      throw new NotFoundError("Application", param(req, "id"));
+    }
+
+    if (
+      application.status !== "SUBMITTED" &&
+      application.status !== "SCREENING"
+    ) {
+      throw new ValidationError(
+        `Application has already been decided (currently ${application.status})`
+      );
+    }
+
+    if (
+      body.decision === "APPROVED" &&
+      summarizeScreening(application.screeningReports).pending > 0
+    ) {
+      throw new ValidationError(
+        "Screening is still in progress; refresh the reports before approving"
+      );
+    }
+
+    const updated = await prisma.application.update({
+      where: { id: application.id },
+      data: {
+        status: body.decision,
+        decidedAt: new Date(),
+        decidedBy: req.user!.userId,
+        decisionNotes: body.decisionNotes,
+      },
+      include: applicationInclude,
+    });
+
+    // A denial that relied on a consumer report requires an FCRA notice
+    const usedConsumerReport = application.screeningReports.some(
+      (r) => r.status === "COMPLETED"
+    );
+    const adverseAction =
+      body.decision === "DENIED" && usedConsumerReport
+        ? await issueAdverseAction({
+            applicationId: application.id,
+            userId: req.user!.userId,
+            reasons: body.adverseActionReasons,
+            ipAddress: getClientIp(req),
+          })
+        : null;
+
+    res.json({ ...updated, adverseAction });
+  })
+);
+
+// ─── POST /applications/:id/adverse-action ──────────────────────────
+// Issue (or re-issue) an adverse action notice for a denied application
+router.post(
+  "/:id/adverse-action",
+  requireMinRole("OWNER"),
+  validate({ params: applicationIdParamSchema, body: sendAdverseActionSchema }),
+  asyncHandler(async (req, res) => {
+    const body = req.body as SendAdverseActionInput;
+
+    const application = await findApplication(req, param(req, "id"));
+    if (application.status !== "DENIED") {
+      throw new ValidationError(
+        `Adverse action notices are only sent for DENIED applications (currently ${application.status})`
+      );
+    }
+
+    const adverseAction = await issueAdverseAction({
+      applicationId: application.id,
+      userId: req.user!.userId,
+      reasons: body.reasons,
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json(adverseAction);
+  })
+);
+
+// ─── POST /applications/:id/withdraw ────────────────────────────────
+router.post(
+  "/:id/withdraw",
+  requirePermission("tenants:manage"),
+  validate({ params: applicationIdParamSchema }),
+  auditLog("WITHDRAW", "Application"),
+  asyncHandler(async (req, res) => {
+    const application = await findApplication(req, param(req, "id"));
+    if (
+      application.status === "DENIED" ||
+      application.status === "WITHDRAWN"
+    ) {
+      throw new ValidationError(
+        `Application is already closed (currently ${application.status})`
+      );
+    }
+    if (application.leaseId) {
+      throw new ValidationError(
+        "Application has already been converted to a lease"
+      );
+    }
+
+    const updated = await prisma.application.update({
+      where: { id: application.id },
+      data: { status: "WITHDRAWN" },
+      include: applicationInclude,
+    });
+
+    res.json(updated);
+  })
+);
+
+// ─── POST /applications/:id/link-tenant ─────────────────────────────
+// Merge the applicant record created by the public form into a tenant
+// already on file, once staff have confirmed they are the same person.
+// Blank details on the existing tenant are filled in; nothing is overwritten.
+router.post(
+  "/:id/link-tenant",
+  requireMinRole("OWNER"),
+  validate({ params: applicationIdParamSchema, body: linkApplicantTenantSchema }),
+  auditLog("LINK_TENANT", "Application"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as LinkApplicantTenantInput;
+
+    const application = await prisma.application.findFirst({
+      where: {
+        id: param(req, "id"),
+        organizationId: orgId,
+        ...applicationScope(req),
+      },
+      include: {
+        tenant: {
+          include: {
+            _count: {
+              select: {
+                leaseTenants: true,
+                addendumSignatures: true,
+                transactions: true,
+                payments: true,
+                paymentMethods: true,
+                maintenanceRequests: true,
+                messageThreads: true,
+                renewalResponses: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!application) {
+      throw new NotFoundError("Application", param(req, "id"));
+    }
+
+    const target = await prisma.tenant.findFirst({
+      where: { id: body.tenantId, organizationId: orgId },
+    });
+    if (!target) {
+      throw new NotFoundError("Tenant", body.tenantId);
+    }
+
+    const source = application.tenant;
+    if (source.id === target.id) {
+      throw new ValidationError("Application is already linked to this tenant");
+    }
+    if (application.leaseId) {
+      throw new ValidationError(
+        "Application has already been converted to a lease"
+      );
+    }
+    // Only the untouched record the public form created can be folded away
+    const sourceInUse =
+      source.status !== "APPLICANT" ||
+      source.userId !== null ||
+      Object.values(source._count).some((count) => count > 0);
+    if (sourceInUse) {
+      throw new ValidationError(
+        "The applicant's tenant record is already in use and cannot be merged"
+      );
+    }
+
+    const blanks = applicantDetailsToMerge(
+      {
+        phone: source.phone,
+        dateOfBirth: source.dateOfBirth,
+        ssn: await revealTenantSsn(source.id),
+        employerName: source.employerName,
+        monthlyIncome: source.monthlyIncome,
+      },
+      target
+    );
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const moved = { where: { tenantId: source.id }, data: { tenantId: target.id } };
+      await tx.application.updateMany(moved);
+      await tx.tenantPet.updateMany(moved);
+      await tx.tenantVehicle.updateMany(moved);
+      await tx.tenantDocument.updateMany(moved);
+      await tx.document.updateMany(moved);
+
+      await tx.tenant.update({
+        where: { id: target.id },
+        data: {
+          ...blanks,
+          ...(target.status === "PROSPECT" || target.status === "FORMER"
+            ? { status: "APPLICANT" }
+            : {}),
+        },
+      });
+      await tx.tenant.delete({ where: { id: source.id } });
+
+      return tx.application.findUniqueOrThrow({
+        where: { id: application.id },
+        include: applicationInclude,
+      });
+    });
+
+    res.json(updated);
+  })
+);
+
+// ─── POST /applications/:id/convert ─────────────────────────────────
+// Create a DRAFT lease for an approved applicant
+router.post(
+  "/:id/convert",
+  requirePermission("leases:manage"),
+  validate({ params: applicationIdParamSchema, body: convertApplicationSchema }),
+  auditLog("CONVERT", "Application"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as ConvertApplicationInput;
+
+    const application = await prisma.application.findFirst({
+      where: {
+        id: param(req, "id"),
+        organizationId: orgId,
+        ...applicationScope(req),
+      },
+      include: { unit: true },
+    });
+    if (!application) {
+      throw new NotFoundError("Application", param(req, "id"));
+    }
+
+    if (application.status !== "APPROVED") {
+      throw new ValidationError(
+        `Only APPROVED applications can be converted (currently ${application.status})`
+      );
+    }
+    if (application.leaseId) {
+      throw new ConflictError(
+        "Application has already been converted to a lease"
+      );
+    }
+
+    if (body.endDate <= body.startDate) {
+      throw new ValidationError("End date must be after start date");
+    }
+
+    const activeLease = await prisma.lease.findFirst({
+      where: {
+        unitId: application.unitId,
+        status: { in: ["ACTIVE", "PENDING_SIGNATURE"] },
+      },
+    });
+    if (activeLease) {
+      throw new ValidationError(
+        "This unit already has an active or pending lease"
+      );
+    }
+
+    // Approved co-applicants join the lease alongside the primary applicant
+    const coApplicants = await prisma.application.findMany({
+      where: { primaryApplicationId: application.id, status: "APPROVED" },
+      select: { tenantId: true },
+    });
+    const tenantIds = [
+      ...new Set([
+        application.tenantId,
+        ...coApplicants.map((c) => c.tenantId),
+        ...body.additionalTenantIds,
+      ]),
+    ];
+    const tenantCount = await prisma.tenant.count({
+      where: { id: { in: tenantIds }, organizationId: orgId },
+    });
+    if (tenantCount !== tenantIds.length) {
+      throw new ValidationError(
+        "One or more tenant IDs are invalid or do not belong to this organization"
+      );
+    }
+
+    const lease = await prisma.$transaction(async (tx) => {
+      const created = await tx.lease.create({
+        data: {
+          organizationId: orgId,
+          unitId: application.unitId,
+          startDate: body.startDate,
+          endDate: body.endDate,
+          monthlyRent: body.monthlyRent ?? application.unit.rent,
+          securityDeposit:
+            body.securityDeposit ?? application.unit.deposit ?? 0,
+          lateFeeAmount: body.lateFeeAmount,
+          lateFeeType: body.lateFeeType,
+          gracePeriodDays: body.gracePeriodDays,
+          rentDueDay: body.rentDueDay,
+          terms: { source: "application", applicationId: application.id },
+          status: "DRAFT",
+        },
+      });
+
+      await tx.leaseTenant.createMany({
+        data: tenantIds.map((tenantId) => ({
+          leaseId: created.id,
+          tenantId,
+          isPrimary: tenantId === application.tenantId,
+        })),
+      });
+
+      // Compare-and-set so two concurrent conversions can't both succeed
+      const claimed = await tx.application.updateMany({
+        where: { id: application.id, leaseId: null },
+        data: { leaseId: created.id },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictError(
+          "Application has already been converted to a lease"
+        );
+      }
+
+      return tx.lease.findUnique({
+        where: { id: created.id },
+        include: {
+          unit: {
+            select: {
+              id: true,
+              unitNumber: true,
+              property: { select: { id: true, name: true } },
+            },
+          },
+          tenants: {
+            include: {
+              tenant: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    res.status(201).json(lease);
+  })
+);
+
+export default router;
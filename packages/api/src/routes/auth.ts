@@ -1,40 +1,121 @@
 import { Router } from "express";
+import type { Request, Response } from "express";
+import type { Organization, User } from "@prisma/client";
 import { randomBytes } from "crypto";
 import bcrypt from "bcryptjs";
 import { prisma } from "../lib/prisma.js";
 import { asyncHandler } from "../lib/async-handler.js";
-import {
-  signAccessToken,
-  generateRefreshToken,
-  parseExpiryToMs,
-} from "../lib/tokens.js";
+import { signAccessToken } from "../lib/tokens.js";
 import { env } from "../config/env.js";
 import {
   AuthenticationError,
+  AuthorizationError,
   ConflictError,
   NotFoundError,
   ValidationError,
 } from "../lib/errors.js";
 import { validate } from "../middleware/validate.js";
-import { authenticate } from "../middleware/auth.js";
-import { sendEmail, buildPasswordResetEmail } from "../services/email.js";
+import { authenticate, optionalAuth } from "../middleware/auth.js";
+import { clearAuthCookies, readRefreshCookie, setAuthCookies } from "../lib/auth-cookies.js";
+import { createAuditEntry } from "../middleware/audit.js";
+import { getClientIp } from "../lib/client-ip.js";
+import { buildPasswordResetEmail } from "../services/email.js";
+import { queueEmail } from "../services/notifications.js";
 import {
   registerSchema,
   loginSchema,
-  refreshSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  acceptInvitationSchema,
+  invitationTokenParamSchema,
+  sessionIdParamSchema,
+  loginTwoFactorSchema,
+  twoFactorSetupSchema,
+  twoFactorEnableSchema,
+  twoFactorDisableSchema,
+  twoFactorCodeSchema,
 } from "../schemas/auth.js";
 import type {
   RegisterInput,
   LoginInput,
-  RefreshInput,
   ForgotPasswordInput,
   ResetPasswordInput,
+  AcceptInvitationInput,
+  LoginTwoFactorInput,
+  TwoFactorSetupInput,
+  TwoFactorEnableInput,
+  TwoFactorDisableInput,
+  TwoFactorCodeInput,
 } from "../schemas/auth.js";
+import { param } from "../lib/params.js";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  signTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from "../services/twoFactor.js";
+import {
+  createSession,
+  listSessions,
+  recordSignInDevice,
+  rotateRefreshToken,
+} from "../services/sessions.js";
 
 const router = Router();
 
+/** Who is signed in, as returned by login, register and refresh. */
+function sessionProfile(user: User, organization: Organization) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+    },
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      plan: organization.plan,
+    },
+  };
+}
+
+/**
+ * Opens a session once every sign-in factor has been checked. The refresh
+ * token goes out as an httpOnly cookie; only the access token is returned.
+ */
+async function startSession(
+  user: User & { organization: Organization },
+  req: Request,
+  res: Response
+) {
+  const { session, refreshToken } = await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+    return createSession(user.id, req, tx);
+  });
+
+  const accessToken = signAccessToken({
+    userId: user.id,
+    organizationId: user.organizationId,
+    role: user.role,
+    sessionId: session.id,
+  });
+
+  await recordSignInDevice(user, req);
+  setAuthCookies(req, res, refreshToken);
+
+  return { accessToken, ...sessionProfile(user, user.organization) };
+}
+
 function slugify(name: string): string {
   return name
     .toLowerCase()
@@ -88,18 +169,7 @@ router.post(
         },
       });
 
-      const refreshToken = generateRefreshToken();
-      const refreshExpiresMs = parseExpiryToMs(env.JWT_REFRESH_EXPIRY);
-
-      await tx.session.create({
-        data: {
-          userId: user.id,
-          refreshToken,
-          expiresAt: new Date(Date.now() + refreshExpiresMs),
-          ipAddress: req.ip ?? req.socket.remoteAddress,
-          userAgent: req.headers["user-agent"],
-        },
-      });
+      const { session, refreshToken } = await createSession(user.id, req, tx);
 
       // Create default expense categories
       const defaultCategories = [
@@ -137,27 +207,18 @@ router.post(
         userId: user.id,
         organizationId: organization.id,
         role: user.role,
+        sessionId: session.id,
       });
 
       return { organization, user, accessToken, refreshToken };
     });
 
+    await recordSignInDevice(result.user, req);
+    setAuthCookies(req, res, result.refreshToken);
+
     res.status(201).json({
       accessToken: result.accessToken,
-      refreshToken: result.refreshToken,
-      user: {
-        id: result.user.id,
-        email: result.user.email,
-        firstName: result.user.firstName,
-        lastName: result.user.lastName,
-        role: result.user.role,
-      },
-      organization: {
-        id: result.organization.id,
-        name: result.organization.name,
-        slug: result.organization.slug,
-        plan: result.organization.plan,
-      },
+      ...sessionProfile(result.user, result.organization),
     });
   })
 );
@@ -183,129 +244,362 @@ router.post(
       throw new AuthenticationError("Invalid email or password");
     }
 
-    const accessToken = signAccessToken({
-      userId: user.id,
-      organizationId: user.organizationId,
-      role: user.role,
-    });
+    if (!user.isActive) {
+      throw new AuthenticationError("This account has been deactivated");
+    }
 
-    const refreshToken = generateRefreshToken();
-    const refreshExpiresMs = parseExpiryToMs(env.JWT_REFRESH_EXPIRY);
+    // Password was right; the client finishes with POST /auth/login/2fa
+    if (user.twoFactorEnabledAt) {
+      res.json({
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id, "login"),
+      });
+      return;
+    }
 
-    await prisma.$transaction([
-      prisma.session.create({
-        data: {
-          userId: user.id,
-          refreshToken,
-          expiresAt: new Date(Date.now() + refreshExpiresMs),
-          ipAddress: req.ip ?? req.socket.remoteAddress,
-          userAgent: req.headers["user-agent"],
-        },
-      }),
-      prisma.user.update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
-      }),
-    ]);
+    // No session until the user enrolls via /auth/2fa/setup and /enable
+    if (isTwoFactorRequired(user.role, user.organization)) {
+      res.json({
+        twoFactorSetupRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id, "enroll"),
+      });
+      return;
+    }
 
-    res.json({
-      accessToken,
-      refreshToken,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      },
-      organization: {
-        id: user.organization.id,
-        name: user.organization.name,
-        slug: user.organization.slug,
-        plan: user.organization.plan,
-      },
-    });
+    res.json(await startSession(user, req, res));
   })
 );
 
-// POST /auth/refresh
+// POST /auth/login/2fa — Second step of sign-in
 router.post(
-  "/refresh",
-  validate({ body: refreshSchema }),
+  "/login/2fa",
+  validate({ body: loginTwoFactorSchema }),
   asyncHandler(async (req, res) => {
-    const { refreshToken } = req.body as RefreshInput;
+    const body = req.body as LoginTwoFactorInput;
+    const userId = verifyTwoFactorChallenge(body.challengeToken, "login");
 
-    const session = await prisma.session.findUnique({
-      where: { refreshToken },
-      include: {
-        user: {
-          include: { organization: true },
-        },
-      },
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { organization: true },
     });
+    if (!user?.isActive || !user.twoFactorEnabledAt) {
+      throw new AuthenticationError("Your sign-in has expired. Please sign in again.");
+    }
+
+    if (!(await verifySecondFactor(user, body))) {
+      throw new AuthenticationError(
+        body.code ? "Invalid authentication code" : "Invalid recovery code"
+      );
+    }
+
+    if (body.recoveryCode) {
+      createAuditEntry({
+        organizationId: user.organizationId,
+        userId: user.id,
+        action: "USE_RECOVERY_CODE",
+        entityType: "User",
+        entityId: user.id,
+        changes: { remaining: user.twoFactorRecoveryCodes.length - 1 },
+        ipAddress: getClientIp(req),
+      });
+    }
 
-    if (!session) {
-      throw new AuthenticationError("Invalid refresh token");
+    res.json(await startSession(user, req, res));
+  })
+);
+
+// POST /auth/refresh — Also how clients restore a session on page load
+router.post(
+  "/refresh",
+  asyncHandler(async (req, res) => {
+    const presentedToken = readRefreshCookie(req);
+    if (!presentedToken) {
+      throw new AuthenticationError("Not signed in");
     }
 
-    if (session.expiresAt < new Date()) {
+    const { session, refreshToken } = await rotateRefreshToken(presentedToken, req);
+
+    if (!session.user.isActive) {
       await prisma.session.delete({ where: { id: session.id } });
-      throw new AuthenticationError("Refresh token has expired");
+      throw new AuthenticationError("This account has been deactivated");
     }
 
-    // Rotate refresh token
-    const newRefreshToken = generateRefreshToken();
-    const refreshExpiresMs = parseExpiryToMs(env.JWT_REFRESH_EXPIRY);
-
-    await prisma.session.update({
-      where: { id: session.id },
-      data: {
-        refreshToken: newRefreshToken,
-        expiresAt: new Date(Date.now() + refreshExpiresMs),
-        ipAddress: req.ip ?? req.socket.remoteAddress,
-        userAgent: req.headers["user-agent"],
-      },
-    });
+    // Sessions from before the organization turned on the 2FA policy
+    if (
+      isTwoFactorRequired(session.user.role, session.user.organization) &&
+      !session.user.twoFactorEnabledAt
+    ) {
+      await prisma.session.delete({ where: { id: session.id } });
+      throw new AuthenticationError(
+        "Your organization requires two-factor authentication. Sign in again to set it up."
+      );
+    }
 
     const accessToken = signAccessToken({
       userId: session.user.id,
       organizationId: session.user.organizationId,
       role: session.user.role,
+      sessionId: session.id,
     });
 
-    res.json({
-      accessToken,
-      refreshToken: newRefreshToken,
-    });
+    setAuthCookies(req, res, refreshToken);
+    res.json({ accessToken, ...sessionProfile(session.user, session.user.organization) });
   })
 );
 
-// POST /auth/logout
+// POST /auth/logout — Works from the cookie alone, so an expired access
+// token doesn't leave the session behind
 router.post(
   "/logout",
-  authenticate,
+  optionalAuth,
   asyncHandler(async (req, res) => {
-    const refreshToken =
-      (req.body as { refreshToken?: string }).refreshToken;
+    const refreshToken = readRefreshCookie(req);
 
     if (refreshToken) {
+      await prisma.session.deleteMany({ where: { refreshToken } });
+    } else if (req.user?.sessionId) {
       await prisma.session.deleteMany({
-        where: {
-          refreshToken,
-          userId: req.user!.userId,
-        },
-      });
-    } else {
-      // Delete all sessions for this user
-      await prisma.session.deleteMany({
-        where: { userId: req.user!.userId },
+        where: { id: req.user.sessionId, userId: req.user.userId },
       });
     }
 
+    clearAuthCookies(req, res);
     res.json({ message: "Logged out successfully" });
   })
 );
 
+// POST /auth/logout-all — Sign out every device, including this one
+router.post(
+  "/logout-all",
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const { count } = await prisma.session.deleteMany({
+      where: { userId: req.user!.userId },
+    });
+
+    createAuditEntry({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: "LOGOUT_ALL",
+      entityType: "User",
+      entityId: req.user!.userId,
+      changes: { sessionsRevoked: count },
+      ipAddress: getClientIp(req),
+    });
+
+    clearAuthCookies(req, res);
+    res.json({ message: "Signed out of all devices" });
+  })
+);
+
+// GET /auth/sessions
+router.get(
+  "/sessions",
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const sessions = await listSessions(req.user!.userId, req.user!.sessionId);
+    res.json({ data: sessions });
+  })
+);
+
+// DELETE /auth/sessions/:id — Sign out one device
+router.delete(
+  "/sessions/:id",
+  authenticate,
+  validate({ params: sessionIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const sessionId = param(req, "id");
+    const { count } = await prisma.session.deleteMany({
+      where: { id: sessionId, userId: req.user!.userId },
+    });
+    if (count === 0) {
+      throw new NotFoundError("Session", sessionId);
+    }
+
+    createAuditEntry({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: "REVOKE_SESSION",
+      entityType: "Session",
+      entityId: sessionId,
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({ message: "Session revoked" });
+  })
+);
+
+// ─── Two-factor authentication ──────────────────────────────────────
+
+/**
+ * The user setting up 2FA: whoever is signed in, or someone whose sign-in
+ * is waiting on enrollment because their organization requires it.
+ */
+async function enrollingUser(req: Request, challengeToken?: string) {
+  const userId = req.user?.userId
+    ?? (challengeToken ? verifyTwoFactorChallenge(challengeToken, "enroll") : null);
+  if (!userId) {
+    throw new AuthenticationError();
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { organization: true },
+  });
+  if (!user?.isActive) {
+    throw new AuthenticationError();
+  }
+  if (user.role === "TENANT") {
+    throw new AuthorizationError("Two-factor authentication is available to owners and team members");
+  }
+  return user;
+}
+
+// GET /auth/2fa — Enrollment status for the signed-in user
+router.get(
+  "/2fa",
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.userId },
+      select: {
+        role: true,
+        twoFactorEnabledAt: true,
+        twoFactorRecoveryCodes: true,
+        organization: { select: { requireTwoFactor: true } },
+      },
+    });
+    res.json({
+      enabled: !!user.twoFactorEnabledAt,
+      enabledAt: user.twoFactorEnabledAt,
+      required: isTwoFactorRequired(user.role, user.organization),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+    });
+  })
+);
+
+// POST /auth/2fa/setup — New secret and QR code to scan
+router.post(
+  "/2fa/setup",
+  optionalAuth,
+  validate({ body: twoFactorSetupSchema }),
+  asyncHandler(async (req, res) => {
+    const { challengeToken } = req.body as TwoFactorSetupInput;
+    const user = await enrollingUser(req, challengeToken);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json(await beginTwoFactorEnrollment(user));
+  })
+);
+
+// POST /auth/2fa/enable — Confirm the first code and turn 2FA on
+router.post(
+  "/2fa/enable",
+  optionalAuth,
+  validate({ body: twoFactorEnableSchema }),
+  asyncHandler(async (req, res) => {
+    const { challengeToken, code } = req.body as TwoFactorEnableInput;
+    const signedIn = !!req.user;
+    const user = await enrollingUser(req, challengeToken);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user, code);
+    if (!recoveryCodes) {
+      throw new ValidationError(
+        "That code didn't match. Check the time on your device and try again."
+      );
+    }
+
+    createAuditEntry({
+      organizationId: user.organizationId,
+      userId: user.id,
+      action: "ENABLE_2FA",
+      entityType: "User",
+      entityId: user.id,
+      ipAddress: getClientIp(req),
+    });
+
+    res.set("Cache-Control", "no-store");
+    // Enrolling during a required sign-in completes that sign-in
+    res.json(signedIn ? { recoveryCodes } : { recoveryCodes, ...(await startSession(user, req, res)) });
+  })
+);
+
+// POST /auth/2fa/disable
+router.post(
+  "/2fa/disable",
+  authenticate,
+  validate({ body: twoFactorDisableSchema }),
+  asyncHandler(async (req, res) => {
+    const { password, code } = req.body as TwoFactorDisableInput;
+    const user = await enrollingUser(req);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+    if (isTwoFactorRequired(user.role, user.organization)) {
+      throw new ValidationError("Your organization requires two-factor authentication");
+    }
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      throw new ValidationError("Incorrect password");
+    }
+    if (!(await verifySecondFactor(user, { code }))) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    await disableTwoFactor(user.id);
+
+    createAuditEntry({
+      organizationId: user.organizationId,
+      userId: user.id,
+      action: "DISABLE_2FA",
+      entityType: "User",
+      entityId: user.id,
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({ message: "Two-factor authentication disabled" });
+  })
+);
+
+// POST /auth/2fa/recovery-codes — Replace all recovery codes
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  validate({ body: twoFactorCodeSchema }),
+  asyncHandler(async (req, res) => {
+    const { code } = req.body as TwoFactorCodeInput;
+    const user = await enrollingUser(req);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+    if (!(await verifySecondFactor(user, { code }))) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    createAuditEntry({
+      organizationId: user.organizationId,
+      userId: user.id,
+      action: "REGENERATE_RECOVERY_CODES",
+      entityType: "User",
+      entityId: user.id,
+      ipAddress: getClientIp(req),
+    });
+
+    res.set("Cache-Control", "no-store");
+    res.json({ recoveryCodes });
+  })
+);
+
 // POST /auth/forgot-password
 router.post(
   "/forgot-password",
@@ -316,7 +610,7 @@ router.post(
     // Always return success to prevent email enumeration
     const user = await prisma.user.findUnique({ where: { email } });
 
-    if (user) {
+    if (user?.isActive) {
       const resetToken = randomBytes(32).toString("hex");
       const resetExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
 
@@ -336,7 +630,7 @@ router.post(
         recipientName: `${user.firstName} ${user.lastName}`,
         resetUrl,
       });
-      sendEmail({ to: user.email, ...emailContent }).catch(() => {});
+      queueEmail({ to: user.email, ...emailContent }).catch(() => {});
     }
 
     res.json({
@@ -368,17 +662,109 @@ router.post(
 
     const passwordHash = await bcrypt.hash(password, 12);
 
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        passwordHash,
-        passwordResetToken: null,
-        passwordResetExpires: null,
+    // Whoever prompted the reset may already be signed in; sign out everywhere
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordHash,
+          passwordResetToken: null,
+          passwordResetExpires: null,
+        },
+      }),
+      prisma.session.deleteMany({ where: { userId: user.id } }),
+    ]);
+
+    res.json({
+      message: "Password has been reset successfully. You can now log in with your new password.",
+    });
+  })
+);
+
+// GET /auth/invitations/:token — Details for the accept page
+router.get(
+  "/invitations/:token",
+  validate({ params: invitationTokenParamSchema }),
+  asyncHandler(async (req, res) => {
+    const invitation = await prisma.teamInvitation.findUnique({
+      where: { token: param(req, "token") },
+      include: {
+        organization: { select: { name: true } },
+        invitedBy: { select: { firstName: true, lastName: true } },
       },
     });
 
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+      throw new NotFoundError("Invitation");
+    }
+
     res.json({
-      message: "Password has been reset successfully. You can now log in with your new password.",
+      email: invitation.email,
+      organizationName: invitation.organization.name,
+      invitedBy: `${invitation.invitedBy.firstName} ${invitation.invitedBy.lastName}`,
+      expiresAt: invitation.expiresAt,
+    });
+  })
+);
+
+// POST /auth/accept-invitation
+router.post(
+  "/accept-invitation",
+  validate({ body: acceptInvitationSchema }),
+  asyncHandler(async (req, res) => {
+    const body = req.body as AcceptInvitationInput;
+
+    const invitation = await prisma.teamInvitation.findUnique({
+      where: { token: body.token },
+      include: { properties: { select: { id: true } } },
+    });
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+      throw new ValidationError(
+        "This invitation is invalid or has expired. Ask your administrator to send a new one."
+      );
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email: invitation.email } });
+    if (existing) {
+      throw new ConflictError("An account with this email already exists");
+    }
+
+    const passwordHash = await bcrypt.hash(body.password, 12);
+
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          organizationId: invitation.organizationId,
+          email: invitation.email,
+          passwordHash,
+          firstName: body.firstName,
+          lastName: body.lastName,
+          phone: body.phone,
+          role: "TEAM_MEMBER",
+          // The access the owner chose when inviting; no properties otherwise
+          permissionRoleId: invitation.permissionRoleId,
+          allPropertiesAccess: invitation.allPropertiesAccess,
+          accessibleProperties: { connect: invitation.properties },
+        },
+      });
+      await tx.teamInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      });
+      return created;
+    });
+
+    createAuditEntry({
+      organizationId: user.organizationId,
+      userId: user.id,
+      action: "ACCEPT_INVITATION",
+      entityType: "TeamInvitation",
+      entityId: invitation.id,
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      message: "Your account has been created. You can now sign in.",
     });
   })
 );
@@ -0,0 +1,366 @@
+import { Router } from "express";
+import type { Request } from "express";
+import multer from "multer";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { getStorage, storeUploads } from "../lib/storage.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { getPaginationMeta } from "../lib/pagination.js";
+import { param } from "../lib/params.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import {
+  assertPropertyAccess,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+} from "../middleware/rbac.js";
+import { auditLog } from "../middleware/audit.js";
+import {
+  uploadDocumentSchema,
+  updateDocumentSchema,
+  documentListQuerySchema,
+  documentIdParamSchema,
+} from "../schemas/documents.js";
+import type {
+  UpdateDocumentInput,
+  DocumentListQuery,
+} from "../schemas/documents.js";
+import { env } from "../config/env.js";
+
+const router = Router();
+
+// ─── Multer for library uploads ─────────────────────────────────────
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.MAX_FILE_SIZE },
+  fileFilter: (_req, file, cb) => {
+    const allowed = [
+      "image/jpeg",
+      "image/png",
+      "image/webp",
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "text/plain",
+      "text/csv",
+    ];
+    if (!allowed.includes(file.mimetype)) {
+      cb(
+        new ValidationError(
+          "Only images, PDF, Word, Excel, text and CSV files are allowed"
+        )
+      );
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+const documentInclude = {
+  property: { select: { id: true, name: true } },
+  unit: { select: { id: true, unitNumber: true } },
+  tenant: { select: { id: true, firstName: true, lastName: true } },
+  uploader: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.DocumentInclude;
+
+interface DocumentScope {
+  propertyId: string | null;
+  unitId: string | null;
+  tenantId: string | null;
+}
+
+/**
+ * Check that the property, unit and tenant a document is filed under belong
+ * to the organization. A unit implies its property.
+ */
+async function resolveScope(orgId: string, scope: DocumentScope): Promise<DocumentScope> {
+  let { propertyId } = scope;
+
+  if (scope.unitId) {
+    const unit = await prisma.unit.findFirst({
+      where: { id: scope.unitId, organizationId: orgId },
+      select: { propertyId: true },
+    });
+    if (!unit) {
+      throw new NotFoundError("Unit", scope.unitId);
+    }
+    if (propertyId && propertyId !== unit.propertyId) {
+      throw new ValidationError("Unit does not belong to the selected property");
+    }
+    propertyId = unit.propertyId;
+  }
+
+  if (propertyId) {
+    const property = await prisma.property.findFirst({
+      where: { id: propertyId, organizationId: orgId },
+      select: { id: true },
+    });
+    if (!property) {
+      throw new NotFoundError("Property", propertyId);
+    }
+  }
+
+  if (scope.tenantId) {
+    const tenant = await prisma.tenant.findFirst({
+      where: { id: scope.tenantId, organizationId: orgId },
+      select: { id: true },
+    });
+    if (!tenant) {
+      throw new NotFoundError("Tenant", scope.tenantId);
+    }
+  }
+
+  return { propertyId, unitId: scope.unitId, tenantId: scope.tenantId };
+}
+
+// Staff only; tenants see shared documents through /portal/documents
+router.use(authenticate, tenancy, loadAccess, requireMinRole("TEAM_MEMBER"));
+
+// Scoped team members see documents filed under their properties, under
+// tenants at their properties, and organization-wide documents
+const documentScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({
+    AND: [
+      {
+        OR: [
+          { propertyId: { in: ids } },
+          { propertyId: null, tenantId: null },
+          {
+            propertyId: null,
+            tenant: {
+              OR: [
+                { currentUnit: { propertyId: { in: ids } } },
+                { leaseTenants: { some: { lease: { unit: { propertyId: { in: ids } } } } } },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  }));
+
+// ─── GET /documents ─────────────────────────────────────────────────
+router.get(
+  "/",
+  validate({ query: documentListQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const query = req.query as unknown as DocumentListQuery;
+    const {
+      page,
+      limit,
+      sortBy,
+      sortOrder,
+      propertyId,
+      unitId,
+      tenantId,
+      type,
+      folder,
+      tag,
+      shared,
+      search,
+    } = query;
+
+    const where: Prisma.DocumentWhereInput = {
+      organizationId: orgId,
+      ...documentScope(req),
+      ...(propertyId ? { propertyId } : {}),
+      ...(unitId ? { unitId } : {}),
+      ...(tenantId ? { tenantId } : {}),
+      ...(type ? { type } : {}),
+      ...(folder ? { folder } : {}),
+      ...(tag ? { tags: { array_contains: [tag] } } : {}),
+      ...(shared !== undefined ? { sharedWithTenant: shared } : {}),
+      ...(search
+        ? {
+            OR: [
+              { name: { contains: search, mode: "insensitive" } },
+              { description: { contains: search, mode: "insensitive" } },
+            ],
+          }
+        : {}),
+    };
+
+    const orderBy = sortBy
+      ? { [sortBy]: sortOrder }
+      : { createdAt: sortOrder };
+
+    const [documents, total] = await Promise.all([
+      prisma.document.findMany({
+        where,
+        include: documentInclude,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.document.count({ where }),
+    ]);
+
+    res.json({
+      data: documents,
+      pagination: getPaginationMeta(total, page, limit),
+    });
+  })
+);
+
+// ─── GET /documents/folders ─────────────────────────────────────────
+// Folder names in use, for filters and the upload form
+router.get(
+  "/folders",
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const folders = await prisma.document.groupBy({
+      by: ["folder"],
+      where: { organizationId: orgId, folder: { not: null }, ...documentScope(req) },
+      _count: { _all: true },
+      orderBy: { folder: "asc" },
+    });
+
+    res.json({
+      data: folders.map((f) => ({ name: f.folder!, count: f._count._all })),
+    });
+  })
+);
+
+// ─── POST /documents ────────────────────────────────────────────────
+router.post(
+  "/",
+  upload.single("file"),
+  auditLog("UPLOAD_DOCUMENT", "Document"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    if (!req.file) {
+      throw new ValidationError("A document file is required");
+    }
+
+    const body = uploadDocumentSchema.parse(req.body);
+    const scope = await resolveScope(orgId, {
+      propertyId: body.propertyId ?? null,
+      unitId: body.unitId ?? null,
+      tenantId: body.tenantId ?? null,
+    });
+    if (scope.propertyId) assertPropertyAccess(req, scope.propertyId);
+
+    const [key] = await storeUploads([req.file], "document");
+
+    const document = await prisma.document.create({
+      data: {
+        organizationId: orgId,
+        ...scope,
+        name: body.name ?? req.file.originalname,
+        type: body.type,
+        description: body.description,
+        folder: body.folder,
+        tags: [...new Set(body.tags ?? [])],
+        sharedWithTenant: body.sharedWithTenant ?? false,
+        url: key!,
+        size: req.file.size,
+        mimeType: req.file.mimetype,
+        uploadedBy: req.user!.userId,
+      },
+      include: documentInclude,
+    });
+
+    res.status(201).json(document);
+  })
+);
+
+// ─── GET /documents/:id ─────────────────────────────────────────────
+router.get(
+  "/:id",
+  validate({ params: documentIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const document = await prisma.document.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...documentScope(req) },
+      include: documentInclude,
+    });
+    if (!document) {
+      throw new NotFoundError("Document", param(req, "id"));
+    }
+
+    res.json(document);
+  })
+);
+
+// ─── PATCH /documents/:id ───────────────────────────────────────────
+router.patch(
+  "/:id",
+  validate({ params: documentIdParamSchema, body: updateDocumentSchema }),
+  auditLog("UPDATE", "Document"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as UpdateDocumentInput;
+
+    const existing = await prisma.document.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...documentScope(req) },
+    });
+    if (!existing) {
+      throw new NotFoundError("Document", param(req, "id"));
+    }
+
+    const { propertyId, unitId, tenantId, tags, ...fields } = body;
+    const scopeChanged =
+      propertyId !== undefined || unitId !== undefined || tenantId !== undefined;
+    const scope: Partial<DocumentScope> = scopeChanged
+      ? await resolveScope(orgId, {
+          // Moving a document to another property drops its old unit
+          propertyId: propertyId === undefined ? existing.propertyId : propertyId,
+          unitId:
+            unitId !== undefined
+              ? unitId
+              : propertyId !== undefined && propertyId !== existing.propertyId
+                ? null
+                : existing.unitId,
+          tenantId: tenantId === undefined ? existing.tenantId : tenantId,
+        })
+      : {};
+    if (scope.propertyId) assertPropertyAccess(req, scope.propertyId);
+
+    const document = await prisma.document.update({
+      where: { id: param(req, "id") },
+      data: {
+        ...fields,
+        ...scope,
+        ...(tags ? { tags: [...new Set(tags)] } : {}),
+      },
+      include: documentInclude,
+    });
+
+    res.json(document);
+  })
+);
+
+// ─── DELETE /documents/:id ──────────────────────────────────────────
+router.delete(
+  "/:id",
+  validate({ params: documentIdParamSchema }),
+  auditLog("DELETE", "Document"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const document = await prisma.document.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...documentScope(req) },
+    });
+    if (!document) {
+      throw new NotFoundError("Document", param(req, "id"));
+    }
+
+    await prisma.document.delete({ where: { id: document.id } });
+    await getStorage()
+      .delete(document.url)
+      .catch(() => {});
+
+    res.json({ message: "Document deleted successfully" });
+  })
+);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { parseExpiryToMs } from "../lib/tokens.js";
+import { env } from "../config/env.js";
+import { addRealtimeClient } from "../services/realtime.js";
+
+const router = Router();
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+router.use(authenticate, tenancy);
+
+// ─── GET /events — Server-sent events for the signed-in user ────────
+// The stream ends after one access-token lifetime; the client reconnects
+// with a fresh token, so revoked sessions stop receiving events.
+router.get("/", (req, res) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const removeClient = addRealtimeClient({
+    userId: req.user!.userId,
+    organizationId: req.organizationId!,
+    role: req.user!.role,
+    send: (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    },
+  });
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  const expiry = setTimeout(() => res.end(), parseExpiryToMs(env.JWT_ACCESS_EXPIRY));
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    removeClient();
+  });
+});
+
+export default router;
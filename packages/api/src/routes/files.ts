@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/async-handler.js";
+import { NotFoundError } from "../lib/errors.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { loadAccess } from "../middleware/rbac.js";
+import { signFilesSchema } from "../schemas/files.js";
+import type { SignFilesInput } from "../schemas/files.js";
+import {
+  SIGNED_URL_TTL_SECONDS,
+  canAccessUpload,
+  signUploadUrl,
+} from "../services/fileAccess.js";
+
+const router = Router();
+
+router.use(authenticate, tenancy, loadAccess);
+
+// ─── POST /files/sign ───────────────────────────────────────────────
+// Exchange stored file keys for short-lived signed download links.
+// Used by both the dashboard and the tenant portal.
+router.post(
+  "/sign",
+  validate({ body: signFilesSchema }),
+  asyncHandler(async (req, res) => {
+    const { urls } = req.body as SignFilesInput;
+    const unique = [...new Set(urls)];
+
+    const data: { url: string; signedUrl: string }[] = [];
+    for (const url of unique) {
+      // Files the caller can't see are reported as missing, not forbidden
+      if (!(await canAccessUpload(req.user!, req.access!, url))) {
+        throw new NotFoundError("File");
+      }
+      data.push({ url, signedUrl: signUploadUrl(url) });
+    }
+
+    res.json({
+      data,
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000),
+    });
+  })
+);
+
+export default router;
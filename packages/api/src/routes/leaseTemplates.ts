@@ -0,0 +1,446 @@
+import { Router } from "express";
+import type { LeaseTemplateVersion, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
+import { param } from "../lib/params.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { loadAccess, requirePermission } from "../middleware/rbac.js";
+import { auditLog } from "../middleware/audit.js";
+import {
+  createClauseSchema,
+  updateClauseSchema,
+  clauseListQuerySchema,
+  clauseIdParamSchema,
+  createLeaseTemplateSchema,
+  updateLeaseTemplateSchema,
+  leaseTemplateListQuerySchema,
+  leaseTemplateIdParamSchema,
+  leaseTemplateVersionParamSchema,
+} from "../schemas/leaseTemplates.js";
+import type {
+  CreateClauseInput,
+  UpdateClauseInput,
+  ClauseListQuery,
+  TemplateClause,
+  CreateLeaseTemplateInput,
+  UpdateLeaseTemplateInput,
+  LeaseTemplateListQuery,
+} from "../schemas/leaseTemplates.js";
+import { DEFAULT_CLAUSES } from "../services/leaseDocument.js";
+import { assertValidMergeContent } from "../services/mergeFields.js";
+
+const router = Router();
+
+router.use(authenticate, tenancy, loadAccess);
+
+const CONTENT_FIELDS = [
+  "clauses",
+  "monthlyRent",
+  "securityDeposit",
+  "lateFeeAmount",
+  "lateFeeType",
+  "lateFeeAccrual",
+  "lateFeeDailyAmount",
+  "lateFeeMaxAmount",
+  "gracePeriodDays",
+  "rentDueDay",
+] as const;
+
+const versionSummarySelect = {
+  id: true,
+  version: true,
+  createdBy: true,
+  createdAt: true,
+  _count: { select: { leases: true } },
+} as const;
+
+async function findClause(orgId: string, id: string) {
+  const clause = await prisma.leaseClause.findFirst({
+    where: { id, organizationId: orgId },
+  });
+  if (!clause) {
+    throw new NotFoundError("LeaseClause", id);
+  }
+  return clause;
+}
+
+async function findTemplate(orgId: string, id: string) {
+  const template = await prisma.leaseTemplate.findFirst({
+    where: { id, organizationId: orgId },
+  });
+  if (!template) {
+    throw new NotFoundError("LeaseTemplate", id);
+  }
+  return template;
+}
+
+/** One template per name and state, so each state variant is unambiguous. */
+async function assertTemplateNameFree(
+  orgId: string,
+  name: string,
+  state: string | null,
+  exceptId?: string
+) {
+  const existing = await prisma.leaseTemplate.findFirst({
+    where: {
+      organizationId: orgId,
+      name,
+      state,
+      ...(exceptId ? { id: { not: exceptId } } : {}),
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError(
+      state
+        ? `A ${state} variant of '${name}' already exists`
+        : `A lease template named '${name}' already exists`
+    );
+  }
+}
+
+/**
+ * Library clauses referenced by a template must belong to the organization,
+ * and every clause's merge fields must resolve.
+ */
+async function assertValidClauses(orgId: string, clauses: TemplateClause[]) {
+  assertValidMergeContent(
+    clauses.map((c, idx) => ({ path: `clauses.${idx}.content`, content: c.content }))
+  );
+  const clauseIds = [
+    ...new Set(clauses.flatMap((c) => (c.clauseId ? [c.clauseId] : []))),
+  ];
+  if (clauseIds.length === 0) return;
+  const found = await prisma.leaseClause.count({
+    where: { id: { in: clauseIds }, organizationId: orgId },
+  });
+  if (found !== clauseIds.length) {
+    throw new ValidationError(
+      "One or more clauses are invalid or do not belong to this organization"
+    );
+  }
+}
+
+function versionData(content: Partial<CreateLeaseTemplateInput>) {
+  return {
+    clauses: (content.clauses ?? []).map((c) => ({
+      clauseId: c.clauseId ?? null,
+      title: c.title,
+      content: c.content,
+    })) as Prisma.InputJsonValue,
+    monthlyRent: content.monthlyRent,
+    securityDeposit: content.securityDeposit,
+    lateFeeAmount: content.lateFeeAmount,
+    lateFeeType: content.lateFeeType,
+    lateFeeAccrual: content.lateFeeAccrual,
+    lateFeeDailyAmount: content.lateFeeDailyAmount,
+    lateFeeMaxAmount: content.lateFeeMaxAmount,
+    gracePeriodDays: content.gracePeriodDays,
+    rentDueDay: content.rentDueDay,
+  };
+}
+
+function decimalOrNull(value: Prisma.Decimal | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function versionContent(version: LeaseTemplateVersion): Partial<CreateLeaseTemplateInput> {
+  return {
+    clauses: version.clauses as TemplateClause[],
+    monthlyRent: decimalOrNull(version.monthlyRent),
+    securityDeposit: decimalOrNull(version.securityDeposit),
+    lateFeeAmount: decimalOrNull(version.lateFeeAmount),
+    lateFeeType: version.lateFeeType,
+    lateFeeAccrual: version.lateFeeAccrual,
+    lateFeeDailyAmount: decimalOrNull(version.lateFeeDailyAmount),
+    lateFeeMaxAmount: decimalOrNull(version.lateFeeMaxAmount),
+    gracePeriodDays: version.gracePeriodDays,
+    rentDueDay: version.rentDueDay,
+  };
+}
+
+function definedContent(body: UpdateLeaseTemplateInput): Partial<CreateLeaseTemplateInput> {
+  return Object.fromEntries(
+    CONTENT_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]])
+  );
+}
+
+// ─── GET /lease-templates/clauses ───────────────────────────────────
+router.get(
+  "/clauses",
+  requirePermission("leases:view"),
+  validate({ query: clauseListQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const query = req.query as unknown as ClauseListQuery;
+    const clauses = await prisma.leaseClause.findMany({
+      where: {
+        organizationId: req.organizationId!,
+        ...(query.includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: [{ category: "asc" }, { title: "asc" }],
+    });
+    res.json({ data: clauses });
+  })
+);
+
+// ─── POST /lease-templates/clauses ──────────────────────────────────
+router.post(
+  "/clauses",
+  requirePermission("leases:manage"),
+  validate({ body: createClauseSchema }),
+  auditLog("CREATE", "LeaseClause"),
+  asyncHandler(async (req, res) => {
+    const body = req.body as CreateClauseInput;
+    assertValidMergeContent([{ path: "content", content: body.content }]);
+    const clause = await prisma.leaseClause.create({
+      data: {
+        organizationId: req.organizationId!,
+        title: body.title,
+        content: body.content,
+        category: body.category,
+      },
+    });
+    res.status(201).json(clause);
+  })
+);
+
+// ─── POST /lease-templates/clauses/import-defaults ──────────────────
+// Copies Brevva's starter clauses into the library, skipping titles it already has
+router.post(
+  "/clauses/import-defaults",
+  requirePermission("leases:manage"),
+  auditLog("CREATE", "LeaseClause"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const existing = await prisma.leaseClause.findMany({
+      where: { organizationId: orgId },
+      select: { title: true },
+    });
+    const titles = new Set(existing.map((c) => c.title.toLowerCase()));
+    const missing = DEFAULT_CLAUSES.filter((c) => !titles.has(c.title.toLowerCase()));
+
+    const { count } = await prisma.leaseClause.createMany({
+      data: missing.map((c) => ({
+        organizationId: orgId,
+        title: c.title,
+        content: c.content,
+        category: "Standard",
+      })),
+    });
+
+    res.status(201).json({ imported: count });
+  })
+);
+
+// ─── PATCH /lease-templates/clauses/:id ─────────────────────────────
+// Template versions keep their own copy, so edits only affect new templates
+router.patch(
+  "/clauses/:id",
+  requirePermission("leases:manage"),
+  validate({ params: clauseIdParamSchema, body: updateClauseSchema }),
+  auditLog("UPDATE", "LeaseClause"),
+  asyncHandler(async (req, res) => {
+    const body = req.body as UpdateClauseInput;
+    if (body.content) {
+      assertValidMergeContent([{ path: "content", content: body.content }]);
+    }
+    const existing = await findClause(req.organizationId!, param(req, "id"));
+    const clause = await prisma.leaseClause.update({
+      where: { id: existing.id },
+      data: body,
+    });
+    res.json(clause);
+  })
+);
+
+// ─── DELETE /lease-templates/clauses/:id (soft delete) ──────────────
+router.delete(
+  "/clauses/:id",
+  requirePermission("leases:manage"),
+  validate({ params: clauseIdParamSchema }),
+  auditLog("DELETE", "LeaseClause"),
+  asyncHandler(async (req, res) => {
+    const existing = await findClause(req.organizationId!, param(req, "id"));
+    await prisma.leaseClause.update({
+      where: { id: existing.id },
+      data: { isActive: false },
+    });
+    res.json({ message: "Clause archived successfully" });
+  })
+);
+
+// ─── GET /lease-templates ───────────────────────────────────────────
+router.get(
+  "/",
+  requirePermission("leases:view"),
+  validate({ query: leaseTemplateListQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const query = req.query as unknown as LeaseTemplateListQuery;
+    const templates = await prisma.leaseTemplate.findMany({
+      where: {
+        organizationId: req.organizationId!,
+        ...(query.includeInactive ? {} : { isActive: true }),
+        ...(query.state ? { OR: [{ state: query.state }, { state: null }] } : {}),
+      },
+      orderBy: [{ name: "asc" }, { state: "asc" }],
+    });
+    res.json({ data: templates });
+  })
+);
+
+// ─── POST /lease-templates ──────────────────────────────────────────
+router.post(
+  "/",
+  requirePermission("leases:manage"),
+  validate({ body: createLeaseTemplateSchema }),
+  auditLog("CREATE", "LeaseTemplate"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as CreateLeaseTemplateInput;
+    const state = body.state ?? null;
+
+    await assertTemplateNameFree(orgId, body.name, state);
+    await assertValidClauses(orgId, body.clauses);
+
+    const template = await prisma.leaseTemplate.create({
+      data: {
+        organizationId: orgId,
+        name: body.name,
+        description: body.description,
+        state,
+        currentVersion: 1,
+        versions: {
+          create: { version: 1, createdBy: req.user!.userId, ...versionData(body) },
+        },
+      },
+    });
+
+    res.status(201).json(template);
+  })
+);
+
+// ─── GET /lease-templates/:id ───────────────────────────────────────
+router.get(
+  "/:id",
+  requirePermission("leases:view"),
+  validate({ params: leaseTemplateIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const template = await findTemplate(req.organizationId!, param(req, "id"));
+    const [current, versions] = await Promise.all([
+      prisma.leaseTemplateVersion.findUniqueOrThrow({
+        where: {
+          templateId_version: { templateId: template.id, version: template.currentVersion },
+        },
+      }),
+      prisma.leaseTemplateVersion.findMany({
+        where: { templateId: template.id },
+        select: versionSummarySelect,
+        orderBy: { version: "desc" },
+      }),
+    ]);
+    res.json({ ...template, current, versions });
+  })
+);
+
+// ─── PATCH /lease-templates/:id ─────────────────────────────────────
+// Name and state edit in place; changing clauses or defaults adds a version
+// so leases already drafted keep pointing at what they were built from.
+router.patch(
+  "/:id",
+  requirePermission("leases:manage"),
+  validate({ params: leaseTemplateIdParamSchema, body: updateLeaseTemplateSchema }),
+  auditLog("UPDATE", "LeaseTemplate"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as UpdateLeaseTemplateInput;
+    const existing = await findTemplate(orgId, param(req, "id"));
+
+    const name = body.name ?? existing.name;
+    const state = body.state === undefined ? existing.state : body.state;
+    if (name !== existing.name || state !== existing.state) {
+      await assertTemplateNameFree(orgId, name, state, existing.id);
+    }
+    if (body.clauses) {
+      await assertValidClauses(orgId, body.clauses);
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      let currentVersion = existing.currentVersion;
+      if (CONTENT_FIELDS.some((field) => body[field] !== undefined)) {
+        const current = await tx.leaseTemplateVersion.findUniqueOrThrow({
+          where: {
+            templateId_version: { templateId: existing.id, version: existing.currentVersion },
+          },
+        });
+        const previous = versionData(versionContent(current));
+        const merged = versionData({ ...versionContent(current), ...definedContent(body) });
+
+        // Saving an unchanged form shouldn't mint a version
+        if (JSON.stringify(merged) !== JSON.stringify(previous)) {
+          currentVersion += 1;
+          await tx.leaseTemplateVersion.create({
+            data: {
+              templateId: existing.id,
+              version: currentVersion,
+              createdBy: req.user!.userId,
+              ...merged,
+            },
+          });
+        }
+      }
+
+      return tx.leaseTemplate.update({
+        where: { id: existing.id },
+        data: {
+          name: body.name,
+          description: body.description,
+          state: body.state,
+          isActive: body.isActive,
+          currentVersion,
+        },
+      });
+    });
+
+    res.json(template);
+  })
+);
+
+// ─── GET /lease-templates/:id/versions/:version ─────────────────────
+router.get(
+  "/:id/versions/:version",
+  requirePermission("leases:view"),
+  validate({ params: leaseTemplateVersionParamSchema }),
+  asyncHandler(async (req, res) => {
+    const template = await findTemplate(req.organizationId!, param(req, "id"));
+    const version = await prisma.leaseTemplateVersion.findUnique({
+      where: {
+        templateId_version: { templateId: template.id, version: Number(param(req, "version")) },
+      },
+    });
+    if (!version) {
+      throw new NotFoundError("LeaseTemplateVersion", param(req, "version"));
+    }
+    res.json({ ...version, template: { id: template.id, name: template.name } });
+  })
+);
+
+// ─── DELETE /lease-templates/:id (soft delete) ──────────────────────
+router.delete(
+  "/:id",
+  requirePermission("leases:manage"),
+  validate({ params: leaseTemplateIdParamSchema }),
+  auditLog("DELETE", "LeaseTemplate"),
+  asyncHandler(async (req, res) => {
+    const existing = await findTemplate(req.organizationId!, param(req, "id"));
+    await prisma.leaseTemplate.update({
+      where: { id: existing.id },
+      data: { isActive: false },
+    });
+    res.json({ message: "Lease template archived successfully" });
+  })
+);
+
+export default router;
@@ -1,23 +1,29 @@
 import { Router } from "express";
+import type { Request } from "express";
 import { createHash, randomUUID, randomBytes } from "crypto";
 import bcrypt from "bcryptjs";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
-import type { Prisma } from "@prisma/client";
+import type { Lease, Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import {
   NotFoundError,
   ValidationError,
   AuthorizationError,
+  ConflictError,
 } from "../lib/errors.js";
 import { getPaginationMeta } from "../lib/pagination.js";
+import { startOfDayUTC } from "../lib/dates.js";
 import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog, createAuditEntry } from "../middleware/audit.js";
 import { getClientIp, getClientCountry } from "../lib/client-ip.js";
 import {
@@ -38,6 +44,12 @@ import {
   uploadAddendumSchema,
   addendumSigningTokenParamSchema,
   addendumSendParamSchema,
+  createLedgerEntrySchema,
+  ledgerEntryIdParamSchema,
+  validateMergeFieldsSchema,
+  verifySigningReportSchema,
+  createRenewalSchema,
+  renewalIdParamSchema,
 } from "../schemas/leases.js";
 import type {
   CreateLeaseInput,
@@ -48,6 +60,9 @@ import type {
   CreateAddendumInput,
   UploadLeaseInput,
   UploadAddendumInput,
+  CreateLedgerEntryInput,
+  ValidateMergeFieldsInput,
+  CreateRenewalInput,
 } from "../schemas/leases.js";
 import {
   generateLeaseHTML,
@@ -56,32 +71,53 @@ import {
   generateAddendumCertificateHTML,
   saveLeaseDocument,
   saveAddendumDocument,
+  documentSigners,
   DEFAULT_CLAUSES,
 } from "../services/leaseDocument.js";
 import type { CertificateSignerInfo } from "../services/leaseDocument.js";
 import {
-  sendEmail,
+  MERGE_FIELDS,
+  MERGE_FILTER_DESCRIPTIONS,
+  assertValidMergeContent,
+  validateMergeContent,
+} from "../services/mergeFields.js";
+import type { MergeLeaseTerms } from "../services/mergeFields.js";
+import {
   buildSignatureRequestEmail,
   buildAddendumSignatureRequestEmail,
   buildLeaseSignedConfirmationEmail,
+  buildLeaseRenewalOfferEmail,
   buildWelcomeTenantEmail,
 } from "../services/email.js";
+import { queueEmail } from "../services/notifications.js";
+import { publishSignatureCaptured } from "../services/realtime.js";
+import {
+  appendSigningEvent,
+  buildSigningReport,
+  loadSigningChains,
+  verifySigningReport,
+} from "../services/signingLog.js";
+import type { SignedSigningReport } from "../services/signingLog.js";
+import { OPEN_RENEWAL_STATUSES } from "../services/leaseRenewals.js";
+import { getLeaseLedger } from "../services/ledger.js";
+import {
+  contentTypeFor,
+  getStorage,
+  readStoredFile,
+  toStorageKey,
+  uploadFileName,
+} from "../lib/storage.js";
+import {
+  EMAIL_LINK_TTL_SECONDS,
+  signNullableUploadUrl,
+  signUploadUrl,
+} from "../services/fileAccess.js";
 import { env } from "../config/env.js";
 
 const router = Router();
 
 // ─── File upload config for lease documents ─────────────────────────
-const leaseUploadStorage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, env.UPLOAD_DIR);
-  },
-  filename: (_req, file, cb) => {
-    // Sanitize filename: remove path traversal characters
-    const sanitized = file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const ext = path.extname(sanitized);
-    cb(null, `lease-upload-${randomUUID()}${ext}`);
-  },
-});
+const leaseUploadStorage = multer.memoryStorage();
 
 const leaseUpload = multer({
   storage: leaseUploadStorage,
@@ -104,6 +140,82 @@ const leaseUpload = multer({
   },
 });
 
+// Tenant details that lease and addendum merge fields can reference
+const mergeTenantSelect = {
+  pets: { select: { type: true, name: true, breed: true } },
+  vehicles: { select: { year: true, make: true, model: true, licensePlate: true, state: true } },
+} as const;
+
+// Renewal offers as the lease pages show them
+const renewalInclude = {
+  successorLease: { select: { id: true, status: true, startDate: true, endDate: true } },
+  respondedBy: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+/** Builder clauses from `terms`, as sections for merge-field validation. */
+function clauseSections(terms: Record<string, unknown> | undefined) {
+  const clauses = terms?.["clauses"];
+  if (!Array.isArray(clauses)) return [];
+  return clauses.flatMap((clause: unknown, idx) => {
+    const content = (clause as { content?: unknown } | null)?.content;
+    return typeof content === "string" ? [{ path: `terms.clauses.${idx}.content`, content }] : [];
+  });
+}
+
+function leaseMergeTerms(lease: Lease): MergeLeaseTerms {
+  return {
+    startDate: lease.startDate.toISOString(),
+    endDate: lease.endDate.toISOString(),
+    monthlyRent: Number(lease.monthlyRent),
+    securityDeposit: Number(lease.securityDeposit),
+    lateFeeAmount: lease.lateFeeAmount ? Number(lease.lateFeeAmount) : null,
+    lateFeeType: lease.lateFeeType,
+    gracePeriodDays: lease.gracePeriodDays,
+    rentDueDay: lease.rentDueDay,
+  };
+}
+
+type SigningMetadata = Record<string, string | number | null | undefined>;
+
+interface SignatureSubmission {
+  fullName: string;
+  email?: string;
+  agreedToTerms?: boolean;
+  agreedToEsign?: boolean;
+  agreedToIdentity?: boolean;
+  signatureImage?: string;
+  signingMetadata?: SigningMetadata;
+}
+
+/** Signing-log details for the consent boxes a signer ticked, and when. */
+function consentEventDetails(body: SignatureSubmission) {
+  const metadata = body.signingMetadata ?? {};
+  return {
+    agreedToTerms: body.agreedToTerms ?? false,
+    agreedToEsign: body.agreedToEsign ?? false,
+    agreedToIdentity: body.agreedToIdentity ?? false,
+    consent1CheckedAt: metadata["consent1CheckedAt"] ?? null,
+    consent2CheckedAt: metadata["consent2CheckedAt"] ?? null,
+    consent3CheckedAt: metadata["consent3CheckedAt"] ?? null,
+  };
+}
+
+/**
+ * Signing-log details for a signature. The drawn image is logged as a
+ * digest; the image itself lives in the signature data.
+ */
+function signatureEventDetails(body: SignatureSubmission, signatureId?: string) {
+  return {
+    signatureId: signatureId ?? null,
+    fullName: body.fullName,
+    typedEmail: body.email ?? null,
+    signatureImageHash: body.signatureImage
+      ? createHash("sha256").update(body.signatureImage).digest("hex")
+      : null,
+    signingMetadata: body.signingMetadata ?? null,
+  };
+}
+
 /**
  * Regenerate the lease HTML document with current signature data
  * and update the stored file. Called after each signature event.
@@ -128,7 +240,14 @@ async function regenerateLeaseDocument(leaseId: string) {
       tenants: {
         include: {
           tenant: {
-            select: { id: true, firstName: true, lastName: true, email: true, phone: true },
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              phone: true,
+              ...mergeTenantSelect,
+            },
           },
         },
       },
@@ -139,6 +258,27 @@ async function regenerateLeaseDocument(leaseId: string) {
   const clauses = (lease.terms as { clauses?: any[] } | null)?.clauses ?? [];
   const landlordSigData = lease.landlordSignatureData as Record<string, unknown> | null;
 
+  const tenants = lease.tenants.map((lt) => ({
+    id: lt.tenant.id,
+    firstName: lt.tenant.firstName,
+    lastName: lt.tenant.lastName,
+    email: lt.tenant.email,
+    phone: lt.tenant.phone,
+    isPrimary: lt.isPrimary,
+    signedAt: lt.signedAt?.toISOString() ?? null,
+    signatureData: lt.signatureData as any ?? null,
+    pets: lt.tenant.pets,
+    vehicles: lt.tenant.vehicles,
+  }));
+  const landlordSignature = landlordSigData
+    ? {
+        fullName: landlordSigData["fullName"] as string,
+        timestamp: landlordSigData["timestamp"] as string,
+        ip: landlordSigData["ip"] as string | undefined,
+        signatureImage: landlordSigData["signatureImage"] as string | undefined,
+      }
+    : null;
+
   let html = generateLeaseHTML({
     leaseId: lease.id,
     organizationName: lease.organization.name,
@@ -155,16 +295,7 @@ async function regenerateLeaseDocument(leaseId: string) {
       bathrooms: Number(lease.unit.bathrooms),
       sqFt: lease.unit.sqFt,
     },
-    tenants: lease.tenants.map((lt) => ({
-      id: lt.tenant.id,
-      firstName: lt.tenant.firstName,
-      lastName: lt.tenant.lastName,
-      email: lt.tenant.email,
-      phone: lt.tenant.phone,
-      isPrimary: lt.isPrimary,
-      signedAt: lt.signedAt?.toISOString() ?? null,
-      signatureData: lt.signatureData as any ?? null,
-    })),
+    tenants,
     startDate: lease.startDate.toISOString(),
     endDate: lease.endDate.toISOString(),
     monthlyRent: Number(lease.monthlyRent),
@@ -174,14 +305,7 @@ async function regenerateLeaseDocument(leaseId: string) {
     gracePeriodDays: lease.gracePeriodDays,
     rentDueDay: lease.rentDueDay,
     clauses,
-    landlordSignature: landlordSigData
-      ? {
-          fullName: landlordSigData["fullName"] as string,
-          timestamp: landlordSigData["timestamp"] as string,
-          ip: landlordSigData["ip"] as string | undefined,
-          signatureImage: landlordSigData["signatureImage"] as string | undefined,
-        }
-      : null,
+    landlordSignature,
   });
 
   // If all tenants AND landlord have signed, append Certificate of Completion
@@ -226,10 +350,14 @@ async function regenerateLeaseDocument(leaseId: string) {
     html = html.replace("</body>", `${certHtml}\n</body>`);
   }
 
-  const { url, hash } = saveLeaseDocument(html, lease.id);
+  const { key, pdfKey, hash } = await saveLeaseDocument(
+    html,
+    lease.id,
+    documentSigners({ organizationName: lease.organization.name, tenants, landlordSignature }),
+  );
   await prisma.lease.update({
     where: { id: lease.id },
-    data: { documentUrl: url, documentHash: hash },
+    data: { documentUrl: key, documentPdfUrl: pdfKey, documentHash: hash },
   });
 }
 
@@ -258,7 +386,14 @@ async function regenerateAddendumDocument(addendumId: string) {
       signatures: {
         include: {
           tenant: {
-            select: { id: true, firstName: true, lastName: true, email: true, phone: true },
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              phone: true,
+              ...mergeTenantSelect,
+            },
           },
         },
       },
@@ -276,6 +411,27 @@ async function regenerateAddendumDocument(addendumId: string) {
   });
   const primaryMap = new Map(leaseTenants.map((lt) => [lt.tenantId, lt.isPrimary]));
 
+  const tenants = addendum.signatures.map((sig) => ({
+    id: sig.tenant.id,
+    firstName: sig.tenant.firstName,
+    lastName: sig.tenant.lastName,
+    email: sig.tenant.email,
+    phone: sig.tenant.phone,
+    isPrimary: primaryMap.get(sig.tenantId) ?? false,
+    signedAt: sig.signedAt?.toISOString() ?? null,
+    signatureData: sig.signatureData as any ?? null,
+    pets: sig.tenant.pets,
+    vehicles: sig.tenant.vehicles,
+  }));
+  const landlordSignature = landlordSigData
+    ? {
+        fullName: landlordSigData["fullName"] as string,
+        timestamp: landlordSigData["timestamp"] as string,
+        ip: landlordSigData["ip"] as string | undefined,
+        signatureImage: landlordSigData["signatureImage"] as string | undefined,
+      }
+    : null;
+
   let html = generateAddendumHTML({
     addendumId: addendum.id,
     organizationName: lease.organization.name,
@@ -290,24 +446,9 @@ async function regenerateAddendumDocument(addendumId: string) {
     addendumTitle: addendum.title,
     addendumContent: addendum.content,
     effectiveDate: addendum.effectiveDate?.toISOString() ?? null,
-    tenants: addendum.signatures.map((sig) => ({
-      id: sig.tenant.id,
-      firstName: sig.tenant.firstName,
-      lastName: sig.tenant.lastName,
-      email: sig.tenant.email,
-      phone: sig.tenant.phone,
-      isPrimary: primaryMap.get(sig.tenantId) ?? false,
-      signedAt: sig.signedAt?.toISOString() ?? null,
-      signatureData: sig.signatureData as any ?? null,
-    })),
-    landlordSignature: landlordSigData
-      ? {
-          fullName: landlordSigData["fullName"] as string,
-          timestamp: landlordSigData["timestamp"] as string,
-          ip: landlordSigData["ip"] as string | undefined,
-          signatureImage: landlordSigData["signatureImage"] as string | undefined,
-        }
-      : null,
+    tenants,
+    lease: leaseMergeTerms(lease),
+    landlordSignature,
   });
 
   // If all tenants AND landlord have signed, append Certificate of Completion
@@ -351,10 +492,14 @@ async function regenerateAddendumDocument(addendumId: string) {
     html = html.replace("</body>", `${certHtml}\n</body>`);
   }
 
-  const { url, hash } = saveAddendumDocument(html, addendum.id);
+  const { key, pdfKey, hash } = await saveAddendumDocument(
+    html,
+    addendum.id,
+    documentSigners({ organizationName: lease.organization.name, tenants, landlordSignature }),
+  );
   await prisma.leaseAddendum.update({
     where: { id: addendum.id },
-    data: { documentUrl: url, documentHash: hash },
+    data: { documentUrl: key, documentPdfUrl: pdfKey, documentHash: hash },
   });
 }
 
@@ -437,6 +582,19 @@ router.get(
       ipAddress: clientIp,
     });
 
+    await appendSigningEvent({
+      organizationId: leaseTenant.lease.organizationId,
+      leaseId: leaseTenant.lease.id,
+      type: "VIEWED",
+      actorType: "TENANT",
+      actorId: leaseTenant.tenantId,
+      actorName: `${leaseTenant.tenant.firstName} ${leaseTenant.tenant.lastName}`,
+      actorEmail: leaseTenant.tenant.email,
+      ipAddress: clientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: leaseTenant.lease.documentHash,
+    });
+
     // Return lease data for the signing page
     const lease = leaseTenant.lease;
     res.json({
@@ -452,7 +610,7 @@ router.get(
         gracePeriodDays: lease.gracePeriodDays,
         rentDueDay: lease.rentDueDay,
         terms: lease.terms,
-        documentUrl: lease.documentUrl,
+        documentUrl: signNullableUploadUrl(lease.documentUrl),
         documentHash: lease.documentHash,
         status: lease.status,
       },
@@ -528,6 +686,7 @@ router.post(
               },
             },
             organization: { select: { name: true } },
+            renewedFrom: { select: { id: true } },
           },
         },
       },
@@ -621,6 +780,24 @@ router.post(
       },
     });
 
+    const signer = {
+      organizationId: lease.organizationId,
+      leaseId: lease.id,
+      actorType: "TENANT" as const,
+      actorId: leaseTenant.tenantId,
+      actorName: `${leaseTenant.tenant.firstName} ${leaseTenant.tenant.lastName}`,
+      actorEmail: leaseTenant.tenant.email,
+      ipAddress: clientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: lease.documentHash,
+    };
+    await appendSigningEvent({ ...signer, type: "CONSENTED", details: consentEventDetails(body) });
+    await appendSigningEvent({
+      ...signer,
+      type: "SIGNED",
+      details: signatureEventDetails(body, signatureHash),
+    });
+
     // Audit: SIGNATURE_SUBMITTED
     createAuditEntry({
       organizationId: lease.organizationId,
@@ -661,7 +838,8 @@ router.post(
           data: {
             status: "ACTIVE",
             currentUnitId: lease.unitId,
-            moveInDate: lease.startDate,
+            // Renewing tenants keep their original move-in date
+            ...(lease.renewedFrom ? {} : { moveInDate: lease.startDate }),
           },
         });
       });
@@ -682,6 +860,7 @@ router.post(
     // Send confirmation emails
     const unit = lease.unit;
     const propertyAddress = `${unit.property.address}, ${unit.property.city}, ${unit.property.state}`;
+    const emailDocument = lease.documentPdfUrl ?? lease.documentUrl;
     for (const lt of lease.tenants) {
       const confirmEmail = buildLeaseSignedConfirmationEmail({
         recipientName: `${lt.tenant.firstName} ${lt.tenant.lastName}`,
@@ -689,10 +868,13 @@ router.post(
         unitNumber: unit.unitNumber,
         allSigned: unsignedCount === 0,
         portalUrl: env.PORTAL_URL,
-        documentUrl: lease.documentUrl,
+        documentUrl: emailDocument
+          ? `${env.PORTAL_URL}${signUploadUrl(emailDocument, EMAIL_LINK_TTL_SECONDS)}`
+          : null,
       });
-      sendEmail({
+      queueEmail({
         to: lt.tenant.email,
+        organizationId: lease.organizationId,
         ...confirmEmail,
       }).catch(() => {});
     }
@@ -720,9 +902,11 @@ router.post(
     // Fetch updated document URL after regeneration
     const updatedLease = await prisma.lease.findUnique({
       where: { id: lease.id },
-      select: { documentUrl: true },
+      select: { documentUrl: true, documentPdfUrl: true },
     });
 
+    publishSignatureCaptured(lease.id).catch(() => {});
+
     res.json({
       message:
         leaseStatus === "ACTIVE"
@@ -732,7 +916,12 @@ router.post(
       signedAt: signatureData.timestamp,
       allSigned: unsignedCount === 0,
       remainingSignatures: unsignedCount,
-      documentUrl: updatedLease?.documentUrl ?? lease.documentUrl,
+      documentUrl: signNullableUploadUrl(
+        updatedLease?.documentUrl ?? lease.documentUrl
+      ),
+      documentPdfUrl: signNullableUploadUrl(
+        updatedLease?.documentPdfUrl ?? lease.documentPdfUrl
+      ),
       signatureReceipt: {
         documentId: lease.id,
         signedBy: body.fullName,
@@ -822,13 +1011,27 @@ router.get(
     const addendum = signature.addendum;
     const lease = addendum.lease;
 
+    await appendSigningEvent({
+      organizationId: lease.organizationId,
+      leaseId: lease.id,
+      addendumId: addendum.id,
+      type: "VIEWED",
+      actorType: "TENANT",
+      actorId: signature.tenantId,
+      actorName: `${signature.tenant.firstName} ${signature.tenant.lastName}`,
+      actorEmail: signature.tenant.email,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: addendum.documentHash,
+    });
+
     res.json({
       tenant: signature.tenant,
       addendum: {
         id: addendum.id,
         title: addendum.title,
         content: addendum.content,
-        documentUrl: addendum.documentUrl,
+        documentUrl: signNullableUploadUrl(addendum.documentUrl),
         documentHash: addendum.documentHash,
         effectiveDate: addendum.effectiveDate,
         status: addendum.status,
@@ -855,7 +1058,14 @@ router.post(
   validate({ params: addendumSigningTokenParamSchema, body: tokenSignAddendumSchema }),
   asyncHandler(async (req, res) => {
     const token = param(req, "token");
-    const body = req.body as { fullName: string; email: string; agreedToTerms: true; agreedToEsign: true; signatureImage?: string };
+    const body = req.body as {
+      fullName: string;
+      email: string;
+      agreedToTerms: true;
+      agreedToEsign: true;
+      signatureImage?: string;
+      signingMetadata?: SigningMetadata;
+    };
 
     const signature = await prisma.leaseAddendumSignature.findFirst({
       where: { signingToken: token },
@@ -865,6 +1075,7 @@ router.post(
         },
         addendum: {
           include: {
+            lease: { select: { organizationId: true } },
             signatures: true,
           },
         },
@@ -928,6 +1139,25 @@ router.post(
       },
     });
 
+    const signer = {
+      organizationId: addendum.lease.organizationId,
+      leaseId: addendum.leaseId,
+      addendumId: addendum.id,
+      actorType: "TENANT" as const,
+      actorId: signature.tenantId,
+      actorName: `${signature.tenant.firstName} ${signature.tenant.lastName}`,
+      actorEmail: signature.tenant.email,
+      ipAddress: addendumClientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: addendum.documentHash,
+    };
+    await appendSigningEvent({ ...signer, type: "CONSENTED", details: consentEventDetails(body) });
+    await appendSigningEvent({
+      ...signer,
+      type: "SIGNED",
+      details: signatureEventDetails(body, signatureHash),
+    });
+
     // Check if all signatures are done
     const unsignedCount = addendum.signatures.filter(
       (s) => s.id !== signature.id && !s.signedAt
@@ -945,6 +1175,8 @@ router.post(
     // Regenerate addendum document with updated signature data
     await regenerateAddendumDocument(addendum.id);
 
+    publishSignatureCaptured(addendum.leaseId, addendum.id).catch(() => {});
+
     res.json({
       message:
         addendumStatus === "SIGNED"
@@ -959,19 +1191,88 @@ router.post(
 );
 
 // All remaining lease routes require auth + tenancy
-router.use(authenticate, tenancy);
+router.use(authenticate, tenancy, loadAccess);
+
+const leaseScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ unit: { propertyId: { in: ids } } }));
+
+const unitScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ propertyId: { in: ids } }));
 
 // ─── GET /leases/default-clauses ──────────────────────────────────
 router.get(
   "/default-clauses",
+  requirePermission("leases:view"),
   asyncHandler(async (_req, res) => {
     res.json({ data: DEFAULT_CLAUSES });
   })
 );
 
+// ─── GET /leases/merge-fields ───────────────────────────────────────
+router.get(
+  "/merge-fields",
+  requirePermission("leases:view"),
+  asyncHandler(async (_req, res) => {
+    res.json({ data: MERGE_FIELDS, filters: MERGE_FILTER_DESCRIPTIONS });
+  })
+);
+
+// ─── POST /leases/merge-fields/validate ─────────────────────────────
+// Lets the editors flag bad merge fields while the landlord is typing
+router.post(
+  "/merge-fields/validate",
+  requirePermission("leases:view"),
+  validate({ body: validateMergeFieldsSchema }),
+  asyncHandler(async (req, res) => {
+    const body = req.body as ValidateMergeFieldsInput;
+    const errors: Record<string, string[]> = {};
+    for (const item of body.items) {
+      const problems = validateMergeContent(item.content, body.context);
+      if (problems.length > 0) errors[item.id] = problems;
+    }
+    res.json({ errors });
+  })
+);
+
+// ─── POST /leases/signing-log/verify-report ─────────────────────────
+// Check a report exported from GET /leases/:id/signing-log/report
+router.post(
+  "/signing-log/verify-report",
+  requirePermission("leases:view"),
+  validate({ body: verifySigningReportSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as SignedSigningReport;
+    const result = verifySigningReport(body);
+
+    // The report's last event for each chain should still be in the live log
+    const chains = await Promise.all(
+      body.report.chains.map(async (chain, idx) => {
+        const current = chain.head
+          ? await prisma.signingEvent.findFirst({
+              where: { organizationId: orgId, chainId: chain.id, hash: chain.head },
+              select: { id: true },
+            })
+          : null;
+        return {
+          ...result.chains[idx]!,
+          matchesCurrentLog: chain.head ? !!current : true,
+        };
+      })
+    );
+
+    res.json({
+      signatureValid: result.signatureValid,
+      valid: result.signatureValid && chains.every((c) => c.verification.valid),
+      chains,
+    });
+  })
+);
+
 // ─── GET /leases ────────────────────────────────────────────────────
 router.get(
   "/",
+  requirePermission("leases:view"),
   validate({ query: leaseListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -981,6 +1282,7 @@ router.get(
 
     const where: Record<string, unknown> = {
       organizationId: orgId,
+      AND: [leaseScope(req)],
       ...(status ? { status } : {}),
       ...(unitId ? { unitId } : {}),
     };
@@ -1044,7 +1346,7 @@ router.get(
 // ─── POST /leases ───────────────────────────────────────────────────
 router.post(
   "/",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ body: createLeaseSchema }),
   auditLog("CREATE", "Lease"),
   asyncHandler(async (req, res) => {
@@ -1053,7 +1355,7 @@ router.post(
 
     // Validate unit belongs to org
     const unit = await prisma.unit.findFirst({
-      where: { id: body.unitId, organizationId: orgId },
+      where: { id: body.unitId, organizationId: orgId, ...unitScope(req) },
     });
     if (!unit) {
       throw new NotFoundError("Unit", body.unitId);
@@ -1093,6 +1395,18 @@ router.post(
       throw new ValidationError("End date must be after start date");
     }
 
+    assertValidMergeContent(clauseSections(body.terms));
+
+    if (body.templateVersionId) {
+      const templateVersion = await prisma.leaseTemplateVersion.findFirst({
+        where: { id: body.templateVersionId, template: { organizationId: orgId } },
+        select: { id: true },
+      });
+      if (!templateVersion) {
+        throw new NotFoundError("LeaseTemplateVersion", body.templateVersionId);
+      }
+    }
+
     const lease = await prisma.$transaction(async (tx) => {
       const created = await tx.lease.create({
         data: {
@@ -1104,9 +1418,13 @@ router.post(
           securityDeposit: body.securityDeposit,
           lateFeeAmount: body.lateFeeAmount,
           lateFeeType: body.lateFeeType,
+          lateFeeAccrual: body.lateFeeAccrual,
+          lateFeeDailyAmount: body.lateFeeDailyAmount,
+          lateFeeMaxAmount: body.lateFeeMaxAmount,
           gracePeriodDays: body.gracePeriodDays,
           rentDueDay: body.rentDueDay ?? 1,
           terms: (body.terms ?? {}) as Prisma.InputJsonValue,
+          templateVersionId: body.templateVersionId,
           status: "DRAFT",
         },
       });
@@ -1153,7 +1471,7 @@ router.post(
 // ─── POST /leases/upload ──────────────────────────────────────────────
 router.post(
   "/upload",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   leaseUpload.single("file"),
   auditLog("CREATE", "Lease"),
   asyncHandler(async (req, res) => {
@@ -1177,7 +1495,7 @@ router.post(
 
     // Validate unit belongs to org
     const unit = await prisma.unit.findFirst({
-      where: { id: body.unitId, organizationId: orgId },
+      where: { id: body.unitId, organizationId: orgId, ...unitScope(req) },
     });
     if (!unit) {
       throw new NotFoundError("Unit", body.unitId);
@@ -1209,20 +1527,14 @@ router.post(
       throw new ValidationError("End date must be after start date");
     }
 
-    // Move uploaded file to lease-specific directory
+    // Store the uploaded file under a lease-specific key
     const leaseId = randomUUID();
-    const leaseDir = path.join(path.resolve(env.UPLOAD_DIR), "leases", leaseId);
-    fs.mkdirSync(leaseDir, { recursive: true });
-
-    const sanitizedOriginal = req.file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const destPath = path.join(leaseDir, sanitizedOriginal);
-    fs.renameSync(req.file.path, destPath);
+    const fileName = uploadFileName(req.file.originalname, req.file.mimetype);
+    const documentUrl = `leases/${leaseId}/${fileName}`;
+    await getStorage().put(documentUrl, req.file.buffer, contentTypeFor(documentUrl));
 
     // Generate document hash
-    const fileBuffer = fs.readFileSync(destPath);
-    const documentHash = createHash("sha256").update(fileBuffer).digest("hex");
-
-    const documentUrl = `/uploads/leases/${leaseId}/${sanitizedOriginal}`;
+    const documentHash = createHash("sha256").update(req.file.buffer).digest("hex");
 
     const lease = await prisma.$transaction(async (tx) => {
       const created = await tx.lease.create({
@@ -1281,6 +1593,7 @@ router.post(
 // ─── GET /leases/:id ───────────────────────────────────────────────
 router.get(
   "/:id",
+  requirePermission("leases:view"),
   validate({ params: leaseIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -1289,6 +1602,7 @@ router.get(
       where: {
         id: param(req, "id"),
         organizationId: orgId,
+        ...leaseScope(req),
       },
       include: {
         organization: { select: { id: true, name: true } },
@@ -1353,6 +1667,23 @@ router.get(
         lateFees: {
           orderBy: { assessedDate: "desc" },
         },
+        templateVersion: {
+          select: {
+            id: true,
+            version: true,
+            template: { select: { id: true, name: true, state: true, currentVersion: true } },
+          },
+        },
+        renewals: {
+          orderBy: { createdAt: "desc" },
+          include: renewalInclude,
+        },
+        renewedFrom: {
+          select: {
+            id: true,
+            lease: { select: { id: true, startDate: true, endDate: true, status: true } },
+          },
+        },
       },
     });
 
@@ -1388,15 +1719,16 @@ router.get(
 // ─── PATCH /leases/:id ─────────────────────────────────────────────
 router.patch(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: leaseIdParamSchema, body: updateLeaseSchema }),
   auditLog("UPDATE", "Lease"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const body = req.body as UpdateLeaseInput;
+    assertValidMergeContent(clauseSections(body.terms));
 
     const existing = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
     });
     if (!existing) {
       throw new NotFoundError("Lease", param(req, "id"));
@@ -1447,36 +1779,32 @@ router.patch(
 // ─── GET /leases/:id/document ─────────────────────────────────────────
 router.get(
   "/:id/document",
+  requirePermission("leases:view"),
   validate({ params: leaseIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
-      select: { documentUrl: true },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      select: { documentUrl: true, documentPdfUrl: true },
     });
     if (!lease) {
       throw new NotFoundError("Lease", param(req, "id"));
     }
-    if (!lease.documentUrl) {
+    const documentUrl = lease.documentPdfUrl ?? lease.documentUrl;
+    if (!documentUrl) {
       throw new NotFoundError("Document");
     }
 
-    const filePath = path.join(path.resolve(env.UPLOAD_DIR), lease.documentUrl.replace(/^\/uploads\//, ""));
-    if (!fs.existsSync(filePath)) {
+    const key = toStorageKey(documentUrl);
+    const object = key ? await getStorage().get(key) : null;
+    if (!object) {
       throw new NotFoundError("Document file");
     }
-
-    const ext = path.extname(filePath).toLowerCase();
-    const contentTypes: Record<string, string> = {
-      ".pdf": "application/pdf",
-      ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      ".html": "text/html",
-    };
-    res.setHeader("Content-Type", contentTypes[ext] ?? "application/octet-stream");
+    res.setHeader("Content-Type", object.contentType);
 
     // Audit: SIGNED_DOCUMENT_DOWNLOADED
-    if (lease.documentUrl) {
+    if (documentUrl) {
       createAuditEntry({
         organizationId: orgId,
         userId: req.user!.userId,
@@ -1490,19 +1818,20 @@ router.get(
       });
     }
 
-    res.sendFile(filePath);
+    object.body.pipe(res);
   })
 );
 
 // ─── GET /leases/:id/verify-signatures ──────────────────────────────
 router.get(
   "/:id/verify-signatures",
+  requirePermission("leases:view"),
   validate({ params: leaseIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         tenants: {
           include: {
@@ -1524,16 +1853,14 @@ router.get(
       throw new NotFoundError("Lease", param(req, "id"));
     }
 
-    // Verify document hash
+    // Verify document hash (generated documents are hashed over their PDF)
     let hashVerified = false;
-    if (lease.documentUrl && lease.documentHash) {
+    const hashedDocument = lease.documentPdfUrl ?? lease.documentUrl;
+    if (hashedDocument && lease.documentHash) {
       try {
-        const filePath = path.join(
-          path.resolve(env.UPLOAD_DIR),
-          lease.documentUrl.replace(/^\/uploads\//, "")
-        );
-        if (fs.existsSync(filePath)) {
-          const content = fs.readFileSync(filePath, "utf-8");
+        const key = toStorageKey(hashedDocument);
+        const content = key ? await readStoredFile(key) : null;
+        if (content) {
           const currentHash = createHash("sha256").update(content).digest("hex");
           hashVerified = currentHash === lease.documentHash;
         }
@@ -1633,29 +1960,95 @@ router.get(
       }
     }
 
+    // Re-hash the signing event chains
+    const chains = await loadSigningChains(lease);
+    for (const chain of chains) {
+      for (const issue of chain.verification.issues) {
+        anomalies.push(`${chain.title} signing log: ${issue}`);
+      }
+    }
+
     res.json({
       documentId: lease.id,
       documentHash: lease.documentHash ?? "",
       hashVerified,
+      signingLogVerified: chains.every((c) => c.verification.valid),
       status,
       signers,
+      signingLog: chains.map(({ events: _events, ...chain }) => chain),
       auditTrail,
       anomalies,
     });
   })
 );
 
+// ─── GET /leases/:id/signing-log ────────────────────────────────────
+router.get(
+  "/:id/signing-log",
+  requirePermission("leases:view"),
+  validate({ params: leaseIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: req.organizationId!, ...leaseScope(req) },
+      select: { id: true, signingLogHead: true },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    res.json({ data: await loadSigningChains(lease) });
+  })
+);
+
+// ─── GET /leases/:id/signing-log/report ─────────────────────────────
+// Signed JSON export; POST /leases/signing-log/verify-report checks it later
+router.get(
+  "/:id/signing-log/report",
+  requirePermission("leases:view"),
+  validate({ params: leaseIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      select: { id: true, signingLogHead: true },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    createAuditEntry({
+      organizationId: orgId,
+      userId: req.user!.userId,
+      action: "SIGNING_LOG_EXPORTED",
+      entityType: "Lease",
+      entityId: lease.id,
+      ipAddress: getClientIp(req),
+    });
+
+    const report = buildSigningReport(
+      lease.id,
+      await loadSigningChains(lease),
+      req.user!.email
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="signing-log-${lease.id}.json"`
+    );
+    res.json(report);
+  })
+);
+
 // ─── POST /leases/:id/send-for-signature ───────────────────────────
 router.post(
   "/:id/send-for-signature",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: leaseIdParamSchema }),
   auditLog("SEND_FOR_SIGNATURE", "Lease"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         organization: { select: { name: true } },
         unit: {
@@ -1680,7 +2073,15 @@ router.post(
         tenants: {
           include: {
             tenant: {
-              select: { id: true, firstName: true, lastName: true, email: true, phone: true, userId: true },
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+                phone: true,
+                userId: true,
+                ...mergeTenantSelect,
+              },
             },
           },
         },
@@ -1753,21 +2154,33 @@ router.post(
         landlordName: lease.organization.name,
         portalUrl: env.PORTAL_URL,
       });
-      sendEmail({ to: lt.tenant.email, ...welcomeEmail }).catch(() => {});
+      queueEmail({ to: lt.tenant.email, organizationId: orgId, ...welcomeEmail }).catch(() => {});
     }
 
     // Generate or reuse lease document
     const termsData = lease.terms as Record<string, unknown> | null;
     let documentUrl: string;
+    let documentPdfUrl: string | null;
     let documentHash: string;
 
     if (termsData?.["source"] === "uploaded" && lease.documentUrl && lease.documentHash) {
       // Uploaded document — use existing file
       documentUrl = lease.documentUrl;
+      documentPdfUrl = lease.documentPdfUrl;
       documentHash = lease.documentHash;
     } else {
-      // Builder-created lease — generate HTML document
+      // Builder-created lease — generate HTML and PDF documents
       const clauses = (termsData as { clauses?: any[] } | null)?.clauses ?? [];
+      const tenants = lease.tenants.map((lt) => ({
+        id: lt.tenant.id,
+        firstName: lt.tenant.firstName,
+        lastName: lt.tenant.lastName,
+        email: lt.tenant.email,
+        phone: lt.tenant.phone,
+        isPrimary: lt.isPrimary,
+        pets: lt.tenant.pets,
+        vehicles: lt.tenant.vehicles,
+      }));
       const html = generateLeaseHTML({
         leaseId: lease.id,
         organizationName: lease.organization.name,
@@ -1784,14 +2197,7 @@ router.post(
           bathrooms: Number(lease.unit.bathrooms),
           sqFt: lease.unit.sqFt,
         },
-        tenants: lease.tenants.map((lt) => ({
-          id: lt.tenant.id,
-          firstName: lt.tenant.firstName,
-          lastName: lt.tenant.lastName,
-          email: lt.tenant.email,
-          phone: lt.tenant.phone,
-          isPrimary: lt.isPrimary,
-        })),
+        tenants,
         startDate: lease.startDate.toISOString(),
         endDate: lease.endDate.toISOString(),
         monthlyRent: Number(lease.monthlyRent),
@@ -1802,8 +2208,13 @@ router.post(
         rentDueDay: lease.rentDueDay,
         clauses,
       });
-      const saved = saveLeaseDocument(html, lease.id);
-      documentUrl = saved.url;
+      const saved = await saveLeaseDocument(
+        html,
+        lease.id,
+        documentSigners({ organizationName: lease.organization.name, tenants }),
+      );
+      documentUrl = saved.key;
+      documentPdfUrl = saved.pdfKey;
       documentHash = saved.hash;
     }
 
@@ -1834,6 +2245,7 @@ router.post(
       data: {
         status: "PENDING_SIGNATURE",
         documentUrl,
+        documentPdfUrl,
         documentHash,
       },
       include: {
@@ -1854,6 +2266,22 @@ router.post(
       },
     });
 
+    await appendSigningEvent({
+      organizationId: orgId,
+      leaseId: lease.id,
+      type: "SENT",
+      actorType: "USER",
+      actorId: req.user!.userId,
+      actorEmail: req.user?.email ?? null,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash,
+      details: {
+        recipients: signingTokens.map((st) => ({ tenantId: st.tenantId, name: st.name, email: st.email })),
+        tokenExpiresAt: tokenExpiry.toISOString(),
+      },
+    });
+
     // Send emails to each tenant
     const propertyAddress = `${lease.unit.property.address}, ${lease.unit.property.city}, ${lease.unit.property.state}`;
     for (const st of signingTokens) {
@@ -1865,8 +2293,9 @@ router.post(
         signingUrl,
         landlordName: lease.organization.name,
       });
-      sendEmail({
+      queueEmail({
         to: st.email,
+        organizationId: orgId,
         ...emailContent,
       }).catch(() => {});
     }
@@ -1902,9 +2331,12 @@ router.post(
       include: {
         tenants: {
           include: {
-            tenant: { select: { id: true, userId: true, email: true } },
+            tenant: {
+              select: { id: true, userId: true, firstName: true, lastName: true, email: true },
+            },
           },
         },
+        renewedFrom: { select: { id: true } },
       },
     });
     if (!lease) {
@@ -1974,6 +2406,24 @@ router.post(
       },
     });
 
+    const signer = {
+      organizationId: orgId,
+      leaseId: lease.id,
+      actorType: "TENANT" as const,
+      actorId: leaseTenant.tenantId,
+      actorName: `${leaseTenant.tenant.firstName} ${leaseTenant.tenant.lastName}`,
+      actorEmail: leaseTenant.tenant.email,
+      ipAddress: authClientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: lease.documentHash,
+    };
+    await appendSigningEvent({ ...signer, type: "CONSENTED", details: consentEventDetails(body) });
+    await appendSigningEvent({
+      ...signer,
+      type: "SIGNED",
+      details: signatureEventDetails(body, signatureHash),
+    });
+
     // Check if all tenants have now signed
     const unsignedCount = lease.tenants.filter(
       (lt) => lt.id !== leaseTenant.id && !lt.signedAt
@@ -1998,7 +2448,8 @@ router.post(
           data: {
             status: "ACTIVE",
             currentUnitId: lease.unitId,
-            moveInDate: lease.startDate,
+            // Renewing tenants keep their original move-in date
+            ...(lease.renewedFrom ? {} : { moveInDate: lease.startDate }),
           },
         });
       });
@@ -2008,6 +2459,8 @@ router.post(
     // Regenerate lease document with the new signature
     await regenerateLeaseDocument(lease.id);
 
+    publishSignatureCaptured(lease.id).catch(() => {});
+
     res.json({
       message:
         leaseStatus === "ACTIVE"
@@ -2025,7 +2478,7 @@ router.post(
 // Landlord countersigns after all tenants have signed
 router.post(
   "/:id/countersign",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:sign"),
   validate({ params: leaseIdParamSchema, body: countersignLeaseSchema }),
   auditLog("COUNTERSIGN", "Lease"),
   asyncHandler(async (req, res) => {
@@ -2052,7 +2505,7 @@ router.post(
     };
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         tenants: true,
         organization: { select: { name: true } },
@@ -2114,6 +2567,30 @@ router.post(
       },
     });
 
+    const countersigner = {
+      organizationId: orgId,
+      leaseId: lease.id,
+      actorType: "USER" as const,
+      actorId: req.user!.userId,
+      actorName: body.fullName,
+      actorEmail: req.user?.email ?? null,
+      ipAddress: csClientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: lease.documentHash,
+    };
+    if (body.agreedToTerms) {
+      await appendSigningEvent({
+        ...countersigner,
+        type: "CONSENTED",
+        details: consentEventDetails(body),
+      });
+    }
+    await appendSigningEvent({
+      ...countersigner,
+      type: "COUNTERSIGNED",
+      details: signatureEventDetails(body),
+    });
+
     // Audit: ALL_PARTIES_SIGNED (landlord was the final signer)
     createAuditEntry({
       organizationId: lease.organizationId,
@@ -2131,6 +2608,8 @@ router.post(
     // Regenerate lease document with landlord signature (will include certificate)
     await regenerateLeaseDocument(lease.id);
 
+    publishSignatureCaptured(lease.id).catch(() => {});
+
     res.json({
       message: "Lease countersigned successfully",
       landlordSignedAt: now.toISOString(),
@@ -2142,14 +2621,14 @@ router.post(
 // Resend signing emails for pending signature leases
 router.post(
   "/:id/resend",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: leaseIdParamSchema }),
   auditLog("RESEND_SIGNATURE", "Lease"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         organization: { select: { name: true } },
         unit: {
@@ -2194,7 +2673,7 @@ router.post(
         signingUrl,
         landlordName: lease.organization.name,
       });
-      sendEmail({ to: lt.tenant.email, ...emailContent }).catch(() => {});
+      queueEmail({ to: lt.tenant.email, organizationId: orgId, ...emailContent }).catch(() => {});
     }
 
     res.json({
@@ -2207,14 +2686,14 @@ router.post(
 // ─── DELETE /leases/:id ─────────────────────────────────────────────
 router.delete(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: leaseIdParamSchema }),
   auditLog("DELETE", "Lease"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", param(req, "id"));
@@ -2224,7 +2703,14 @@ router.delete(
       throw new ValidationError("Only DRAFT leases can be deleted");
     }
 
-    await prisma.lease.delete({ where: { id: lease.id } });
+    // Deleting a drafted renewal lease abandons the renewal it came from
+    await prisma.$transaction([
+      prisma.leaseRenewal.updateMany({
+        where: { successorLeaseId: lease.id },
+        data: { status: "WITHDRAWN" },
+      }),
+      prisma.lease.delete({ where: { id: lease.id } }),
+    ]);
 
     res.json({ message: "Lease deleted successfully" });
   })
@@ -2240,7 +2726,7 @@ router.post(
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         tenants: true,
       },
@@ -2277,20 +2763,299 @@ router.post(
       });
     });
 
+    await prisma.leaseRenewal.updateMany({
+      where: { leaseId: lease.id, status: "PENDING" },
+      data: { status: "WITHDRAWN" },
+    });
+
+    // Terminating before every signature is in voids the signing process
+    if (lease.status === "PENDING_SIGNATURE") {
+      await appendSigningEvent({
+        organizationId: orgId,
+        leaseId: lease.id,
+        type: "VOIDED",
+        actorType: "USER",
+        actorId: req.user!.userId,
+        actorEmail: req.user?.email ?? null,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers["user-agent"] ?? null,
+        documentHash: lease.documentHash,
+        details: { reason: "Lease terminated" },
+      });
+    }
+
     res.json({ message: "Lease terminated successfully" });
   })
 );
 
+// ─── GET /leases/:id/renewals ───────────────────────────────────────
+router.get(
+  "/:id/renewals",
+  requirePermission("leases:view"),
+  validate({ params: leaseIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      select: { id: true },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    const renewals = await prisma.leaseRenewal.findMany({
+      where: { leaseId: lease.id },
+      orderBy: { createdAt: "desc" },
+      include: renewalInclude,
+    });
+
+    res.json({ data: renewals });
+  })
+);
+
+// ─── POST /leases/:id/renewals ──────────────────────────────────────
+// Offer the tenants a renewal on new dates and rent
+router.post(
+  "/:id/renewals",
+  requirePermission("leases:manage"),
+  validate({ params: leaseIdParamSchema, body: createRenewalSchema }),
+  auditLog("OFFER_RENEWAL", "Lease"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as CreateRenewalInput;
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      include: {
+        organization: { select: { name: true } },
+        unit: {
+          select: {
+            unitNumber: true,
+            property: { select: { address: true, city: true, state: true } },
+          },
+        },
+        tenants: {
+          include: {
+            tenant: { select: { firstName: true, lastName: true, email: true } },
+          },
+        },
+        renewals: {
+          where: { status: { in: [...OPEN_RENEWAL_STATUSES] } },
+          select: { id: true },
+        },
+      },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    if (lease.status !== "ACTIVE") {
+      throw new ValidationError(
+        `Only ACTIVE leases can be renewed (currently ${lease.status})`
+      );
+    }
+
+    if (lease.renewals.length > 0) {
+      throw new ConflictError("This lease already has an open renewal offer");
+    }
+
+    if (body.startDate <= lease.endDate) {
+      throw new ValidationError("The renewal must start after the current lease ends");
+    }
+
+    if (body.endDate <= body.startDate) {
+      throw new ValidationError("End date must be after start date");
+    }
+
+    if (
+      body.respondBy &&
+      (body.respondBy < startOfDayUTC(new Date()) || body.respondBy >= body.startDate)
+    ) {
+      throw new ValidationError(
+        "The response deadline must be in the future and before the renewal starts"
+      );
+    }
+
+    const renewal = await prisma.leaseRenewal.create({
+      data: {
+        organizationId: orgId,
+        leaseId: lease.id,
+        startDate: body.startDate,
+        endDate: body.endDate,
+        monthlyRent: body.monthlyRent,
+        previousRent: lease.monthlyRent,
+        securityDeposit: body.securityDeposit ?? lease.securityDeposit,
+        respondBy: body.respondBy,
+        message: body.message,
+      },
+      include: renewalInclude,
+    });
+
+    const propertyAddress = `${lease.unit.property.address}, ${lease.unit.property.city}, ${lease.unit.property.state}`;
+    for (const lt of lease.tenants) {
+      const emailContent = buildLeaseRenewalOfferEmail({
+        tenantName: `${lt.tenant.firstName} ${lt.tenant.lastName}`,
+        propertyAddress,
+        unitNumber: lease.unit.unitNumber,
+        landlordName: lease.organization.name,
+        startDate: renewal.startDate.toISOString(),
+        endDate: renewal.endDate.toISOString(),
+        monthlyRent: Number(renewal.monthlyRent),
+        previousRent: Number(renewal.previousRent),
+        respondBy: renewal.respondBy?.toISOString() ?? null,
+        message: renewal.message,
+        portalUrl: `${env.PORTAL_URL}/lease`,
+      });
+      queueEmail({ to: lt.tenant.email, organizationId: orgId, ...emailContent }).catch(() => {});
+    }
+
+    res.status(201).json(renewal);
+  })
+);
+
+// ─── POST /leases/:id/renewals/:renewalId/withdraw ──────────────────
+router.post(
+  "/:id/renewals/:renewalId/withdraw",
+  requirePermission("leases:manage"),
+  validate({ params: renewalIdParamSchema }),
+  auditLog("WITHDRAW_RENEWAL", "Lease"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const renewal = await prisma.leaseRenewal.findFirst({
+      where: {
+        id: param(req, "renewalId"),
+        leaseId: param(req, "id"),
+        organizationId: orgId,
+        lease: leaseScope(req),
+      },
+    });
+    if (!renewal) {
+      throw new NotFoundError("LeaseRenewal", param(req, "renewalId"));
+    }
+
+    // Claimed on status so a tenant accepting at the same moment wins cleanly
+    const withdrawn = await prisma.leaseRenewal.updateMany({
+      where: { id: renewal.id, status: "PENDING" },
+      data: { status: "WITHDRAWN" },
+    });
+    if (withdrawn.count === 0) {
+      throw new ValidationError(
+        `Only pending renewal offers can be withdrawn (currently ${renewal.status})`
+      );
+    }
+
+    res.json({ message: "Renewal offer withdrawn" });
+  })
+);
+
+// ─── GET /leases/:id/ledger ─────────────────────────────────────────
+router.get(
+  "/:id/ledger",
+  requirePermission("leases:view"),
+  validate({ params: leaseIdParamSchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      select: { id: true },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    // Read-only: scheduled charges are posted by the ledger-posting job
+    const ledger = await getLeaseLedger(lease.id);
+
+    res.json(ledger);
+  })
+);
+
+// ─── POST /leases/:id/ledger ────────────────────────────────────────
+// Manual deposit, credit or adjustment entry
+router.post(
+  "/:id/ledger",
+  requirePermission("payments:record"),
+  validate({ params: leaseIdParamSchema, body: createLedgerEntrySchema }),
+  auditLog("CREATE", "LedgerEntry"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as CreateLedgerEntryInput;
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
+      select: { id: true },
+    });
+    if (!lease) {
+      throw new NotFoundError("Lease", param(req, "id"));
+    }
+
+    let amount = body.amount;
+    if (body.type === "CREDIT") amount = -Math.abs(amount);
+    if (body.type === "DEPOSIT") amount = Math.abs(amount);
+
+    const entry = await prisma.ledgerEntry.create({
+      data: {
+        organizationId: orgId,
+        leaseId: lease.id,
+        type: body.type,
+        amount,
+        date: body.date,
+        description: body.description,
+        createdBy: req.user!.userId,
+      },
+    });
+
+    res.status(201).json(entry);
+  })
+);
+
+// ─── DELETE /leases/:id/ledger/:entryId ─────────────────────────────
+// Only manual entries can be removed; system entries follow their source
+router.delete(
+  "/:id/ledger/:entryId",
+  requireMinRole("OWNER"),
+  validate({ params: ledgerEntryIdParamSchema }),
+  auditLog("DELETE", "LedgerEntry"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const entry = await prisma.ledgerEntry.findFirst({
+      where: {
+        id: param(req, "entryId"),
+        leaseId: param(req, "id"),
+        organizationId: orgId,
+      },
+    });
+    if (!entry) {
+      throw new NotFoundError("LedgerEntry", param(req, "entryId"));
+    }
+
+    if (entry.sourceKey !== null) {
+      throw new ValidationError(
+        "Only manually added ledger entries can be deleted"
+      );
+    }
+
+    await prisma.ledgerEntry.delete({ where: { id: entry.id } });
+
+    res.json({ message: "Ledger entry deleted successfully" });
+  })
+);
+
 // ─── Addendums ──────────────────────────────────────────────────────
 
 router.get(
   "/:id/addendums",
+  requirePermission("leases:view"),
   validate({ params: leaseIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2308,15 +3073,16 @@ router.get(
 
 router.post(
   "/:id/addendums",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: leaseIdParamSchema, body: createAddendumSchema }),
   auditLog("CREATE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const body = req.body as CreateAddendumInput;
+    assertValidMergeContent([{ path: "content", content: body.content }], "addendum");
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", param(req, "id"));
@@ -2343,14 +3109,14 @@ router.post(
 
 router.delete(
   "/:id/addendums/:addendumId",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: addendumIdParamSchema }),
   auditLog("DELETE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2370,6 +3136,15 @@ router.delete(
     if (addendum.status === "SIGNED") {
       throw new ValidationError("Cannot delete a signed addendum");
     }
+    // Once sent, the addendum's signing log must survive; void it instead
+    const signingEvents = await prisma.signingEvent.count({
+      where: { addendumId: addendum.id },
+    });
+    if (signingEvents > 0) {
+      throw new ValidationError(
+        "Cannot delete an addendum that has been sent for signature; void it instead"
+      );
+    }
 
     await prisma.leaseAddendum.delete({
       where: { id: param(req, "addendumId") },
@@ -2382,7 +3157,7 @@ router.delete(
 // ─── POST /leases/:id/addendums/upload ────────────────────────────────
 router.post(
   "/:id/addendums/upload",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   leaseUpload.single("file"),
   auditLog("CREATE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
@@ -2395,7 +3170,7 @@ router.post(
     const body = uploadAddendumSchema.parse(req.body);
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", param(req, "id"));
@@ -2406,23 +3181,11 @@ router.post(
     }
 
     const addendumId = randomUUID();
-    const addendumDir = path.join(
-      path.resolve(env.UPLOAD_DIR),
-      "leases",
-      param(req, "id"),
-      "addendums",
-      addendumId
-    );
-    fs.mkdirSync(addendumDir, { recursive: true });
-
-    const sanitizedOriginal = req.file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const destPath = path.join(addendumDir, sanitizedOriginal);
-    fs.renameSync(req.file.path, destPath);
+    const fileName = uploadFileName(req.file.originalname, req.file.mimetype);
+    const documentUrl = `leases/${param(req, "id")}/addendums/${addendumId}/${fileName}`;
+    await getStorage().put(documentUrl, req.file.buffer, contentTypeFor(documentUrl));
 
-    const fileBuffer = fs.readFileSync(destPath);
-    const documentHash = createHash("sha256").update(fileBuffer).digest("hex");
-
-    const documentUrl = `/uploads/leases/${param(req, "id")}/addendums/${addendumId}/${sanitizedOriginal}`;
+    const documentHash = createHash("sha256").update(req.file.buffer).digest("hex");
 
     const addendum = await prisma.leaseAddendum.create({
       data: {
@@ -2444,14 +3207,14 @@ router.post(
 // ─── POST /leases/:id/addendums/:addendumId/send ─────────────────────
 router.post(
   "/:id/addendums/:addendumId/send",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: addendumSendParamSchema }),
   auditLog("SEND_FOR_SIGNATURE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         organization: { select: { name: true } },
         unit: {
@@ -2465,7 +3228,7 @@ router.post(
         tenants: {
           include: {
             tenant: {
-              select: { id: true, firstName: true, lastName: true, email: true },
+              select: { id: true, firstName: true, lastName: true, email: true, ...mergeTenantSelect },
             },
           },
         },
@@ -2525,7 +3288,17 @@ router.post(
 
     // Generate addendum document (only for text-based addendums without an uploaded file)
     if (!addendum.documentUrl) {
-      const leaseTenants = lease.tenants;
+      const tenants = lease.tenants.map((lt) => ({
+        id: lt.tenant.id,
+        firstName: lt.tenant.firstName,
+        lastName: lt.tenant.lastName,
+        email: lt.tenant.email,
+        isPrimary: lt.isPrimary,
+        signedAt: null,
+        signatureData: null,
+        pets: lt.tenant.pets,
+        vehicles: lt.tenant.vehicles,
+      }));
       const docHtml = generateAddendumHTML({
         addendumId: addendum.id,
         organizationName: lease.organization.name,
@@ -2540,29 +3313,43 @@ router.post(
         addendumTitle: addendum.title,
         addendumContent: addendum.content,
         effectiveDate: addendum.effectiveDate?.toISOString() ?? null,
-        tenants: leaseTenants.map((lt) => ({
-          id: lt.tenant.id,
-          firstName: lt.tenant.firstName,
-          lastName: lt.tenant.lastName,
-          email: lt.tenant.email,
-          isPrimary: lt.isPrimary,
-          signedAt: null,
-          signatureData: null,
-        })),
+        tenants,
+        lease: leaseMergeTerms(lease),
       });
-      const { url: docUrl, hash: docHash } = saveAddendumDocument(docHtml, addendum.id);
+      const saved = await saveAddendumDocument(
+        docHtml,
+        addendum.id,
+        documentSigners({ organizationName: lease.organization.name, tenants }),
+      );
       await prisma.leaseAddendum.update({
         where: { id: addendum.id },
-        data: { documentUrl: docUrl, documentHash: docHash },
+        data: { documentUrl: saved.key, documentPdfUrl: saved.pdfKey, documentHash: saved.hash },
       });
     }
 
     // Update addendum status
-    await prisma.leaseAddendum.update({
+    const sent = await prisma.leaseAddendum.update({
       where: { id: addendum.id },
       data: { status: "PENDING_SIGNATURE" },
     });
 
+    await appendSigningEvent({
+      organizationId: orgId,
+      leaseId: lease.id,
+      addendumId: addendum.id,
+      type: "SENT",
+      actorType: "USER",
+      actorId: req.user!.userId,
+      actorEmail: req.user?.email ?? null,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: sent.documentHash,
+      details: {
+        recipients: signingTokens.map((st) => ({ tenantId: st.tenantId, name: st.name, email: st.email })),
+        tokenExpiresAt: tokenExpiry.toISOString(),
+      },
+    });
+
     // Send emails
     const propertyAddress = `${lease.unit.property.address}, ${lease.unit.property.city}, ${lease.unit.property.state}`;
     for (const st of signingTokens) {
@@ -2575,7 +3362,7 @@ router.post(
         signingUrl,
         landlordName: lease.organization.name,
       });
-      sendEmail({ to: st.email, ...emailContent }).catch(() => {});
+      queueEmail({ to: st.email, organizationId: orgId, ...emailContent }).catch(() => {});
     }
 
     res.json({
@@ -2592,12 +3379,13 @@ router.post(
 // ─── GET /leases/:id/addendums/:addendumId ─────────────────────────
 router.get(
   "/:id/addendums/:addendumId",
+  requirePermission("leases:view"),
   validate({ params: addendumIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2631,15 +3419,18 @@ router.get(
 // Edit a draft addendum
 router.patch(
   "/:id/addendums/:addendumId",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: addendumIdParamSchema, body: updateAddendumSchema }),
   auditLog("UPDATE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const body = req.body as UpdateAddendumInput;
+    if (body.content) {
+      assertValidMergeContent([{ path: "content", content: body.content }], "addendum");
+    }
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2677,14 +3468,14 @@ router.patch(
 // Void a pending-signature addendum
 router.post(
   "/:id/addendums/:addendumId/void",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: addendumIdParamSchema }),
   auditLog("VOID", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2719,6 +3510,19 @@ router.post(
       }),
     ]);
 
+    await appendSigningEvent({
+      organizationId: orgId,
+      leaseId: lease.id,
+      addendumId: addendum.id,
+      type: "VOIDED",
+      actorType: "USER",
+      actorId: req.user!.userId,
+      actorEmail: req.user?.email ?? null,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: addendum.documentHash,
+    });
+
     res.json({ message: "Addendum voided successfully" });
   })
 );
@@ -2727,14 +3531,14 @@ router.post(
 // Resend signing emails for pending-signature addendums
 router.post(
   "/:id/addendums/:addendumId/resend",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:manage"),
   validate({ params: addendumIdParamSchema }),
   auditLog("RESEND_SIGNATURE", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       include: {
         organization: { select: { name: true } },
         unit: {
@@ -2794,7 +3598,7 @@ router.post(
         signingUrl,
         landlordName: lease.organization.name,
       });
-      sendEmail({ to: sig.tenant.email, ...emailContent }).catch(() => {});
+      queueEmail({ to: sig.tenant.email, organizationId: orgId, ...emailContent }).catch(() => {});
     }
 
     res.json({
@@ -2808,7 +3612,7 @@ router.post(
 // Landlord countersigns after all tenants have signed
 router.post(
   "/:id/addendums/:addendumId/countersign",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("leases:sign"),
   validate({ params: addendumIdParamSchema, body: countersignAddendumSchema }),
   auditLog("COUNTERSIGN", "LeaseAddendum"),
   asyncHandler(async (req, res) => {
@@ -2816,6 +3620,8 @@ router.post(
     const body = req.body as {
       fullName: string;
       signatureImage?: string;
+      agreedToTerms?: true;
+      agreedToEsign?: true;
       signingMetadata?: {
         screenResolution?: string;
         timezone?: string;
@@ -2831,7 +3637,7 @@ router.post(
     };
 
     const lease = await prisma.lease.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...leaseScope(req) },
       select: { id: true },
     });
     if (!lease) {
@@ -2891,6 +3697,31 @@ router.post(
       },
     });
 
+    const countersigner = {
+      organizationId: orgId,
+      leaseId: lease.id,
+      addendumId: addendum.id,
+      actorType: "USER" as const,
+      actorId: req.user!.userId,
+      actorName: body.fullName,
+      actorEmail: req.user?.email ?? null,
+      ipAddress: csClientIp,
+      userAgent: req.headers["user-agent"] ?? null,
+      documentHash: addendum.documentHash,
+    };
+    if (body.agreedToTerms) {
+      await appendSigningEvent({
+        ...countersigner,
+        type: "CONSENTED",
+        details: consentEventDetails(body),
+      });
+    }
+    await appendSigningEvent({
+      ...countersigner,
+      type: "COUNTERSIGNED",
+      details: signatureEventDetails(body),
+    });
+
     createAuditEntry({
       organizationId: orgId,
       userId: req.user!.userId,
@@ -2907,6 +3738,8 @@ router.post(
     // Regenerate addendum document with landlord signature and certificate
     await regenerateAddendumDocument(addendum.id);
 
+    publishSignatureCaptured(lease.id, addendum.id).catch(() => {});
+
     res.json({
       message: "Addendum countersigned successfully",
       landlordSignedAt: now.toISOString(),
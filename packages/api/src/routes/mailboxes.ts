@@ -0,0 +1,246 @@
+import { Router } from "express";
+import type { ConnectedEmail, ConnectedEmailProvider } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { NotFoundError } from "../lib/errors.js";
+import { getClientIp } from "../lib/client-ip.js";
+import { param } from "../lib/params.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { requireMinRole } from "../middleware/rbac.js";
+import { auditLog, createAuditEntry } from "../middleware/audit.js";
+import { env } from "../config/env.js";
+import {
+  mailboxCallbackQuerySchema,
+  mailboxIdParamSchema,
+  mailboxProviderParamSchema,
+} from "../schemas/mailboxes.js";
+import type { MailboxCallbackQuery } from "../schemas/mailboxes.js";
+import { buildMailboxVerificationEmail } from "../services/email.js";
+import {
+  availableMailboxProviders,
+  getMailboxProvider,
+  mailboxRedirectUri,
+  sendFromMailbox,
+  signMailboxState,
+  verifyMailboxState,
+} from "../services/mailbox.js";
+
+const router = Router();
+
+// Tokens never leave the API
+const mailboxSelect = {
+  id: true,
+  provider: true,
+  email: true,
+  isActive: true,
+  verifiedAt: true,
+  expiresAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Prove the mailbox can send by emailing itself. Sets `verifiedAt` on
+ * success; returns the error message otherwise.
+ */
+async function verifyMailbox(mailbox: ConnectedEmail): Promise<string | null> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: mailbox.organizationId },
+    select: { name: true },
+  });
+  try {
+    await sendFromMailbox(mailbox, {
+      to: mailbox.email,
+      ...buildMailboxVerificationEmail({
+        organizationName: organization?.name ?? "your organization",
+        mailbox: mailbox.email,
+      }),
+    });
+  } catch (err) {
+    console.error(`[Mailbox] Verification failed for ${mailbox.email}:`, err);
+    return err instanceof Error ? err.message : "Verification failed";
+  }
+  await prisma.connectedEmail.update({
+    where: { id: mailbox.id },
+    data: { verifiedAt: new Date() },
+  });
+  return null;
+}
+
+function settingsRedirect(status: "connected" | "unverified" | "error", reason?: string) {
+  const params = new URLSearchParams({ mailbox: status, ...(reason ? { reason } : {}) });
+  return `${env.WEB_URL}/settings?${params}`;
+}
+
+// ─── GET /mailboxes/callback/:provider — OAuth redirect target ──────
+// Reached by the browser straight from Google/Microsoft, so it is
+// authenticated by the signed `state` rather than a bearer token.
+router.get(
+  "/callback/:provider",
+  validate({ params: mailboxProviderParamSchema, query: mailboxCallbackQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const provider = param(req, "provider") as ConnectedEmailProvider;
+    const query = req.query as unknown as MailboxCallbackQuery;
+
+    if (query.error || !query.code || !query.state) {
+      res.redirect(settingsRedirect("error", query.error_description ?? query.error ?? "Missing code"));
+      return;
+    }
+
+    let state;
+    try {
+      state = verifyMailboxState(query.state);
+    } catch (err) {
+      res.redirect(settingsRedirect("error", err instanceof Error ? err.message : undefined));
+      return;
+    }
+    if (state.provider !== provider) {
+      res.redirect(settingsRedirect("error", "Provider mismatch"));
+      return;
+    }
+
+    let tokens;
+    try {
+      tokens = await getMailboxProvider(provider).exchangeCode(
+        query.code,
+        mailboxRedirectUri(provider)
+      );
+    } catch (err) {
+      console.error(`[Mailbox] ${provider} code exchange failed:`, err);
+      res.redirect(settingsRedirect("error", "Could not connect the mailbox"));
+      return;
+    }
+    if (!tokens.refreshToken) {
+      res.redirect(settingsRedirect("error", "The provider did not grant offline access"));
+      return;
+    }
+    const refreshToken = tokens.refreshToken;
+
+    // One active mailbox per organization; connecting replaces the old one
+    const mailbox = await prisma.$transaction(async (tx) => {
+      await tx.connectedEmail.updateMany({
+        where: { organizationId: state.organizationId },
+        data: { isActive: false },
+      });
+      const data = {
+        accessToken: tokens.accessToken,
+        refreshToken,
+        expiresAt: tokens.expiresAt,
+        isActive: true,
+        verifiedAt: null,
+      };
+      return tx.connectedEmail.upsert({
+        where: {
+          organizationId_provider_email: {
+            organizationId: state.organizationId,
+            provider,
+            email: tokens.email,
+          },
+        },
+        create: { organizationId: state.organizationId, provider, email: tokens.email, ...data },
+        update: data,
+      });
+    });
+
+    createAuditEntry({
+      organizationId: state.organizationId,
+      userId: state.userId,
+      action: "CONNECT",
+      entityType: "ConnectedEmail",
+      entityId: mailbox.id,
+      changes: { provider, email: mailbox.email },
+      ipAddress: getClientIp(req),
+    });
+
+    const error = await verifyMailbox(mailbox);
+    res.redirect(error ? settingsRedirect("unverified", error) : settingsRedirect("connected"));
+  })
+);
+
+router.use(authenticate, tenancy, requireMinRole("OWNER"));
+
+// ─── GET /mailboxes ─────────────────────────────────────────────────
+router.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const mailboxes = await prisma.connectedEmail.findMany({
+      where: { organizationId: req.organizationId! },
+      select: mailboxSelect,
+      orderBy: { createdAt: "desc" },
+    });
+    res.json({ data: mailboxes, providers: availableMailboxProviders() });
+  })
+);
+
+// ─── POST /mailboxes/connect/:provider ──────────────────────────────
+// Returns the consent URL; the dashboard sends the browser there
+router.post(
+  "/connect/:provider",
+  validate({ params: mailboxProviderParamSchema }),
+  asyncHandler(async (req, res) => {
+    const provider = param(req, "provider") as ConnectedEmailProvider;
+    const state = signMailboxState({
+      organizationId: req.organizationId!,
+      userId: req.user!.userId,
+      provider,
+    });
+    res.json({
+      url: getMailboxProvider(provider).authorizationUrl(state, mailboxRedirectUri(provider)),
+    });
+  })
+);
+
+// ─── POST /mailboxes/:id/verify ─────────────────────────────────────
+router.post(
+  "/:id/verify",
+  validate({ params: mailboxIdParamSchema }),
+  auditLog("VERIFY", "ConnectedEmail"),
+  asyncHandler(async (req, res) => {
+    const mailbox = await prisma.connectedEmail.findFirst({
+      where: { id: param(req, "id"), organizationId: req.organizationId! },
+    });
+    if (!mailbox) {
+      throw new NotFoundError("ConnectedEmail", param(req, "id"));
+    }
+
+    // Re-verifying a mailbox makes it the active one again
+    if (!mailbox.isActive) {
+      await prisma.$transaction([
+        prisma.connectedEmail.updateMany({
+          where: { organizationId: mailbox.organizationId, id: { not: mailbox.id } },
+          data: { isActive: false },
+        }),
+        prisma.connectedEmail.update({ where: { id: mailbox.id }, data: { isActive: true } }),
+      ]);
+    }
+
+    const error = await verifyMailbox({ ...mailbox, isActive: true });
+    const updated = await prisma.connectedEmail.findUniqueOrThrow({
+      where: { id: mailbox.id },
+      select: mailboxSelect,
+    });
+    res.json({ ...updated, error });
+  })
+);
+
+// ─── DELETE /mailboxes/:id ──────────────────────────────────────────
+router.delete(
+  "/:id",
+  validate({ params: mailboxIdParamSchema }),
+  auditLog("DISCONNECT", "ConnectedEmail"),
+  asyncHandler(async (req, res) => {
+    const mailbox = await prisma.connectedEmail.findFirst({
+      where: { id: param(req, "id"), organizationId: req.organizationId! },
+      select: { id: true },
+    });
+    if (!mailbox) {
+      throw new NotFoundError("ConnectedEmail", param(req, "id"));
+    }
+
+    await prisma.connectedEmail.delete({ where: { id: mailbox.id } });
+    res.json({ message: "Mailbox disconnected" });
+  })
+);
+
+export default router;
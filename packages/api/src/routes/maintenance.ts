@@ -1,9 +1,9 @@
 import { Router } from "express";
+import type { Request } from "express";
 import multer from "multer";
-import path from "path";
-import { randomUUID } from "crypto";
 import type { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
+import { storeUploads } from "../lib/storage.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import { NotFoundError, ValidationError } from "../lib/errors.js";
 import { getPaginationMeta } from "../lib/pagination.js";
@@ -11,7 +11,13 @@ import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  assertPropertyAccess,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import {
   createMaintenanceRequestSchema,
@@ -24,20 +30,14 @@ import type {
   UpdateMaintenanceRequestInput,
   MaintenanceListQuery,
 } from "../schemas/maintenance.js";
+import { notifyMaintenanceUpdate } from "../services/notifications.js";
+import { publishMaintenanceUpdated } from "../services/realtime.js";
 import { env } from "../config/env.js";
 
 const router = Router();
 
 // ─── Multer for maintenance photos ──────────────────────────────────
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, env.UPLOAD_DIR);
-  },
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `maint-${randomUUID()}${ext}`);
-  },
-});
+const storage = multer.memoryStorage();
 
 const upload = multer({
   storage,
@@ -52,11 +52,15 @@ const upload = multer({
   },
 });
 
-router.use(authenticate, tenancy);
+router.use(authenticate, tenancy, loadAccess);
+
+const requestScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ propertyId: { in: ids } }));
 
 // ─── GET /maintenance ───────────────────────────────────────────────
 router.get(
   "/",
+  requirePermission("maintenance:view"),
   validate({ query: maintenanceListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -80,6 +84,7 @@ router.get(
       ...(propertyId ? { propertyId } : {}),
       ...(unitId ? { unitId } : {}),
       ...(tenantId ? { tenantId } : {}),
+      AND: [requestScope(req)],
     };
 
     const orderBy = sortBy
@@ -116,6 +121,7 @@ router.get(
 // ─── POST /maintenance ──────────────────────────────────────────────
 router.post(
   "/",
+  requirePermission("maintenance:manage"),
   validate({ body: createMaintenanceRequestSchema }),
   auditLog("CREATE", "MaintenanceRequest"),
   asyncHandler(async (req, res) => {
@@ -123,6 +129,7 @@ router.post(
     const body = req.body as CreateMaintenanceRequestInput;
 
     // Validate property
+    assertPropertyAccess(req, body.propertyId);
     const property = await prisma.property.findFirst({
       where: { id: body.propertyId, organizationId: orgId },
       select: { id: true },
@@ -167,6 +174,8 @@ router.post(
       },
     });
 
+    publishMaintenanceUpdated(request.id).catch(() => {});
+
     res.status(201).json(request);
   })
 );
@@ -174,12 +183,13 @@ router.post(
 // ─── GET /maintenance/:id ───────────────────────────────────────────
 router.get(
   "/:id",
+  requirePermission("maintenance:view"),
   validate({ params: maintenanceIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const request = await prisma.maintenanceRequest.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...requestScope(req) },
       include: {
         property: {
           select: { id: true, name: true, address: true, city: true, state: true, zip: true },
@@ -209,7 +219,7 @@ router.get(
 // ─── PATCH /maintenance/:id ─────────────────────────────────────────
 router.patch(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("maintenance:manage"),
   validate({ params: maintenanceIdParamSchema, body: updateMaintenanceRequestSchema }),
   auditLog("UPDATE", "MaintenanceRequest"),
   asyncHandler(async (req, res) => {
@@ -217,7 +227,7 @@ router.patch(
     const body = req.body as UpdateMaintenanceRequestInput;
 
     const existing = await prisma.maintenanceRequest.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...requestScope(req) },
     });
     if (!existing) {
       throw new NotFoundError("MaintenanceRequest", param(req, "id"));
@@ -245,6 +255,11 @@ router.patch(
       },
     });
 
+    if (request.status !== existing.status) {
+      notifyMaintenanceUpdate(request.id, { isNew: false }).catch(() => {});
+      publishMaintenanceUpdated(request.id).catch(() => {});
+    }
+
     res.json(request);
   })
 );
@@ -259,7 +274,7 @@ router.delete(
     const orgId = req.organizationId!;
 
     const existing = await prisma.maintenanceRequest.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...requestScope(req) },
     });
     if (!existing) {
       throw new NotFoundError("MaintenanceRequest", param(req, "id"));
@@ -284,7 +299,7 @@ router.post(
     const orgId = req.organizationId!;
 
     const request = await prisma.maintenanceRequest.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...requestScope(req) },
     });
     if (!request) {
       throw new NotFoundError("MaintenanceRequest", param(req, "id"));
@@ -295,7 +310,7 @@ router.post(
       throw new ValidationError("At least one photo is required");
     }
 
-    const newUrls = files.map((f) => `/uploads/${f.filename}`);
+    const newUrls = await storeUploads(files, "maint");
     const existingPhotos = (request.photos as string[] | null) ?? [];
     const allPhotos = [...existingPhotos, ...newUrls];
 
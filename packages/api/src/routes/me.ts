@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { auditLog } from "../middleware/audit.js";
+import { updateNotificationPreferencesSchema } from "../schemas/notifications.js";
+import type { UpdateNotificationPreferencesInput } from "../schemas/notifications.js";
+import { getNotificationPreferences } from "../services/notifications.js";
+
+const router = Router();
+
+// Settings for the signed-in user; shared by the dashboard and the portal
+router.use(authenticate, tenancy);
+
+// ─── GET /me/notification-preferences ───────────────────────────────
+router.get(
+  "/notification-preferences",
+  asyncHandler(async (req, res) => {
+    res.json({ data: await getNotificationPreferences(req.user!.userId) });
+  })
+);
+
+// ─── PUT /me/notification-preferences ───────────────────────────────
+router.put(
+  "/notification-preferences",
+  validate({ body: updateNotificationPreferencesSchema }),
+  auditLog("UPDATE", "NotificationPreference", (req) => req.user!.userId),
+  asyncHandler(async (req, res) => {
+    const userId = req.user!.userId;
+    const { preferences } = req.body as UpdateNotificationPreferencesInput;
+
+    await prisma.$transaction(
+      preferences.map(({ type, ...channels }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, ...channels },
+          update: channels,
+        })
+      )
+    );
+
+    res.json({ data: await getNotificationPreferences(userId) });
+  })
+);
+
+export default router;
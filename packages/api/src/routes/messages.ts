@@ -21,6 +21,9 @@ import type {
   SendMessageInput,
   ThreadListQuery,
 } from "../schemas/messages.js";
+import { notifyNewMessage, queueSms } from "../services/notifications.js";
+import { publishMessageCreated } from "../services/realtime.js";
+import { isSmsOptedOut, normalizePhone } from "../services/sms.js";
 
 const router = Router();
 
@@ -191,6 +194,12 @@ router.post(
       });
     });
 
+    const firstMessage = thread?.messages[0];
+    if (firstMessage) {
+      notifyNewMessage(firstMessage.id).catch(() => {});
+      publishMessageCreated(firstMessage.id).catch(() => {});
+    }
+
     res.status(201).json(thread);
   })
 );
@@ -261,13 +270,31 @@ router.post(
     const thread = await prisma.messageThread.findFirst({
       where: { id: param(req, "id"), organizationId: orgId },
       include: {
-        tenant: { select: { id: true, userId: true } },
+        tenant: { select: { id: true, userId: true, phone: true } },
       },
     });
     if (!thread) {
       throw new NotFoundError("MessageThread", param(req, "id"));
     }
 
+    // SMS replies go from staff to the tenant's mobile number
+    let smsTo: string | null = null;
+    if (body.channel === "SMS") {
+      if (req.user!.role === "TENANT") {
+        throw new AuthorizationError("Tenants reply by text from their phone");
+      }
+      if (body.body.length > 1600) {
+        throw new ValidationError("Text messages are limited to 1600 characters");
+      }
+      smsTo = normalizePhone(thread.tenant.phone);
+      if (!smsTo) {
+        throw new ValidationError("Tenant does not have a valid mobile number");
+      }
+      if (await isSmsOptedOut(smsTo)) {
+        throw new ValidationError("Tenant has opted out of text messages");
+      }
+    }
+
     // If TENANT, verify they own this thread
     if (req.user!.role === "TENANT") {
       const tenant = await prisma.tenant.findFirst({
@@ -314,7 +341,7 @@ router.post(
           senderType: senderTypeFromRole(req.user!.role),
           recipientId,
           recipientType,
-          channel: "IN_APP",
+          channel: body.channel,
           body: body.body,
         },
         include: {
@@ -332,6 +359,13 @@ router.post(
       return created;
     });
 
+    if (smsTo) {
+      queueSms(smsTo, body.body, message.id).catch(() => {});
+    } else {
+      notifyNewMessage(message.id).catch(() => {});
+    }
+    publishMessageCreated(message.id).catch(() => {});
+
     res.status(201).json(message);
   })
 );
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import type { Request } from "express";
 import { prisma } from "../lib/prisma.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import {
@@ -10,7 +11,11 @@ import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  loadAccess,
+  propertyScopeWhere,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import {
   createPaymentSchema,
@@ -21,6 +26,7 @@ import {
   paymentMethodIdParamSchema,
   assessLateFeeSchema,
   lateFeeIdParamSchema,
+  lateFeePreviewQuerySchema,
 } from "../schemas/payments.js";
 import type {
   CreatePaymentInput,
@@ -28,19 +34,48 @@ import type {
   PaymentListQuery,
   SavePaymentMethodInput,
   AssessLateFeeInput,
+  LateFeePreviewQuery,
 } from "../schemas/payments.js";
 import {
   createPaymentIntent,
   refundPayment,
 } from "../lib/stripe.js";
+import { baseLateFee, evaluateLateFees } from "../services/lateFees.js";
+import {
+  recordPaymentInLedger,
+  recordLateFeeInLedger,
+} from "../services/ledger.js";
+import { notifyPaymentReceived } from "../services/notifications.js";
+import { publishPaymentCompleted } from "../services/realtime.js";
 
 const router = Router();
 
-router.use(authenticate, tenancy);
+router.use(authenticate, tenancy, loadAccess);
+
+const leaseScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ unit: { propertyId: { in: ids } } }));
+
+// Payments and late fees both hang off a lease
+const byLeaseScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ lease: { unit: { propertyId: { in: ids } } } }));
+
+// Payment methods belong to tenants living in, or leasing at, a property
+const tenantScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({
+    AND: [
+      {
+        OR: [
+          { currentUnit: { propertyId: { in: ids } } },
+          { leaseTenants: { some: { lease: { unit: { propertyId: { in: ids } } } } } },
+        ],
+      },
+    ],
+  }));
 
 // ─── GET /payments ──────────────────────────────────────────────────
 router.get(
   "/",
+  requirePermission("payments:view"),
   validate({ query: paymentListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -50,6 +85,7 @@ router.get(
 
     const where: Record<string, unknown> = {
       organizationId: orgId,
+      ...byLeaseScope(req),
       ...(status ? { status } : {}),
       ...(leaseId ? { leaseId } : {}),
       ...(tenantId ? { tenantId } : {}),
@@ -104,6 +140,7 @@ router.get(
 // ─── POST /payments — Stripe-backed payment (ACH or card) ──────────
 router.post(
   "/",
+  requirePermission("payments:record"),
   validate({ body: createPaymentSchema }),
   auditLog("CREATE", "Payment"),
   asyncHandler(async (req, res) => {
@@ -112,7 +149,7 @@ router.post(
 
     // Validate lease belongs to org and is active
     const lease = await prisma.lease.findFirst({
-      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE" },
+      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE", ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", body.leaseId);
@@ -203,6 +240,10 @@ router.post(
       },
     });
 
+    await recordPaymentInLedger(payment.id);
+    notifyPaymentReceived(payment.id).catch(() => {});
+    publishPaymentCompleted(payment.id).catch(() => {});
+
     res.status(201).json({
       ...payment,
       stripeClientSecret: intent.client_secret,
@@ -213,7 +254,7 @@ router.post(
 // ─── POST /payments/manual — Record a manual payment ────────────────
 router.post(
   "/manual",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("payments:record"),
   validate({ body: recordManualPaymentSchema }),
   auditLog("CREATE", "Payment"),
   asyncHandler(async (req, res) => {
@@ -221,7 +262,7 @@ router.post(
     const body = req.body as RecordManualPaymentInput;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE" },
+      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE", ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", body.leaseId);
@@ -266,6 +307,10 @@ router.post(
       },
     });
 
+    await recordPaymentInLedger(payment.id);
+    notifyPaymentReceived(payment.id).catch(() => {});
+    publishPaymentCompleted(payment.id).catch(() => {});
+
     res.status(201).json(payment);
   })
 );
@@ -273,12 +318,13 @@ router.post(
 // ─── GET /payments/:id ──────────────────────────────────────────────
 router.get(
   "/:id",
+  requirePermission("payments:view"),
   validate({ params: paymentIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const payment = await prisma.payment.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...byLeaseScope(req) },
       include: {
         lease: {
           select: {
@@ -321,14 +367,14 @@ router.get(
 // ─── POST /payments/:id/refund ──────────────────────────────────────
 router.post(
   "/:id/refund",
-  requireMinRole("OWNER"),
+  requirePermission("payments:refund"),
   validate({ params: paymentIdParamSchema }),
   auditLog("REFUND", "Payment"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const payment = await prisma.payment.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...byLeaseScope(req) },
     });
     if (!payment) {
       throw new NotFoundError("Payment", param(req, "id"));
@@ -350,6 +396,8 @@ router.post(
       data: { status: "REFUNDED" },
     });
 
+    await recordPaymentInLedger(updated.id);
+
     res.json({ ...updated, message: "Payment refunded successfully" });
   })
 );
@@ -359,6 +407,7 @@ router.post(
 // GET /payments/methods
 router.get(
   "/methods/list",
+  requirePermission("payments:view"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const tenantId = req.query["tenantId"] as string | undefined;
@@ -367,7 +416,7 @@ router.get(
     if (tenantId) {
       // Validate tenant belongs to org
       const tenant = await prisma.tenant.findFirst({
-        where: { id: tenantId, organizationId: orgId },
+        where: { id: tenantId, organizationId: orgId, ...tenantScope(req) },
         select: { id: true },
       });
       if (!tenant) {
@@ -376,7 +425,7 @@ router.get(
       where["tenantId"] = tenantId;
     } else {
       // Return all payment methods for org tenants
-      where["tenant"] = { organizationId: orgId };
+      where["tenant"] = { organizationId: orgId, ...tenantScope(req) };
     }
 
     const methods = await prisma.paymentMethodRecord.findMany({
@@ -396,7 +445,7 @@ router.get(
 // POST /payments/methods
 router.post(
   "/methods",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("payments:record"),
   validate({ body: savePaymentMethodSchema }),
   auditLog("CREATE", "PaymentMethod"),
   asyncHandler(async (req, res) => {
@@ -404,7 +453,7 @@ router.post(
     const body = req.body as SavePaymentMethodInput;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: body.tenantId, organizationId: orgId },
+      where: { id: body.tenantId, organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", body.tenantId);
@@ -437,17 +486,19 @@ router.post(
 // DELETE /payments/methods/:id
 router.delete(
   "/methods/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("payments:record"),
   validate({ params: paymentMethodIdParamSchema }),
   auditLog("DELETE", "PaymentMethod"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const method = await prisma.paymentMethodRecord.findFirst({
-      where: { id: param(req, "id") },
-      include: { tenant: { select: { organizationId: true } } },
+      where: {
+        id: param(req, "id"),
+        tenant: { organizationId: orgId, ...tenantScope(req) },
+      },
     });
-    if (!method || method.tenant.organizationId !== orgId) {
+    if (!method) {
       throw new NotFoundError("PaymentMethod", param(req, "id"));
     }
 
@@ -464,7 +515,7 @@ router.delete(
 // POST /payments/late-fees — Assess a late fee on a lease
 router.post(
   "/late-fees",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("payments:record"),
   validate({ body: assessLateFeeSchema }),
   auditLog("CREATE", "LateFee"),
   asyncHandler(async (req, res) => {
@@ -472,7 +523,7 @@ router.post(
     const body = req.body as AssessLateFeeInput;
 
     const lease = await prisma.lease.findFirst({
-      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE" },
+      where: { id: body.leaseId, organizationId: orgId, status: "ACTIVE", ...leaseScope(req) },
     });
     if (!lease) {
       throw new NotFoundError("Lease", body.leaseId);
@@ -481,16 +532,13 @@ router.post(
     // Determine late fee amount from lease settings or override
     let feeAmount = body.amount;
     if (!feeAmount) {
-      if (!lease.lateFeeAmount) {
+      const configured = lease.lateFeeAmount ? baseLateFee(lease) : null;
+      if (!configured) {
         throw new ValidationError(
           "No late fee amount configured on this lease. Provide an explicit amount."
         );
       }
-      if (lease.lateFeeType === "PERCENTAGE") {
-        feeAmount = Number(lease.monthlyRent) * (Number(lease.lateFeeAmount) / 100);
-      } else {
-        feeAmount = Number(lease.lateFeeAmount);
-      }
+      feeAmount = configured;
     }
 
     const lateFee = await prisma.lateFee.create({
@@ -517,21 +565,50 @@ router.post(
       },
     });
 
+    await recordLateFeeInLedger(lateFee.id);
+
     res.status(201).json(lateFee);
   })
 );
 
+// GET /payments/late-fees/preview — Dry run of automatic late-fee assessment
+router.get(
+  "/late-fees/preview",
+  requirePermission("payments:view"),
+  validate({ query: lateFeePreviewQuerySchema }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const { asOf } = req.query as unknown as LateFeePreviewQuery;
+    const evaluatedAt = asOf ?? new Date();
+
+    const assessments = await evaluateLateFees({
+      asOf: evaluatedAt,
+      organizationId: orgId,
+      propertyIds: req.access!.propertyIds,
+    });
+
+    res.json({
+      asOf: evaluatedAt.toISOString(),
+      data: assessments,
+      totals: {
+        count: assessments.length,
+        amount: assessments.reduce((sum, a) => sum + a.amount, 0),
+      },
+    });
+  })
+);
+
 // POST /payments/late-fees/:id/waive
 router.post(
   "/late-fees/:id/waive",
-  requireMinRole("OWNER"),
+  requirePermission("payments:refund"),
   validate({ params: lateFeeIdParamSchema }),
   auditLog("WAIVE", "LateFee"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const lateFee = await prisma.lateFee.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...byLeaseScope(req) },
     });
     if (!lateFee) {
       throw new NotFoundError("LateFee", param(req, "id"));
@@ -550,6 +627,8 @@ router.post(
       data: { waived: true },
     });
 
+    await recordLateFeeInLedger(updated.id);
+
     res.json({ ...updated, message: "Late fee waived successfully" });
   })
 );
@@ -557,12 +636,14 @@ router.post(
 // GET /payments/late-fees — List late fees
 router.get(
   "/late-fees/list",
+  requirePermission("payments:view"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const leaseId = req.query["leaseId"] as string | undefined;
 
     const where: Record<string, unknown> = {
       organizationId: orgId,
+      ...byLeaseScope(req),
       ...(leaseId ? { leaseId } : {}),
     };
 
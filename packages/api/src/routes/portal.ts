@@ -1,9 +1,8 @@
 import { Router } from "express";
 import multer from "multer";
-import path from "path";
-import { randomUUID } from "crypto";
 import type { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
+import { storeUploads } from "../lib/storage.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import {
   NotFoundError,
@@ -18,6 +17,8 @@ import { tenancy } from "../middleware/tenancy.js";
 import { requireRole } from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import { createPaymentSchema, paymentListQuerySchema } from "../schemas/payments.js";
+import { declineRenewalSchema, renewalOfferParamSchema } from "../schemas/leases.js";
+import type { DeclineRenewalInput } from "../schemas/leases.js";
 import type { CreatePaymentInput, PaymentListQuery } from "../schemas/payments.js";
 import {
   createMaintenanceRequestSchema,
@@ -25,6 +26,24 @@ import {
 } from "../schemas/maintenance.js";
 import { paginationSchema } from "../lib/pagination.js";
 import { createPaymentIntent } from "../lib/stripe.js";
+import {
+  getLeaseLedger,
+  recordPaymentInLedger,
+} from "../services/ledger.js";
+import { sharedDocumentsWhere } from "../services/documentSharing.js";
+import {
+  notifyMaintenanceUpdate,
+  notifyPaymentReceived,
+  queueEmail,
+  staffRecipients,
+} from "../services/notifications.js";
+import { buildLeaseRenewalResponseEmail } from "../services/email.js";
+import { acceptLeaseRenewal } from "../services/leaseRenewals.js";
+import { startOfDayUTC } from "../lib/dates.js";
+import {
+  publishMaintenanceUpdated,
+  publishPaymentCompleted,
+} from "../services/realtime.js";
 import { env } from "../config/env.js";
 
 const router = Router();
@@ -44,15 +63,7 @@ async function getTenantForUser(userId: string, orgId: string) {
 }
 
 // ─── Multer for maintenance photos ──────────────────────────────────
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, env.UPLOAD_DIR);
-  },
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `portal-maint-${randomUUID()}${ext}`);
-  },
-});
+const storage = multer.memoryStorage();
 
 const upload = multer({
   storage,
@@ -82,6 +93,7 @@ router.get(
       await Promise.all([
         prisma.leaseTenant.findFirst({
           where: { tenantId: tenant.id, lease: { status: "ACTIVE" } },
+          orderBy: { lease: { startDate: "asc" } },
           include: {
             lease: {
               include: {
@@ -139,6 +151,10 @@ router.get(
         })
       : [];
 
+    const ledger = activeLease
+      ? await getLeaseLedger(activeLease.leaseId)
+      : null;
+
     res.json({
       tenant: {
         id: tenant.id,
@@ -162,6 +178,7 @@ router.get(
       openMaintenanceRequests: openMaintenance,
       unreadMessages,
       outstandingLateFees,
+      balance: ledger?.summary ?? null,
     });
   })
 );
@@ -182,6 +199,8 @@ router.get(
         tenantId: tenant.id,
         lease: { status: { in: ["ACTIVE", "PENDING_SIGNATURE"] } },
       },
+      // The current lease, ahead of a renewal that hasn't started yet
+      orderBy: { lease: { startDate: "asc" } },
       include: {
         lease: {
           include: {
@@ -222,11 +241,132 @@ router.get(
       return;
     }
 
+    const renewal = await prisma.leaseRenewal.findFirst({
+      where: { leaseId: leaseTenant.leaseId, status: { in: ["PENDING", "ACCEPTED"] } },
+      orderBy: { createdAt: "desc" },
+      include: {
+        successorLease: { select: { id: true, status: true, startDate: true, endDate: true } },
+      },
+    });
+
     res.json({
       lease: leaseTenant.lease,
       signedAt: leaseTenant.signedAt,
       isPrimary: leaseTenant.isPrimary,
+      renewal,
+    });
+  })
+);
+
+// ─── Helper: a renewal offer on one of this tenant's leases ─────────
+async function getRenewalForTenant(renewalId: string, tenantId: string, orgId: string) {
+  const renewal = await prisma.leaseRenewal.findFirst({
+    where: {
+      id: renewalId,
+      organizationId: orgId,
+      lease: { tenants: { some: { tenantId } } },
+    },
+    include: {
+      lease: {
+        select: {
+          id: true,
+          unit: {
+            select: {
+              unitNumber: true,
+              property: { select: { address: true, city: true, state: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!renewal) {
+    throw new NotFoundError("LeaseRenewal", renewalId);
+  }
+
+  if (renewal.status === "PENDING" && renewal.respondBy && renewal.respondBy < startOfDayUTC(new Date())) {
+    throw new ValidationError("This renewal offer has expired");
+  }
+  return renewal;
+}
+
+async function emailRenewalResponse(
+  renewal: Awaited<ReturnType<typeof getRenewalForTenant>>,
+  tenant: { firstName: string; lastName: string },
+  outcome: { accepted: boolean; declineReason: string | null; leaseId: string }
+) {
+  const property = renewal.lease.unit.property;
+  for (const staff of await staffRecipients(renewal.organizationId)) {
+    const emailContent = buildLeaseRenewalResponseEmail({
+      recipientName: staff.name,
+      tenantName: `${tenant.firstName} ${tenant.lastName}`,
+      propertyAddress: `${property.address}, ${property.city}, ${property.state}`,
+      unitNumber: renewal.lease.unit.unitNumber,
+      accepted: outcome.accepted,
+      declineReason: outcome.declineReason,
+      leaseUrl: `${env.WEB_URL}/leases/${outcome.leaseId}`,
     });
+    await queueEmail({ to: staff.email, organizationId: renewal.organizationId, ...emailContent });
+  }
+}
+
+// POST /portal/renewals/:renewalId/accept — Drafts the renewed lease for signing
+router.post(
+  "/renewals/:renewalId/accept",
+  validate({ params: renewalOfferParamSchema }),
+  auditLog("ACCEPT_RENEWAL", "LeaseRenewal"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const tenant = await getTenantForUser(req.user!.userId, orgId);
+    const renewal = await getRenewalForTenant(param(req, "renewalId"), tenant.id, orgId);
+
+    if (renewal.status !== "PENDING") {
+      throw new ValidationError("This renewal offer has already been answered");
+    }
+
+    const accepted = await acceptLeaseRenewal(renewal.id, tenant.id);
+
+    emailRenewalResponse(renewal, tenant, {
+      accepted: true,
+      declineReason: null,
+      leaseId: accepted.successorLeaseId ?? renewal.leaseId,
+    }).catch(() => {});
+
+    res.json(accepted);
+  })
+);
+
+// POST /portal/renewals/:renewalId/decline
+router.post(
+  "/renewals/:renewalId/decline",
+  validate({ params: renewalOfferParamSchema, body: declineRenewalSchema }),
+  auditLog("DECLINE_RENEWAL", "LeaseRenewal"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const tenant = await getTenantForUser(req.user!.userId, orgId);
+    const body = req.body as DeclineRenewalInput;
+    const renewal = await getRenewalForTenant(param(req, "renewalId"), tenant.id, orgId);
+
+    const declined = await prisma.leaseRenewal.updateMany({
+      where: { id: renewal.id, status: "PENDING" },
+      data: {
+        status: "DECLINED",
+        respondedAt: new Date(),
+        respondedById: tenant.id,
+        declineReason: body.reason,
+      },
+    });
+    if (declined.count === 0) {
+      throw new ValidationError("This renewal offer has already been answered");
+    }
+
+    emailRenewalResponse(renewal, tenant, {
+      accepted: false,
+      declineReason: body.reason ?? null,
+      leaseId: renewal.leaseId,
+    }).catch(() => {});
+
+    res.json({ id: renewal.id, message: "Renewal offer declined" });
   })
 );
 
@@ -281,6 +421,31 @@ router.get(
   })
 );
 
+// GET /portal/ledger — Charges, payments and running balance on the active lease
+router.get(
+  "/ledger",
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const tenant = await getTenantForUser(req.user!.userId, orgId);
+
+    const leaseTenant = await prisma.leaseTenant.findFirst({
+      where: { tenantId: tenant.id, lease: { status: "ACTIVE" } },
+      orderBy: { lease: { startDate: "asc" } },
+      select: { leaseId: true },
+    });
+
+    if (!leaseTenant) {
+      res.json({ entries: [], summary: null });
+      return;
+    }
+
+    const ledger = await getLeaseLedger(leaseTenant.leaseId);
+
+    // Newest first for display; running balances are already computed
+    res.json({ entries: ledger.entries.reverse(), summary: ledger.summary });
+  })
+);
+
 // POST /portal/payments — Make a payment (ACH or card)
 router.post(
   "/payments",
@@ -348,6 +513,10 @@ router.post(
       },
     });
 
+    await recordPaymentInLedger(payment.id);
+    notifyPaymentReceived(payment.id).catch(() => {});
+    publishPaymentCompleted(payment.id).catch(() => {});
+
     res.status(201).json({
       ...payment,
       stripeClientSecret: intent.client_secret,
@@ -468,6 +637,9 @@ router.post(
       },
     });
 
+    notifyMaintenanceUpdate(request.id, { isNew: true }).catch(() => {});
+    publishMaintenanceUpdated(request.id).catch(() => {});
+
     res.status(201).json(request);
   })
 );
@@ -494,7 +666,7 @@ router.post(
       throw new ValidationError("At least one photo is required");
     }
 
-    const newUrls = files.map((f) => `/uploads/${f.filename}`);
+    const newUrls = await storeUploads(files, "portal-maint");
     const existingPhotos = (request.photos as string[] | null) ?? [];
     const allPhotos = [...existingPhotos, ...newUrls];
 
@@ -507,6 +679,39 @@ router.post(
   })
 );
 
+// ═══════════════════════════════════════════════════════════════════
+// Documents — library documents the landlord has shared
+// ═══════════════════════════════════════════════════════════════════
+
+// GET /portal/documents
+router.get(
+  "/documents",
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const tenant = await getTenantForUser(req.user!.userId, orgId);
+
+    const documents = await prisma.document.findMany({
+      where: await sharedDocumentsWhere(tenant),
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        description: true,
+        folder: true,
+        url: true,
+        size: true,
+        mimeType: true,
+        createdAt: true,
+        property: { select: { id: true, name: true } },
+        unit: { select: { id: true, unitNumber: true } },
+      },
+    });
+
+    res.json({ data: documents });
+  })
+);
+
 // ═══════════════════════════════════════════════════════════════════
 // Profile — view/update own profile
 // ═══════════════════════════════════════════════════════════════════
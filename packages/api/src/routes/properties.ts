@@ -1,16 +1,21 @@
 import { Router } from "express";
 import multer from "multer";
-import path from "path";
-import { randomUUID } from "crypto";
 import { prisma } from "../lib/prisma.js";
+import { storeUploads } from "../lib/storage.js";
 import { asyncHandler } from "../lib/async-handler.js";
-import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { AuthorizationError, NotFoundError, ValidationError } from "../lib/errors.js";
 import { getPaginationMeta } from "../lib/pagination.js";
 import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  assertPropertyAccess,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import {
   createPropertySchema,
@@ -28,15 +33,7 @@ import { env } from "../config/env.js";
 const router = Router();
 
 // Configure multer for photo uploads
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, env.UPLOAD_DIR);
-  },
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `property-${randomUUID()}${ext}`);
-  },
-});
+const storage = multer.memoryStorage();
 
 const upload = multer({
   storage,
@@ -57,11 +54,12 @@ const upload = multer({
 });
 
 // All property routes require auth + tenancy
-router.use(authenticate, tenancy);
+router.use(authenticate, tenancy, loadAccess);
 
 // GET /properties
 router.get(
   "/",
+  requirePermission("properties:view"),
   validate({ query: propertyListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -70,6 +68,7 @@ router.get(
 
     const where = {
       organizationId: orgId,
+      ...propertyScopeWhere(req, (ids) => ({ id: { in: ids } })),
       ...(status ? { status } : { status: { not: "ARCHIVED" as const } }),
       ...(type ? { type } : {}),
       ...(search
@@ -136,13 +135,20 @@ router.get(
 // POST /properties
 router.post(
   "/",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("properties:manage"),
   validate({ body: createPropertySchema }),
   auditLog("CREATE", "Property"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const body = req.body as CreatePropertyInput;
 
+    // The new property would fall outside their own scope
+    if (req.access!.propertyIds) {
+      throw new AuthorizationError(
+        "Team members limited to specific properties cannot add new ones"
+      );
+    }
+
     const property = await prisma.property.create({
       data: {
         organizationId: orgId,
@@ -173,9 +179,11 @@ router.post(
 // GET /properties/:id
 router.get(
   "/:id",
+  requirePermission("properties:view"),
   validate({ params: propertyIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
+    assertPropertyAccess(req, param(req, "id"));
 
     const property = await prisma.property.findFirst({
       where: {
@@ -226,13 +234,14 @@ router.get(
 // PATCH /properties/:id
 router.patch(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("properties:manage"),
   validate({ params: propertyIdParamSchema, body: updatePropertySchema }),
   auditLog("UPDATE", "Property"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
     const body = req.body as UpdatePropertyInput;
 
+    assertPropertyAccess(req, param(req, "id"));
     const existing = await prisma.property.findFirst({
       where: { id: param(req, "id"), organizationId: orgId },
     });
@@ -281,13 +290,14 @@ router.delete(
 // POST /properties/:id/photos
 router.post(
   "/:id/photos",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("properties:manage"),
   validate({ params: propertyIdParamSchema }),
   upload.array("photos", 20),
   auditLog("UPLOAD_PHOTOS", "Property"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
+    assertPropertyAccess(req, param(req, "id"));
     const existing = await prisma.property.findFirst({
       where: { id: param(req, "id"), organizationId: orgId },
     });
@@ -311,10 +321,12 @@ router.post(
     const captions = req.body as { captions?: string[] };
     const captionList = captions.captions ?? [];
 
+    const keys = await storeUploads(files, "property");
+
     const photos = await prisma.propertyPhoto.createManyAndReturn({
       data: files.map((file, i) => ({
         propertyId: param(req, "id")!,
-        url: `/uploads/${file.filename}`,
+        url: keys[i]!,
         caption: captionList[i] ?? null,
         sortOrder: startOrder + i,
       })),
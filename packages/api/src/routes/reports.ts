@@ -8,6 +8,7 @@ import { tenancy } from "../middleware/tenancy.js";
 import { requireMinRole } from "../middleware/rbac.js";
 import { reportQuerySchema } from "../schemas/reports.js";
 import type { ReportQuery } from "../schemas/reports.js";
+import { getLeaseBalances } from "../services/ledger.js";
 
 const router = Router();
 
@@ -176,8 +177,13 @@ router.get(
           orderBy: { unitNumber: "asc" },
         });
 
+        const balances = await getLeaseBalances(
+          units.flatMap((u) => u.leases.map((l) => l.id))
+        );
+
         let totalMarketRent = 0;
         let totalActualRent = 0;
+        let totalBalance = 0;
         let occupiedCount = 0;
         let vacantCount = 0;
 
@@ -185,6 +191,8 @@ router.get(
           const activeLease = unit.leases[0] ?? null;
           const marketRent = Number(unit.rent);
           const actualRent = activeLease ? Number(activeLease.monthlyRent) : 0;
+          const balance = activeLease ? (balances.get(activeLease.id) ?? 0) : 0;
+          totalBalance += balance;
 
           totalMarketRent += marketRent;
           if (unit.status === "OCCUPIED") {
@@ -210,6 +218,7 @@ router.get(
                   startDate: activeLease.startDate,
                   endDate: activeLease.endDate,
                   securityDeposit: Number(activeLease.securityDeposit),
+                  balance,
                 }
               : null,
             tenants: unit.currentTenants,
@@ -234,6 +243,7 @@ router.get(
             totalMarketRent,
             totalActualRent,
             potentialLoss: totalMarketRent - totalActualRent,
+            totalBalance: Math.round(totalBalance * 100) / 100,
           },
         };
       })
@@ -247,8 +257,17 @@ router.get(
         vacant: acc.vacant + p.summary.vacant,
         totalMarketRent: acc.totalMarketRent + p.summary.totalMarketRent,
         totalActualRent: acc.totalActualRent + p.summary.totalActualRent,
+        totalBalance:
+          Math.round((acc.totalBalance + p.summary.totalBalance) * 100) / 100,
       }),
-      { totalUnits: 0, occupied: 0, vacant: 0, totalMarketRent: 0, totalActualRent: 0 }
+      {
+        totalUnits: 0,
+        occupied: 0,
+        vacant: 0,
+        totalMarketRent: 0,
+        totalActualRent: 0,
+        totalBalance: 0,
+      }
     );
 
     res.json({
@@ -0,0 +1,579 @@
+import { Router } from "express";
+import { randomBytes } from "crypto";
+import { prisma } from "../lib/prisma.js";
+import type { TransactionClient } from "../lib/prisma.js";
+import { asyncHandler } from "../lib/async-handler.js";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
+import { param } from "../lib/params.js";
+import { validate } from "../middleware/validate.js";
+import { authenticate } from "../middleware/auth.js";
+import { tenancy } from "../middleware/tenancy.js";
+import { requireMinRole } from "../middleware/rbac.js";
+import { auditLog } from "../middleware/audit.js";
+import { env } from "../config/env.js";
+import { PERMISSIONS, ROLE_TEMPLATES } from "../lib/permissions.js";
+import {
+  createPermissionRoleSchema,
+  invitationIdParamSchema,
+  inviteMemberSchema,
+  memberIdParamSchema,
+  permissionRoleIdParamSchema,
+  transferOwnershipSchema,
+  updateMemberAccessSchema,
+  updateMemberSchema,
+  updatePermissionRoleSchema,
+  updateSecuritySchema,
+} from "../schemas/team.js";
+import type {
+  CreatePermissionRoleInput,
+  InviteMemberInput,
+  TransferOwnershipInput,
+  UpdateMemberAccessInput,
+  UpdateMemberInput,
+  UpdatePermissionRoleInput,
+  UpdateSecurityInput,
+} from "../schemas/team.js";
+import { buildTeamInvitationEmail } from "../services/email.js";
+import { queueEmail } from "../services/notifications.js";
+
+const router = Router();
+
+router.use(authenticate, tenancy);
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const memberSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  phone: true,
+  isActive: true,
+  lastLoginAt: true,
+  twoFactorEnabledAt: true,
+  createdAt: true,
+  permissionRole: { select: { id: true, name: true } },
+  allPropertiesAccess: true,
+  accessibleProperties: { select: { id: true, name: true } },
+} as const;
+
+const permissionRoleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  createdAt: true,
+  _count: { select: { users: true } },
+} as const;
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, firstName: true, lastName: true } },
+  permissionRole: { select: { id: true, name: true } },
+  allPropertiesAccess: true,
+  properties: { select: { id: true, name: true } },
+} as const;
+
+async function findMember(orgId: string, id: string) {
+  const member = await prisma.user.findFirst({
+    where: { id, organizationId: orgId, role: { in: ["OWNER", "TEAM_MEMBER"] } },
+    select: memberSelect,
+  });
+  if (!member) {
+    throw new NotFoundError("Team member", id);
+  }
+  return member;
+}
+
+/**
+ * Every organization keeps at least one active owner. Call inside the
+ * transaction that demotes or deactivates one.
+ */
+async function assertOwnerRemains(tx: TransactionClient, orgId: string) {
+  const owners = await tx.user.count({
+    where: { organizationId: orgId, role: "OWNER", isActive: true },
+  });
+  if (owners === 0) {
+    throw new ValidationError("The organization must keep at least one active owner");
+  }
+}
+
+async function findPermissionRole(orgId: string, id: string) {
+  const role = await prisma.permissionRole.findFirst({
+    where: { id, organizationId: orgId },
+    select: permissionRoleSelect,
+  });
+  if (!role) {
+    throw new NotFoundError("PermissionRole", id);
+  }
+  return role;
+}
+
+/**
+ * Check the permission role and properties being granted belong to the
+ * organization. Returns the de-duplicated property ids to link.
+ */
+async function resolveAccessGrant(
+  orgId: string,
+  grant: { permissionRoleId: string | null; allPropertiesAccess: boolean; propertyIds: string[] }
+): Promise<string[]> {
+  if (grant.permissionRoleId) {
+    await findPermissionRole(orgId, grant.permissionRoleId);
+  }
+
+  const propertyIds = grant.allPropertiesAccess ? [] : [...new Set(grant.propertyIds)];
+  if (propertyIds.length > 0) {
+    const found = await prisma.property.count({
+      where: { id: { in: propertyIds }, organizationId: orgId },
+    });
+    if (found !== propertyIds.length) {
+      throw new ValidationError("One or more properties were not found");
+    }
+  }
+  return propertyIds;
+}
+
+async function assertRoleNameFree(orgId: string, name: string, exceptId?: string) {
+  const existing = await prisma.permissionRole.findFirst({
+    where: { organizationId: orgId, name, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError(`A permission role named '${name}' already exists`);
+  }
+}
+
+async function sendInvitation(invitation: { email: string; token: string }, orgId: string, inviterId: string) {
+  const [organization, inviter] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({ where: { id: orgId }, select: { name: true } }),
+    prisma.user.findUniqueOrThrow({
+      where: { id: inviterId },
+      select: { firstName: true, lastName: true },
+    }),
+  ]);
+  const email = buildTeamInvitationEmail({
+    inviterName: `${inviter.firstName} ${inviter.lastName}`,
+    organizationName: organization.name,
+    acceptUrl: `${env.WEB_URL}/accept-invite?token=${invitation.token}`,
+  });
+  queueEmail({ to: invitation.email, ...email }).catch(() => {});
+}
+
+// ─── GET /team/members ──────────────────────────────────────────────
+router.get(
+  "/members",
+  requireMinRole("TEAM_MEMBER"),
+  asyncHandler(async (req, res) => {
+    const members = await prisma.user.findMany({
+      where: { organizationId: req.organizationId!, role: { in: ["OWNER", "TEAM_MEMBER"] } },
+      select: memberSelect,
+      orderBy: [{ isActive: "desc" }, { role: "asc" }, { firstName: "asc" }],
+    });
+    res.json({ data: members });
+  })
+);
+
+// ─── PATCH /team/members/:id — Change role ──────────────────────────
+router.patch(
+  "/members/:id",
+  requireMinRole("OWNER"),
+  validate({ params: memberIdParamSchema, body: updateMemberSchema }),
+  auditLog("UPDATE_ROLE", "User"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const { role } = req.body as UpdateMemberInput;
+    const member = await findMember(orgId, param(req, "id"));
+
+    if (!member.isActive) {
+      throw new ValidationError("Reactivate this member before changing their role");
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id: member.id },
+        data: { role },
+        select: memberSelect,
+      });
+      await assertOwnerRemains(tx, orgId);
+      return user;
+    });
+
+    // Existing sessions carry the old role; make them sign in again
+    await prisma.session.deleteMany({ where: { userId: member.id } });
+
+    res.json(updated);
+  })
+);
+
+// ─── PUT /team/members/:id/access — Permissions and property scope ──
+router.put(
+  "/members/:id/access",
+  requireMinRole("OWNER"),
+  validate({ params: memberIdParamSchema, body: updateMemberAccessSchema }),
+  auditLog("UPDATE_ACCESS", "User"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as UpdateMemberAccessInput;
+    const member = await findMember(orgId, param(req, "id"));
+
+    if (member.role === "OWNER") {
+      throw new ValidationError("Owners always have full access");
+    }
+    const propertyIds = await resolveAccessGrant(orgId, body);
+
+    // Access is resolved per request, so changes apply without a new sign-in
+    const updated = await prisma.user.update({
+      where: { id: member.id },
+      data: {
+        permissionRoleId: body.permissionRoleId,
+        allPropertiesAccess: body.allPropertiesAccess,
+        accessibleProperties: { set: propertyIds.map((id) => ({ id })) },
+      },
+      select: memberSelect,
+    });
+
+    res.json(updated);
+  })
+);
+
+// ─── POST /team/members/:id/deactivate ──────────────────────────────
+router.post(
+  "/members/:id/deactivate",
+  requireMinRole("OWNER"),
+  validate({ params: memberIdParamSchema }),
+  auditLog("DEACTIVATE", "User"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const member = await findMember(orgId, param(req, "id"));
+
+    if (member.id === req.user!.userId) {
+      throw new ValidationError("You cannot deactivate your own account");
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id: member.id },
+        data: { isActive: false },
+        select: memberSelect,
+      });
+      await assertOwnerRemains(tx, orgId);
+      await tx.session.deleteMany({ where: { userId: member.id } });
+      return user;
+    });
+
+    res.json(updated);
+  })
+);
+
+// ─── POST /team/members/:id/reactivate ──────────────────────────────
+router.post(
+  "/members/:id/reactivate",
+  requireMinRole("OWNER"),
+  validate({ params: memberIdParamSchema }),
+  auditLog("REACTIVATE", "User"),
+  asyncHandler(async (req, res) => {
+    const member = await findMember(req.organizationId!, param(req, "id"));
+
+    const updated = await prisma.user.update({
+      where: { id: member.id },
+      data: { isActive: true },
+      select: memberSelect,
+    });
+
+    res.json(updated);
+  })
+);
+
+// ─── POST /team/transfer-ownership ──────────────────────────────────
+router.post(
+  "/transfer-ownership",
+  requireMinRole("OWNER"),
+  validate({ body: transferOwnershipSchema }),
+  auditLog("TRANSFER_OWNERSHIP", "Organization", (req) => req.organizationId!),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const currentUserId = req.user!.userId;
+    const { userId } = req.body as TransferOwnershipInput;
+
+    if (userId === currentUserId) {
+      throw new ValidationError("You already own this organization");
+    }
+    const member = await findMember(orgId, userId);
+    if (!member.isActive) {
+      throw new ValidationError("Ownership can only be transferred to an active member");
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: member.id }, data: { role: "OWNER" } }),
+      prisma.user.update({ where: { id: currentUserId }, data: { role: "TEAM_MEMBER" } }),
+      prisma.session.deleteMany({ where: { userId: { in: [member.id, currentUserId] } } }),
+    ]);
+
+    res.json({ message: `Ownership transferred to ${member.firstName} ${member.lastName}` });
+  })
+);
+
+// ─── GET /team/permissions — Catalog and starter templates ──────────
+router.get(
+  "/permissions",
+  requireMinRole("OWNER"),
+  asyncHandler(async (_req, res) => {
+    res.json({
+      data: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description })),
+      templates: ROLE_TEMPLATES,
+    });
+  })
+);
+
+// ─── GET /team/roles ────────────────────────────────────────────────
+router.get(
+  "/roles",
+  requireMinRole("OWNER"),
+  asyncHandler(async (req, res) => {
+    const roles = await prisma.permissionRole.findMany({
+      where: { organizationId: req.organizationId! },
+      select: permissionRoleSelect,
+      orderBy: { name: "asc" },
+    });
+    res.json({ data: roles });
+  })
+);
+
+// ─── POST /team/roles ───────────────────────────────────────────────
+router.post(
+  "/roles",
+  requireMinRole("OWNER"),
+  validate({ body: createPermissionRoleSchema }),
+  auditLog("CREATE", "PermissionRole"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as CreatePermissionRoleInput;
+
+    await assertRoleNameFree(orgId, body.name);
+
+    const role = await prisma.permissionRole.create({
+      data: {
+        organizationId: orgId,
+        name: body.name,
+        description: body.description,
+        permissions: [...new Set(body.permissions)],
+      },
+      select: permissionRoleSelect,
+    });
+
+    res.status(201).json(role);
+  })
+);
+
+// ─── PATCH /team/roles/:id ──────────────────────────────────────────
+router.patch(
+  "/roles/:id",
+  requireMinRole("OWNER"),
+  validate({ params: permissionRoleIdParamSchema, body: updatePermissionRoleSchema }),
+  auditLog("UPDATE", "PermissionRole"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as UpdatePermissionRoleInput;
+    const existing = await findPermissionRole(orgId, param(req, "id"));
+
+    if (body.name && body.name !== existing.name) {
+      await assertRoleNameFree(orgId, body.name, existing.id);
+    }
+
+    const role = await prisma.permissionRole.update({
+      where: { id: existing.id },
+      data: {
+        ...body,
+        ...(body.permissions ? { permissions: [...new Set(body.permissions)] } : {}),
+      },
+      select: permissionRoleSelect,
+    });
+
+    res.json(role);
+  })
+);
+
+// ─── DELETE /team/roles/:id ─────────────────────────────────────────
+// Members holding the role fall back to the default permission set
+router.delete(
+  "/roles/:id",
+  requireMinRole("OWNER"),
+  validate({ params: permissionRoleIdParamSchema }),
+  auditLog("DELETE", "PermissionRole"),
+  asyncHandler(async (req, res) => {
+    const role = await findPermissionRole(req.organizationId!, param(req, "id"));
+    await prisma.permissionRole.delete({ where: { id: role.id } });
+    res.json({ message: "Permission role deleted" });
+  })
+);
+
+// ─── GET /team/security ─────────────────────────────────────────────
+router.get(
+  "/security",
+  requireMinRole("OWNER"),
+  asyncHandler(async (req, res) => {
+    const org = await prisma.organization.findUniqueOrThrow({
+      where: { id: req.organizationId! },
+      select: { requireTwoFactor: true },
+    });
+    const membersWithoutTwoFactor = await prisma.user.count({
+      where: {
+        organizationId: req.organizationId!,
+        role: { in: ["OWNER", "TEAM_MEMBER"] },
+        isActive: true,
+        twoFactorEnabledAt: null,
+      },
+    });
+    res.json({ ...org, membersWithoutTwoFactor });
+  })
+);
+
+// ─── PATCH /team/security — Organization sign-in policy ─────────────
+// Members without 2FA are asked to enroll at their next sign-in
+router.patch(
+  "/security",
+  requireMinRole("OWNER"),
+  validate({ body: updateSecuritySchema }),
+  auditLog("UPDATE_SECURITY", "Organization", (req) => req.organizationId!),
+  asyncHandler(async (req, res) => {
+    const { requireTwoFactor } = req.body as UpdateSecurityInput;
+
+    if (requireTwoFactor) {
+      const owner = await prisma.user.findUniqueOrThrow({
+        where: { id: req.user!.userId },
+        select: { twoFactorEnabledAt: true },
+      });
+      if (!owner.twoFactorEnabledAt) {
+        throw new ValidationError(
+          "Turn on two-factor authentication for your own account before requiring it"
+        );
+      }
+    }
+
+    const org = await prisma.organization.update({
+      where: { id: req.organizationId! },
+      data: { requireTwoFactor },
+      select: { requireTwoFactor: true },
+    });
+    res.json(org);
+  })
+);
+
+// ─── GET /team/invitations ──────────────────────────────────────────
+router.get(
+  "/invitations",
+  requireMinRole("OWNER"),
+  asyncHandler(async (req, res) => {
+    const invitations = await prisma.teamInvitation.findMany({
+      where: { organizationId: req.organizationId!, acceptedAt: null },
+      select: invitationSelect,
+      orderBy: { createdAt: "desc" },
+    });
+    res.json({ data: invitations });
+  })
+);
+
+// ─── POST /team/invitations ─────────────────────────────────────────
+router.post(
+  "/invitations",
+  requireMinRole("OWNER"),
+  validate({ body: inviteMemberSchema }),
+  auditLog("INVITE", "TeamInvitation"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const body = req.body as InviteMemberInput;
+    const { email } = body;
+
+    // Emails are unique across organizations
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+    if (existingUser) {
+      throw new ConflictError(
+        existingUser.organizationId === orgId
+          ? "This person is already a member of your organization"
+          : "A Brevva account already exists for this email"
+      );
+    }
+    const propertyIds = await resolveAccessGrant(orgId, body);
+
+    const token = randomBytes(32).toString("hex");
+    const invitation = await prisma.$transaction(async (tx) => {
+      // Inviting again replaces any pending invitation
+      await tx.teamInvitation.deleteMany({
+        where: { organizationId: orgId, email, acceptedAt: null },
+      });
+      return tx.teamInvitation.create({
+        data: {
+          organizationId: orgId,
+          email,
+          token,
+          invitedById: req.user!.userId,
+          permissionRoleId: body.permissionRoleId,
+          allPropertiesAccess: body.allPropertiesAccess,
+          properties: { connect: propertyIds.map((id) => ({ id })) },
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        },
+        select: invitationSelect,
+      });
+    });
+
+    await sendInvitation({ email, token }, orgId, req.user!.userId);
+
+    res.status(201).json(invitation);
+  })
+);
+
+// ─── POST /team/invitations/:id/resend ──────────────────────────────
+router.post(
+  "/invitations/:id/resend",
+  requireMinRole("OWNER"),
+  validate({ params: invitationIdParamSchema }),
+  auditLog("RESEND", "TeamInvitation"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const existing = await prisma.teamInvitation.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, acceptedAt: null },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new NotFoundError("TeamInvitation", param(req, "id"));
+    }
+
+    const token = randomBytes(32).toString("hex");
+    const invitation = await prisma.teamInvitation.update({
+      where: { id: existing.id },
+      data: {
+        token,
+        invitedById: req.user!.userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: invitationSelect,
+    });
+
+    await sendInvitation({ email: invitation.email, token }, orgId, req.user!.userId);
+
+    res.json(invitation);
+  })
+);
+
+// ─── DELETE /team/invitations/:id ───────────────────────────────────
+router.delete(
+  "/invitations/:id",
+  requireMinRole("OWNER"),
+  validate({ params: invitationIdParamSchema }),
+  auditLog("REVOKE", "TeamInvitation"),
+  asyncHandler(async (req, res) => {
+    const { count } = await prisma.teamInvitation.deleteMany({
+      where: { id: param(req, "id"), organizationId: req.organizationId!, acceptedAt: null },
+    });
+    if (count === 0) {
+      throw new NotFoundError("TeamInvitation", param(req, "id"));
+    }
+    res.json({ message: "Invitation revoked" });
+  })
+);
+
+export default router;
@@ -1,8 +1,8 @@
 import { Router } from "express";
+import type { Request } from "express";
 import multer from "multer";
-import path from "path";
-import { randomUUID } from "crypto";
-import { prisma } from "../lib/prisma.js";
+import { prisma, revealTenantSsn } from "../lib/prisma.js";
+import { storeUploads } from "../lib/storage.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import {
   NotFoundError,
@@ -14,7 +14,13 @@ import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  hasPermission,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import {
   createTenantSchema,
@@ -37,15 +43,7 @@ import { env } from "../config/env.js";
 const router = Router();
 
 // ─── Multer for tenant document uploads ─────────────────────────────
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, env.UPLOAD_DIR);
-  },
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `tenant-doc-${randomUUID()}${ext}`);
-  },
-});
+const storage = multer.memoryStorage();
 
 const upload = multer({
   storage,
@@ -72,11 +70,34 @@ const upload = multer({
 });
 
 // All tenant routes require auth + tenancy
-router.use(authenticate, tenancy);
+router.use(authenticate, tenancy, loadAccess);
+
+// Scoped team members see tenants living in, or leasing at, their properties
+const tenantScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({
+    AND: [
+      {
+        OR: [
+          { currentUnit: { propertyId: { in: ids } } },
+          { leaseTenants: { some: { lease: { unit: { propertyId: { in: ids } } } } } },
+        ],
+      },
+    ],
+  }));
+
+const unitScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ propertyId: { in: ids } }));
+
+/** Drops SSN, date of birth and income unless the caller holds tenants:view_pii. */
+function redactPii<T extends { ssn: string | null }>(req: Request, tenant: T) {
+  if (hasPermission(req, "tenants:view_pii")) return tenant;
+  return { ...tenant, ssn: null, dateOfBirth: null, monthlyIncome: null };
+}
 
 // ─── GET /tenants ───────────────────────────────────────────────────
 router.get(
   "/",
+  requirePermission("tenants:view"),
   validate({ query: tenantListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -86,6 +107,7 @@ router.get(
 
     const where: Record<string, unknown> = {
       organizationId: orgId,
+      ...tenantScope(req),
       ...(status ? { status } : {}),
       ...(unitId ? { currentUnitId: unitId } : {}),
       ...(search
@@ -138,7 +160,7 @@ router.get(
     ]);
 
     res.json({
-      data: tenants,
+      data: tenants.map((t) => redactPii(req, t)),
       pagination: getPaginationMeta(total, page, limit),
     });
   })
@@ -147,7 +169,7 @@ router.get(
 // ─── POST /tenants ──────────────────────────────────────────────────
 router.post(
   "/",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ body: createTenantSchema }),
   auditLog("CREATE", "Tenant"),
   asyncHandler(async (req, res) => {
@@ -167,7 +189,7 @@ router.post(
     // Validate unit belongs to org if provided
     if (body.currentUnitId) {
       const unit = await prisma.unit.findFirst({
-        where: { id: body.currentUnitId, organizationId: orgId },
+        where: { id: body.currentUnitId, organizationId: orgId, ...unitScope(req) },
       });
       if (!unit) {
         throw new NotFoundError("Unit", body.currentUnitId);
@@ -204,13 +226,14 @@ router.post(
       },
     });
 
-    res.status(201).json(tenant);
+    res.status(201).json(redactPii(req, tenant));
   })
 );
 
 // ─── GET /tenants/:id ───────────────────────────────────────────────
 router.get(
   "/:id",
+  requirePermission("tenants:view"),
   validate({ params: tenantIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -219,6 +242,7 @@ router.get(
       where: {
         id: param(req, "id"),
         organizationId: orgId,
+        ...tenantScope(req),
       },
       include: {
         currentUnit: {
@@ -270,14 +294,37 @@ router.get(
       throw new NotFoundError("Tenant", param(req, "id"));
     }
 
-    res.json(tenant);
+    res.json(redactPii(req, tenant));
+  })
+);
+
+// ─── POST /tenants/:id/reveal-ssn ───────────────────────────────────
+// SSNs are masked everywhere else; every reveal is written to the audit log
+router.post(
+  "/:id/reveal-ssn",
+  requirePermission("tenants:view_pii"),
+  validate({ params: tenantIdParamSchema }),
+  auditLog("REVEAL_SSN", "Tenant"),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+
+    const tenant = await prisma.tenant.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
+      select: { id: true },
+    });
+    if (!tenant) {
+      throw new NotFoundError("Tenant", param(req, "id"));
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json({ id: tenant.id, ssn: await revealTenantSsn(tenant.id) });
   })
 );
 
 // ─── PATCH /tenants/:id ─────────────────────────────────────────────
 router.patch(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ params: tenantIdParamSchema, body: updateTenantSchema }),
   auditLog("UPDATE", "Tenant"),
   asyncHandler(async (req, res) => {
@@ -285,7 +332,7 @@ router.patch(
     const body = req.body as UpdateTenantInput;
 
     const existing = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!existing) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -310,7 +357,7 @@ router.patch(
     // Validate unit if changing
     if (body.currentUnitId && body.currentUnitId !== existing.currentUnitId) {
       const unit = await prisma.unit.findFirst({
-        where: { id: body.currentUnitId, organizationId: orgId },
+        where: { id: body.currentUnitId, organizationId: orgId, ...unitScope(req) },
       });
       if (!unit) {
         throw new NotFoundError("Unit", body.currentUnitId);
@@ -331,7 +378,7 @@ router.patch(
       },
     });
 
-    res.json(tenant);
+    res.json(redactPii(req, tenant));
   })
 );
 
@@ -345,7 +392,7 @@ router.delete(
     const orgId = req.organizationId!;
 
     const existing = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
       include: {
         leaseTenants: {
           include: { lease: { select: { status: true } } },
@@ -380,7 +427,7 @@ router.delete(
 // POST /tenants/:id/documents
 router.post(
   "/:id/documents",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ params: tenantIdParamSchema }),
   upload.array("documents", 10),
   auditLog("UPLOAD_DOCUMENTS", "Tenant"),
@@ -388,7 +435,7 @@ router.post(
     const orgId = req.organizationId!;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -408,6 +455,8 @@ router.post(
 
     const validTypes = ["ID", "PAY_STUB", "REFERENCE", "OTHER"];
 
+    const keys = await storeUploads(files, "tenant-doc");
+
     const documents = await prisma.tenantDocument.createManyAndReturn({
       data: files.map((file, i) => ({
         tenantId: param(req, "id")!,
@@ -418,7 +467,7 @@ router.post(
           | "PAY_STUB"
           | "REFERENCE"
           | "OTHER",
-        url: `/uploads/${file.filename}`,
+        url: keys[i]!,
       })),
     });
 
@@ -429,12 +478,13 @@ router.post(
 // GET /tenants/:id/documents
 router.get(
   "/:id/documents",
+  requirePermission("tenants:view"),
   validate({ params: tenantIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
       select: { id: true },
     });
     if (!tenant) {
@@ -453,7 +503,7 @@ router.get(
 // DELETE /tenants/:id/documents/:documentId
 router.delete(
   "/:id/documents/:documentId",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ params: tenantDocumentIdParamSchema }),
   auditLog("DELETE_DOCUMENT", "TenantDocument"),
   asyncHandler(async (req, res) => {
@@ -464,6 +514,7 @@ router.delete(
         id: param(req, "documentId"),
         tenantId: param(req, "id"),
         organizationId: orgId,
+        tenant: tenantScope(req),
       },
     });
     if (!document) {
@@ -483,7 +534,7 @@ router.delete(
 // POST /tenants/:id/vehicles
 router.post(
   "/:id/vehicles",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ params: tenantIdParamSchema, body: createVehicleSchema }),
   auditLog("CREATE", "TenantVehicle"),
   asyncHandler(async (req, res) => {
@@ -491,7 +542,7 @@ router.post(
     const body = req.body as CreateVehicleInput;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -516,13 +567,13 @@ router.post(
 // DELETE /tenants/:id/vehicles/:vehicleId
 router.delete(
   "/:id/vehicles/:vehicleId",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   auditLog("DELETE", "TenantVehicle"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -552,7 +603,7 @@ router.delete(
 // POST /tenants/:id/pets
 router.post(
   "/:id/pets",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   validate({ params: tenantIdParamSchema, body: createPetSchema }),
   auditLog("CREATE", "TenantPet"),
   asyncHandler(async (req, res) => {
@@ -560,7 +611,7 @@ router.post(
     const body = req.body as CreatePetInput;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -584,13 +635,13 @@ router.post(
 // DELETE /tenants/:id/pets/:petId
 router.delete(
   "/:id/pets/:petId",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("tenants:manage"),
   auditLog("DELETE", "TenantPet"),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
 
     const tenant = await prisma.tenant.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...tenantScope(req) },
     });
     if (!tenant) {
       throw new NotFoundError("Tenant", param(req, "id"));
@@ -16,6 +16,7 @@ import {
   transactionIdParamSchema,
   createRecurringTemplateSchema,
   recurringTemplateIdParamSchema,
+  recurringRunListQuerySchema,
   createExpenseCategorySchema,
   expenseCategoryIdParamSchema,
   scheduleEQuerySchema,
@@ -25,6 +26,7 @@ import type {
   UpdateTransactionInput,
   TransactionListQuery,
   CreateRecurringTemplateInput,
+  RecurringRunListQuery,
   CreateExpenseCategoryInput,
   ScheduleEQuery,
 } from "../schemas/transactions.js";
@@ -383,6 +385,46 @@ router.delete(
   })
 );
 
+// GET /transactions/recurring/:id/runs — Worker run history for a template
+router.get(
+  "/recurring/:id/runs",
+  validate({
+    params: recurringTemplateIdParamSchema,
+    query: recurringRunListQuerySchema,
+  }),
+  asyncHandler(async (req, res) => {
+    const orgId = req.organizationId!;
+    const { page, limit, sortOrder } =
+      req.query as unknown as RecurringRunListQuery;
+
+    const template = await prisma.recurringTemplate.findFirst({
+      where: { id: param(req, "id"), organizationId: orgId },
+      include: { _count: { select: { transactions: true } } },
+    });
+    if (!template) {
+      throw new NotFoundError("RecurringTemplate", param(req, "id"));
+    }
+
+    const where = { templateId: template.id, organizationId: orgId };
+
+    const [runs, total] = await Promise.all([
+      prisma.recurringTemplateRun.findMany({
+        where,
+        orderBy: { startedAt: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.recurringTemplateRun.count({ where }),
+    ]);
+
+    res.json({
+      template,
+      data: runs,
+      pagination: getPaginationMeta(total, page, limit),
+    });
+  })
+);
+
 // ═══════════════════════════════════════════════════════════════════
 // Expense Categories
 // ═══════════════════════════════════════════════════════════════════
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import type { Request } from "express";
 import { prisma } from "../lib/prisma.js";
 import { asyncHandler } from "../lib/async-handler.js";
 import { NotFoundError, ValidationError } from "../lib/errors.js";
@@ -7,7 +8,13 @@ import { param } from "../lib/params.js";
 import { validate } from "../middleware/validate.js";
 import { authenticate } from "../middleware/auth.js";
 import { tenancy } from "../middleware/tenancy.js";
-import { requireMinRole } from "../middleware/rbac.js";
+import {
+  assertPropertyAccess,
+  loadAccess,
+  propertyScopeWhere,
+  requireMinRole,
+  requirePermission,
+} from "../middleware/rbac.js";
 import { auditLog } from "../middleware/audit.js";
 import {
   createUnitSchema,
@@ -24,13 +31,17 @@ import type {
   UnitListAllQuery,
 } from "../schemas/units.js";
 
+const unitScope = (req: Request) =>
+  propertyScopeWhere(req, (ids) => ({ propertyId: { in: ids } }));
+
 // Nested routes: /properties/:propertyId/units
 const nestedRouter = Router({ mergeParams: true });
-nestedRouter.use(authenticate, tenancy);
+nestedRouter.use(authenticate, tenancy, loadAccess);
 
 // GET /properties/:propertyId/units
 nestedRouter.get(
   "/",
+  requirePermission("properties:view"),
   validate({ params: unitParamsSchema, query: unitListQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -39,6 +50,7 @@ nestedRouter.get(
     const { page, limit, sortBy, sortOrder, status } = query;
 
     // Verify property belongs to organization
+    assertPropertyAccess(req, propertyId);
     const property = await prisma.property.findFirst({
       where: { id: propertyId, organizationId: orgId },
       select: { id: true },
@@ -99,7 +111,7 @@ nestedRouter.get(
 // POST /properties/:propertyId/units
 nestedRouter.post(
   "/",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("properties:manage"),
   validate({ params: unitParamsSchema, body: createUnitSchema }),
   auditLog("CREATE", "Unit"),
   asyncHandler(async (req, res) => {
@@ -107,6 +119,7 @@ nestedRouter.post(
     const propertyId = param(req, "propertyId");
     const body = req.body as CreateUnitInput;
 
+    assertPropertyAccess(req, propertyId);
     const property = await prisma.property.findFirst({
       where: { id: propertyId, organizationId: orgId },
       select: { id: true },
@@ -138,11 +151,12 @@ nestedRouter.post(
 
 // Standalone routes: /units/:id
 const standaloneRouter = Router();
-standaloneRouter.use(authenticate, tenancy);
+standaloneRouter.use(authenticate, tenancy, loadAccess);
 
 // GET /units — list all units across all properties
 standaloneRouter.get(
   "/",
+  requirePermission("properties:view"),
   validate({ query: unitListAllQuerySchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -153,6 +167,7 @@ standaloneRouter.get(
       organizationId: orgId,
       ...(status ? { status } : {}),
       ...(propertyId ? { propertyId } : {}),
+      AND: [unitScope(req)],
     };
 
     const orderBy = sortBy
@@ -191,6 +206,7 @@ standaloneRouter.get(
 // GET /units/:id
 standaloneRouter.get(
   "/:id",
+  requirePermission("properties:view"),
   validate({ params: unitIdParamSchema }),
   asyncHandler(async (req, res) => {
     const orgId = req.organizationId!;
@@ -199,6 +215,7 @@ standaloneRouter.get(
       where: {
         id: param(req, "id"),
         organizationId: orgId,
+        ...unitScope(req),
       },
       include: {
         property: {
@@ -266,7 +283,7 @@ standaloneRouter.get(
 // PATCH /units/:id
 standaloneRouter.patch(
   "/:id",
-  requireMinRole("TEAM_MEMBER"),
+  requirePermission("properties:manage"),
   validate({ params: unitIdParamSchema, body: updateUnitSchema }),
   auditLog("UPDATE", "Unit"),
   asyncHandler(async (req, res) => {
@@ -274,7 +291,7 @@ standaloneRouter.patch(
     const body = req.body as UpdateUnitInput;
 
     const existing = await prisma.unit.findFirst({
-      where: { id: param(req, "id"), organizationId: orgId },
+      where: { id: param(req, "id"), organizationId: orgId, ...unitScope(req) },
     });
     if (!existing) {
       throw new NotFoundError("Unit", param(req, "id"));
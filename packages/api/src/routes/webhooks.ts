@@ -1,11 +1,30 @@
 import { Router } from "express";
 import express from "express";
+import multer from "multer";
 import { prisma } from "../lib/prisma.js";
 import { verifyWebhookSignature } from "../lib/stripe.js";
 import { env } from "../config/env.js";
+import { recordPaymentInLedger } from "../services/ledger.js";
+import { notifyPaymentReceived } from "../services/notifications.js";
+import { publishPaymentCompleted } from "../services/realtime.js";
+import { getSmsProvider } from "../services/sms.js";
+import { handleInboundSms } from "../services/inboundSms.js";
+import { handleInboundEmail, verifyMailgunSignature } from "../services/inboundEmail.js";
 
 const router = Router();
 
+async function recordIntentInLedger(paymentIntentId: string) {
+  const payments = await prisma.payment.findMany({
+    where: { stripePaymentIntentId: paymentIntentId },
+    select: { id: true },
+  });
+  for (const payment of payments) {
+    await recordPaymentInLedger(payment.id);
+    notifyPaymentReceived(payment.id).catch(() => {});
+    publishPaymentCompleted(payment.id).catch(() => {});
+  }
+}
+
 // Raw body parser — Stripe needs the raw body for signature verification
 router.post(
   "/stripe",
@@ -48,6 +67,7 @@ router.post(
               netAmount: (intent.amount - (intent.application_fee_amount ?? 0)) / 100,
             },
           });
+          await recordIntentInLedger(intent.id);
           break;
         }
 
@@ -67,6 +87,7 @@ router.post(
               where: { stripePaymentIntentId: charge.payment_intent },
               data: { status: "REFUNDED" },
             });
+            await recordIntentInLedger(charge.payment_intent);
           }
           break;
         }
@@ -85,4 +106,105 @@ router.post(
   }
 );
 
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ─── Inbound SMS (form-encoded, Twilio-style) ───────────────────────
+router.post(
+  "/sms",
+  express.urlencoded({ extended: false }),
+  async (req, res) => {
+    const params = req.body as Record<string, string>;
+    const signature = req.headers["x-twilio-signature"];
+    const url = `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+
+    if (
+      !getSmsProvider().verifyWebhook(
+        url,
+        params,
+        typeof signature === "string" ? signature : undefined
+      )
+    ) {
+      res.status(403).json({ error: "Invalid signature" });
+      return;
+    }
+
+    let reply: string | null;
+    try {
+      reply = await handleInboundSms({
+        from: params["From"] ?? "",
+        body: params["Body"] ?? "",
+        externalId: params["MessageSid"] ?? null,
+      });
+    } catch (err) {
+      console.error("Error processing inbound SMS:", err);
+      res.status(500).json({ error: "Webhook processing failed" });
+      return;
+    }
+
+    res
+      .type("text/xml")
+      .send(
+        reply
+          ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(reply)}</Message></Response>`
+          : `<?xml version="1.0" encoding="UTF-8"?><Response/>`
+      );
+  }
+);
+
+// ─── Inbound email (Mailgun route forward) ──────────────────────────
+// Mailgun posts multipart when the message has attachments and
+// form-encoded otherwise. Attachments are accepted but not kept; they are
+// buffered before the signature can be checked, so keep the cap small.
+const inboundEmailForm = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.MAX_FILE_SIZE, files: 5 },
+});
+
+router.post(
+  "/email",
+  express.urlencoded({ extended: false, limit: "10mb" }),
+  inboundEmailForm.any(),
+  async (req, res) => {
+    const params = req.body as Record<string, string | undefined>;
+
+    if (
+      !verifyMailgunSignature({
+        timestamp: params["timestamp"],
+        token: params["token"],
+        signature: params["signature"],
+      })
+    ) {
+      res.status(403).json({ error: "Invalid signature" });
+      return;
+    }
+
+    try {
+      const result = await handleInboundEmail({
+        recipient: params["recipient"] ?? "",
+        sender: params["sender"] ?? "",
+        from: params["from"] ?? params["From"] ?? "",
+        bodyPlain: params["body-plain"] ?? "",
+        strippedText: params["stripped-text"] ?? null,
+        messageId: params["Message-Id"] ?? null,
+      });
+      if (result.status === "rejected") {
+        console.warn(`[Email] Inbound reply rejected: ${result.reason}`);
+        // 406 tells Mailgun not to retry
+        res.status(406).json({ error: result.reason });
+        return;
+      }
+      res.json({ received: true, ...result });
+    } catch (err) {
+      console.error("Error processing inbound email:", err);
+      res.status(500).json({ error: "Webhook processing failed" });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { paginationSchema } from "../lib/pagination.js";
+import { createPetSchema, createVehicleSchema } from "./tenants.js";
+
+export const createApplicationSchema = z.object({
+  unitId: z.string().uuid(),
+  tenantId: z.string().uuid(),
+});
+
+export const applicationListQuerySchema = paginationSchema.extend({
+  status: z
+    .enum(["SUBMITTED", "SCREENING", "APPROVED", "DENIED", "WITHDRAWN"])
+    .optional(),
+  unitId: z.string().uuid().optional(),
+  tenantId: z.string().uuid().optional(),
+  propertyId: z.string().uuid().optional(),
+});
+
+export const applicationIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const requestScreeningSchema = z.object({
+  types: z
+    .array(z.enum(["CREDIT", "CRIMINAL", "EVICTION"]))
+    .min(1)
+    .optional(),
+});
+
+const adverseActionReasonsSchema = z
+  .array(z.string().min(1).max(500))
+  .min(1)
+  .max(10);
+
+export const decideApplicationSchema = z.object({
+  decision: z.enum(["APPROVED", "DENIED"]),
+  decisionNotes: z.string().max(5000).optional(),
+  // Overrides the screening findings quoted on the adverse action notice
+  adverseActionReasons: adverseActionReasonsSchema.optional(),
+});
+
+export const sendAdverseActionSchema = z.object({
+  reasons: adverseActionReasonsSchema.optional(),
+});
+
+export const convertApplicationSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  monthlyRent: z.coerce.number().positive().optional(),
+  securityDeposit: z.coerce.number().min(0).optional(),
+  lateFeeAmount: z.coerce.number().min(0).optional(),
+  lateFeeType: z.enum(["FLAT", "PERCENTAGE"]).default("FLAT"),
+  gracePeriodDays: z.coerce.number().int().min(0).default(5),
+  rentDueDay: z.coerce.number().int().min(1).max(28).default(1),
+  additionalTenantIds: z.array(z.string().uuid()).default([]),
+});
+
+export const linkApplicantTenantSchema = z.object({
+  tenantId: z.string().uuid(),
+});
+
+// Public application form
+const applicantSchema = z.object({
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
+  email: z.string().email().max(254),
+  phone: z.string().max(20).optional(),
+  dateOfBirth: z.coerce.date().optional(),
+  ssn: z
+    .string()
+    .regex(/^\d{3}-?\d{2}-?\d{4}$/, "SSN must be 9 digits")
+    .optional(),
+  employment: z
+    .object({
+      employerName: z.string().min(1).max(200),
+      position: z.string().max(200).optional(),
+      employerPhone: z.string().max(20).optional(),
+      startDate: z.coerce.date().optional(),
+      monthlyIncome: z.coerce.number().min(0),
+    })
+    .optional(),
+});
+
+export const publicApplicationSchema = z.object({
+  applicant: applicantSchema,
+  coApplicants: z.array(applicantSchema).max(4).default([]),
+  desiredMoveIn: z.coerce.date().optional(),
+  currentAddress: z.string().max(500).optional(),
+  currentLandlord: z
+    .object({
+      name: z.string().max(200),
+      phone: z.string().max(20).optional(),
+    })
+    .optional(),
+  pets: z.array(createPetSchema).max(5).default([]),
+  vehicles: z.array(createVehicleSchema).max(5).default([]),
+  notes: z.string().max(2000).optional(),
+  documentTypes: z
+    .array(z.enum(["ID", "PAY_STUB", "REFERENCE", "OTHER"]))
+    .default([]),
+  consent: z.object({
+    screening: z.literal(true, {
+      errorMap: () => ({ message: "Consent to screening is required" }),
+    }),
+    accuracy: z.literal(true, {
+      errorMap: () => ({
+        message: "You must certify that the information is accurate",
+      }),
+    }),
+  }),
+  // Spam protection: `website` is a hidden honeypot field, `startedAt` is
+  // when the form was first rendered
+  website: z.string().max(500).optional(),
+  startedAt: z.coerce.date().optional(),
+});
+
+export const publicUnitParamSchema = z.object({
+  unitId: z.string().uuid(),
+});
+
+export type CreateApplicationInput = z.infer<typeof createApplicationSchema>;
+export type ApplicationListQuery = z.infer<typeof applicationListQuerySchema>;
+export type RequestScreeningInput = z.infer<typeof requestScreeningSchema>;
+export type DecideApplicationInput = z.infer<typeof decideApplicationSchema>;
+export type ConvertApplicationInput = z.infer<typeof convertApplicationSchema>;
+export type SendAdverseActionInput = z.infer<typeof sendAdverseActionSchema>;
+export type LinkApplicantTenantInput = z.infer<typeof linkApplicantTenantSchema>;
+export type PublicApplicationInput = z.infer<typeof publicApplicationSchema>;
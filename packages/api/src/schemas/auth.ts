@@ -26,10 +26,6 @@ export const loginSchema = z.object({
   password: z.string().min(1),
 });
 
-export const refreshSchema = z.object({
-  refreshToken: z.string().min(1),
-});
-
 export const forgotPasswordSchema = z.object({
   email: z.string().email(),
 });
@@ -39,8 +35,61 @@ export const resetPasswordSchema = z.object({
   password: passwordSchema,
 });
 
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  firstName: z.string().min(1).max(50),
+  lastName: z.string().min(1).max(50),
+  password: passwordSchema,
+  phone: z.string().max(20).optional(),
+});
+
+export const invitationTokenParamSchema = z.object({
+  token: z.string().min(1).max(128),
+});
+
+export const sessionIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code");
+
+export const loginTwoFactorSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).max(20).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Enter an authentication code or a recovery code",
+    path: ["code"],
+  });
+
+// `challengeToken` is only sent when enrollment is forced during sign-in
+export const twoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+});
+
+export const twoFactorEnableSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+  code: totpCodeSchema,
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1),
+  code: totpCodeSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
-export type RefreshInput = z.infer<typeof refreshSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type LoginTwoFactorInput = z.infer<typeof loginTwoFactorSchema>;
+export type TwoFactorSetupInput = z.infer<typeof twoFactorSetupSchema>;
+export type TwoFactorEnableInput = z.infer<typeof twoFactorEnableSchema>;
+export type TwoFactorDisableInput = z.infer<typeof twoFactorDisableSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { paginationSchema } from "../lib/pagination.js";
+
+export const DOCUMENT_TYPES = [
+  "INSURANCE",
+  "INSPECTION",
+  "HOA",
+  "PERMIT",
+  "WARRANTY",
+  "NOTICE",
+  "CONTRACT",
+  "OTHER",
+] as const;
+
+const tagSchema = z.string().trim().min(1).max(50);
+
+// Multipart fields arrive as strings: tags as a JSON array or comma list
+const multipartTagsSchema = z
+  .string()
+  .transform((v) => {
+    const trimmed = v.trim();
+    if (trimmed.startsWith("[")) {
+      try {
+        return JSON.parse(trimmed) as unknown;
+      } catch {
+        return trimmed;
+      }
+    }
+    return trimmed ? trimmed.split(",") : [];
+  })
+  .pipe(z.array(tagSchema).max(20));
+
+// Upload (multipart form fields alongside the file)
+export const uploadDocumentSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  type: z.enum(DOCUMENT_TYPES).default("OTHER"),
+  description: z.string().max(2000).optional(),
+  folder: z.string().trim().min(1).max(100).optional(),
+  tags: multipartTagsSchema.optional(),
+  propertyId: z.string().uuid().optional(),
+  unitId: z.string().uuid().optional(),
+  tenantId: z.string().uuid().optional(),
+  sharedWithTenant: z
+    .string()
+    .transform((v) => v === "true")
+    .optional(),
+});
+
+export const updateDocumentSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  type: z.enum(DOCUMENT_TYPES).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  folder: z.string().trim().min(1).max(100).nullable().optional(),
+  tags: z.array(tagSchema).max(20).optional(),
+  propertyId: z.string().uuid().nullable().optional(),
+  unitId: z.string().uuid().nullable().optional(),
+  tenantId: z.string().uuid().nullable().optional(),
+  sharedWithTenant: z.boolean().optional(),
+});
+
+export const documentListQuerySchema = paginationSchema.extend({
+  propertyId: z.string().uuid().optional(),
+  unitId: z.string().uuid().optional(),
+  tenantId: z.string().uuid().optional(),
+  type: z.enum(DOCUMENT_TYPES).optional(),
+  folder: z.string().optional(),
+  tag: z.string().optional(),
+  shared: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+  search: z.string().optional(),
+});
+
+export const documentIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export type UploadDocumentInput = z.infer<typeof uploadDocumentSchema>;
+export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>;
+export type DocumentListQuery = z.infer<typeof documentListQuerySchema>;
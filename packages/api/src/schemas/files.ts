@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Storage keys, or /uploads/ URLs stored before storage was pluggable
+export const signFilesSchema = z.object({
+  urls: z.array(z.string().min(1).max(1000)).min(1).max(50),
+});
+
+export type SignFilesInput = z.infer<typeof signFilesSchema>;
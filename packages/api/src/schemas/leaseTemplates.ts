@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+const stateSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, "Use a two-letter state code")
+  .transform((s) => s.toUpperCase());
+
+export const createClauseSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().min(1).max(20000),
+  category: z.string().trim().max(100).optional(),
+});
+
+export const updateClauseSchema = createClauseSchema.partial().extend({
+  category: z.string().trim().max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const clauseListQuerySchema = z.object({
+  includeInactive: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+});
+
+export const clauseIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const templateClauseSchema = z.object({
+  clauseId: z.string().uuid().nullable().optional(),
+  title: z.string().trim().min(1).max(200),
+  content: z.string().max(20000),
+});
+
+// Everything that's snapshotted into a template version
+const templateContentSchema = z.object({
+  clauses: z.array(templateClauseSchema).max(100),
+  monthlyRent: z.coerce.number().positive().nullable().optional(),
+  securityDeposit: z.coerce.number().min(0).nullable().optional(),
+  lateFeeAmount: z.coerce.number().min(0).nullable().optional(),
+  lateFeeType: z.enum(["FLAT", "PERCENTAGE"]).optional(),
+  lateFeeAccrual: z.enum(["ONE_TIME", "DAILY"]).optional(),
+  lateFeeDailyAmount: z.coerce.number().min(0).nullable().optional(),
+  lateFeeMaxAmount: z.coerce.number().min(0).nullable().optional(),
+  gracePeriodDays: z.coerce.number().int().min(0).optional(),
+  rentDueDay: z.coerce.number().int().min(1).max(28).optional(),
+});
+
+export const createLeaseTemplateSchema = templateContentSchema.extend({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).optional(),
+  state: stateSchema.nullable().optional(),
+});
+
+export const updateLeaseTemplateSchema = createLeaseTemplateSchema.partial().extend({
+  description: z.string().trim().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const leaseTemplateListQuerySchema = z.object({
+  // Templates for this state plus the ones that apply everywhere
+  state: stateSchema.optional(),
+  includeInactive: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+});
+
+export const leaseTemplateIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const leaseTemplateVersionParamSchema = z.object({
+  id: z.string().uuid(),
+  version: z.coerce.number().int().min(1),
+});
+
+export type CreateClauseInput = z.infer<typeof createClauseSchema>;
+export type UpdateClauseInput = z.infer<typeof updateClauseSchema>;
+export type ClauseListQuery = z.infer<typeof clauseListQuerySchema>;
+export type TemplateClause = z.infer<typeof templateClauseSchema>;
+export type CreateLeaseTemplateInput = z.infer<typeof createLeaseTemplateSchema>;
+export type UpdateLeaseTemplateInput = z.infer<typeof updateLeaseTemplateSchema>;
+export type LeaseTemplateListQuery = z.infer<typeof leaseTemplateListQuerySchema>;
@@ -11,9 +11,13 @@ export const createLeaseSchema = z.object({
   securityDeposit: z.coerce.number().min(0),
   lateFeeAmount: z.coerce.number().min(0).optional(),
   lateFeeType: z.enum(["FLAT", "PERCENTAGE"]).default("FLAT"),
+  lateFeeAccrual: z.enum(["ONE_TIME", "DAILY"]).default("ONE_TIME"),
+  lateFeeDailyAmount: z.coerce.number().min(0).optional(),
+  lateFeeMaxAmount: z.coerce.number().min(0).optional(),
   gracePeriodDays: z.coerce.number().int().min(0).default(5),
   rentDueDay: z.coerce.number().int().min(1).max(28).default(1),
   terms: z.record(z.unknown()).optional(),
+  templateVersionId: z.string().uuid().optional(),
 });
 
 export const updateLeaseSchema = z.object({
@@ -21,11 +25,72 @@ export const updateLeaseSchema = z.object({
   endDate: z.coerce.date().optional(),
   lateFeeAmount: z.coerce.number().min(0).optional(),
   lateFeeType: z.enum(["FLAT", "PERCENTAGE"]).optional(),
+  lateFeeAccrual: z.enum(["ONE_TIME", "DAILY"]).optional(),
+  lateFeeDailyAmount: z.coerce.number().min(0).nullable().optional(),
+  lateFeeMaxAmount: z.coerce.number().min(0).nullable().optional(),
   gracePeriodDays: z.coerce.number().int().min(0).optional(),
   rentDueDay: z.coerce.number().int().min(1).max(28).optional(),
   terms: z.record(z.unknown()).optional(),
 });
 
+export const validateMergeFieldsSchema = z.object({
+  context: z.enum(["lease", "addendum"]).default("lease"),
+  items: z
+    .array(z.object({ id: z.string().max(100), content: z.string().max(50000) }))
+    .max(100),
+});
+
+// A report exported from GET /leases/:id/signing-log/report. Unknown keys
+// are kept so the signature is checked against exactly what was submitted.
+const signingReportEventSchema = z
+  .object({
+    id: z.string(),
+    chainId: z.string(),
+    leaseId: z.string(),
+    addendumId: z.string().nullable(),
+    sequence: z.number().int(),
+    type: z.enum(["SENT", "VIEWED", "CONSENTED", "SIGNED", "COUNTERSIGNED", "VOIDED"]),
+    actorType: z.string(),
+    actorId: z.string().nullable(),
+    actorName: z.string().nullable(),
+    actorEmail: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    documentHash: z.string().nullable(),
+    details: z.any(),
+    previousHash: z.string().nullable(),
+    hash: z.string(),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+export const verifySigningReportSchema = z.object({
+  report: z
+    .object({
+      leaseId: z.string(),
+      generatedAt: z.string(),
+      generatedBy: z.string(),
+      chains: z.array(
+        z
+          .object({
+            subject: z.enum(["LEASE", "ADDENDUM"]),
+            id: z.string(),
+            title: z.string(),
+            head: z.string().nullable(),
+            valid: z.boolean(),
+            issues: z.array(z.string()),
+            events: z.array(signingReportEventSchema).max(10000),
+          })
+          .passthrough()
+      ).max(500),
+    })
+    .passthrough(),
+  signature: z.object({
+    algorithm: z.literal("HMAC-SHA256"),
+    value: z.string().max(200),
+  }),
+});
+
 export const leaseListQuerySchema = paginationSchema.extend({
   status: z
     .enum(["DRAFT", "PENDING_SIGNATURE", "ACTIVE", "EXPIRED", "TERMINATED"])
@@ -125,6 +190,23 @@ export const addendumIdParamSchema = z.object({
   addendumId: z.string().uuid(),
 });
 
+// Ledger
+export const createLedgerEntrySchema = z.object({
+  type: z.enum(["DEPOSIT", "CREDIT", "ADJUSTMENT"]),
+  // Charges are positive; CREDIT amounts are always applied as a reduction
+  amount: z.coerce
+    .number()
+    .refine((n) => n !== 0, "Amount must not be zero")
+    .refine((n) => Math.abs(n) <= 999999.99, "Amount is too large"),
+  date: z.coerce.date(),
+  description: z.string().min(1).max(500),
+});
+
+export const ledgerEntryIdParamSchema = z.object({
+  id: z.string().uuid(),
+  entryId: z.string().uuid(),
+});
+
 // Upload lease
 export const uploadLeaseSchema = z.object({
   unitId: z.string().uuid(),
@@ -192,9 +274,38 @@ export const countersignAddendumSchema = z.object({
   }).optional(),
 });
 
+// Renewals
+export const createRenewalSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  monthlyRent: z.coerce.number().positive(),
+  // Defaults to the deposit on the current lease
+  securityDeposit: z.coerce.number().min(0).optional(),
+  respondBy: z.coerce.date().optional(),
+  message: z.string().max(5000).optional(),
+});
+
+export const renewalIdParamSchema = z.object({
+  id: z.string().uuid(),
+  renewalId: z.string().uuid(),
+});
+
+// Tenant responses from the portal
+export const renewalOfferParamSchema = z.object({
+  renewalId: z.string().uuid(),
+});
+
+export const declineRenewalSchema = z.object({
+  reason: z.string().max(2000).optional(),
+});
+
 export type CreateLeaseInput = z.infer<typeof createLeaseSchema>;
 export type UpdateLeaseInput = z.infer<typeof updateLeaseSchema>;
 export type LeaseListQuery = z.infer<typeof leaseListQuerySchema>;
 export type SignLeaseInput = z.infer<typeof signLeaseSchema>;
 export type CreateAddendumInput = z.infer<typeof createAddendumSchema>;
 export type UpdateAddendumInput = z.infer<typeof updateAddendumSchema>;
+export type CreateLedgerEntryInput = z.infer<typeof createLedgerEntrySchema>;
+export type ValidateMergeFieldsInput = z.infer<typeof validateMergeFieldsSchema>;
+export type CreateRenewalInput = z.infer<typeof createRenewalSchema>;
+export type DeclineRenewalInput = z.infer<typeof declineRenewalSchema>;
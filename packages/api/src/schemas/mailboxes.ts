@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const mailboxProviderParamSchema = z.object({
+  provider: z
+    .enum(["google", "microsoft"])
+    .transform((p) => (p === "google" ? "GOOGLE" : "MICROSOFT") as "GOOGLE" | "MICROSOFT"),
+});
+
+// Providers redirect back with either a code or an error
+export const mailboxCallbackQuerySchema = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+export const mailboxIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export type MailboxProviderParam = z.infer<typeof mailboxProviderParamSchema>;
+export type MailboxCallbackQuery = z.infer<typeof mailboxCallbackQuerySchema>;
@@ -9,6 +9,8 @@ export const createThreadSchema = z.object({
 
 export const sendMessageSchema = z.object({
   body: z.string().min(1).max(10000),
+  // Staff can reply by text; the tenant's answer threads back in
+  channel: z.enum(["IN_APP", "SMS"]).default("IN_APP"),
 });
 
 export const threadListQuerySchema = paginationSchema.extend({
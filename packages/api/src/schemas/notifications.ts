@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+export const NOTIFICATION_TYPES = [
+  "RENT_DUE",
+  "PAYMENT_RECEIVED",
+  "MAINTENANCE_UPDATE",
+  "LEASE_EXPIRING",
+  "NEW_MESSAGE",
+] as const;
+
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum(NOTIFICATION_TYPES),
+        emailEnabled: z.boolean().optional(),
+        smsEnabled: z.boolean().optional(),
+        pushEnabled: z.boolean().optional(),
+      })
+    )
+    .min(1)
+    .max(NOTIFICATION_TYPES.length),
+});
+
+export type UpdateNotificationPreferencesInput = z.infer<
+  typeof updateNotificationPreferencesSchema
+>;
@@ -58,8 +58,13 @@ export const lateFeeIdParamSchema = z.object({
   id: z.string().uuid(),
 });
 
+export const lateFeePreviewQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
 export type CreatePaymentInput = z.infer<typeof createPaymentSchema>;
 export type RecordManualPaymentInput = z.infer<typeof recordManualPaymentSchema>;
 export type PaymentListQuery = z.infer<typeof paymentListQuerySchema>;
 export type SavePaymentMethodInput = z.infer<typeof savePaymentMethodSchema>;
 export type AssessLateFeeInput = z.infer<typeof assessLateFeeSchema>;
+export type LateFeePreviewQuery = z.infer<typeof lateFeePreviewQuerySchema>;
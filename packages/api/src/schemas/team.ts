@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { ALL_PERMISSIONS } from "../lib/permissions.js";
+import type { Permission } from "../lib/permissions.js";
+
+const permissionSchema = z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]);
+
+// Invitees get no properties unless some are chosen or all are granted
+export const inviteMemberSchema = z.object({
+  email: z.string().email().max(255).transform((e) => e.toLowerCase()),
+  permissionRoleId: z.string().uuid().nullable().default(null),
+  allPropertiesAccess: z.boolean().default(false),
+  propertyIds: z.array(z.string().uuid()).max(500).default([]),
+});
+
+export const updateMemberSchema = z.object({
+  role: z.enum(["OWNER", "TEAM_MEMBER"]),
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const memberIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const invitationIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const updateMemberAccessSchema = z
+  .object({
+    permissionRoleId: z.string().uuid().nullable(),
+    allPropertiesAccess: z.boolean(),
+    propertyIds: z.array(z.string().uuid()).max(500).default([]),
+  })
+  .refine((data) => data.allPropertiesAccess || data.propertyIds.length > 0, {
+    message: "Choose at least one property or grant access to all properties",
+    path: ["propertyIds"],
+  });
+
+export const createPermissionRoleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  permissions: z.array(permissionSchema).max(ALL_PERMISSIONS.length),
+});
+
+export const updatePermissionRoleSchema = createPermissionRoleSchema.partial();
+
+export const permissionRoleIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const updateSecuritySchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
+export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
+export type UpdateMemberAccessInput = z.infer<typeof updateMemberAccessSchema>;
+export type CreatePermissionRoleInput = z.infer<typeof createPermissionRoleSchema>;
+export type UpdatePermissionRoleInput = z.infer<typeof updatePermissionRoleSchema>;
+export type UpdateSecurityInput = z.infer<typeof updateSecuritySchema>;
@@ -51,6 +51,12 @@ export const recurringTemplateIdParamSchema = z.object({
   id: z.string().uuid(),
 });
 
+export const recurringRunListQuerySchema = paginationSchema.pick({
+  page: true,
+  limit: true,
+  sortOrder: true,
+});
+
 // ─── Expense Categories ─────────────────────────────────────────────
 
 export const createExpenseCategorySchema = z.object({
@@ -73,5 +79,6 @@ export type CreateTransactionInput = z.infer<typeof createTransactionSchema>;
 export type UpdateTransactionInput = z.infer<typeof updateTransactionSchema>;
 export type TransactionListQuery = z.infer<typeof transactionListQuerySchema>;
 export type CreateRecurringTemplateInput = z.infer<typeof createRecurringTemplateSchema>;
+export type RecurringRunListQuery = z.infer<typeof recurringRunListQuerySchema>;
 export type CreateExpenseCategoryInput = z.infer<typeof createExpenseCategorySchema>;
 export type ScheduleEQuery = z.infer<typeof scheduleEQuerySchema>;
@@ -0,0 +1,119 @@
+/**
+ * Encrypt sensitive columns written before field encryption existed, and
+ * re-encrypt values written with a retired key after a rotation.
+ *
+ *   npm run db:encrypt             rewrite rows
+ *   npm run db:encrypt -- --dry-run  only count what would change
+ *
+ * Safe to re-run: values already encrypted with the current key are skipped.
+ */
+import { basePrisma } from "../lib/prisma.js";
+import {
+  decrypt,
+  encrypt,
+  needsReencryption,
+} from "../lib/encryption.js";
+
+const BATCH_SIZE = 200;
+const dryRun = process.argv.includes("--dry-run");
+
+type Row = { id: string } & Record<string, string | null>;
+
+async function migrate(
+  label: string,
+  fields: string[],
+  findBatch: (cursor: string | undefined) => Promise<Row[]>,
+  save: (id: string, data: Record<string, string>) => Promise<unknown>
+) {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const rows = await findBatch(cursor);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const data: Record<string, string> = {};
+      for (const field of fields) {
+        const value = row[field];
+        if (value != null && needsReencryption(value)) {
+          data[field] = encrypt(decrypt(value));
+        }
+      }
+      if (Object.keys(data).length === 0) continue;
+      if (!dryRun) await save(row.id, data);
+      updated++;
+    }
+    cursor = rows[rows.length - 1]!.id;
+  }
+
+  console.log(
+    `${label}: ${updated} of ${scanned} row(s) ${dryRun ? "need" : "were"} re-encrypted`
+  );
+}
+
+function page(cursor: string | undefined) {
+  return {
+    take: BATCH_SIZE,
+    orderBy: { id: "asc" as const },
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+  };
+}
+
+async function main() {
+  await migrate(
+    "Tenant.ssn",
+    ["ssn"],
+    (cursor) =>
+      basePrisma.tenant.findMany({
+        where: { ssn: { not: null } },
+        select: { id: true, ssn: true },
+        ...page(cursor),
+      }),
+    (id, data) => basePrisma.tenant.update({ where: { id }, data })
+  );
+
+  await migrate(
+    "ScreeningReport.reportData",
+    ["reportData"],
+    (cursor) =>
+      basePrisma.screeningReport.findMany({
+        where: { reportData: { not: null } },
+        select: { id: true, reportData: true },
+        ...page(cursor),
+      }),
+    (id, data) => basePrisma.screeningReport.update({ where: { id }, data })
+  );
+
+  await migrate(
+    "ConnectedEmail tokens",
+    ["accessToken", "refreshToken"],
+    (cursor) =>
+      basePrisma.connectedEmail.findMany({
+        select: { id: true, accessToken: true, refreshToken: true },
+        ...page(cursor),
+      }),
+    (id, data) => basePrisma.connectedEmail.update({ where: { id }, data })
+  );
+
+  await migrate(
+    "User.twoFactorSecret",
+    ["twoFactorSecret"],
+    (cursor) =>
+      basePrisma.user.findMany({
+        where: { twoFactorSecret: { not: null } },
+        select: { id: true, twoFactorSecret: true },
+        ...page(cursor),
+      }),
+    (id, data) => basePrisma.user.update({ where: { id }, data })
+  );
+}
+
+main()
+  .catch((err: unknown) => {
+    console.error("Field encryption failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => basePrisma.$disconnect());
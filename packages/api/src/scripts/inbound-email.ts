@@ -0,0 +1,67 @@
+/**
+ * Post a fake Mailgun route forward to a running API, as if someone had
+ * replied to a message notification.
+ *
+ *   npm run email:inbound -- --thread <threadId> --from tenant@example.com "Reply text"
+ *
+ * The body is sent with a quoted copy of the original below it, so quote
+ * stripping is exercised too. Requests are signed with
+ * MAILGUN_WEBHOOK_SIGNING_KEY when set. Needs INBOUND_EMAIL_DOMAIN or
+ * MAILGUN_DOMAIN to build the reply address (any value works locally).
+ */
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { env } from "../config/env.js";
+import { threadReplyAddress } from "../services/email.js";
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const threadId = option("thread");
+  const from = option("from");
+  const text = process.argv
+    .slice(2)
+    .filter((arg, i, args) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--"))
+    .join(" ");
+  if (!threadId || !from || !text) {
+    throw new Error('Usage: email:inbound -- --thread <threadId> --from <email> "Reply text"');
+  }
+
+  const recipient = threadReplyAddress(threadId);
+  if (!recipient) {
+    throw new Error("Set INBOUND_EMAIL_DOMAIN (or MAILGUN_DOMAIN) to build reply addresses");
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const token = randomBytes(25).toString("hex");
+  const signature = env.MAILGUN_WEBHOOK_SIGNING_KEY
+    ? createHmac("sha256", env.MAILGUN_WEBHOOK_SIGNING_KEY).update(timestamp + token).digest("hex")
+    : "";
+
+  const form = new URLSearchParams({
+    recipient,
+    sender: from,
+    from,
+    subject: "Re: New Message",
+    "body-plain": `${text}\n\nOn ${new Date().toUTCString()}, Brevva <${env.EMAIL_FROM}> wrote:\n> Original message\n`,
+    "Message-Id": `<${randomUUID()}@inbound.test>`,
+    timestamp,
+    token,
+    signature,
+  });
+
+  const res = await fetch(`${env.API_URL}/api/v1/webhooks/email`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: form,
+  });
+  console.log(`${res.status} ${await res.text()}`);
+  if (!res.ok) process.exitCode = 1;
+}
+
+main().catch((err: unknown) => {
+  console.error("Inbound email failed:", err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,233 @@
+/**
+ * Move stored files between storage providers and rewrite file references
+ * written before storage was pluggable (`/uploads/<key>`) to plain keys.
+ *
+ *   npm run storage:migrate                          rewrite references only
+ *   npm run storage:migrate -- --from local --to s3  also copy every file
+ *   npm run storage:migrate -- --dry-run             only count what would change
+ *
+ * Safe to re-run: keys already present in the target are skipped, and
+ * references already stored as keys are left alone. Files are copied, never
+ * deleted from the source.
+ */
+import { basePrisma } from "../lib/prisma.js";
+import { createStorageProvider, toStorageKey } from "../lib/storage.js";
+import type { StorageDriver } from "../lib/storage.js";
+
+const BATCH_SIZE = 200;
+const LEGACY_PREFIX = "/uploads/";
+const dryRun = process.argv.includes("--dry-run");
+
+function option(name: string): StorageDriver | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  if (value !== "local" && value !== "s3") {
+    throw new Error(`--${name} must be "local" or "s3"`);
+  }
+  return value;
+}
+
+type Row = { id: string } & Record<string, unknown>;
+
+function page(cursor: string | undefined) {
+  return {
+    take: BATCH_SIZE,
+    orderBy: { id: "asc" as const },
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+  };
+}
+
+function rewrite(value: string): string {
+  return value.startsWith(LEGACY_PREFIX) ? (toStorageKey(value) ?? value) : value;
+}
+
+async function rewriteReferences(
+  label: string,
+  findBatch: (cursor: string | undefined) => Promise<Row[]>,
+  convert: (row: Row) => Record<string, unknown> | null,
+  save: (id: string, data: Record<string, unknown>) => Promise<unknown>
+) {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const rows = await findBatch(cursor);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const data = convert(row);
+      if (!data) continue;
+      if (!dryRun) await save(row.id, data);
+      updated++;
+    }
+    cursor = rows[rows.length - 1]!.id;
+  }
+
+  console.log(
+    `${label}: ${updated} of ${scanned} row(s) ${dryRun ? "need" : "were"} rewritten`
+  );
+}
+
+function urlColumn(field: string) {
+  return (row: Row) => {
+    const value = row[field];
+    if (typeof value !== "string") return null;
+    const key = rewrite(value);
+    return key === value ? null : { [field]: key };
+  };
+}
+
+function legacy(field: string) {
+  return { [field]: { startsWith: LEGACY_PREFIX } };
+}
+
+async function copyFiles(from: StorageDriver, to: StorageDriver) {
+  const source = createStorageProvider(from);
+  const target = createStorageProvider(to);
+  let scanned = 0;
+  let copied = 0;
+
+  for await (const key of source.list()) {
+    scanned++;
+    if (await target.exists(key)) continue;
+    if (!dryRun) {
+      const object = await source.get(key);
+      if (!object) continue;
+      const chunks: Buffer[] = [];
+      for await (const chunk of object.body) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array));
+      }
+      await target.put(key, Buffer.concat(chunks), object.contentType);
+    }
+    copied++;
+  }
+
+  console.log(
+    `Files: ${copied} of ${scanned} ${dryRun ? "need" : "were"} copied from ${from} to ${to}`
+  );
+}
+
+async function main() {
+  const from = option("from");
+  const to = option("to");
+  if ((from && !to) || (to && !from)) {
+    throw new Error("--from and --to must be given together");
+  }
+  if (from && from === to) {
+    throw new Error("--from and --to must differ");
+  }
+
+  // Copy first so rewritten references never point at a missing file
+  if (from && to) await copyFiles(from, to);
+
+  await rewriteReferences(
+    "TenantDocument.url",
+    (cursor) =>
+      basePrisma.tenantDocument.findMany({
+        where: legacy("url"),
+        select: { id: true, url: true },
+        ...page(cursor),
+      }),
+    urlColumn("url"),
+    (id, data) => basePrisma.tenantDocument.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "Document.url",
+    (cursor) =>
+      basePrisma.document.findMany({
+        where: legacy("url"),
+        select: { id: true, url: true },
+        ...page(cursor),
+      }),
+    urlColumn("url"),
+    (id, data) => basePrisma.document.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "PropertyPhoto.url",
+    (cursor) =>
+      basePrisma.propertyPhoto.findMany({
+        where: legacy("url"),
+        select: { id: true, url: true },
+        ...page(cursor),
+      }),
+    urlColumn("url"),
+    (id, data) => basePrisma.propertyPhoto.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "Lease.documentUrl",
+    (cursor) =>
+      basePrisma.lease.findMany({
+        where: legacy("documentUrl"),
+        select: { id: true, documentUrl: true },
+        ...page(cursor),
+      }),
+    urlColumn("documentUrl"),
+    (id, data) => basePrisma.lease.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "LeaseAddendum.documentUrl",
+    (cursor) =>
+      basePrisma.leaseAddendum.findMany({
+        where: legacy("documentUrl"),
+        select: { id: true, documentUrl: true },
+        ...page(cursor),
+      }),
+    urlColumn("documentUrl"),
+    (id, data) => basePrisma.leaseAddendum.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "Transaction.receiptUrl",
+    (cursor) =>
+      basePrisma.transaction.findMany({
+        where: legacy("receiptUrl"),
+        select: { id: true, receiptUrl: true },
+        ...page(cursor),
+      }),
+    urlColumn("receiptUrl"),
+    (id, data) => basePrisma.transaction.update({ where: { id }, data })
+  );
+
+  await rewriteReferences(
+    "AdverseAction.letterUrl",
+    (cursor) =>
+      basePrisma.adverseAction.findMany({
+        where: legacy("letterUrl"),
+        select: { id: true, letterUrl: true },
+        ...page(cursor),
+      }),
+    urlColumn("letterUrl"),
+    (id, data) => basePrisma.adverseAction.update({ where: { id }, data })
+  );
+
+  // Photos are a JSON array of URLs, so every row with photos is checked
+  await rewriteReferences(
+    "MaintenanceRequest.photos",
+    (cursor) =>
+      basePrisma.maintenanceRequest.findMany({
+        select: { id: true, photos: true },
+        ...page(cursor),
+      }),
+    (row) => {
+      const photos = row["photos"];
+      if (!Array.isArray(photos)) return null;
+      const rewritten = photos.map((p) => (typeof p === "string" ? rewrite(p) : p));
+      return rewritten.some((p, i) => p !== photos[i]) ? { photos: rewritten } : null;
+    },
+    (id, data) => basePrisma.maintenanceRequest.update({ where: { id }, data })
+  );
+}
+
+main()
+  .catch((err: unknown) => {
+    console.error("Storage migration failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => basePrisma.$disconnect());
@@ -0,0 +1,154 @@
+import { getStorage } from "../lib/storage.js";
+import type { ConsumerReportingAgency } from "./screening.js";
+
+export interface AdverseActionLetterData {
+  adverseActionId: string;
+  organizationName: string;
+  applicantName: string;
+  applicantEmail: string;
+  property: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    zip: string;
+  };
+  unitNumber: string;
+  /** Date the notice is issued (ISO string) */
+  noticeDate: string;
+  reasons: string[];
+  /** Agencies whose reports were used in the decision */
+  agencies: ConsumerReportingAgency[];
+  /** Credit score disclosure, when a credit report was used */
+  creditScore?: number | null;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function renderAgency(agency: ConsumerReportingAgency): string {
+  return `<div class="agency">
+      <strong>${escapeHtml(agency.name)}</strong><br>
+      ${escapeHtml(agency.address)}<br>
+      Phone: ${escapeHtml(agency.phone)}<br>
+      Website: ${escapeHtml(agency.website)}
+    </div>`;
+}
+
+/**
+ * Adverse action notice required by the Fair Credit Reporting Act
+ * (15 U.S.C. § 1681m) when an application is denied in whole or in part
+ * because of information in a consumer report.
+ */
+export function generateAdverseActionLetterHTML(
+  data: AdverseActionLetterData
+): string {
+  const premisesAddress = `${data.property.address}, ${data.property.city}, ${data.property.state} ${data.property.zip}, Unit ${data.unitNumber}`;
+
+  const reasonsHTML = data.reasons
+    .map((r) => `<li>${escapeHtml(r)}</li>`)
+    .join("");
+  const agenciesHTML = data.agencies.map(renderAgency).join("");
+
+  const creditScoreHTML =
+    data.creditScore != null
+      ? `<div class="section">
+    <h2>Your Credit Score</h2>
+    <p>Your credit score, as provided by the consumer reporting agency listed above, was <strong>${data.creditScore}</strong>. Scores on this model range from 300 to 850. A credit score is a number that reflects the information in your credit report and can change as that information changes.</p>
+  </div>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Notice of Adverse Action</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', Georgia, serif; font-size: 12pt; line-height: 1.6; color: #222; padding: 40px 60px; max-width: 850px; margin: 0 auto; }
+    .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 20px; }
+    .header h1 { font-size: 18pt; letter-spacing: 2px; margin-bottom: 8px; text-transform: uppercase; }
+    .header .org-name { font-size: 14pt; color: #555; margin-bottom: 4px; }
+    .header .date { font-size: 10pt; color: #777; }
+    .section { margin-bottom: 24px; }
+    .section h2 { font-size: 13pt; font-weight: bold; margin-bottom: 8px; text-transform: uppercase; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+    .section ul { margin-left: 24px; }
+    .reference { margin-bottom: 24px; padding: 12px 16px; background: #f9f9f9; border-left: 3px solid #333; font-size: 11pt; }
+    .agency { margin: 12px 0; padding: 12px 16px; border: 1px solid #ccc; font-size: 11pt; }
+    .disclosure { margin-top: 30px; padding: 16px; border: 1px solid #ccc; background: #f9f9f9; font-size: 10pt; page-break-inside: avoid; }
+    .disclosure h3 { font-size: 11pt; margin-bottom: 8px; }
+    .footer { margin-top: 30px; text-align: center; font-size: 9pt; color: #999; border-top: 1px solid #ccc; padding-top: 10px; }
+    @media print { body { padding: 20px 40px; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="org-name">${escapeHtml(data.organizationName)}</div>
+    <h1>Notice of Adverse Action</h1>
+    <div class="date">${formatDate(data.noticeDate)}</div>
+  </div>
+
+  <div class="reference">
+    To: <strong>${escapeHtml(data.applicantName)}</strong> (${escapeHtml(data.applicantEmail)})<br>
+    Re: Rental application for <strong>${escapeHtml(premisesAddress)}</strong>
+  </div>
+
+  <div class="section">
+    <p>Thank you for your interest in renting from ${escapeHtml(data.organizationName)}. After reviewing your application, we are unable to approve it at this time. This decision was based in whole or in part on information contained in a consumer report.</p>
+  </div>
+
+  <div class="section">
+    <h2>Principal Reasons</h2>
+    <ul>${reasonsHTML}</ul>
+  </div>
+
+  <div class="section">
+    <h2>Consumer Reporting Agency</h2>
+    <p>The consumer report was obtained from the following consumer reporting agency:</p>
+    ${agenciesHTML}
+    <p>The consumer reporting agency did not make this decision and is unable to provide you with the specific reasons why the adverse action was taken.</p>
+  </div>
+
+  ${creditScoreHTML}
+
+  <div class="section">
+    <h2>Your Rights</h2>
+    <p>Under the Fair Credit Reporting Act, you have the right to obtain a free copy of your consumer report from the consumer reporting agency named above if you request it within 60 days of receiving this notice.</p>
+    <p style="margin-top:8px">You also have the right to dispute directly with the consumer reporting agency the accuracy or completeness of any information in the report it furnished. The agency must reinvestigate disputed information, generally within 30 days, and correct or delete inaccurate, incomplete or unverifiable information.</p>
+  </div>
+
+  <div class="disclosure">
+    <h3>A Summary of Your Rights Under the Fair Credit Reporting Act</h3>
+    <p>The federal Fair Credit Reporting Act (FCRA) promotes the accuracy, fairness and privacy of information in the files of consumer reporting agencies. For more information, including information about additional rights, go to www.consumerfinance.gov/learnmore or write to: Consumer Financial Protection Bureau, 1700 G Street N.W., Washington, DC 20552. Your state may provide additional rights.</p>
+  </div>
+
+  <div class="footer">
+    <p>Generated by ${escapeHtml(data.organizationName)} via Brevva Property Management</p>
+    <p>Notice ID: ${data.adverseActionId}</p>
+  </div>
+</body>
+</html>`;
+}
+
+export async function saveAdverseActionLetter(
+  html: string,
+  adverseActionId: string
+): Promise<string> {
+  const key = `adverse-action-${adverseActionId}-${Date.now()}.html`;
+  await getStorage().put(key, html, "text/html; charset=utf-8");
+  return key;
+}
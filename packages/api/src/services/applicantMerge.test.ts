@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { applicantDetailsToMerge } from "./applicantMerge.js";
+
+const blank = {
+  phone: null,
+  dateOfBirth: null,
+  ssn: null,
+  employerName: null,
+  monthlyIncome: null,
+};
+
+describe("applicantDetailsToMerge", () => {
+  it("gives the merged tenant the applicant's SSN", () => {
+    const merged = {
+      ...blank,
+      ...applicantDetailsToMerge({ ...blank, ssn: "123-45-6789" }, blank),
+    };
+    expect(merged.ssn).toBe("123-45-6789");
+  });
+
+  it("never overwrites details already on file", () => {
+    const details = applicantDetailsToMerge(
+      { ...blank, ssn: "123-45-6789", phone: "555-0100" },
+      { ...blank, ssn: "***-**-4321" }
+    );
+    expect(details).toEqual({ phone: "555-0100" });
+  });
+
+  it("skips details the applicant left blank", () => {
+    expect(applicantDetailsToMerge(blank, blank)).toEqual({});
+  });
+});
@@ -0,0 +1,27 @@
+import type { Tenant } from "@prisma/client";
+
+type ApplicantDetails = Pick<
+  Tenant,
+  "phone" | "dateOfBirth" | "ssn" | "employerName" | "monthlyIncome"
+>;
+
+/**
+ * Details to copy from an applicant record onto the tenant it is merged
+ * into: only fields the tenant has left blank are filled in.
+ *
+ * `applicant.ssn` must be the plaintext from `revealTenantSsn`; reads
+ * through `prisma` return it masked, and the mask would be stored as the
+ * tenant's SSN.
+ */
+export function applicantDetailsToMerge(
+  applicant: ApplicantDetails,
+  tenant: ApplicantDetails
+): Partial<ApplicantDetails> {
+  const details: Partial<ApplicantDetails> = {};
+  for (const key of Object.keys(applicant) as (keyof ApplicantDetails)[]) {
+    if (applicant[key] !== null && tenant[key] === null) {
+      Object.assign(details, { [key]: applicant[key] });
+    }
+  }
+  return details;
+}
@@ -0,0 +1,86 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+
+/** Leases whose tenants see documents shared with their unit or property */
+const SHARING_LEASE_STATUSES = ["ACTIVE", "PENDING_SIGNATURE"] as const;
+
+/**
+ * Units a tenant currently lives in or is signing for.
+ */
+async function tenantUnits(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: {
+      currentUnit: { select: { id: true, propertyId: true } },
+      leaseTenants: {
+        where: { lease: { status: { in: [...SHARING_LEASE_STATUSES] } } },
+        select: { lease: { select: { unit: { select: { id: true, propertyId: true } } } } },
+      },
+    },
+  });
+  if (!tenant) return [];
+  const units = tenant.leaseTenants.map((lt) => lt.lease.unit);
+  if (tenant.currentUnit) units.push(tenant.currentUnit);
+  return units;
+}
+
+/**
+ * Shared documents a tenant may see in the portal: those shared with them
+ * directly, with a unit they live in, or with the whole property.
+ */
+export async function sharedDocumentsWhere(tenant: {
+  id: string;
+  organizationId: string;
+}): Promise<Prisma.DocumentWhereInput> {
+  const units = await tenantUnits(tenant.id);
+  const unitIds = [...new Set(units.map((u) => u.id))];
+  const propertyIds = [...new Set(units.map((u) => u.propertyId))];
+
+  return {
+    organizationId: tenant.organizationId,
+    sharedWithTenant: true,
+    OR: [
+      { tenantId: tenant.id },
+      { tenantId: null, unitId: { in: unitIds } },
+      { tenantId: null, unitId: null, propertyId: { in: propertyIds } },
+    ],
+  };
+}
+
+/**
+ * Tenants who may open a library document. The inverse of
+ * `sharedDocumentsWhere`, used when checking file access.
+ */
+export async function sharedDocumentTenantIds(document: {
+  sharedWithTenant: boolean;
+  propertyId: string | null;
+  unitId: string | null;
+  tenantId: string | null;
+}): Promise<string[]> {
+  if (!document.sharedWithTenant) return [];
+  if (document.tenantId) return [document.tenantId];
+
+  const unitWhere: Prisma.UnitWhereInput | null = document.unitId
+    ? { id: document.unitId }
+    : document.propertyId
+      ? { propertyId: document.propertyId }
+      : null;
+  if (!unitWhere) return [];
+
+  const tenants = await prisma.tenant.findMany({
+    where: {
+      OR: [
+        { currentUnit: unitWhere },
+        {
+          leaseTenants: {
+            some: {
+              lease: { status: { in: [...SHARING_LEASE_STATUSES] }, unit: unitWhere },
+            },
+          },
+        },
+      ],
+    },
+    select: { id: true },
+  });
+  return tenants.map((t) => t.id);
+}
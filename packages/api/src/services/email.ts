@@ -1,39 +1,89 @@
+import { createHmac, timingSafeEqual } from "crypto";
 import { env } from "../config/env.js";
+import { trySendFromOrganizationMailbox } from "./mailbox.js";
 
-interface SendEmailOptions {
+export interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
+  replyTo?: string;
+  /** Send from this organization's connected mailbox when it has one */
+  organizationId?: string;
 }
 
+/**
+ * Deliver an email right away. Throws if sending fails; routes should go
+ * through `services/notifications.ts`, which queues and retries.
+ */
 export async function sendEmail(options: SendEmailOptions): Promise<void> {
-  // In production, this would use Mailgun
-  // For now, log the email (Mailgun config is optional)
+  if (
+    options.organizationId &&
+    (await trySendFromOrganizationMailbox(options.organizationId, options))
+  ) {
+    return;
+  }
+
+  // Without Mailgun config, log the email instead
   if (env.MAILGUN_API_KEY && env.MAILGUN_DOMAIN) {
-    try {
-      const formData = await import("form-data");
-      const Mailgun = await import("mailgun.js");
-      const MailgunClass = Mailgun.default ?? Mailgun;
-      const mg = new (MailgunClass as any)(formData.default);
-      const client = mg.client({
-        username: "api",
-        key: env.MAILGUN_API_KEY,
-      });
-
-      await client.messages.create(env.MAILGUN_DOMAIN, {
-        from: `${env.EMAIL_FROM_NAME} <${env.EMAIL_FROM}>`,
-        to: options.to,
-        subject: options.subject,
-        html: options.html,
-      });
-    } catch (err) {
-      console.error("Failed to send email via Mailgun:", err);
-    }
+    const formData = await import("form-data");
+    const Mailgun = await import("mailgun.js");
+    const MailgunClass = Mailgun.default ?? Mailgun;
+    const mg = new (MailgunClass as any)(formData.default);
+    const client = mg.client({
+      username: "api",
+      key: env.MAILGUN_API_KEY,
+    });
+
+    await client.messages.create(env.MAILGUN_DOMAIN, {
+      from: `${env.EMAIL_FROM_NAME} <${env.EMAIL_FROM}>`,
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      ...(options.replyTo ? { "h:Reply-To": options.replyTo } : {}),
+    });
   } else {
-    console.log(`[Email] To: ${options.to} | Subject: ${options.subject}`);
+    console.log(
+      `[Email] To: ${options.to} | Subject: ${options.subject}` +
+        (options.replyTo ? ` | Reply-To: ${options.replyTo}` : "")
+    );
   }
 }
 
+// ─── Reply addresses ────────────────────────────────────────────────
+
+function replyToken(threadId: string): string {
+  return createHmac("sha256", env.JWT_SECRET)
+    .update(`thread-reply:${threadId}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Per-thread address replies can be sent to, e.g.
+ * `reply+<threadId>.<token>@mg.example.com`. The token stops anyone from
+ * posting into a thread by guessing its id. Null without an inbound domain.
+ */
+export function threadReplyAddress(threadId: string): string | null {
+  const domain = env.INBOUND_EMAIL_DOMAIN || env.MAILGUN_DOMAIN;
+  if (!domain) return null;
+  return `reply+${threadId}.${replyToken(threadId)}@${domain}`;
+}
+
+/**
+ * Thread id from a reply address, or null if it isn't one of ours or the
+ * token doesn't match.
+ */
+export function parseThreadReplyAddress(address: string): string | null {
+  const match = address.trim().toLowerCase().match(/^reply\+([0-9a-f-]{36})\.([0-9a-f]{16})@/);
+  if (!match) return null;
+  const [, threadId, token] = match;
+  const expected = Buffer.from(replyToken(threadId!));
+  const actual = Buffer.from(token!);
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? threadId!
+    : null;
+}
+
 export function buildSignatureRequestEmail(params: {
   tenantName: string;
   propertyAddress: string;
@@ -154,6 +204,96 @@ export function buildLeaseSignedConfirmationEmail(params: {
   };
 }
 
+export function buildLeaseRenewalOfferEmail(params: {
+  tenantName: string;
+  propertyAddress: string;
+  unitNumber: string;
+  landlordName: string;
+  startDate: string;
+  endDate: string;
+  monthlyRent: number;
+  previousRent: number;
+  respondBy: string | null;
+  message: string | null;
+  portalUrl: string;
+}): { subject: string; html: string } {
+  const change = params.monthlyRent - params.previousRent;
+  const rentNote =
+    change === 0
+      ? "unchanged"
+      : `${change > 0 ? "up" : "down"} ${formatMoney(Math.abs(change))} from ${formatMoney(params.previousRent)}`;
+
+  return {
+    subject: `Lease Renewal Offer - ${params.propertyAddress}`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Hello ${escapeHtml(params.tenantName)},</h2>
+    <p>${escapeHtml(params.landlordName)} is offering to renew your lease for <strong>${escapeHtml(params.propertyAddress)}, Unit ${escapeHtml(params.unitNumber)}</strong>.</p>
+    <p><strong>New term:</strong> ${formatDate(params.startDate)} – ${formatDate(params.endDate)}<br>
+    <strong>Monthly rent:</strong> ${formatMoney(params.monthlyRent)} (${rentNote})</p>
+    ${params.message ? `<p style="white-space: pre-line;">${escapeHtml(params.message)}</p>` : ""}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.portalUrl}" style="display: inline-block; background-color: #0d9488; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Review Offer</a>
+    </div>
+    <p style="color: #64748b; font-size: 14px;">${params.respondBy ? `Please accept or decline by ${formatDate(params.respondBy)}. ` : ""}Once you accept, your landlord will send the renewed lease for signature.</p>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+export function buildLeaseRenewalResponseEmail(params: {
+  recipientName: string;
+  tenantName: string;
+  propertyAddress: string;
+  unitNumber: string;
+  accepted: boolean;
+  declineReason: string | null;
+  leaseUrl: string;
+}): { subject: string; html: string } {
+  const outcome = params.accepted ? "accepted" : "declined";
+  const next = params.accepted
+    ? "<p>A draft of the renewed lease has been created. Review it and send it for signature.</p>"
+    : params.declineReason
+      ? `<p><strong>Reason:</strong> ${escapeHtml(params.declineReason)}</p>`
+      : "";
+
+  return {
+    subject: `Renewal ${params.accepted ? "Accepted" : "Declined"} - ${params.propertyAddress}, Unit ${params.unitNumber}`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Hello ${escapeHtml(params.recipientName)},</h2>
+    <p>${escapeHtml(params.tenantName)} has ${outcome} the renewal offer for <strong>${escapeHtml(params.propertyAddress)}, Unit ${escapeHtml(params.unitNumber)}</strong>.</p>
+    ${next}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.leaseUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">View Lease</a>
+    </div>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
 export function buildWelcomeTenantEmail(params: {
   tenantName: string;
   propertyAddress: string;
@@ -230,6 +370,366 @@ export function buildPasswordResetEmail(params: {
   };
 }
 
+export function buildNewDeviceSignInEmail(params: {
+  recipientName: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: Date;
+  securityUrl: string;
+}): { subject: string; html: string } {
+  const when = params.signedInAt.toLocaleString("en-US", {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+  return {
+    subject: "New sign-in to your Brevva account",
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">New Sign-In</h2>
+    <p>Hello ${escapeHtml(params.recipientName)},</p>
+    <p>Your account was just signed in to from a device we haven't seen before:</p>
+    <div style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; margin: 20px 0;">
+      <p style="margin: 4px 0;"><strong>Device:</strong> ${escapeHtml(params.device)}</p>
+      ${params.ipAddress ? `<p style="margin: 4px 0;"><strong>IP address:</strong> ${escapeHtml(params.ipAddress)}</p>` : ""}
+      <p style="margin: 4px 0;"><strong>Time:</strong> ${when} UTC</p>
+    </div>
+    <p>If this was you, there's nothing to do. If not, reset your password right away — that signs you out everywhere — and review your active sessions.</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.securityUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Review Sessions</a>
+    </div>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+export function buildApplicationReceivedEmail(params: {
+  applicantName: string;
+  organizationName: string;
+  propertyAddress: string;
+  unitNumber: string;
+}): { subject: string; html: string } {
+  return {
+    subject: `Application Received - ${params.propertyAddress}`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Hello ${escapeHtml(params.applicantName)},</h2>
+    <p>Thank you for applying to rent <strong>${escapeHtml(params.propertyAddress)}, Unit ${escapeHtml(params.unitNumber)}</strong>. ${escapeHtml(params.organizationName)} has received your application and will be in touch once it has been reviewed.</p>
+    <p style="color: #64748b; font-size: 14px;">If you did not submit this application, please contact ${escapeHtml(params.organizationName)} directly.</p>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+export function buildAdverseActionEmail(params: {
+  applicantName: string;
+  organizationName: string;
+  propertyAddress: string;
+  unitNumber: string;
+  reasons: string[];
+  agencies: { name: string; address: string; phone: string; website: string }[];
+  letterUrl: string;
+}): { subject: string; html: string } {
+  const reasonsHTML = params.reasons
+    .map((r) => `<li>${escapeHtml(r)}</li>`)
+    .join("");
+  const agenciesHTML = params.agencies
+    .map(
+      (a) =>
+        `<p style="background: #f8fafc; padding: 12px 16px; border-radius: 6px;"><strong>${escapeHtml(a.name)}</strong><br>${escapeHtml(a.address)}<br>${escapeHtml(a.phone)} &middot; ${escapeHtml(a.website)}</p>`
+    )
+    .join("");
+
+  return {
+    subject: `Your Rental Application - ${params.propertyAddress}`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Hello ${escapeHtml(params.applicantName)},</h2>
+    <p>Thank you for applying to rent <strong>${escapeHtml(params.propertyAddress)}, Unit ${escapeHtml(params.unitNumber)}</strong>. ${escapeHtml(params.organizationName)} is unable to approve your application at this time. This decision was based in whole or in part on information in a consumer report.</p>
+    <p><strong>Principal reasons:</strong></p>
+    <ul style="color: #475569; line-height: 1.8;">${reasonsHTML}</ul>
+    <p><strong>The report was provided by:</strong></p>
+    ${agenciesHTML}
+    <p>The consumer reporting agency did not make this decision and cannot explain why it was made. You have the right to a free copy of your report from the agency if you request it within 60 days, and the right to dispute the accuracy or completeness of any information in it directly with the agency.</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.letterUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">View Full Notice</a>
+    </div>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+// ─── Notification emails ────────────────────────────────────────────
+
+function notificationLayout(params: {
+  recipientName: string;
+  body: string;
+  buttonLabel: string;
+  buttonUrl: string;
+  preferencesUrl: string;
+}): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Hello ${escapeHtml(params.recipientName)},</h2>
+    ${params.body}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.buttonUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">${escapeHtml(params.buttonLabel)}</a>
+    </div>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+    <p><a href="${params.preferencesUrl}" style="color: #94a3b8;">Manage notification preferences</a></p>
+  </div>
+</body>
+</html>`;
+}
+
+interface NotificationEmailLinks {
+  recipientName: string;
+  appUrl: string;
+  preferencesUrl: string;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function buildRentDueEmail(
+  params: NotificationEmailLinks & {
+    amount: number;
+    dueDate: string;
+    propertyName: string;
+    unitNumber: string;
+  }
+): { subject: string; html: string } {
+  return {
+    subject: `Rent Due ${formatDate(params.dueDate)} - ${params.propertyName}`,
+    html: notificationLayout({
+      recipientName: params.recipientName,
+      body: `<p>This is a reminder that rent of <strong>${formatMoney(params.amount)}</strong> for <strong>${escapeHtml(params.propertyName)}, Unit ${escapeHtml(params.unitNumber)}</strong> is due on <strong>${formatDate(params.dueDate)}</strong>.</p>
+    <p style="color: #64748b; font-size: 14px;">If you have already paid, you can ignore this reminder.</p>`,
+      buttonLabel: "Pay Rent",
+      buttonUrl: params.appUrl,
+      preferencesUrl: params.preferencesUrl,
+    }),
+  };
+}
+
+export function buildPaymentReceivedEmail(
+  params: NotificationEmailLinks & {
+    amount: number;
+    paidAt: string;
+    tenantName: string;
+    propertyName: string;
+    unitNumber: string;
+    forTenant: boolean;
+  }
+): { subject: string; html: string } {
+  const what = params.forTenant
+    ? "We received your payment"
+    : `${escapeHtml(params.tenantName)} made a payment`;
+  return {
+    subject: `Payment Received - ${formatMoney(params.amount)}`,
+    html: notificationLayout({
+      recipientName: params.recipientName,
+      body: `<p>${what} of <strong>${formatMoney(params.amount)}</strong> on ${formatDate(params.paidAt)} for <strong>${escapeHtml(params.propertyName)}, Unit ${escapeHtml(params.unitNumber)}</strong>.</p>`,
+      buttonLabel: params.forTenant ? "View Payments" : "View Payment",
+      buttonUrl: params.appUrl,
+      preferencesUrl: params.preferencesUrl,
+    }),
+  };
+}
+
+export function buildMaintenanceUpdateEmail(
+  params: NotificationEmailLinks & {
+    title: string;
+    status: string;
+    propertyName: string;
+    unitNumber: string | null;
+    isNew: boolean;
+  }
+): { subject: string; html: string } {
+  const location = `${escapeHtml(params.propertyName)}${params.unitNumber ? `, Unit ${escapeHtml(params.unitNumber)}` : ""}`;
+  const status = params.status.replace(/_/g, " ").toLowerCase();
+  return {
+    subject: params.isNew
+      ? `New Maintenance Request - ${params.title}`
+      : `Maintenance Update - ${params.title}`,
+    html: notificationLayout({
+      recipientName: params.recipientName,
+      body: params.isNew
+        ? `<p>A new maintenance request, <strong>${escapeHtml(params.title)}</strong>, was submitted for ${location}.</p>`
+        : `<p>Your maintenance request <strong>${escapeHtml(params.title)}</strong> for ${location} is now <strong>${escapeHtml(status)}</strong>.</p>`,
+      buttonLabel: "View Request",
+      buttonUrl: params.appUrl,
+      preferencesUrl: params.preferencesUrl,
+    }),
+  };
+}
+
+export function buildLeaseExpiringEmail(
+  params: NotificationEmailLinks & {
+    endDate: string;
+    daysRemaining: number;
+    propertyName: string;
+    unitNumber: string;
+    tenantNames: string;
+    forTenant: boolean;
+  }
+): { subject: string; html: string } {
+  const lease = params.forTenant
+    ? "Your lease"
+    : `The lease for ${escapeHtml(params.tenantNames)}`;
+  return {
+    subject: `Lease Expiring in ${params.daysRemaining} Days - ${params.propertyName}`,
+    html: notificationLayout({
+      recipientName: params.recipientName,
+      body: `<p>${lease} at <strong>${escapeHtml(params.propertyName)}, Unit ${escapeHtml(params.unitNumber)}</strong> ends on <strong>${formatDate(params.endDate)}</strong>, ${params.daysRemaining} days from now.</p>`,
+      buttonLabel: "View Lease",
+      buttonUrl: params.appUrl,
+      preferencesUrl: params.preferencesUrl,
+    }),
+  };
+}
+
+export function buildNewMessageEmail(
+  params: NotificationEmailLinks & {
+    senderName: string;
+    subject: string | null;
+    preview: string;
+    /** The email carries a thread reply address */
+    canReplyByEmail: boolean;
+  }
+): { subject: string; html: string } {
+  return {
+    subject: params.subject
+      ? `New Message: ${params.subject}`
+      : `New Message from ${params.senderName}`,
+    html: notificationLayout({
+      recipientName: params.recipientName,
+      body: `<p>${escapeHtml(params.senderName)} sent you a message:</p>
+    <p style="background: #f8fafc; padding: 12px 16px; border-radius: 6px; color: #475569;">${escapeHtml(params.preview)}</p>${
+      params.canReplyByEmail
+        ? `\n    <p style="color: #64748b; font-size: 14px;">You can reply to this email directly; your reply is added to the conversation.</p>`
+        : ""
+    }`,
+      buttonLabel: "Reply",
+      buttonUrl: params.appUrl,
+      preferencesUrl: params.preferencesUrl,
+    }),
+  };
+}
+
+export function buildTeamInvitationEmail(params: {
+  inviterName: string;
+  organizationName: string;
+  acceptUrl: string;
+}): { subject: string; html: string } {
+  return {
+    subject: `${params.inviterName} invited you to ${params.organizationName} on Brevva`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">You're Invited</h2>
+    <p>${escapeHtml(params.inviterName)} has invited you to join <strong>${escapeHtml(params.organizationName)}</strong> on Brevva to help manage properties, tenants and maintenance.</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${params.acceptUrl}" style="display: inline-block; background-color: #2563eb; color: #ffffff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Accept Invitation</a>
+    </div>
+    <p style="color: #64748b; font-size: 14px;">This invitation will expire in 7 days. If you weren't expecting it, you can safely ignore this email.</p>
+    <p style="color: #64748b; font-size: 14px;">If the button doesn't work, copy and paste this URL into your browser:</p>
+    <p style="color: #64748b; font-size: 13px; word-break: break-all;">${params.acceptUrl}</p>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+export function buildMailboxVerificationEmail(params: {
+  organizationName: string;
+  mailbox: string;
+}): { subject: string; html: string } {
+  return {
+    subject: "Your mailbox is connected to Brevva",
+    html: `
+<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <div style="text-align: center; padding: 20px 0; border-bottom: 2px solid #2563eb;">
+    <h1 style="color: #2563eb; font-size: 24px; margin: 0;">Brevva</h1>
+  </div>
+  <div style="padding: 30px 0;">
+    <h2 style="color: #1e293b;">Mailbox Connected</h2>
+    <p>${escapeHtml(params.mailbox)} is now connected to ${escapeHtml(params.organizationName)} on Brevva.</p>
+    <p>Lease, payment and maintenance emails to your tenants will be sent from this address. They will appear in your Sent folder.</p>
+    <p style="color: #64748b; font-size: 14px;">You can disconnect the mailbox at any time from Settings.</p>
+  </div>
+  <div style="border-top: 1px solid #e2e8f0; padding-top: 16px; text-align: center; color: #94a3b8; font-size: 12px;">
+    <p>Sent via Brevva Property Management</p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, "&amp;")
@@ -0,0 +1,360 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import path from "path";
+import type { Request, Response, NextFunction } from "express";
+import { env } from "../config/env.js";
+import { AuthorizationError, NotFoundError } from "../lib/errors.js";
+import type { Permission } from "../lib/permissions.js";
+import { prisma } from "../lib/prisma.js";
+import { getStorage, toStorageKey } from "../lib/storage.js";
+import type { AuthUser } from "../middleware/auth.js";
+import type { AccessScope } from "../middleware/rbac.js";
+import { sharedDocumentTenantIds } from "./documentSharing.js";
+
+const UPLOAD_PREFIX = "/uploads/";
+
+/** Lifetime of links handed to the browser */
+export const SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/** Lifetime of links sent by email, which may be opened days later */
+export const EMAIL_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const UUID = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+const LEASE_FILE = new RegExp(`^(?:lease-(${UUID})-\\d+\\.(?:html|pdf)|leases/(${UUID})/.+)$`, "i");
+const ADDENDUM_FILE = new RegExp(`^addendum-(${UUID})-\\d+\\.(?:html|pdf)$`, "i");
+
+export interface UploadOwner {
+  organizationId: string;
+  /** Tenants who may open the file from the portal */
+  tenantIds: string[];
+  /** Listing photos are shown on the public application form */
+  isPublic: boolean;
+  /** Properties the file is filed under; null when it belongs to none */
+  propertyIds: string[] | null;
+  /** Permission guarding the owning record; null when any staff may see it */
+  permission: Permission | null;
+}
+
+function signature(key: string, expires: number): string {
+  return createHmac("sha256", env.JWT_SECRET)
+    .update(`uploads:${key}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * Short-lived `/uploads/<key>` link to a stored file. External URLs are
+ * returned as-is. Callers must have checked that the recipient may see it.
+ */
+export function signUploadUrl(
+  storedValue: string,
+  ttlSeconds: number = SIGNED_URL_TTL_SECONDS
+): string {
+  const key = toStorageKey(storedValue);
+  if (!key) return storedValue;
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${UPLOAD_PREFIX}${key
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/")}?expires=${expires}&signature=${signature(key, expires)}`;
+}
+
+export function signNullableUploadUrl(
+  storedValue: string | null,
+  ttlSeconds?: number
+): string | null {
+  return storedValue == null ? null : signUploadUrl(storedValue, ttlSeconds);
+}
+
+export function verifyUploadSignature(
+  key: string,
+  expires: number,
+  provided: string
+): boolean {
+  if (!Number.isInteger(expires) || expires < Date.now() / 1000) return false;
+  const expected = Buffer.from(signature(key, expires));
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Types the browser may display in place; everything else downloads */
+const INLINE_CONTENT_TYPES = new Set([
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+]);
+
+/**
+ * Serves `/uploads/<key>` from the active storage provider, but only for a
+ * valid, unexpired signature from `signUploadUrl`. Files come from the app's
+ * origin, so they are sandboxed, never sniffed, and downloaded unless they
+ * are images or PDFs.
+ */
+export async function serveSignedUpload(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const key = toStorageKey(req.path.replace(/^\//, ""));
+  const expires = Number(req.query["expires"]);
+  const provided = req.query["signature"];
+
+  if (
+    !key ||
+    typeof provided !== "string" ||
+    !verifyUploadSignature(key, expires, provided)
+  ) {
+    next(new AuthorizationError("This file link is invalid or has expired"));
+    return;
+  }
+
+  try {
+    const object = await getStorage().get(key);
+    if (!object) {
+      next(new NotFoundError("File"));
+      return;
+    }
+    const mimeType = object.contentType.split(";")[0]!.trim().toLowerCase();
+    if (!INLINE_CONTENT_TYPES.has(mimeType)) {
+      res.attachment(path.posix.basename(key));
+    }
+    res.set("Content-Type", object.contentType);
+    res.set("X-Content-Type-Options", "nosniff");
+    res.set("Content-Security-Policy", "sandbox");
+    res.set("Cache-Control", "private, no-store");
+    if (object.size != null) res.set("Content-Length", String(object.size));
+    object.body.on("error", next).pipe(res);
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function leaseOwner(leaseId: string): Promise<UploadOwner | null> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      organizationId: true,
+      tenants: { select: { tenantId: true } },
+      unit: { select: { propertyId: true } },
+    },
+  });
+  return lease
+    ? {
+        organizationId: lease.organizationId,
+        tenantIds: lease.tenants.map((t) => t.tenantId),
+        isPublic: false,
+        propertyIds: [lease.unit.propertyId],
+        permission: "leases:view",
+      }
+    : null;
+}
+
+/**
+ * Properties a tenant's files are filed under: where they live, lease or
+ * have applied.
+ */
+async function tenantPropertyIds(tenantId: string): Promise<string[]> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: {
+      currentUnit: { select: { propertyId: true } },
+      leaseTenants: { select: { lease: { select: { unit: { select: { propertyId: true } } } } } },
+      applications: { select: { unit: { select: { propertyId: true } } } },
+    },
+  });
+  if (!tenant) return [];
+  return [
+    ...new Set([
+      ...(tenant.currentUnit ? [tenant.currentUnit.propertyId] : []),
+      ...tenant.leaseTenants.map((lt) => lt.lease.unit.propertyId),
+      ...tenant.applications.map((a) => a.unit.propertyId),
+    ]),
+  ];
+}
+
+/**
+ * Find the record a stored file belongs to.
+ */
+export async function findUploadOwner(storedValue: string): Promise<UploadOwner | null> {
+  const key = toStorageKey(storedValue);
+  if (!key) return null;
+  // Rows not yet rewritten by `storage:migrate` still hold /uploads/ URLs
+  const stored = { in: [key, `${UPLOAD_PREFIX}${key}`] };
+
+  const [tenantDocument, document, photo, lease, addendum, receipt, letter, maintenance] =
+    await Promise.all([
+      prisma.tenantDocument.findFirst({
+        where: { url: stored },
+        select: { organizationId: true, tenantId: true, type: true },
+      }),
+      prisma.document.findFirst({
+        where: { url: stored },
+        select: {
+          organizationId: true,
+          propertyId: true,
+          unitId: true,
+          tenantId: true,
+          sharedWithTenant: true,
+        },
+      }),
+      prisma.propertyPhoto.findFirst({
+        where: { url: stored },
+        select: {
+          propertyId: true,
+          property: { select: { organizationId: true } },
+          unit: { select: { status: true } },
+        },
+      }),
+      prisma.lease.findFirst({
+        where: { OR: [{ documentUrl: stored }, { documentPdfUrl: stored }] },
+        select: { id: true },
+      }),
+      prisma.leaseAddendum.findFirst({
+        where: { OR: [{ documentUrl: stored }, { documentPdfUrl: stored }] },
+        select: { leaseId: true },
+      }),
+      prisma.transaction.findFirst({
+        where: { receiptUrl: stored },
+        select: { organizationId: true, propertyId: true },
+      }),
+      prisma.adverseAction.findFirst({
+        where: { letterUrl: stored },
+        select: {
+          application: {
+            select: {
+              organizationId: true,
+              tenantId: true,
+              unit: { select: { propertyId: true } },
+            },
+          },
+        },
+      }),
+      prisma.maintenanceRequest.findFirst({
+        where: {
+          OR: [
+            { photos: { array_contains: [key] } },
+            { photos: { array_contains: [`${UPLOAD_PREFIX}${key}`] } },
+          ],
+        },
+        select: {
+          organizationId: true,
+          tenantId: true,
+          unit: { select: { propertyId: true } },
+        },
+      }),
+    ]);
+
+  if (tenantDocument) {
+    return {
+      organizationId: tenantDocument.organizationId,
+      tenantIds: [tenantDocument.tenantId],
+      isPublic: false,
+      propertyIds: await tenantPropertyIds(tenantDocument.tenantId),
+      // ID scans, pay stubs and anything sent with an application
+      permission:
+        tenantDocument.type === "ID" ||
+        tenantDocument.type === "PAY_STUB" ||
+        key.startsWith("application-doc-")
+          ? "tenants:view_pii"
+          : "tenants:view",
+    };
+  }
+  if (document) {
+    return {
+      organizationId: document.organizationId,
+      tenantIds: await sharedDocumentTenantIds(document),
+      isPublic: false,
+      propertyIds: document.propertyId
+        ? [document.propertyId]
+        : document.tenantId
+          ? await tenantPropertyIds(document.tenantId)
+          : null,
+      permission: null,
+    };
+  }
+  if (photo) {
+    return {
+      organizationId: photo.property.organizationId,
+      tenantIds: [],
+      isPublic: photo.unit?.status === "LISTED",
+      propertyIds: [photo.propertyId],
+      permission: "properties:view",
+    };
+  }
+  if (lease) return leaseOwner(lease.id);
+  if (addendum) return leaseOwner(addendum.leaseId);
+  if (receipt) {
+    return {
+      organizationId: receipt.organizationId,
+      tenantIds: [],
+      isPublic: false,
+      propertyIds: [receipt.propertyId],
+      permission: "payments:view",
+    };
+  }
+  if (letter) {
+    return {
+      organizationId: letter.application.organizationId,
+      tenantIds: [letter.application.tenantId],
+      isPublic: false,
+      propertyIds: [letter.application.unit.propertyId],
+      permission: "tenants:view_pii",
+    };
+  }
+  if (maintenance) {
+    return {
+      organizationId: maintenance.organizationId,
+      tenantIds: [maintenance.tenantId],
+      isPublic: false,
+      propertyIds: [maintenance.unit.propertyId],
+      permission: "maintenance:view",
+    };
+  }
+
+  // Superseded lease and addendum versions are no longer referenced by a
+  // record but are named after it
+  const leaseMatch = LEASE_FILE.exec(key);
+  if (leaseMatch) return leaseOwner((leaseMatch[1] ?? leaseMatch[2])!);
+  const addendumMatch = ADDENDUM_FILE.exec(key);
+  if (addendumMatch) {
+    const owner = await prisma.leaseAddendum.findUnique({
+      where: { id: addendumMatch[1]! },
+      select: { leaseId: true },
+    });
+    return owner ? leaseOwner(owner.leaseId) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Staff may open files in their organization at properties within their
+ * `access` scope, plus files filed under no property, when they hold the
+ * permission guarding the owning record; tenants only files tied to their
+ * own tenant record.
+ */
+export async function canAccessUpload(
+  user: AuthUser,
+  access: AccessScope,
+  storedValue: string
+): Promise<boolean> {
+  const owner = await findUploadOwner(storedValue);
+  if (!owner) return false;
+  if (owner.isPublic) return true;
+  if (owner.organizationId !== user.organizationId) return false;
+  if (user.role !== "TENANT") {
+    if (owner.permission && !access.permissions.has(owner.permission)) return false;
+    const scoped = access.propertyIds;
+    return (
+      !scoped ||
+      owner.propertyIds === null ||
+      owner.propertyIds.some((id) => scoped.includes(id))
+    );
+  }
+
+  const tenant = await prisma.tenant.findFirst({
+    where: { userId: user.userId, organizationId: user.organizationId },
+    select: { id: true },
+  });
+  return !!tenant && owner.tenantIds.includes(tenant.id);
+}
@@ -0,0 +1,49 @@
+import { createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { verifyMailgunSignature } from "./inboundEmail.js";
+
+// Matches MAILGUN_WEBHOOK_SIGNING_KEY in vitest.config.ts
+const SIGNING_KEY = "test-mailgun-signing-key";
+
+function signed(timestamp: number, token = "a1b2c3d4e5f6") {
+  return {
+    timestamp: String(timestamp),
+    token,
+    signature: createHmac("sha256", SIGNING_KEY)
+      .update(`${timestamp}${token}`)
+      .digest("hex"),
+  };
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("verifyMailgunSignature", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a fresh, correctly signed request", () => {
+    expect(verifyMailgunSignature(signed(now()))).toBe(true);
+  });
+
+  it("rejects a signature over different values", () => {
+    const params = signed(now());
+    expect(verifyMailgunSignature({ ...params, token: "other-token" })).toBe(false);
+    expect(verifyMailgunSignature({ ...params, signature: "00".repeat(32) })).toBe(false);
+    expect(verifyMailgunSignature({ ...params, signature: "not-hex" })).toBe(false);
+  });
+
+  it("rejects requests with missing fields", () => {
+    const { timestamp, token, signature } = signed(now());
+    expect(verifyMailgunSignature({ token, signature })).toBe(false);
+    expect(verifyMailgunSignature({ timestamp, signature })).toBe(false);
+    expect(verifyMailgunSignature({ timestamp, token })).toBe(false);
+  });
+
+  it("rejects timestamps more than 15 minutes away", () => {
+    vi.useFakeTimers({ now: new Date("2026-03-01T12:00:00Z") });
+    expect(verifyMailgunSignature(signed(now() - 14 * 60))).toBe(true);
+    expect(verifyMailgunSignature(signed(now() - 16 * 60))).toBe(false);
+    expect(verifyMailgunSignature(signed(now() + 16 * 60))).toBe(false);
+  });
+});
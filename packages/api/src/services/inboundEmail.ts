@@ -0,0 +1,190 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { env } from "../config/env.js";
+import { prisma } from "../lib/prisma.js";
+import { parseThreadReplyAddress } from "./email.js";
+import { notifyNewMessage } from "./notifications.js";
+import { publishMessageCreated } from "./realtime.js";
+
+/** Fields of a Mailgun route forward that we use */
+export interface InboundEmail {
+  recipient: string;
+  /** Envelope sender */
+  sender: string;
+  /** From header, e.g. `Jane Doe <jane@example.com>` */
+  from: string;
+  bodyPlain: string;
+  /** Mailgun's reply with quotes and signature removed, when it found one */
+  strippedText: string | null;
+  messageId: string | null;
+}
+
+export type InboundEmailResult =
+  | { status: "threaded"; messageId: string }
+  | { status: "duplicate" }
+  | { status: "rejected"; reason: string };
+
+const MAX_BODY_LENGTH = 10000;
+const SIGNATURE_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Mailgun signs webhooks with HMAC-SHA256(timestamp + token). Unsigned
+ * requests are accepted outside production when no signing key is set, so
+ * the local harness works without Mailgun.
+ */
+export function verifyMailgunSignature(params: {
+  timestamp?: string | undefined;
+  token?: string | undefined;
+  signature?: string | undefined;
+}): boolean {
+  const key = env.MAILGUN_WEBHOOK_SIGNING_KEY;
+  if (!key) return env.NODE_ENV !== "production";
+
+  const { timestamp, token, signature } = params;
+  if (!timestamp || !token || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+  const expected = createHmac("sha256", key).update(timestamp + token).digest();
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const QUOTE_MARKERS = [
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/, // Outlook separator
+  /^From:\s.+/,
+  /^Sent from my /,
+  /^--$/, // "-- " signature delimiter, after trimming
+];
+
+/**
+ * Keep only the new text of a reply: everything before the first quote
+ * header ("On ... wrote:", possibly wrapped over two lines), separator or
+ * signature, with `>` quoted lines dropped.
+ */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (const [i, line] of lines.entries()) {
+    const trimmed = line.trimEnd();
+    const isAttribution =
+      trimmed.startsWith("On ") && `${trimmed} ${lines[i + 1] ?? ""}`.trimEnd().endsWith("wrote:");
+    if (isAttribution || QUOTE_MARKERS.some((pattern) => pattern.test(trimmed))) break;
+    if (trimmed.startsWith(">")) continue;
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+function emailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match?.[1] ?? value).trim().toLowerCase();
+}
+
+/**
+ * Append an emailed reply to its thread. The recipient address identifies
+ * the thread; the sender must be the thread's tenant or a staff member of
+ * the thread's organization.
+ */
+export async function handleInboundEmail(email: InboundEmail): Promise<InboundEmailResult> {
+  // A reply can go to several addresses; ours is any one of them
+  const threadId =
+    email.recipient
+      .split(",")
+      .map((address) => parseThreadReplyAddress(emailAddress(address)))
+      .find((id) => id !== null) ?? null;
+  if (!threadId) return { status: "rejected", reason: "Unknown reply address" };
+
+  if (email.messageId) {
+    const existing = await prisma.message.findFirst({
+      where: { externalId: email.messageId },
+      select: { id: true },
+    });
+    if (existing) return { status: "duplicate" };
+  }
+
+  const thread = await prisma.messageThread.findUnique({
+    where: { id: threadId },
+    include: {
+      tenant: {
+        select: { id: true, email: true, userId: true, user: { select: { email: true } } },
+      },
+      messages: {
+        where: { senderType: { not: "TENANT" } },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { senderId: true },
+      },
+    },
+  });
+  if (!thread) return { status: "rejected", reason: "Thread not found" };
+
+  const from = emailAddress(email.from || email.sender);
+  const tenantEmails = [thread.tenant.email, thread.tenant.user?.email]
+    .filter((e): e is string => !!e)
+    .map((e) => e.toLowerCase());
+
+  let sender: { id: string; type: "OWNER" | "TEAM" | "TENANT" };
+  let recipient: { id: string; type: "OWNER" | "TEAM" | "TENANT" };
+
+  if (tenantEmails.includes(from)) {
+    if (!thread.tenant.userId) {
+      return { status: "rejected", reason: "Tenant has no user account" };
+    }
+    const lastStaffId = thread.messages[0]?.senderId;
+    const staff = lastStaffId
+      ? await prisma.user.findUnique({ where: { id: lastStaffId }, select: { id: true, role: true } })
+      : await prisma.user.findFirst({
+          where: { organizationId: thread.organizationId, role: "OWNER" },
+          select: { id: true, role: true },
+        });
+    if (!staff) return { status: "rejected", reason: "No staff recipient" };
+    sender = { id: thread.tenant.userId, type: "TENANT" };
+    recipient = { id: staff.id, type: staff.role === "OWNER" ? "OWNER" : "TEAM" };
+  } else {
+    const staff = await prisma.user.findFirst({
+      where: {
+        organizationId: thread.organizationId,
+        role: { in: ["OWNER", "TEAM_MEMBER"] },
+        email: { equals: from, mode: "insensitive" },
+      },
+      select: { id: true, role: true },
+    });
+    if (!staff || !thread.tenant.userId) {
+      return { status: "rejected", reason: `Sender ${from} is not part of this conversation` };
+    }
+    sender = { id: staff.id, type: staff.role === "OWNER" ? "OWNER" : "TEAM" };
+    recipient = { id: thread.tenant.userId, type: "TENANT" };
+  }
+
+  const body = (email.strippedText?.trim() || stripQuotedText(email.bodyPlain)).slice(
+    0,
+    MAX_BODY_LENGTH
+  );
+  if (!body) return { status: "rejected", reason: "Empty reply" };
+
+  const message = await prisma.$transaction(async (tx) => {
+    const created = await tx.message.create({
+      data: {
+        organizationId: thread.organizationId,
+        threadId: thread.id,
+        senderId: sender.id,
+        senderType: sender.type,
+        recipientId: recipient.id,
+        recipientType: recipient.type,
+        channel: "EMAIL",
+        body,
+        externalId: email.messageId,
+      },
+    });
+    await tx.messageThread.update({
+      where: { id: thread.id },
+      data: { lastMessageAt: new Date() },
+    });
+    return created;
+  });
+
+  notifyNewMessage(message.id).catch(() => {});
+  publishMessageCreated(message.id).catch(() => {});
+  return { status: "threaded", messageId: message.id };
+}
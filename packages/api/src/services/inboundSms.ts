@@ -0,0 +1,145 @@
+import { prisma } from "../lib/prisma.js";
+import { notifyNewMessage } from "./notifications.js";
+import { publishMessageCreated } from "./realtime.js";
+import { normalizePhone, parseSmsKeyword, setSmsOptOut } from "./sms.js";
+
+export interface InboundSms {
+  from: string;
+  body: string;
+  /** Provider message id; retried webhooks carry the same one */
+  externalId: string | null;
+}
+
+const STOP_REPLY =
+  "You have been unsubscribed from Brevva texts and will not receive further messages. Reply START to resubscribe.";
+const START_REPLY = "You are resubscribed to Brevva texts. Reply STOP to unsubscribe.";
+const HELP_REPLY =
+  "Brevva: texts from your property manager. Replies go to their inbox. Reply STOP to unsubscribe. Msg & data rates may apply.";
+
+/**
+ * Tenants with a portal account whose phone number matches. A number can
+ * belong to tenants in several organizations.
+ */
+async function tenantsByPhone(phone: string) {
+  const candidates = await prisma.tenant.findMany({
+    where: { phone: { contains: phone.slice(-4) }, userId: { not: null } },
+    select: { id: true, organizationId: true, userId: true, phone: true },
+  });
+  return candidates.filter((t) => normalizePhone(t.phone) === phone);
+}
+
+/**
+ * Thread an inbound text into the conversation it answers: the thread of
+ * the last SMS we sent to that number, otherwise the tenant's most recent
+ * thread, otherwise a new one. Compliance keywords update the opt-out list
+ * instead. Returns the text to reply with, if any.
+ */
+export async function handleInboundSms(sms: InboundSms): Promise<string | null> {
+  const from = normalizePhone(sms.from);
+  if (!from) return null;
+
+  switch (parseSmsKeyword(sms.body)) {
+    case "STOP":
+      await setSmsOptOut(from, true);
+      return STOP_REPLY;
+    case "START":
+      await setSmsOptOut(from, false);
+      return START_REPLY;
+    case "HELP":
+      return HELP_REPLY;
+  }
+
+  if (sms.externalId) {
+    const existing = await prisma.message.findFirst({
+      where: { externalId: sms.externalId },
+      select: { id: true },
+    });
+    if (existing) return null;
+  }
+
+  const tenants = await tenantsByPhone(from);
+  if (tenants.length === 0) {
+    console.warn(`[SMS] Inbound text from unknown number ${from}`);
+    return null;
+  }
+
+  const lastOutbound = await prisma.message.findFirst({
+    where: {
+      channel: "SMS",
+      senderType: { not: "TENANT" },
+      recipientId: { in: tenants.map((t) => t.userId!) },
+    },
+    orderBy: { createdAt: "desc" },
+    select: { threadId: true, senderId: true, recipientId: true },
+  });
+
+  const tenant = lastOutbound
+    ? tenants.find((t) => t.userId === lastOutbound.recipientId)!
+    : tenants[0]!;
+
+  let threadId = lastOutbound?.threadId ?? null;
+  let staffId = lastOutbound?.senderId ?? null;
+
+  if (!threadId) {
+    const thread = await prisma.messageThread.findFirst({
+      where: { tenantId: tenant.id },
+      orderBy: { lastMessageAt: "desc" },
+      select: {
+        id: true,
+        messages: {
+          where: { senderType: { not: "TENANT" } },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { senderId: true },
+        },
+      },
+    });
+    threadId = thread?.id ?? null;
+    staffId = thread?.messages[0]?.senderId ?? null;
+  }
+
+  const staff = staffId
+    ? await prisma.user.findUnique({ where: { id: staffId }, select: { id: true, role: true } })
+    : await prisma.user.findFirst({
+        where: { organizationId: tenant.organizationId, role: "OWNER" },
+        select: { id: true, role: true },
+      });
+  if (!staff) {
+    console.warn(`[SMS] No staff recipient for text from ${from}`);
+    return null;
+  }
+
+  const message = await prisma.$transaction(async (tx) => {
+    const thread = threadId
+      ? await tx.messageThread.update({
+          where: { id: threadId },
+          data: { lastMessageAt: new Date() },
+        })
+      : await tx.messageThread.create({
+          data: {
+            organizationId: tenant.organizationId,
+            tenantId: tenant.id,
+            subject: "Text message",
+            lastMessageAt: new Date(),
+          },
+        });
+
+    return tx.message.create({
+      data: {
+        organizationId: tenant.organizationId,
+        threadId: thread.id,
+        senderId: tenant.userId!,
+        senderType: "TENANT",
+        recipientId: staff.id,
+        recipientType: staff.role === "OWNER" ? "OWNER" : "TEAM",
+        channel: "SMS",
+        body: sms.body,
+        externalId: sms.externalId,
+      },
+    });
+  });
+
+  notifyNewMessage(message.id).catch(() => {});
+  publishMessageCreated(message.id).catch(() => {});
+  return null;
+}
@@ -0,0 +1,278 @@
+import type { Lease } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { addMonthsUTC, startOfDayUTC } from "../lib/dates.js";
+import { recordLateFeeInLedger } from "./ledger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Payments made up to this many days before a due date count toward that
+ * period, so early rent isn't credited to the previous month.
+ */
+const PREPAYMENT_WINDOW_DAYS = 15;
+
+type LeaseFeeSettings = Pick<
+  Lease,
+  | "monthlyRent"
+  | "lateFeeAmount"
+  | "lateFeeType"
+  | "lateFeeAccrual"
+  | "lateFeeDailyAmount"
+  | "lateFeeMaxAmount"
+>;
+
+export interface RentPeriod {
+  dueDate: Date;
+  nextDueDate: Date;
+}
+
+export interface LateFeeAssessment {
+  leaseId: string;
+  organizationId: string;
+  unit: {
+    id: string;
+    unitNumber: string;
+    property: { id: string; name: string };
+  };
+  periodStart: Date;
+  daysLate: number;
+  rentDue: number;
+  amountPaid: number;
+  amount: number;
+  /** CREATE a new fee, or UPDATE an accruing fee already assessed this period */
+  action: "CREATE" | "UPDATE";
+  existingFeeId: string | null;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The rent period containing `asOf`: the most recent due date on or before
+ * it, and the due date that follows.
+ */
+export function currentRentPeriod(rentDueDay: number, asOf: Date): RentPeriod {
+  const today = startOfDayUTC(asOf);
+  let dueDate = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), rentDueDay)
+  );
+  if (dueDate > today) {
+    dueDate = addMonthsUTC(dueDate, -1, rentDueDay);
+  }
+  return { dueDate, nextDueDate: addMonthsUTC(dueDate, 1, rentDueDay) };
+}
+
+/**
+ * The initial fee configured on a lease: flat dollars or a percentage of
+ * monthly rent. Returns null when no late fee is configured.
+ */
+export function baseLateFee(lease: LeaseFeeSettings): number | null {
+  if (lease.lateFeeAmount === null) return null;
+  if (lease.lateFeeType === "PERCENTAGE") {
+    return roundCents(
+      Number(lease.monthlyRent) * (Number(lease.lateFeeAmount) / 100)
+    );
+  }
+  return roundCents(Number(lease.lateFeeAmount));
+}
+
+/**
+ * Total fee owed for a period that is `daysLate` days past the grace period.
+ * DAILY accrual adds `lateFeeDailyAmount` for each day after the first;
+ * `lateFeeMaxAmount` caps the total either way.
+ */
+export function lateFeeForDaysLate(
+  lease: LeaseFeeSettings,
+  daysLate: number
+): number {
+  const base = baseLateFee(lease) ?? 0;
+  let amount = base;
+  if (lease.lateFeeAccrual === "DAILY" && lease.lateFeeDailyAmount !== null) {
+    amount += Number(lease.lateFeeDailyAmount) * Math.max(daysLate - 1, 0);
+  }
+  if (lease.lateFeeMaxAmount !== null) {
+    amount = Math.min(amount, Number(lease.lateFeeMaxAmount));
+  }
+  return roundCents(amount);
+}
+
+/**
+ * Work out which ACTIVE leases owe a late fee for their current rent period
+ * as of `asOf`. Nothing is written — callers either show the result as a
+ * preview or pass it to `applyLateFeeAssessments`.
+ *
+ * Rent counts as unpaid when COMPLETED and PROCESSING payments in the period
+ * total less than monthly rent. A fee is never assessed twice for a period;
+ * a manually assessed fee in the period also suppresses the automatic one.
+ */
+export async function evaluateLateFees(opts: {
+  asOf: Date;
+  organizationId?: string;
+  /** Limit to leases at these properties; omitted or null means all */
+  propertyIds?: string[] | null;
+}): Promise<LateFeeAssessment[]> {
+  const today = startOfDayUTC(opts.asOf);
+  // Two months back covers the current period plus its prepayment window
+  const lookback = addMonthsUTC(today, -2);
+
+  const leases = await prisma.lease.findMany({
+    where: {
+      status: "ACTIVE",
+      lateFeeAmount: { not: null },
+      ...(opts.organizationId ? { organizationId: opts.organizationId } : {}),
+      ...(opts.propertyIds ? { unit: { propertyId: { in: opts.propertyIds } } } : {}),
+    },
+    include: {
+      unit: {
+        select: {
+          id: true,
+          unitNumber: true,
+          property: { select: { id: true, name: true } },
+        },
+      },
+      payments: {
+        where: {
+          status: { in: ["COMPLETED", "PROCESSING"] },
+          createdAt: { gte: lookback },
+        },
+        select: { amount: true, paidAt: true, createdAt: true },
+      },
+      lateFees: {
+        where: { assessedDate: { gte: lookback } },
+        select: {
+          id: true,
+          amount: true,
+          assessedDate: true,
+          periodStart: true,
+          paidDate: true,
+          waived: true,
+        },
+      },
+    },
+  });
+
+  const assessments: LateFeeAssessment[] = [];
+
+  for (const lease of leases) {
+    const { dueDate, nextDueDate } = currentRentPeriod(lease.rentDueDay, today);
+    if (dueDate < startOfDayUTC(lease.startDate) || dueDate > lease.endDate) {
+      continue;
+    }
+
+    const daysPastDue = Math.floor((today.getTime() - dueDate.getTime()) / DAY_MS);
+    const daysLate = daysPastDue - lease.gracePeriodDays;
+    if (daysLate <= 0) continue;
+
+    const windowStart = new Date(dueDate.getTime() - PREPAYMENT_WINDOW_DAYS * DAY_MS);
+    const windowEnd = new Date(nextDueDate.getTime() - PREPAYMENT_WINDOW_DAYS * DAY_MS);
+    const amountPaid = roundCents(
+      lease.payments
+        .filter((p) => {
+          const madeAt = p.paidAt ?? p.createdAt;
+          return madeAt >= windowStart && madeAt < windowEnd;
+        })
+        .reduce((sum, p) => sum + Number(p.amount), 0)
+    );
+    const rentDue = Number(lease.monthlyRent);
+    if (amountPaid >= rentDue) continue;
+
+    const manualFee = lease.lateFees.find(
+      (f) =>
+        f.periodStart === null &&
+        f.assessedDate >= dueDate &&
+        f.assessedDate < nextDueDate
+    );
+    if (manualFee) continue;
+
+    const amount = lateFeeForDaysLate(lease, daysLate);
+    if (amount <= 0) continue;
+
+    const existing = lease.lateFees.find(
+      (f) => f.periodStart?.getTime() === dueDate.getTime()
+    );
+    if (existing) {
+      if (existing.waived || existing.paidDate) continue;
+      if (amount <= Number(existing.amount)) continue;
+    }
+
+    assessments.push({
+      leaseId: lease.id,
+      organizationId: lease.organizationId,
+      unit: lease.unit,
+      periodStart: dueDate,
+      daysLate,
+      rentDue,
+      amountPaid,
+      amount,
+      action: existing ? "UPDATE" : "CREATE",
+      existingFeeId: existing?.id ?? null,
+    });
+  }
+
+  return assessments;
+}
+
+/**
+ * Persist assessments from `evaluateLateFees` and mirror them into the lease
+ * ledger. Creation is idempotent on (leaseId, periodStart); accruing fees are
+ * only raised, never lowered, and are left alone once waived or paid.
+ */
+export async function applyLateFeeAssessments(
+  assessments: LateFeeAssessment[],
+  asOf: Date
+) {
+  let created = 0;
+  let updated = 0;
+
+  for (const assessment of assessments) {
+    if (assessment.action === "CREATE") {
+      const result = await prisma.lateFee.createMany({
+        data: [
+          {
+            organizationId: assessment.organizationId,
+            leaseId: assessment.leaseId,
+            amount: assessment.amount,
+            assessedDate: asOf,
+            periodStart: assessment.periodStart,
+          },
+        ],
+        skipDuplicates: true,
+      });
+      created += result.count;
+    } else if (assessment.existingFeeId) {
+      const result = await prisma.lateFee.updateMany({
+        where: {
+          id: assessment.existingFeeId,
+          waived: false,
+          paidDate: null,
+          amount: { lt: assessment.amount },
+        },
+        data: { amount: assessment.amount },
+      });
+      updated += result.count;
+    }
+
+    const fee = await prisma.lateFee.findUnique({
+      where: {
+        leaseId_periodStart: {
+          leaseId: assessment.leaseId,
+          periodStart: assessment.periodStart,
+        },
+      },
+      select: { id: true },
+    });
+    if (fee) await recordLateFeeInLedger(fee.id);
+  }
+
+  return { created, updated };
+}
+
+/**
+ * Scheduled entry point: assess late fees across every organization.
+ */
+export async function runLateFeeAssessment(asOf: Date = new Date()) {
+  const assessments = await evaluateLateFees({ asOf });
+  const result = await applyLateFeeAssessments(assessments, asOf);
+  return { due: assessments.length, ...result };
+}
@@ -1,18 +1,21 @@
 import { createHash } from "crypto";
-import fs from "fs";
-import path from "path";
 import { randomUUID } from "crypto";
-import { env } from "../config/env.js";
+import { renderPdf } from "../lib/pdf.js";
+import { getStorage } from "../lib/storage.js";
+import { buildMergeValues, renderMergeContent } from "./mergeFields.js";
+import type { MergeLeaseTerms, MergeTenant } from "./mergeFields.js";
 
+// Builder leases store only enabled clauses, ordered by `order`
 interface LeaseClause {
-  id: string;
+  id?: string;
   title: string;
   content: string;
-  enabled: boolean;
-  sortOrder: number;
+  enabled?: boolean;
+  sortOrder?: number;
+  order?: number;
 }
 
-interface TenantInfo {
+interface TenantInfo extends MergeTenant {
   id: string;
   firstName: string;
   lastName: string;
@@ -120,8 +123,9 @@ function renderSignedBlock(
   label: string,
   sigData: { fullName: string; timestamp: string; ip?: string; signatureImage?: string; hash?: string },
 ): string {
-  const sigVisual = sigData.signatureImage
-    ? `<img src="${sigData.signatureImage}" alt="Signature" class="sig-image" />`
+  // Only inline images survive PDF rendering, which has no network access
+  const sigVisual = sigData.signatureImage?.startsWith("data:image/")
+    ? `<img src="${escapeHtml(sigData.signatureImage)}" alt="Signature" class="sig-image" />`
     : `<span class="e-signature">${escapeHtml(sigData.fullName)}</span>`;
 
   return `
@@ -350,8 +354,16 @@ export function generateLeaseHTML(data: LeaseDocumentData): string {
     .join(", ");
 
   const enabledClauses = data.clauses
-    .filter((c) => c.enabled)
-    .sort((a, b) => a.sortOrder - b.sortOrder);
+    .filter((c) => c.enabled !== false)
+    .sort((a, b) => (a.sortOrder ?? a.order ?? 0) - (b.sortOrder ?? b.order ?? 0));
+
+  const mergeValues = buildMergeValues({
+    organizationName: data.organizationName,
+    property: data.property,
+    unit: data.unit,
+    tenants: data.tenants,
+    lease: data,
+  });
 
   const fullAddress = `${data.property.address}, ${data.property.city}, ${data.property.state} ${data.property.zip}`;
   const unitDesc = data.unit.unitNumber
@@ -366,7 +378,7 @@ export function generateLeaseHTML(data: LeaseDocumentData): string {
     clausesSectionHTML += `
       <div class="clause">
         <h3>${idx + 1}. ${escapeHtml(clause.title)}</h3>
-        <div class="clause-content">${clause.content}</div>
+        <div class="clause-content">${renderMergeContent(clause.content, mergeValues)}</div>
       </div>
     `;
   });
@@ -559,32 +571,107 @@ function escapeHtml(str: string): string {
     .replace(/'/g, "&#039;");
 }
 
-export function computeDocumentHash(html: string): string {
-  return createHash("sha256").update(html).digest("hex");
+export function computeDocumentHash(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
 }
 
-export function saveLeaseDocument(html: string, leaseId: string): { url: string; hash: string } {
-  const hash = computeDocumentHash(html);
-  const filename = `lease-${leaseId}-${Date.now()}.html`;
-  const uploadDir = path.resolve(env.UPLOAD_DIR);
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-  }
-  const filePath = path.join(uploadDir, filename);
-  fs.writeFileSync(filePath, html, "utf-8");
-  return { url: `/uploads/${filename}`, hash };
+/** A party who initials each page of a generated document */
+export interface DocumentSigner {
+  name: string;
+  signed: boolean;
 }
 
-export function saveAddendumDocument(html: string, addendumId: string): { url: string; hash: string } {
-  const hash = computeDocumentHash(html);
-  const filename = `addendum-${addendumId}-${Date.now()}.html`;
-  const uploadDir = path.resolve(env.UPLOAD_DIR);
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-  }
-  const filePath = path.join(uploadDir, filename);
-  fs.writeFileSync(filePath, html, "utf-8");
-  return { url: `/uploads/${filename}`, hash };
+export interface SavedDocument {
+  /** HTML version, shown in the browser while signing */
+  key: string;
+  pdfKey: string;
+  /** SHA-256 of the PDF bytes */
+  hash: string;
+}
+
+/** Tenants then the landlord, in signature-block order. */
+export function documentSigners(data: {
+  organizationName: string;
+  tenants: TenantInfo[];
+  landlordSignature?: { fullName: string } | null;
+}): DocumentSigner[] {
+  return [
+    ...data.tenants.map((t) => ({
+      name: t.signatureData?.fullName ?? `${t.firstName} ${t.lastName}`,
+      signed: !!(t.signedAt && t.signatureData),
+    })),
+    {
+      name: data.landlordSignature?.fullName ?? data.organizationName,
+      signed: !!data.landlordSignature,
+    },
+  ];
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
+}
+
+function renderFooterTemplate(label: string, signers: DocumentSigner[]): string {
+  const boxes = signers
+    .map((s) =>
+      s.signed
+        ? `<span style="display:inline-block;min-width:32px;margin-left:6px;border-bottom:1px solid #333;text-align:center;color:#1e40af;font-weight:bold">${escapeHtml(initials(s.name))}</span>`
+        : `<span style="display:inline-block;min-width:32px;margin-left:6px;border-bottom:1px solid #333">&nbsp;</span>`,
+    )
+    .join("");
+
+  return `
+<div style="box-sizing:border-box;width:100%;padding:0 0.5in;font-family:Arial,Helvetica,sans-serif;font-size:8pt;color:#666;display:flex;justify-content:space-between;align-items:flex-end">
+  <span>${escapeHtml(label)}</span>
+  <span>Initials:${boxes}</span>
+  <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+</div>`;
+}
+
+async function saveDocument(
+  baseKey: string,
+  html: string,
+  footerLabel: string,
+  signers: DocumentSigner[],
+): Promise<SavedDocument> {
+  const pdf = await renderPdf(html, {
+    footerTemplate: renderFooterTemplate(footerLabel, signers),
+  });
+  const key = `${baseKey}.html`;
+  const pdfKey = `${baseKey}.pdf`;
+  await getStorage().put(key, html, "text/html; charset=utf-8");
+  await getStorage().put(pdfKey, pdf, "application/pdf");
+  return { key, pdfKey, hash: computeDocumentHash(pdf) };
+}
+
+export async function saveLeaseDocument(
+  html: string,
+  leaseId: string,
+  signers: DocumentSigner[],
+): Promise<SavedDocument> {
+  return saveDocument(
+    `lease-${leaseId}-${Date.now()}`,
+    html,
+    `Lease ${leaseId.slice(0, 8)}`,
+    signers,
+  );
+}
+
+export async function saveAddendumDocument(
+  html: string,
+  addendumId: string,
+  signers: DocumentSigner[],
+): Promise<SavedDocument> {
+  return saveDocument(
+    `addendum-${addendumId}-${Date.now()}`,
+    html,
+    `Addendum ${addendumId.slice(0, 8)}`,
+    signers,
+  );
 }
 
 interface AddendumDocumentData {
@@ -602,6 +689,7 @@ interface AddendumDocumentData {
   addendumContent: string;
   effectiveDate?: string | null;
   tenants: TenantInfo[];
+  lease?: MergeLeaseTerms;
   landlordSignature?: {
     fullName: string;
     timestamp: string;
@@ -611,6 +699,15 @@ interface AddendumDocumentData {
 }
 
 export function generateAddendumHTML(data: AddendumDocumentData): string {
+  const mergeValues = buildMergeValues({
+    organizationName: data.organizationName,
+    property: data.property,
+    unit: { unitNumber: data.unitNumber },
+    tenants: data.tenants,
+    lease: data.lease,
+    addendum: { title: data.addendumTitle, effectiveDate: data.effectiveDate },
+  });
+
   const fullAddress = `${data.property.address}, ${data.property.city}, ${data.property.state} ${data.property.zip}`;
   const premisesAddress = data.unitNumber
     ? `${fullAddress}, Unit ${data.unitNumber}`
@@ -687,7 +784,7 @@ export function generateAddendumHTML(data: AddendumDocumentData): string {
 
   <div class="addendum-content">
     <h3>${escapeHtml(data.addendumTitle)}</h3>
-    <div class="content-body">${data.addendumContent}</div>
+    <div class="content-body">${renderMergeContent(data.addendumContent, mergeValues)}</div>
   </div>
 
   <div class="preservation">
@@ -0,0 +1,121 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { startOfDayUTC } from "../lib/dates.js";
+import { ValidationError } from "../lib/errors.js";
+
+/** Renewal states that still have a say over the lease's next term */
+export const OPEN_RENEWAL_STATUSES = ["PENDING", "ACCEPTED"] as const;
+
+/**
+ * Accept a pending renewal offer on behalf of `tenantId` and draft the
+ * successor lease: the offered dates, rent and deposit, with the original's
+ * tenants, late fee rules and clauses.
+ *
+ * The offer is claimed with a compare-and-set on its status, so two
+ * co-tenants accepting at once produce a single successor.
+ */
+export async function acceptLeaseRenewal(renewalId: string, tenantId: string) {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const claimed = await tx.leaseRenewal.updateMany({
+      where: { id: renewalId, status: "PENDING" },
+      data: { status: "ACCEPTED", respondedAt: now, respondedById: tenantId },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError("This renewal offer has already been answered");
+    }
+
+    const renewal = await tx.leaseRenewal.findUniqueOrThrow({
+      where: { id: renewalId },
+      include: { lease: { include: { tenants: true } } },
+    });
+    const original = renewal.lease;
+
+    const successor = await tx.lease.create({
+      data: {
+        organizationId: original.organizationId,
+        unitId: original.unitId,
+        startDate: renewal.startDate,
+        endDate: renewal.endDate,
+        monthlyRent: renewal.monthlyRent,
+        securityDeposit: renewal.securityDeposit,
+        lateFeeAmount: original.lateFeeAmount,
+        lateFeeType: original.lateFeeType,
+        lateFeeAccrual: original.lateFeeAccrual,
+        lateFeeDailyAmount: original.lateFeeDailyAmount,
+        lateFeeMaxAmount: original.lateFeeMaxAmount,
+        gracePeriodDays: original.gracePeriodDays,
+        rentDueDay: original.rentDueDay,
+        terms: (original.terms ?? {}) as Prisma.InputJsonValue,
+        templateVersionId: original.templateVersionId,
+        status: "DRAFT",
+      },
+    });
+
+    await tx.leaseTenant.createMany({
+      data: original.tenants.map((lt) => ({
+        leaseId: successor.id,
+        tenantId: lt.tenantId,
+        isPrimary: lt.isPrimary,
+      })),
+    });
+
+    return tx.leaseRenewal.update({
+      where: { id: renewal.id },
+      data: { successorLeaseId: successor.id },
+    });
+  });
+}
+
+export interface RenewalRunSummary {
+  offersExpired: number;
+  renewalsCompleted: number;
+}
+
+/**
+ * Daily pass over renewals:
+ * - offers not answered by their respond-by date, or by the day the new
+ *   term would have started, expire;
+ * - accepted renewals whose successor is signed and has reached its start
+ *   date complete, and the original lease expires.
+ */
+export async function runLeaseRenewals(asOf: Date = new Date()): Promise<RenewalRunSummary> {
+  const today = startOfDayUTC(asOf);
+
+  const expired = await prisma.leaseRenewal.updateMany({
+    where: {
+      status: "PENDING",
+      OR: [{ respondBy: { lt: today } }, { startDate: { lte: today } }],
+    },
+    data: { status: "EXPIRED" },
+  });
+
+  const due = await prisma.leaseRenewal.findMany({
+    where: {
+      status: "ACCEPTED",
+      startDate: { lte: asOf },
+      successorLease: { status: "ACTIVE" },
+    },
+    select: { id: true, leaseId: true },
+  });
+
+  let renewalsCompleted = 0;
+  for (const renewal of due) {
+    const completed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.leaseRenewal.updateMany({
+        where: { id: renewal.id, status: "ACCEPTED" },
+        data: { status: "COMPLETED" },
+      });
+      if (claimed.count === 0) return false;
+
+      await tx.lease.updateMany({
+        where: { id: renewal.leaseId, status: "ACTIVE" },
+        data: { status: "EXPIRED" },
+      });
+      return true;
+    });
+    if (completed) renewalsCompleted++;
+  }
+
+  return { offersExpired: expired.count, renewalsCompleted };
+}
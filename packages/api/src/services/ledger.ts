@@ -0,0 +1,442 @@
+import type { Lease, LedgerEntry, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { addMonthsUTC, startOfDayUTC } from "../lib/dates.js";
+
+/**
+ * Upper bound on rent periods posted for one lease in a single pass, so a
+ * lease with a bad start date can't flood the ledger.
+ */
+const MAX_RENT_PERIODS_PER_RUN = 120;
+
+type RentScheduleLease = Pick<
+  Lease,
+  | "id"
+  | "organizationId"
+  | "startDate"
+  | "endDate"
+  | "monthlyRent"
+  | "securityDeposit"
+  | "rentDueDay"
+> & {
+  /** The renewal this lease continues, if any; its deposit is already held */
+  renewedFrom: { lease: Pick<Lease, "securityDeposit"> } | null;
+};
+
+/** Select for the renewal a lease continues, as `postScheduledCharges` needs it */
+const renewedFromDepositSelect = {
+  select: { lease: { select: { securityDeposit: true } } },
+} as const;
+
+export interface LedgerLine {
+  id: string;
+  type: LedgerEntry["type"];
+  date: Date;
+  description: string;
+  amount: number;
+  /** Running balance after this entry; positive means the tenant owes money */
+  balance: number;
+  /** Charges only: portion covered by payments and credits */
+  amountPaid: number | null;
+  /** Charges only: portion still owed */
+  outstanding: number | null;
+  paymentId: string | null;
+  lateFeeId: string | null;
+  isManual: boolean;
+  createdAt: Date;
+}
+
+export interface LedgerSummary {
+  totalCharges: number;
+  totalCredits: number;
+  balance: number;
+  /** Outstanding on charges dated today or earlier */
+  pastDue: number;
+  /** Credits not yet applied to any charge */
+  unappliedCredit: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatPeriod(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Rent due dates for a lease that fall on or after its start date and on or
+ * before `until` (and the lease end date).
+ */
+export function rentDueDates(lease: RentScheduleLease, until: Date): Date[] {
+  const start = startOfDayUTC(lease.startDate);
+  let due = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), lease.rentDueDay)
+  );
+  if (due < start) due = addMonthsUTC(due, 1, lease.rentDueDay);
+
+  const dates: Date[] = [];
+  while (
+    due <= until &&
+    due <= lease.endDate &&
+    dates.length < MAX_RENT_PERIODS_PER_RUN
+  ) {
+    dates.push(due);
+    due = addMonthsUTC(due, 1, lease.rentDueDay);
+  }
+  return dates;
+}
+
+/**
+ * Post the security deposit and every rent charge due through `asOf`.
+ * Idempotent: each charge carries a source key, so periods already posted
+ * are skipped and missed periods are caught up.
+ */
+export async function postScheduledCharges(
+  lease: RentScheduleLease,
+  asOf: Date = new Date()
+): Promise<number> {
+  const data: Prisma.LedgerEntryCreateManyInput[] = rentDueDates(
+    lease,
+    asOf
+  ).map((due) => ({
+    organizationId: lease.organizationId,
+    leaseId: lease.id,
+    type: "RENT",
+    amount: lease.monthlyRent,
+    date: due,
+    description: `Rent for ${formatPeriod(due)}`,
+    sourceKey: `rent:${lease.id}:${due.toISOString().slice(0, 10)}`,
+  }));
+
+  // A renewal carries the deposit over, so only an increase is charged
+  const heldDeposit = Number(lease.renewedFrom?.lease.securityDeposit ?? 0);
+  const depositDue = roundCents(Number(lease.securityDeposit) - heldDeposit);
+  if (depositDue > 0) {
+    data.unshift({
+      organizationId: lease.organizationId,
+      leaseId: lease.id,
+      type: "DEPOSIT",
+      amount: depositDue,
+      date: startOfDayUTC(lease.startDate),
+      description: heldDeposit > 0 ? "Security deposit increase" : "Security deposit",
+      sourceKey: `deposit:${lease.id}`,
+    });
+  }
+
+  if (data.length === 0) return 0;
+
+  const result = await prisma.ledgerEntry.createMany({
+    data,
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Mirror a payment into its lease ledger: a credit once it has completed,
+ * plus a reversing charge if it was later refunded. Safe to call repeatedly.
+ */
+export async function recordPaymentInLedger(paymentId: string): Promise<void> {
+  const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
+  if (!payment) return;
+  if (payment.status !== "COMPLETED" && payment.status !== "REFUNDED") return;
+
+  const base = {
+    organizationId: payment.organizationId,
+    leaseId: payment.leaseId,
+    paymentId: payment.id,
+  };
+
+  await prisma.ledgerEntry.createMany({
+    data: [
+      {
+        ...base,
+        type: "PAYMENT",
+        amount: payment.amount.negated(),
+        date: payment.paidAt ?? payment.createdAt,
+        description: `Payment received (${payment.method})`,
+        sourceKey: `payment:${payment.id}`,
+      },
+      ...(payment.status === "REFUNDED"
+        ? [
+            {
+              ...base,
+              type: "ADJUSTMENT" as const,
+              amount: payment.amount,
+              date: new Date(),
+              description: "Payment refunded",
+              sourceKey: `payment-refund:${payment.id}`,
+            },
+          ]
+        : []),
+    ],
+    skipDuplicates: true,
+  });
+
+  await reconcileLateFees(payment.leaseId);
+}
+
+/**
+ * Mirror a late fee into its lease ledger. The charge tracks the fee's
+ * current amount (daily accrual raises it); a waiver posts an offsetting credit.
+ */
+export async function recordLateFeeInLedger(lateFeeId: string): Promise<void> {
+  const lateFee = await prisma.lateFee.findUnique({ where: { id: lateFeeId } });
+  if (!lateFee) return;
+
+  const sourceKey = `late-fee:${lateFee.id}`;
+  await prisma.ledgerEntry.upsert({
+    where: { sourceKey },
+    create: {
+      organizationId: lateFee.organizationId,
+      leaseId: lateFee.leaseId,
+      lateFeeId: lateFee.id,
+      type: "LATE_FEE",
+      amount: lateFee.amount,
+      date: lateFee.assessedDate,
+      description: lateFee.periodStart
+        ? `Late fee for ${formatPeriod(lateFee.periodStart)}`
+        : "Late fee",
+      sourceKey,
+    },
+    update: { amount: lateFee.amount },
+  });
+
+  if (lateFee.waived) {
+    await prisma.ledgerEntry.createMany({
+      data: [
+        {
+          organizationId: lateFee.organizationId,
+          leaseId: lateFee.leaseId,
+          lateFeeId: lateFee.id,
+          type: "CREDIT",
+          amount: lateFee.amount.negated(),
+          date: new Date(),
+          description: "Late fee waived",
+          sourceKey: `late-fee-waiver:${lateFee.id}`,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * Build the ledger for a lease: entries in date order with a running balance,
+ * and payments/credits applied to the oldest outstanding charges first.
+ */
+export async function getLeaseLedger(
+  leaseId: string,
+  asOf: Date = new Date()
+): Promise<{ entries: LedgerLine[]; summary: LedgerSummary }> {
+  const entries = await prisma.ledgerEntry.findMany({
+    where: { leaseId },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+  });
+
+  const allocation = allocateCredits(entries);
+
+  let balance = 0;
+  let totalCharges = 0;
+  let totalCredits = 0;
+  let pastDue = 0;
+
+  const lines = entries.map((entry): LedgerLine => {
+    const amount = Number(entry.amount);
+    balance = roundCents(balance + amount);
+
+    const applied = allocation.get(entry.id);
+    if (amount > 0) {
+      totalCharges += amount;
+      if (applied && entry.date <= asOf) {
+        pastDue += applied.outstanding;
+      }
+    } else {
+      totalCredits += -amount;
+    }
+
+    return {
+      id: entry.id,
+      type: entry.type,
+      date: entry.date,
+      description: entry.description,
+      amount,
+      balance,
+      amountPaid: applied ? applied.amountPaid : null,
+      outstanding: applied ? applied.outstanding : null,
+      paymentId: entry.paymentId,
+      lateFeeId: entry.lateFeeId,
+      isManual: entry.sourceKey === null,
+      createdAt: entry.createdAt,
+    };
+  });
+
+  return {
+    entries: lines,
+    summary: {
+      totalCharges: roundCents(totalCharges),
+      totalCredits: roundCents(totalCredits),
+      balance,
+      pastDue: roundCents(pastDue),
+      unappliedCredit: balance < 0 ? -balance : 0,
+    },
+  };
+}
+
+/**
+ * Current balance for each of the given leases.
+ */
+export async function getLeaseBalances(
+  leaseIds: string[]
+): Promise<Map<string, number>> {
+  if (leaseIds.length === 0) return new Map();
+
+  const sums = await prisma.ledgerEntry.groupBy({
+    by: ["leaseId"],
+    where: { leaseId: { in: leaseIds } },
+    _sum: { amount: true },
+  });
+
+  return new Map(
+    sums.map((row) => [row.leaseId, roundCents(Number(row._sum.amount ?? 0))])
+  );
+}
+
+interface ChargeAllocation {
+  amountPaid: number;
+  outstanding: number;
+  /** Credit entry that settled the charge in full */
+  settledBy: LedgerEntry | null;
+}
+
+/**
+ * Apply credits (in date order) to charges oldest-first.
+ */
+function allocateCredits(entries: LedgerEntry[]): Map<string, ChargeAllocation> {
+  const charges = entries.filter((e) => Number(e.amount) > 0);
+  const credits = entries.filter((e) => Number(e.amount) < 0);
+
+  const allocation = new Map<string, ChargeAllocation>(
+    charges.map((c) => [
+      c.id,
+      { amountPaid: 0, outstanding: Number(c.amount), settledBy: null },
+    ])
+  );
+
+  let chargeIndex = 0;
+  for (const credit of credits) {
+    let remaining = -Number(credit.amount);
+    while (remaining > 0 && chargeIndex < charges.length) {
+      const charge = charges[chargeIndex]!;
+      const state = allocation.get(charge.id)!;
+      const applied = Math.min(remaining, state.outstanding);
+      state.amountPaid = roundCents(state.amountPaid + applied);
+      state.outstanding = roundCents(state.outstanding - applied);
+      remaining = roundCents(remaining - applied);
+      if (state.outstanding <= 0) {
+        state.settledBy = credit;
+        chargeIndex++;
+      }
+    }
+  }
+
+  return allocation;
+}
+
+/**
+ * Stamp late fees as paid once the ledger shows their charge fully covered.
+ */
+async function reconcileLateFees(leaseId: string): Promise<void> {
+  const entries = await prisma.ledgerEntry.findMany({
+    where: { leaseId },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+  });
+  const allocation = allocateCredits(entries);
+
+  const settled = entries.filter(
+    (e) =>
+      e.type === "LATE_FEE" &&
+      e.lateFeeId &&
+      allocation.get(e.id)?.outstanding === 0
+  );
+
+  for (const entry of settled) {
+    const settledBy = allocation.get(entry.id)?.settledBy;
+    if (settledBy?.type !== "PAYMENT") continue;
+    await prisma.lateFee.updateMany({
+      where: { id: entry.lateFeeId!, paidDate: null, waived: false },
+      data: {
+        paidDate: settledBy.date,
+        paymentId: settledBy.paymentId,
+      },
+    });
+  }
+}
+
+/**
+ * Scheduled entry point: post rent and deposit charges for active leases and
+ * pick up any payments or late fees that never made it into a ledger.
+ */
+export async function runLedgerPosting(asOf: Date = new Date()) {
+  const leases = await prisma.lease.findMany({
+    where: { status: "ACTIVE" },
+    select: {
+      id: true,
+      organizationId: true,
+      startDate: true,
+      endDate: true,
+      monthlyRent: true,
+      securityDeposit: true,
+      rentDueDay: true,
+      renewedFrom: renewedFromDepositSelect,
+    },
+  });
+
+  let chargesPosted = 0;
+  for (const lease of leases) {
+    chargesPosted += await postScheduledCharges(lease, asOf);
+  }
+
+  const unrecordedPayments = await prisma.payment.findMany({
+    where: {
+      OR: [
+        {
+          status: { in: ["COMPLETED", "REFUNDED"] },
+          ledgerEntries: { none: { type: "PAYMENT" } },
+        },
+        {
+          status: "REFUNDED",
+          ledgerEntries: { none: { type: "ADJUSTMENT" } },
+        },
+      ],
+    },
+    select: { id: true },
+  });
+  for (const { id } of unrecordedPayments) {
+    await recordPaymentInLedger(id);
+  }
+
+  const unrecordedLateFees = await prisma.lateFee.findMany({
+    where: {
+      OR: [
+        { ledgerEntries: { none: { type: "LATE_FEE" } } },
+        { waived: true, ledgerEntries: { none: { type: "CREDIT" } } },
+      ],
+    },
+    select: { id: true },
+  });
+  for (const { id } of unrecordedLateFees) {
+    await recordLateFeeInLedger(id);
+  }
+
+  return {
+    leases: leases.length,
+    chargesPosted,
+    paymentsRecorded: unrecordedPayments.length,
+    lateFeesRecorded: unrecordedLateFees.length,
+  };
+}
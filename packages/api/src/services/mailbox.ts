@@ -0,0 +1,380 @@
+import jwt from "jsonwebtoken";
+import type { ConnectedEmail, ConnectedEmailProvider } from "@prisma/client";
+import { env } from "../config/env.js";
+import { AppError, ValidationError } from "../lib/errors.js";
+import { prisma } from "../lib/prisma.js";
+import type { SendEmailOptions } from "./email.js";
+
+export interface MailboxTokens {
+  accessToken: string;
+  /** Providers only return a new refresh token some of the time */
+  refreshToken: string | null;
+  expiresAt: Date;
+}
+
+export interface MailboxMessage {
+  from: string;
+  fromName: string;
+  to: string;
+  subject: string;
+  html: string;
+  replyTo?: string;
+}
+
+/**
+ * A mail provider an organization can connect over OAuth and send as.
+ * Calls that fail because the grant was revoked throw `MailboxAuthError`.
+ */
+export interface MailboxProviderClient {
+  readonly provider: ConnectedEmailProvider;
+  authorizationUrl(state: string, redirectUri: string): string;
+  exchangeCode(
+    code: string,
+    redirectUri: string
+  ): Promise<MailboxTokens & { email: string }>;
+  refresh(refreshToken: string): Promise<MailboxTokens>;
+  send(accessToken: string, message: MailboxMessage): Promise<void>;
+}
+
+/**
+ * The provider rejected our credentials (revoked consent, expired refresh
+ * token). The mailbox has to be reconnected.
+ */
+export class MailboxAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailboxAuthError";
+  }
+}
+
+export function mailboxRedirectUri(provider: ConnectedEmailProvider): string {
+  return `${env.API_URL}/api/v1/mailboxes/callback/${provider.toLowerCase()}`;
+}
+
+async function tokenRequest(url: string, params: Record<string, string>): Promise<MailboxTokens> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+  });
+  const data = (await res.json().catch(() => ({}))) as {
+    access_token?: string;
+    refresh_token?: string;
+    expires_in?: number;
+    error?: string;
+    error_description?: string;
+  };
+  if (!res.ok || !data.access_token) {
+    const message = data.error_description ?? data.error ?? `HTTP ${res.status}`;
+    if (data.error === "invalid_grant") throw new MailboxAuthError(message);
+    throw new Error(`Token request failed: ${message}`);
+  }
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+    expiresAt: new Date(Date.now() + (data.expires_in ?? 3600) * 1000),
+  };
+}
+
+async function checkSendResponse(res: Response, provider: string): Promise<void> {
+  if (res.ok) return;
+  const text = await res.text().catch(() => "");
+  if (res.status === 401) throw new MailboxAuthError(`${provider} rejected the access token`);
+  throw new Error(`${provider} send failed (${res.status}): ${text.slice(0, 300)}`);
+}
+
+// ─── Google (Gmail API) ─────────────────────────────────────────────
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function buildMime(message: MailboxMessage): string {
+  const headers = [
+    `From: ${encodeHeader(message.fromName)} <${message.from}>`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    "MIME-Version: 1.0",
+    'Content-Type: text/html; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+  ];
+  const body = Buffer.from(message.html).toString("base64").replace(/.{76}/g, "$&\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+export class GoogleMailboxProvider implements MailboxProviderClient {
+  readonly provider = "GOOGLE" as const;
+  private readonly clientId = env.GOOGLE_OAUTH_CLIENT_ID!;
+  private readonly clientSecret = env.GOOGLE_OAUTH_CLIENT_SECRET!;
+
+  authorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      scope: "openid email https://www.googleapis.com/auth/gmail.send",
+      access_type: "offline",
+      // Always ask, so Google issues a refresh token on reconnect too
+      prompt: "consent",
+      state,
+    });
+    return `https://accounts.google.com/o/oauth2/v2/auth?${params}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string) {
+    const tokens = await tokenRequest("https://oauth2.googleapis.com/token", {
+      code,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code",
+    });
+    const res = await fetch("https://openidconnect.googleapis.com/v1/userinfo", {
+      headers: { Authorization: `Bearer ${tokens.accessToken}` },
+    });
+    const profile = (await res.json().catch(() => ({}))) as { email?: string };
+    if (!res.ok || !profile.email) throw new Error("Could not read the Google account's address");
+    return { ...tokens, email: profile.email };
+  }
+
+  refresh(refreshToken: string): Promise<MailboxTokens> {
+    return tokenRequest("https://oauth2.googleapis.com/token", {
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      grant_type: "refresh_token",
+    });
+  }
+
+  async send(accessToken: string, message: MailboxMessage): Promise<void> {
+    const res = await fetch("https://gmail.googleapis.com/gmail/v1/users/me/messages/send", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ raw: Buffer.from(buildMime(message)).toString("base64url") }),
+    });
+    await checkSendResponse(res, "Gmail");
+  }
+}
+
+// ─── Microsoft (Graph API) ──────────────────────────────────────────
+
+export class MicrosoftMailboxProvider implements MailboxProviderClient {
+  readonly provider = "MICROSOFT" as const;
+  private readonly clientId = env.MICROSOFT_OAUTH_CLIENT_ID!;
+  private readonly clientSecret = env.MICROSOFT_OAUTH_CLIENT_SECRET!;
+  private readonly scope = "offline_access openid email User.Read Mail.Send";
+  private readonly baseUrl = `https://login.microsoftonline.com/${env.MICROSOFT_OAUTH_TENANT}/oauth2/v2.0`;
+
+  authorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      response_mode: "query",
+      scope: this.scope,
+      state,
+    });
+    return `${this.baseUrl}/authorize?${params}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string) {
+    const tokens = await tokenRequest(`${this.baseUrl}/token`, {
+      code,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code",
+      scope: this.scope,
+    });
+    const res = await fetch("https://graph.microsoft.com/v1.0/me", {
+      headers: { Authorization: `Bearer ${tokens.accessToken}` },
+    });
+    const profile = (await res.json().catch(() => ({}))) as {
+      mail?: string | null;
+      userPrincipalName?: string;
+    };
+    const email = profile.mail ?? profile.userPrincipalName;
+    if (!res.ok || !email) throw new Error("Could not read the Microsoft account's address");
+    return { ...tokens, email };
+  }
+
+  refresh(refreshToken: string): Promise<MailboxTokens> {
+    return tokenRequest(`${this.baseUrl}/token`, {
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      grant_type: "refresh_token",
+      scope: this.scope,
+    });
+  }
+
+  async send(accessToken: string, message: MailboxMessage): Promise<void> {
+    const res = await fetch("https://graph.microsoft.com/v1.0/me/sendMail", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        message: {
+          subject: message.subject,
+          body: { contentType: "HTML", content: message.html },
+          toRecipients: [{ emailAddress: { address: message.to } }],
+          ...(message.replyTo
+            ? { replyTo: [{ emailAddress: { address: message.replyTo } }] }
+            : {}),
+        },
+        saveToSentItems: true,
+      }),
+    });
+    await checkSendResponse(res, "Microsoft Graph");
+  }
+}
+
+// ─── Provider registry ──────────────────────────────────────────────
+
+const providers = new Map<ConnectedEmailProvider, () => MailboxProviderClient>();
+if (env.GOOGLE_OAUTH_CLIENT_ID && env.GOOGLE_OAUTH_CLIENT_SECRET) {
+  providers.set("GOOGLE", () => new GoogleMailboxProvider());
+}
+if (env.MICROSOFT_OAUTH_CLIENT_ID && env.MICROSOFT_OAUTH_CLIENT_SECRET) {
+  providers.set("MICROSOFT", () => new MicrosoftMailboxProvider());
+}
+
+/**
+ * Replace a provider, e.g. with a fake in tests. Google and Microsoft are
+ * registered automatically when their OAuth app credentials are set.
+ */
+export function registerMailboxProvider(
+  provider: ConnectedEmailProvider,
+  factory: () => MailboxProviderClient
+) {
+  providers.set(provider, factory);
+}
+
+export function availableMailboxProviders(): ConnectedEmailProvider[] {
+  return [...providers.keys()];
+}
+
+export function getMailboxProvider(provider: ConnectedEmailProvider): MailboxProviderClient {
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new AppError(
+      "MAILBOX_UNAVAILABLE",
+      `${provider} mailboxes are not configured`,
+      503
+    );
+  }
+  return factory();
+}
+
+// ─── OAuth state ────────────────────────────────────────────────────
+
+interface MailboxOAuthState {
+  organizationId: string;
+  userId: string;
+  provider: ConnectedEmailProvider;
+}
+
+export function signMailboxState(state: MailboxOAuthState): string {
+  return jwt.sign({ ...state, purpose: "mailbox-oauth" }, env.JWT_SECRET, { expiresIn: 600 });
+}
+
+export function verifyMailboxState(token: string): MailboxOAuthState {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET) as MailboxOAuthState & { purpose?: string };
+    if (payload.purpose !== "mailbox-oauth") throw new Error("wrong purpose");
+    return { organizationId: payload.organizationId, userId: payload.userId, provider: payload.provider };
+  } catch {
+    throw new ValidationError("The mailbox connection link is invalid or has expired");
+  }
+}
+
+// ─── Sending ────────────────────────────────────────────────────────
+
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+/**
+ * Current access token for a mailbox, refreshing it first if it is about
+ * to expire. A revoked grant deactivates the mailbox.
+ */
+async function accessTokenFor(mailbox: ConnectedEmail): Promise<string> {
+  if (mailbox.expiresAt.getTime() - REFRESH_MARGIN_MS > Date.now()) {
+    return mailbox.accessToken;
+  }
+  try {
+    const tokens = await getMailboxProvider(mailbox.provider).refresh(mailbox.refreshToken);
+    await prisma.connectedEmail.update({
+      where: { id: mailbox.id },
+      data: {
+        accessToken: tokens.accessToken,
+        ...(tokens.refreshToken ? { refreshToken: tokens.refreshToken } : {}),
+        expiresAt: tokens.expiresAt,
+      },
+    });
+    return tokens.accessToken;
+  } catch (err) {
+    if (err instanceof MailboxAuthError) await deactivateMailbox(mailbox.id, err);
+    throw err;
+  }
+}
+
+async function deactivateMailbox(id: string, reason: Error): Promise<void> {
+  console.warn(`[Mailbox] Deactivating ${id}: ${reason.message}`);
+  await prisma.connectedEmail.update({ where: { id }, data: { isActive: false } });
+}
+
+/**
+ * Send from one mailbox. Throws on failure.
+ */
+export async function sendFromMailbox(
+  mailbox: ConnectedEmail,
+  options: SendEmailOptions
+): Promise<void> {
+  const accessToken = await accessTokenFor(mailbox);
+  const organization = await prisma.organization.findUnique({
+    where: { id: mailbox.organizationId },
+    select: { name: true },
+  });
+  try {
+    await getMailboxProvider(mailbox.provider).send(accessToken, {
+      from: mailbox.email,
+      fromName: organization?.name ?? env.EMAIL_FROM_NAME,
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      ...(options.replyTo ? { replyTo: options.replyTo } : {}),
+    });
+  } catch (err) {
+    if (err instanceof MailboxAuthError) await deactivateMailbox(mailbox.id, err);
+    throw err;
+  }
+}
+
+/**
+ * Send through the organization's verified, active mailbox. Returns false
+ * when there is none or it can no longer be used, so the caller can fall
+ * back to Mailgun.
+ */
+export async function trySendFromOrganizationMailbox(
+  organizationId: string,
+  options: SendEmailOptions
+): Promise<boolean> {
+  const mailbox = await prisma.connectedEmail.findFirst({
+    where: { organizationId, isActive: true, verifiedAt: { not: null } },
+    orderBy: { verifiedAt: "desc" },
+  });
+  if (!mailbox) return false;
+
+  try {
+    await sendFromMailbox(mailbox, options);
+    return true;
+  } catch (err) {
+    if (err instanceof MailboxAuthError || err instanceof AppError) {
+      // Reconnect needed or provider no longer configured; Mailgun takes over
+      return false;
+    }
+    throw err;
+  }
+}
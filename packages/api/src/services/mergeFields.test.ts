@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { renderMergeContent, validateMergeContent } from "./mergeFields.js";
+
+describe("renderMergeContent", () => {
+  it("HTML-escapes field values", () => {
+    const html = renderMergeContent("<p>Tenant: {{tenant.primary.fullName}}</p>", {
+      "tenant.primary.fullName": `<img src=x onerror="alert(1)"> & 'Co'`,
+    });
+    expect(html).toBe(
+      "<p>Tenant: &lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; &#039;Co&#039;</p>"
+    );
+  });
+
+  it("escapes values after applying filters", () => {
+    expect(
+      renderMergeContent("{{tenant.primary.fullName | upper}}", {
+        "tenant.primary.fullName": "<b>jane</b>",
+      })
+    ).toBe("&lt;B&gt;JANE&lt;/B&gt;");
+  });
+
+  it("escapes values inside conditional blocks", () => {
+    expect(
+      renderMergeContent("{{#if tenants.hasPets}}Pets: {{tenants.pets}}{{else}}None{{/if}}", {
+        "tenants.hasPets": true,
+        "tenants.pets": "Dog (<script>)",
+      })
+    ).toBe("Pets: Dog (&lt;script&gt;)");
+  });
+
+  it("leaves tags without a value as escaped text", () => {
+    expect(renderMergeContent("Hi {{<b>nope</b>}}", {})).toBe("Hi {{&lt;b&gt;nope&lt;/b&gt;}}");
+  });
+
+  it("formats dates, numbers and booleans", () => {
+    expect(
+      renderMergeContent(
+        "{{lease.monthlyRent | currency}} due the {{lease.rentDueDay | ordinal}}; pets: {{tenants.hasPets}}",
+        { "lease.monthlyRent": 1500, "lease.rentDueDay": 1, "tenants.hasPets": false }
+      )
+    ).toBe("$1,500.00 due the 1st; pets: No");
+  });
+
+  it("returns content that doesn't parse untouched", () => {
+    const content = "{{#if tenants.hasPets}}unclosed";
+    expect(renderMergeContent(content, { "tenants.hasPets": true })).toBe(content);
+  });
+});
+
+describe("validateMergeContent", () => {
+  it("reports unknown fields and addendum-only fields in leases", () => {
+    expect(validateMergeContent("{{tenant.ssn}} {{addendum.title}}")).toEqual([
+      'Unknown merge field "tenant.ssn"',
+      '"addendum.title" is only available in addendums',
+    ]);
+    expect(validateMergeContent("{{addendum.title}}", "addendum")).toEqual([]);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Merge fields for lease clause and addendum text:
+ *
+ *   {{tenant.primary.fullName}}
+ *   {{lease.monthlyRent | currency}}
+ *   {{#if tenants.hasPets}} ... {{else}} ... {{/if}}
+ *
+ * Only fields in MERGE_FIELDS resolve, and every value is HTML-escaped, so
+ * clause authors can't reach anything beyond this catalog.
+ */
+
+import { ValidationError } from "../lib/errors.js";
+
+export type MergeFieldType = "text" | "number" | "date" | "boolean";
+
+export interface MergeFieldDefinition {
+  key: string;
+  label: string;
+  type: MergeFieldType;
+  /** Only meaningful inside addendum content. */
+  addendumOnly?: boolean;
+}
+
+export type MergeContext = "lease" | "addendum";
+
+export const MERGE_FIELDS: MergeFieldDefinition[] = [
+  { key: "organization.name", label: "Landlord / organization name", type: "text" },
+  { key: "property.name", label: "Property name", type: "text" },
+  { key: "property.address", label: "Street address", type: "text" },
+  { key: "property.city", label: "City", type: "text" },
+  { key: "property.state", label: "State", type: "text" },
+  { key: "property.zip", label: "ZIP code", type: "text" },
+  { key: "property.fullAddress", label: "Full premises address", type: "text" },
+  { key: "unit.number", label: "Unit number", type: "text" },
+  { key: "unit.bedrooms", label: "Bedrooms", type: "number" },
+  { key: "unit.bathrooms", label: "Bathrooms", type: "number" },
+  { key: "unit.sqFt", label: "Square feet", type: "number" },
+  { key: "tenant.primary.fullName", label: "Primary tenant's full name", type: "text" },
+  { key: "tenant.primary.firstName", label: "Primary tenant's first name", type: "text" },
+  { key: "tenant.primary.lastName", label: "Primary tenant's last name", type: "text" },
+  { key: "tenant.primary.email", label: "Primary tenant's email", type: "text" },
+  { key: "tenant.primary.phone", label: "Primary tenant's phone", type: "text" },
+  { key: "tenants.names", label: "All tenant names", type: "text" },
+  { key: "tenants.count", label: "Number of tenants", type: "number" },
+  { key: "tenants.hasPets", label: "Any tenant has a pet", type: "boolean" },
+  { key: "tenants.petCount", label: "Number of pets", type: "number" },
+  { key: "tenants.pets", label: "Pets, e.g. \"Dog (Max)\"", type: "text" },
+  { key: "tenants.hasVehicles", label: "Any tenant has a vehicle (needs parking)", type: "boolean" },
+  { key: "tenants.vehicleCount", label: "Number of vehicles", type: "number" },
+  { key: "tenants.vehicles", label: "Vehicles with plates", type: "text" },
+  { key: "lease.startDate", label: "Lease start date", type: "date" },
+  { key: "lease.endDate", label: "Lease end date", type: "date" },
+  { key: "lease.monthlyRent", label: "Monthly rent", type: "number" },
+  { key: "lease.securityDeposit", label: "Security deposit", type: "number" },
+  { key: "lease.lateFeeAmount", label: "Late fee (amount or percent)", type: "number" },
+  { key: "lease.lateFeeIsPercentage", label: "Late fee is a percentage", type: "boolean" },
+  { key: "lease.gracePeriodDays", label: "Grace period in days", type: "number" },
+  { key: "lease.rentDueDay", label: "Rent due day of month", type: "number" },
+  { key: "addendum.title", label: "Addendum title", type: "text", addendumOnly: true },
+  { key: "addendum.effectiveDate", label: "Addendum effective date", type: "date", addendumOnly: true },
+];
+
+const FIELDS_BY_KEY = new Map(MERGE_FIELDS.map((f) => [f.key, f]));
+
+interface MergeFilter {
+  description: string;
+  accepts: MergeFieldType[];
+  apply: (value: MergeValue) => MergeValue;
+}
+
+const MERGE_FILTERS: Record<string, MergeFilter> = {
+  currency: {
+    description: "Format a number as dollars, e.g. $1,500.00",
+    accepts: ["number"],
+    apply: (v) => (typeof v === "number" ? formatCurrency(v) : v),
+  },
+  ordinal: {
+    description: "Format a number as 1st, 2nd, 3rd…",
+    accepts: ["number"],
+    apply: (v) => (typeof v === "number" ? ordinal(v) : v),
+  },
+  date: {
+    description: "Long date, e.g. March 1, 2026 (the default for dates)",
+    accepts: ["date"],
+    apply: (v) => v,
+  },
+  shortDate: {
+    description: "Numeric date, e.g. 03/01/2026",
+    accepts: ["date"],
+    apply: (v) => (v instanceof Date ? v.toLocaleDateString("en-US") : v),
+  },
+  upper: {
+    description: "UPPERCASE text",
+    accepts: ["text"],
+    apply: (v) => (typeof v === "string" ? v.toUpperCase() : v),
+  },
+  lower: {
+    description: "lowercase text",
+    accepts: ["text"],
+    apply: (v) => (typeof v === "string" ? v.toLowerCase() : v),
+  },
+};
+
+export const MERGE_FILTER_DESCRIPTIONS = Object.entries(MERGE_FILTERS).map(
+  ([name, filter]) => ({ name, description: filter.description })
+);
+
+// ─── Parsing ────────────────────────────────────────────────────────
+
+type MergeNode =
+  | { kind: "text"; text: string }
+  | { kind: "field"; raw: string; key: string; filters: string[] }
+  | { kind: "if"; key: string; then: MergeNode[]; otherwise: MergeNode[] };
+
+type IfNode = Extract<MergeNode, { kind: "if" }>;
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function parse(content: string): { nodes: MergeNode[]; errors: string[] } {
+  const errors: string[] = [];
+  const root: MergeNode[] = [];
+  const open: { node: IfNode; inElse: boolean }[] = [];
+
+  const target = (): MergeNode[] => {
+    const top = open[open.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let last = 0;
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    if (match.index > last) {
+      target().push({ kind: "text", text: content.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+    const tag = match[1] ?? "";
+
+    if (tag === "#if" || tag.startsWith("#if ")) {
+      const key = tag.slice(3).trim();
+      if (!key) errors.push("{{#if}} needs a field, e.g. {{#if tenants.hasPets}}");
+      const node: IfNode = { kind: "if", key, then: [], otherwise: [] };
+      target().push(node);
+      open.push({ node, inElse: false });
+    } else if (tag === "else") {
+      const top = open[open.length - 1];
+      if (!top || top.inElse) errors.push("{{else}} without a matching {{#if}}");
+      else top.inElse = true;
+    } else if (tag === "/if") {
+      if (!open.pop()) errors.push("{{/if}} without a matching {{#if}}");
+    } else {
+      const [key = "", ...filters] = tag.split("|").map((part) => part.trim());
+      target().push({ kind: "field", raw: match[0], key, filters });
+    }
+  }
+  if (last < content.length) {
+    target().push({ kind: "text", text: content.slice(last) });
+  }
+  if (open.length > 0) {
+    errors.push(`{{#if ${open[open.length - 1]!.node.key}}} is missing its {{/if}}`);
+  }
+
+  return { nodes: root, errors };
+}
+
+function checkField(key: string, context: MergeContext, errors: string[]) {
+  const field = FIELDS_BY_KEY.get(key);
+  if (!field) {
+    errors.push(`Unknown merge field "${key}"`);
+  } else if (field.addendumOnly && context !== "addendum") {
+    errors.push(`"${key}" is only available in addendums`);
+  }
+  return field;
+}
+
+function checkNodes(nodes: MergeNode[], context: MergeContext, errors: string[]) {
+  for (const node of nodes) {
+    if (node.kind === "if") {
+      if (node.key) checkField(node.key, context, errors);
+      checkNodes(node.then, context, errors);
+      checkNodes(node.otherwise, context, errors);
+    } else if (node.kind === "field") {
+      const field = checkField(node.key, context, errors);
+      for (const name of node.filters) {
+        const filter = MERGE_FILTERS[name];
+        if (!filter) {
+          errors.push(`Unknown filter "${name}" on "${node.key}"`);
+        } else if (field && !filter.accepts.includes(field.type)) {
+          errors.push(`The "${name}" filter can't be used on "${node.key}"`);
+        }
+      }
+    }
+  }
+}
+
+/** Problems with the merge fields in `content`; empty when it will render cleanly. */
+export function validateMergeContent(content: string, context: MergeContext = "lease"): string[] {
+  const { nodes, errors } = parse(content);
+  checkNodes(nodes, context, errors);
+  return [...new Set(errors)];
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────
+
+export type MergeValue = string | number | boolean | Date | null;
+export type MergeValues = Record<string, MergeValue>;
+
+function isTruthy(value: MergeValue | undefined): boolean {
+  return value !== undefined && value !== null && value !== false && value !== "" && value !== 0;
+}
+
+function display(value: MergeValue): string {
+  if (value === null) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function renderNodes(nodes: MergeNode[], values: MergeValues): string {
+  return nodes
+    .map((node) => {
+      if (node.kind === "text") return node.text;
+      if (node.kind === "if") {
+        return renderNodes(isTruthy(values[node.key]) ? node.then : node.otherwise, values);
+      }
+      if (!(node.key in values)) return escapeHtml(node.raw);
+      let value = values[node.key] ?? null;
+      for (const name of node.filters) {
+        const filter = MERGE_FILTERS[name];
+        if (filter && value !== null) value = filter.apply(value);
+      }
+      return escapeHtml(display(value));
+    })
+    .join("");
+}
+
+/**
+ * Fills in merge fields. Content that doesn't parse (saved before merge
+ * fields existed, say) is returned untouched rather than half-rendered.
+ */
+export function renderMergeContent(content: string, values: MergeValues): string {
+  if (!content.includes("{{")) return content;
+  const { nodes, errors } = parse(content);
+  if (errors.length > 0) return content;
+  return renderNodes(nodes, values);
+}
+
+// ─── Values ─────────────────────────────────────────────────────────
+
+export interface MergeTenant {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  isPrimary: boolean;
+  pets?: { type: string; name: string; breed?: string | null }[];
+  vehicles?: { year: number; make: string; model: string; licensePlate: string; state: string }[];
+}
+
+export interface MergeLeaseTerms {
+  startDate: string;
+  endDate: string;
+  monthlyRent: number;
+  securityDeposit: number;
+  lateFeeAmount: number | null;
+  lateFeeType: "FLAT" | "PERCENTAGE";
+  gracePeriodDays: number;
+  rentDueDay: number;
+}
+
+export interface MergeSource {
+  organizationName: string;
+  property: { name?: string; address: string; city: string; state: string; zip: string };
+  unit: { unitNumber: string; bedrooms?: number; bathrooms?: number; sqFt?: number | null };
+  tenants: MergeTenant[];
+  lease?: MergeLeaseTerms;
+  addendum?: { title: string; effectiveDate?: string | null };
+}
+
+export function buildMergeValues(source: MergeSource): MergeValues {
+  const { property, unit, tenants, lease, addendum } = source;
+  const primary = tenants.find((t) => t.isPrimary) ?? tenants[0];
+  const pets = tenants.flatMap((t) => t.pets ?? []);
+  const vehicles = tenants.flatMap((t) => t.vehicles ?? []);
+  const fullAddress = `${property.address}, ${property.city}, ${property.state} ${property.zip}`;
+
+  return {
+    "organization.name": source.organizationName,
+    "property.name": property.name ?? null,
+    "property.address": property.address,
+    "property.city": property.city,
+    "property.state": property.state,
+    "property.zip": property.zip,
+    "property.fullAddress": unit.unitNumber ? `${fullAddress}, Unit ${unit.unitNumber}` : fullAddress,
+    "unit.number": unit.unitNumber,
+    "unit.bedrooms": unit.bedrooms ?? null,
+    "unit.bathrooms": unit.bathrooms ?? null,
+    "unit.sqFt": unit.sqFt ?? null,
+    "tenant.primary.fullName": primary ? `${primary.firstName} ${primary.lastName}` : null,
+    "tenant.primary.firstName": primary?.firstName ?? null,
+    "tenant.primary.lastName": primary?.lastName ?? null,
+    "tenant.primary.email": primary?.email ?? null,
+    "tenant.primary.phone": primary?.phone ?? null,
+    "tenants.names": tenants.map((t) => `${t.firstName} ${t.lastName}`).join(", "),
+    "tenants.count": tenants.length,
+    "tenants.hasPets": pets.length > 0,
+    "tenants.petCount": pets.length,
+    "tenants.pets": pets
+      .map((p) => `${p.breed ? `${p.breed} ${p.type}` : p.type} (${p.name})`)
+      .join(", "),
+    "tenants.hasVehicles": vehicles.length > 0,
+    "tenants.vehicleCount": vehicles.length,
+    "tenants.vehicles": vehicles
+      .map((v) => `${v.year} ${v.make} ${v.model} (${v.licensePlate} ${v.state})`)
+      .join(", "),
+    "lease.startDate": lease ? new Date(lease.startDate) : null,
+    "lease.endDate": lease ? new Date(lease.endDate) : null,
+    "lease.monthlyRent": lease?.monthlyRent ?? null,
+    "lease.securityDeposit": lease?.securityDeposit ?? null,
+    "lease.lateFeeAmount": lease?.lateFeeAmount ?? null,
+    "lease.lateFeeIsPercentage": lease?.lateFeeType === "PERCENTAGE",
+    "lease.gracePeriodDays": lease?.gracePeriodDays ?? null,
+    "lease.rentDueDay": lease?.rentDueDay ?? null,
+    "addendum.title": addendum?.title ?? null,
+    "addendum.effectiveDate": addendum?.effectiveDate ? new Date(addendum.effectiveDate) : null,
+  };
+}
+
+// ─── Formatting ─────────────────────────────────────────────────────
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function ordinal(n: number): string {
+  const s = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (s[(v - 20) % 10] ?? s[v] ?? s[0] ?? "th");
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+// ─── Validation on save ─────────────────────────────────────────────
+
+/**
+ * Rejects content with merge-field mistakes before it's saved, so they
+ * surface in the editor rather than as raw tags in a sent document.
+ */
+export function assertValidMergeContent(
+  sections: { path: string; content: string }[],
+  context: MergeContext = "lease"
+): void {
+  const details = sections.flatMap(({ path, content }) =>
+    validateMergeContent(content, context).map((message) => ({ path, message }))
+  );
+  if (details.length > 0) {
+    throw new ValidationError(details[0]!.message, details);
+  }
+}
@@ -0,0 +1,479 @@
+import { env } from "../config/env.js";
+import { prisma } from "../lib/prisma.js";
+import { getNotificationQueue } from "../lib/queue.js";
+import {
+  buildLeaseExpiringEmail,
+  buildMaintenanceUpdateEmail,
+  buildNewMessageEmail,
+  buildPaymentReceivedEmail,
+  buildRentDueEmail,
+  sendEmail,
+  threadReplyAddress,
+} from "./email.js";
+import type { SendEmailOptions } from "./email.js";
+import { isSmsOptedOut, normalizePhone, sendSms } from "./sms.js";
+import { NOTIFICATION_TYPES } from "../schemas/notifications.js";
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATION_CHANNELS = ["email", "sms", "push"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/**
+ * Events users can be notified about. Dates are ISO strings so events can be
+ * rendered after a round trip through the queue.
+ */
+export type NotificationEvent =
+  | {
+      type: "RENT_DUE";
+      amount: number;
+      dueDate: string;
+      propertyName: string;
+      unitNumber: string;
+    }
+  | {
+      type: "PAYMENT_RECEIVED";
+      paymentId: string;
+      amount: number;
+      paidAt: string;
+      tenantName: string;
+      propertyName: string;
+      unitNumber: string;
+    }
+  | {
+      type: "MAINTENANCE_UPDATE";
+      requestId: string;
+      title: string;
+      status: string;
+      propertyName: string;
+      unitNumber: string | null;
+      isNew: boolean;
+    }
+  | {
+      type: "LEASE_EXPIRING";
+      leaseId: string;
+      endDate: string;
+      daysRemaining: number;
+      propertyName: string;
+      unitNumber: string;
+      tenantNames: string;
+    }
+  | {
+      type: "NEW_MESSAGE";
+      threadId: string;
+      senderName: string;
+      subject: string | null;
+      preview: string;
+    };
+
+export interface NotificationRecipient {
+  /** Null for tenants without a portal account; they get email only */
+  userId: string | null;
+  email: string;
+  /** Mobile number for SMS; recipients without one get no texts */
+  phone: string | null;
+  name: string;
+  audience: "tenant" | "staff";
+}
+
+export type NotificationDelivery =
+  | ({
+      channel: "email";
+      /** Adverse action to stamp as sent once the notice is delivered */
+      adverseActionId?: string;
+    } & SendEmailOptions)
+  | {
+      channel: "sms";
+      to: string;
+      body: string;
+      /** Message row to stamp with the provider's id once sent */
+      messageId?: string;
+    };
+
+export interface NotificationPreferenceSettings {
+  type: NotificationType;
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  pushEnabled: boolean;
+}
+
+const DEFAULT_PREFERENCES = {
+  emailEnabled: true,
+  smsEnabled: false,
+  pushEnabled: false,
+};
+
+// ─── Preferences ────────────────────────────────────────────────────
+
+/**
+ * Every notification type for a user, with defaults for types they have
+ * never changed.
+ */
+export async function getNotificationPreferences(
+  userId: string
+): Promise<NotificationPreferenceSettings[]> {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+  const byType = new Map(saved.map((p) => [p.type, p]));
+
+  return NOTIFICATION_TYPES.map((type) => {
+    const pref = byType.get(type);
+    return {
+      type,
+      emailEnabled: pref?.emailEnabled ?? DEFAULT_PREFERENCES.emailEnabled,
+      smsEnabled: pref?.smsEnabled ?? DEFAULT_PREFERENCES.smsEnabled,
+      pushEnabled: pref?.pushEnabled ?? DEFAULT_PREFERENCES.pushEnabled,
+    };
+  });
+}
+
+async function enabledChannels(
+  recipient: NotificationRecipient,
+  type: NotificationType
+): Promise<NotificationChannel[]> {
+  if (!recipient.userId) return ["email"];
+  const pref = await prisma.notificationPreference.findUnique({
+    where: { userId_type: { userId: recipient.userId, type } },
+  });
+  const settings = pref ?? DEFAULT_PREFERENCES;
+  const channels: NotificationChannel[] = [];
+  if (settings.emailEnabled) channels.push("email");
+  if (settings.smsEnabled) channels.push("sms");
+  if (settings.pushEnabled) channels.push("push");
+  return channels;
+}
+
+// ─── Delivery ───────────────────────────────────────────────────────
+
+/**
+ * Send one queued delivery. Runs in the worker; a thrown error makes BullMQ
+ * retry with backoff.
+ */
+export async function deliverNotification(delivery: NotificationDelivery): Promise<void> {
+  switch (delivery.channel) {
+    case "email": {
+      const { channel: _channel, adverseActionId, ...options } = delivery;
+      await sendEmail(options);
+      if (adverseActionId) {
+        await prisma.adverseAction.update({
+          where: { id: adverseActionId },
+          data: { sentAt: new Date() },
+        });
+      }
+      return;
+    }
+    case "sms": {
+      const result = await sendSms(delivery.to, delivery.body);
+      if (result && delivery.messageId) {
+        await prisma.message.update({
+          where: { id: delivery.messageId },
+          data: { externalId: result.externalId },
+        });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Queue a delivery for the worker. If the queue is unreachable, try once
+ * inline so the message isn't silently dropped.
+ */
+async function queueDelivery(delivery: NotificationDelivery, jobId?: string): Promise<void> {
+  try {
+    await getNotificationQueue().add(delivery.channel, delivery, jobId ? { jobId } : {});
+  } catch (err) {
+    console.error("[Notifications] Queue unavailable, delivering inline:", err);
+    await deliverNotification(delivery).catch((sendErr: unknown) => {
+      console.error("[Notifications] Delivery failed:", sendErr);
+    });
+  }
+}
+
+/**
+ * Queue an email that isn't subject to preferences (signing requests,
+ * password resets, application notices).
+ */
+export async function queueEmail(
+  options: SendEmailOptions,
+  adverseActionId?: string
+): Promise<void> {
+  await queueDelivery({
+    channel: "email",
+    ...options,
+    ...(adverseActionId ? { adverseActionId } : {}),
+  });
+}
+
+/**
+ * Queue a text that isn't subject to preferences, such as a staff reply
+ * sent over SMS. Opted-out numbers are skipped at delivery.
+ */
+export async function queueSms(to: string, body: string, messageId?: string): Promise<void> {
+  await queueDelivery({ channel: "sms", to, body, ...(messageId ? { messageId } : {}) });
+}
+
+function appUrl(recipient: NotificationRecipient, event: NotificationEvent): string {
+  const tenant = recipient.audience === "tenant";
+  switch (event.type) {
+    case "RENT_DUE":
+      return `${env.PORTAL_URL}/payments`;
+    case "PAYMENT_RECEIVED":
+      return tenant ? `${env.PORTAL_URL}/payments` : `${env.WEB_URL}/payments`;
+    case "MAINTENANCE_UPDATE":
+      return tenant ? `${env.PORTAL_URL}/maintenance` : `${env.WEB_URL}/maintenance`;
+    case "LEASE_EXPIRING":
+      return tenant ? `${env.PORTAL_URL}/lease` : `${env.WEB_URL}/leases/${event.leaseId}`;
+    case "NEW_MESSAGE":
+      return tenant ? `${env.PORTAL_URL}/messages` : `${env.WEB_URL}/messages`;
+  }
+}
+
+function renderEmail(
+  recipient: NotificationRecipient,
+  event: NotificationEvent
+): { subject: string; html: string; replyTo?: string } {
+  const links = {
+    recipientName: recipient.name,
+    appUrl: appUrl(recipient, event),
+    preferencesUrl:
+      recipient.audience === "tenant"
+        ? `${env.PORTAL_URL}/profile`
+        : `${env.WEB_URL}/settings`,
+  };
+  const forTenant = recipient.audience === "tenant";
+
+  switch (event.type) {
+    case "RENT_DUE":
+      return buildRentDueEmail({ ...links, ...event });
+    case "PAYMENT_RECEIVED":
+      return buildPaymentReceivedEmail({ ...links, ...event, forTenant });
+    case "MAINTENANCE_UPDATE":
+      return buildMaintenanceUpdateEmail({ ...links, ...event });
+    case "LEASE_EXPIRING":
+      return buildLeaseExpiringEmail({ ...links, ...event, forTenant });
+    case "NEW_MESSAGE": {
+      const replyTo = threadReplyAddress(event.threadId);
+      return {
+        ...buildNewMessageEmail({ ...links, ...event, canReplyByEmail: replyTo !== null }),
+        ...(replyTo ? { replyTo } : {}),
+      };
+    }
+  }
+}
+
+function renderSms(recipient: NotificationRecipient, event: NotificationEvent): string {
+  const link = appUrl(recipient, event);
+  const money = (amount: number) => `$${amount.toFixed(2)}`;
+  const date = (iso: string) =>
+    new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const unit = (unitNumber: string | null) => (unitNumber ? ` Unit ${unitNumber}` : "");
+
+  switch (event.type) {
+    case "RENT_DUE":
+      return `Brevva: Rent of ${money(event.amount)} for ${event.propertyName}${unit(event.unitNumber)} is due ${date(event.dueDate)}. Pay at ${link}`;
+    case "PAYMENT_RECEIVED":
+      return recipient.audience === "tenant"
+        ? `Brevva: We received your payment of ${money(event.amount)}. Thank you!`
+        : `Brevva: ${event.tenantName} paid ${money(event.amount)} for ${event.propertyName}${unit(event.unitNumber)}.`;
+    case "MAINTENANCE_UPDATE":
+      return event.isNew
+        ? `Brevva: New maintenance request "${event.title}" at ${event.propertyName}${unit(event.unitNumber)}. ${link}`
+        : `Brevva: Your maintenance request "${event.title}" is now ${event.status.replace(/_/g, " ").toLowerCase()}. ${link}`;
+    case "LEASE_EXPIRING":
+      return `Brevva: The lease for ${event.propertyName}${unit(event.unitNumber)} ends ${date(event.endDate)} (${event.daysRemaining} days). ${link}`;
+    case "NEW_MESSAGE":
+      return `Brevva: New message from ${event.senderName}: ${event.preview.length > 100 ? `${event.preview.slice(0, 97)}...` : event.preview} ${link}`;
+  }
+}
+
+/**
+ * Notify recipients of an event over the channels they have enabled.
+ * `dedupeKey` makes repeat calls for the same occurrence (retried jobs,
+ * duplicate webhooks) a no-op. Tenant email goes out from
+ * `organizationId`'s connected mailbox when it has one. Never throws.
+ */
+export async function notify(
+  recipients: NotificationRecipient[],
+  event: NotificationEvent,
+  options: { dedupeKey?: string; organizationId?: string } = {}
+): Promise<void> {
+  for (const recipient of recipients) {
+    try {
+      const channels = await enabledChannels(recipient, event.type);
+      for (const channel of channels) {
+        const jobId = options.dedupeKey
+          ? [event.type, options.dedupeKey, recipient.userId ?? recipient.email, channel].join("-")
+          : undefined;
+        if (channel === "email") {
+          await queueDelivery(
+            {
+              channel,
+              to: recipient.email,
+              ...renderEmail(recipient, event),
+              ...(recipient.audience === "tenant" && options.organizationId
+                ? { organizationId: options.organizationId }
+                : {}),
+            },
+            jobId
+          );
+        } else if (channel === "sms") {
+          const phone = normalizePhone(recipient.phone);
+          if (!phone || (await isSmsOptedOut(phone))) continue;
+          await queueDelivery({ channel, to: phone, body: renderSms(recipient, event) }, jobId);
+        }
+        // Push preferences are stored, but there is no push provider yet
+      }
+    } catch (err) {
+      console.error(`[Notifications] Failed to notify ${recipient.email}:`, err);
+    }
+  }
+}
+
+// ─── Recipients ─────────────────────────────────────────────────────
+
+export function tenantRecipient(tenant: {
+  userId: string | null;
+  email: string;
+  phone: string | null;
+  firstName: string;
+  lastName: string;
+}): NotificationRecipient {
+  return {
+    userId: tenant.userId,
+    email: tenant.email,
+    phone: tenant.phone,
+    name: `${tenant.firstName} ${tenant.lastName}`,
+    audience: "tenant",
+  };
+}
+
+/**
+ * Active owners and team members of an organization.
+ */
+export async function staffRecipients(organizationId: string): Promise<NotificationRecipient[]> {
+  const users = await prisma.user.findMany({
+    where: { organizationId, role: { in: ["OWNER", "TEAM_MEMBER"] }, isActive: true },
+    select: { id: true, email: true, phone: true, firstName: true, lastName: true },
+  });
+  return users.map((u) => ({
+    userId: u.id,
+    email: u.email,
+    phone: u.phone,
+    name: `${u.firstName} ${u.lastName}`,
+    audience: "staff",
+  }));
+}
+
+// ─── Events ─────────────────────────────────────────────────────────
+
+/**
+ * Tell the tenant and staff that a payment completed. Safe to call more than
+ * once for the same payment.
+ */
+export async function notifyPaymentReceived(paymentId: string): Promise<void> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      tenant: {
+        select: { userId: true, email: true, phone: true, firstName: true, lastName: true },
+      },
+      lease: {
+        select: {
+          unit: { select: { unitNumber: true, property: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+  if (!payment || payment.status !== "COMPLETED") return;
+
+  await notify(
+    [tenantRecipient(payment.tenant), ...(await staffRecipients(payment.organizationId))],
+    {
+      type: "PAYMENT_RECEIVED",
+      paymentId: payment.id,
+      amount: Number(payment.amount),
+      paidAt: (payment.paidAt ?? payment.createdAt).toISOString(),
+      tenantName: `${payment.tenant.firstName} ${payment.tenant.lastName}`,
+      propertyName: payment.lease.unit.property.name,
+      unitNumber: payment.lease.unit.unitNumber,
+    },
+    { dedupeKey: payment.id, organizationId: payment.organizationId }
+  );
+}
+
+/**
+ * New requests go to staff; status changes go to the tenant who filed it.
+ */
+export async function notifyMaintenanceUpdate(
+  requestId: string,
+  options: { isNew: boolean }
+): Promise<void> {
+  const request = await prisma.maintenanceRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      property: { select: { name: true } },
+      unit: { select: { unitNumber: true } },
+      tenant: {
+        select: { userId: true, email: true, phone: true, firstName: true, lastName: true },
+      },
+    },
+  });
+  if (!request) return;
+
+  const recipients = options.isNew
+    ? await staffRecipients(request.organizationId)
+    : [tenantRecipient(request.tenant)];
+
+  await notify(
+    recipients,
+    {
+      type: "MAINTENANCE_UPDATE",
+      requestId: request.id,
+      title: request.title,
+      status: request.status,
+      propertyName: request.property.name,
+      unitNumber: request.unit.unitNumber,
+      isNew: options.isNew,
+    },
+    { dedupeKey: `${request.id}-${request.status}`, organizationId: request.organizationId }
+  );
+}
+
+/**
+ * Tell the recipient of an in-app message that it arrived.
+ */
+export async function notifyNewMessage(messageId: string): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      thread: { select: { id: true, subject: true } },
+      sender: { select: { firstName: true, lastName: true } },
+      recipient: {
+        select: { id: true, email: true, phone: true, firstName: true, lastName: true, role: true },
+      },
+    },
+  });
+  if (!message || message.senderId === message.recipientId) return;
+
+  const { recipient } = message;
+  await notify(
+    [
+      {
+        userId: recipient.id,
+        email: recipient.email,
+        phone: recipient.phone,
+        name: `${recipient.firstName} ${recipient.lastName}`,
+        audience: recipient.role === "TENANT" ? "tenant" : "staff",
+      },
+    ],
+    {
+      type: "NEW_MESSAGE",
+      threadId: message.thread.id,
+      senderName: `${message.sender.firstName} ${message.sender.lastName}`,
+      subject: message.thread.subject,
+      preview: message.body.length > 280 ? `${message.body.slice(0, 277)}...` : message.body,
+    },
+    { dedupeKey: message.id, organizationId: message.organizationId }
+  );
+}
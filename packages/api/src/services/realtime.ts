@@ -0,0 +1,175 @@
+import { Redis } from "ioredis";
+import type { UserRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { getProducerConnection } from "../lib/queue.js";
+import { env } from "../config/env.js";
+
+const CHANNEL = "brevva:realtime";
+
+/**
+ * Events pushed to signed-in browsers. They carry ids only — clients
+ * refetch through the normal endpoints, which apply permissions.
+ */
+export type RealtimeEvent =
+  | { type: "message.created"; threadId: string; messageId: string }
+  | { type: "maintenance.updated"; requestId: string; status: string }
+  | { type: "payment.completed"; paymentId: string; leaseId: string }
+  | { type: "signature.captured"; leaseId: string; addendumId: string | null };
+
+/** Who in an organization receives an event: all staff and/or specific users. */
+interface Audience {
+  organizationId: string;
+  staff: boolean;
+  userIds: string[];
+}
+
+interface Envelope {
+  audience: Audience;
+  event: RealtimeEvent;
+}
+
+export interface RealtimeClient {
+  userId: string;
+  organizationId: string;
+  role: UserRole;
+  send: (event: RealtimeEvent) => void;
+}
+
+const clients = new Set<RealtimeClient>();
+let subscriber: Redis | null = null;
+
+function deliver(envelope: Envelope): void {
+  const { audience, event } = envelope;
+  for (const client of clients) {
+    if (client.organizationId !== audience.organizationId) continue;
+    const isStaff = client.role !== "TENANT";
+    if ((audience.staff && isStaff) || audience.userIds.includes(client.userId)) {
+      client.send(event);
+    }
+  }
+}
+
+/**
+ * Subscribes once per process, on the first connected client. Events go
+ * through Redis so ones raised by the worker or another API instance
+ * still reach this process's connections.
+ */
+function ensureSubscribed(): void {
+  if (subscriber) return;
+  subscriber = new Redis(env.REDIS_URL);
+  subscriber.subscribe(CHANNEL).catch((err: unknown) => {
+    console.error("[Realtime] Failed to subscribe:", err);
+  });
+  subscriber.on("message", (_channel: string, raw: string) => {
+    try {
+      deliver(JSON.parse(raw) as Envelope);
+    } catch (err) {
+      console.error("[Realtime] Bad event payload:", err);
+    }
+  });
+}
+
+/** Registers an open stream; call the returned function when it closes. */
+export function addRealtimeClient(client: RealtimeClient): () => void {
+  ensureSubscribed();
+  clients.add(client);
+  return () => {
+    clients.delete(client);
+  };
+}
+
+/** Publishes an event. Never throws; a missed event only delays a refresh. */
+export async function publish(audience: Audience, event: RealtimeEvent): Promise<void> {
+  try {
+    await getProducerConnection().publish(CHANNEL, JSON.stringify({ audience, event }));
+  } catch (err) {
+    console.error(`[Realtime] Failed to publish ${event.type}:`, err);
+  }
+}
+
+// ─── Events ─────────────────────────────────────────────────────────
+
+/** Staff and both parties see a new message. */
+export async function publishMessageCreated(messageId: string): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    select: { id: true, threadId: true, organizationId: true, senderId: true, recipientId: true },
+  });
+  if (!message) return;
+
+  await publish(
+    {
+      organizationId: message.organizationId,
+      staff: true,
+      userIds: [message.senderId, message.recipientId],
+    },
+    { type: "message.created", threadId: message.threadId, messageId: message.id }
+  );
+}
+
+/** Staff and the tenant who filed the request. */
+export async function publishMaintenanceUpdated(requestId: string): Promise<void> {
+  const request = await prisma.maintenanceRequest.findUnique({
+    where: { id: requestId },
+    select: { id: true, status: true, organizationId: true, tenant: { select: { userId: true } } },
+  });
+  if (!request) return;
+
+  await publish(
+    {
+      organizationId: request.organizationId,
+      staff: true,
+      userIds: request.tenant.userId ? [request.tenant.userId] : [],
+    },
+    { type: "maintenance.updated", requestId: request.id, status: request.status }
+  );
+}
+
+/** Staff and the paying tenant, once the payment has completed. */
+export async function publishPaymentCompleted(paymentId: string): Promise<void> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: {
+      id: true,
+      status: true,
+      leaseId: true,
+      organizationId: true,
+      tenant: { select: { userId: true } },
+    },
+  });
+  if (!payment || payment.status !== "COMPLETED") return;
+
+  await publish(
+    {
+      organizationId: payment.organizationId,
+      staff: true,
+      userIds: payment.tenant.userId ? [payment.tenant.userId] : [],
+    },
+    { type: "payment.completed", paymentId: payment.id, leaseId: payment.leaseId }
+  );
+}
+
+/** Staff and every tenant on the lease. */
+export async function publishSignatureCaptured(
+  leaseId: string,
+  addendumId: string | null = null
+): Promise<void> {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      id: true,
+      organizationId: true,
+      tenants: { select: { tenant: { select: { userId: true } } } },
+    },
+  });
+  if (!lease) return;
+
+  await publish(
+    {
+      organizationId: lease.organizationId,
+      staff: true,
+      userIds: lease.tenants.flatMap((lt) => (lt.tenant.userId ? [lt.tenant.userId] : [])),
+    },
+    { type: "signature.captured", leaseId: lease.id, addendumId }
+  );
+}
@@ -0,0 +1,400 @@
+import { createHash } from "crypto";
+import type {
+  ScreeningProvider,
+  ScreeningReport,
+  ScreeningType,
+} from "@prisma/client";
+import { env } from "../config/env.js";
+import { AppError, NotFoundError } from "../lib/errors.js";
+import { prisma, revealTenantSsn } from "../lib/prisma.js";
+
+export const SCREENING_TYPES: ScreeningType[] = [
+  "CREDIT",
+  "CRIMINAL",
+  "EVICTION",
+];
+
+export type ScreeningRecommendation = "ACCEPT" | "CONDITIONAL" | "DECLINE";
+
+export interface ScreeningApplicant {
+  firstName: string;
+  lastName: string;
+  email: string;
+  dateOfBirth: Date | null;
+  ssn: string | null;
+}
+
+export interface ScreeningRequest {
+  applicationId: string;
+  type: ScreeningType;
+  applicant: ScreeningApplicant;
+}
+
+export interface ScreeningReportData {
+  recommendation: ScreeningRecommendation;
+  summary: string;
+  /** Findings behind a CONDITIONAL or DECLINE recommendation */
+  reasons: string[];
+  details: Record<string, unknown>;
+}
+
+export interface ScreeningOutcome {
+  status: "PENDING" | "COMPLETED" | "ERROR";
+  /** Provider reference used to poll a PENDING report */
+  externalId: string | null;
+  report?: ScreeningReportData;
+  error?: string;
+}
+
+/**
+ * Contact details for the consumer reporting agency, which must appear on
+ * adverse action notices.
+ */
+export interface ConsumerReportingAgency {
+  name: string;
+  address: string;
+  phone: string;
+  website: string;
+}
+
+/**
+ * A background-check vendor. Implementations either complete a report
+ * immediately or return PENDING with an `externalId` to poll later.
+ */
+export interface ScreeningProviderClient {
+  readonly provider: ScreeningProvider;
+  readonly agency: ConsumerReportingAgency;
+  requestReport(request: ScreeningRequest): Promise<ScreeningOutcome>;
+  fetchReport(
+    externalId: string,
+    type: ScreeningType
+  ): Promise<ScreeningOutcome>;
+}
+
+// ─── Fake provider ──────────────────────────────────────────────────
+
+/**
+ * Offline provider for development and demos. Results are derived from the
+ * applicant's email so the same applicant always screens the same way. Tags
+ * after a `+` in the local part force an outcome:
+ *
+ *   +decline   low credit score plus criminal and eviction records
+ *   +criminal  criminal record only
+ *   +eviction  eviction record only
+ *   +pending   report stays PENDING until refreshed
+ *   +error     provider error (identity could not be verified)
+ */
+export class FakeScreeningProvider implements ScreeningProviderClient {
+  readonly provider = "FAKE" as const;
+  readonly agency: ConsumerReportingAgency = {
+    name: "Brevva Sandbox Screening (test data only)",
+    address: "100 Example Street, Springfield, ST 00000",
+    phone: "(555) 010-0000",
+    website: "https://example.com/screening",
+  };
+
+  async requestReport(request: ScreeningRequest): Promise<ScreeningOutcome> {
+    const tags = emailTags(request.applicant.email);
+    if (tags.includes("error")) {
+      return {
+        status: "ERROR",
+        externalId: null,
+        error: "Applicant identity could not be verified",
+      };
+    }
+
+    const score = tags.includes("decline")
+      ? 540
+      : 580 + (emailHash(request.applicant.email) % 241);
+    const externalId = ["fake", request.applicationId, score, ...tags].join(":");
+
+    if (tags.includes("pending")) {
+      return { status: "PENDING", externalId };
+    }
+    return this.fetchReport(externalId, request.type);
+  }
+
+  async fetchReport(
+    externalId: string,
+    type: ScreeningType
+  ): Promise<ScreeningOutcome> {
+    const [, , score, ...tags] = externalId.split(":");
+    const declined = tags.includes("decline");
+
+    switch (type) {
+      case "CREDIT": {
+        const creditScore = Number(score);
+        const recommendation: ScreeningRecommendation =
+          creditScore >= 650
+            ? "ACCEPT"
+            : creditScore >= 600
+              ? "CONDITIONAL"
+              : "DECLINE";
+        return {
+          status: "COMPLETED",
+          externalId,
+          report: {
+            recommendation,
+            summary: `Credit score ${creditScore}`,
+            reasons:
+              recommendation === "ACCEPT"
+                ? []
+                : [`Credit score of ${creditScore} is below the 650 threshold`],
+            details: { creditScore, openCollections: declined ? 3 : 0 },
+          },
+        };
+      }
+      case "CRIMINAL": {
+        const records =
+          declined || tags.includes("criminal")
+            ? [
+                {
+                  offense: "Misdemeanor theft",
+                  year: 2019,
+                  jurisdiction: "Sample County",
+                },
+              ]
+            : [];
+        const found = records.length > 0;
+        return {
+          status: "COMPLETED",
+          externalId,
+          report: {
+            recommendation: found ? "DECLINE" : "ACCEPT",
+            summary: found
+              ? `${records.length} criminal record(s) found`
+              : "No criminal records found",
+            reasons: found ? ["Criminal record found"] : [],
+            details: { records },
+          },
+        };
+      }
+      case "EVICTION": {
+        const filings =
+          declined || tags.includes("eviction")
+            ? [
+                {
+                  filedAt: "2021-03-15",
+                  court: "Sample County Court",
+                  outcome: "Judgment for plaintiff",
+                },
+              ]
+            : [];
+        const found = filings.length > 0;
+        return {
+          status: "COMPLETED",
+          externalId,
+          report: {
+            recommendation: found ? "DECLINE" : "ACCEPT",
+            summary: found
+              ? `${filings.length} eviction filing(s) found`
+              : "No eviction filings found",
+            reasons: found ? ["Prior eviction filing"] : [],
+            details: { filings },
+          },
+        };
+      }
+    }
+  }
+}
+
+function emailHash(email: string): number {
+  return createHash("sha256")
+    .update(email.toLowerCase())
+    .digest()
+    .readUInt16BE(0);
+}
+
+function emailTags(email: string): string[] {
+  const local = email.split("@")[0] ?? "";
+  return local.split("+").slice(1).map((t) => t.toLowerCase());
+}
+
+// ─── Provider registry ──────────────────────────────────────────────
+
+const providers = new Map<ScreeningProvider, () => ScreeningProviderClient>([
+  ["FAKE", () => new FakeScreeningProvider()],
+]);
+
+/**
+ * Register a vendor integration. The active provider is chosen by the
+ * SCREENING_PROVIDER environment variable.
+ */
+export function registerScreeningProvider(
+  provider: ScreeningProvider,
+  factory: () => ScreeningProviderClient
+) {
+  providers.set(provider, factory);
+}
+
+export function getScreeningProvider(
+  provider: ScreeningProvider = env.SCREENING_PROVIDER
+): ScreeningProviderClient {
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new AppError(
+      "SCREENING_UNAVAILABLE",
+      `Screening provider ${provider} is not configured`,
+      503
+    );
+  }
+  return factory();
+}
+
+// ─── Report storage ─────────────────────────────────────────────────
+
+export function serializeReportData(data: ScreeningReportData): string {
+  return JSON.stringify(data);
+}
+
+export function parseReportData(
+  reportData: string | null
+): ScreeningReportData | null {
+  if (!reportData) return null;
+  return JSON.parse(reportData) as ScreeningReportData;
+}
+
+function outcomeToReport(outcome: ScreeningOutcome) {
+  return {
+    status: outcome.status,
+    externalId: outcome.externalId,
+    reportData: outcome.report ? serializeReportData(outcome.report) : null,
+    error: outcome.error ?? null,
+    completedAt: outcome.status === "PENDING" ? null : new Date(),
+  };
+}
+
+async function safely(
+  fn: () => Promise<ScreeningOutcome>
+): Promise<ScreeningOutcome> {
+  try {
+    return await fn();
+  } catch (err) {
+    return {
+      status: "ERROR",
+      externalId: null,
+      error: err instanceof Error ? err.message : "Screening request failed",
+    };
+  }
+}
+
+/**
+ * Order screening reports for an application from the configured provider.
+ * Provider failures are stored as ERROR reports rather than thrown, so one
+ * failed check doesn't lose the others.
+ */
+export async function requestScreening(
+  applicationId: string,
+  types: ScreeningType[] = SCREENING_TYPES
+): Promise<ScreeningReport[]> {
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    include: { tenant: true },
+  });
+  if (!application) {
+    throw new NotFoundError("Application", applicationId);
+  }
+
+  const client = getScreeningProvider();
+  const applicant: ScreeningApplicant = {
+    firstName: application.tenant.firstName,
+    lastName: application.tenant.lastName,
+    email: application.tenant.email,
+    dateOfBirth: application.tenant.dateOfBirth,
+    ssn: await revealTenantSsn(application.tenantId),
+  };
+
+  const reports: ScreeningReport[] = [];
+  for (const type of types) {
+    const outcome = await safely(() =>
+      client.requestReport({ applicationId, type, applicant })
+    );
+    reports.push(
+      await prisma.screeningReport.create({
+        data: {
+          applicationId,
+          provider: client.provider,
+          type,
+          ...outcomeToReport(outcome),
+        },
+      })
+    );
+  }
+  return reports;
+}
+
+/**
+ * Poll the provider for reports still PENDING on an application.
+ */
+export async function refreshScreening(applicationId: string): Promise<number> {
+  const pending = await prisma.screeningReport.findMany({
+    where: { applicationId, status: "PENDING", externalId: { not: null } },
+  });
+
+  let updated = 0;
+  for (const report of pending) {
+    const client = getScreeningProvider(report.provider);
+    const outcome = await safely(() =>
+      client.fetchReport(report.externalId!, report.type)
+    );
+    if (outcome.status === "PENDING") continue;
+
+    await prisma.screeningReport.update({
+      where: { id: report.id },
+      data: {
+        ...outcomeToReport(outcome),
+        externalId: outcome.externalId ?? report.externalId,
+      },
+    });
+    updated++;
+  }
+  return updated;
+}
+
+const RECOMMENDATION_RANK: Record<ScreeningRecommendation, number> = {
+  ACCEPT: 0,
+  CONDITIONAL: 1,
+  DECLINE: 2,
+};
+
+/**
+ * Overall result across an application's reports. Uses the latest report of
+ * each type; the recommendation is the most severe among completed reports.
+ */
+export function summarizeScreening(reports: ScreeningReport[]) {
+  const latest = new Map<ScreeningType, ScreeningReport>();
+  for (const report of reports) {
+    const current = latest.get(report.type);
+    if (!current || report.requestedAt > current.requestedAt) {
+      latest.set(report.type, report);
+    }
+  }
+
+  let recommendation: ScreeningRecommendation | null = null;
+  const reasons: string[] = [];
+  let pending = 0;
+  let errors = 0;
+
+  for (const report of latest.values()) {
+    if (report.status === "PENDING") pending++;
+    if (report.status === "ERROR") errors++;
+    const data = parseReportData(report.reportData);
+    if (!data) continue;
+    reasons.push(...data.reasons);
+    if (
+      recommendation === null ||
+      RECOMMENDATION_RANK[data.recommendation] >
+        RECOMMENDATION_RANK[recommendation]
+    ) {
+      recommendation = data.recommendation;
+    }
+  }
+
+  return {
+    recommendation,
+    reasons,
+    pending,
+    errors,
+    complete: latest.size > 0 && pending === 0,
+  };
+}
@@ -0,0 +1,167 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import type { User } from "@prisma/client";
+import { getClientIp } from "../lib/client-ip.js";
+import { prisma } from "../lib/prisma.js";
+import type { TransactionClient } from "../lib/prisma.js";
+import { generateRefreshToken, parseExpiryToMs } from "../lib/tokens.js";
+import { describeUserAgent } from "../lib/user-agent.js";
+import { AuthenticationError, ConflictError } from "../lib/errors.js";
+import { createAuditEntry } from "../middleware/audit.js";
+import { env } from "../config/env.js";
+import { buildNewDeviceSignInEmail } from "./email.js";
+import { queueEmail } from "./notifications.js";
+
+const MAX_KNOWN_DEVICES = 20;
+
+/**
+ * Two tabs refreshing at once both present the same token; the loser of
+ * that race gets a 409 to retry with the new cookie, not a revoked session.
+ */
+const REUSE_GRACE_MS = 30 * 1000;
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Opens a session for `userId` and returns its first refresh token. */
+export async function createSession(
+  userId: string,
+  req: Request,
+  client: TransactionClient = prisma
+) {
+  const refreshToken = generateRefreshToken();
+  const session = await client.session.create({
+    data: {
+      userId,
+      refreshToken,
+      expiresAt: new Date(Date.now() + parseExpiryToMs(env.JWT_REFRESH_EXPIRY)),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"],
+    },
+  });
+  return { session, refreshToken };
+}
+
+/**
+ * Exchanges a refresh token for a new one. Each session is one token
+ * family: presenting a token the session already rotated away from means
+ * it was copied, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(refreshToken: string, req: Request) {
+  const session = await prisma.session.findUnique({
+    where: { refreshToken },
+    include: { user: { include: { organization: true } } },
+  });
+
+  if (!session) {
+    await handleRetiredToken(refreshToken, req);
+    throw new AuthenticationError("Invalid refresh token");
+  }
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } });
+    throw new AuthenticationError("Refresh token has expired");
+  }
+
+  const newRefreshToken = generateRefreshToken();
+  const now = new Date();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Conditional on the old token so concurrent refreshes can't both win
+    const { count } = await tx.session.updateMany({
+      where: { id: session.id, refreshToken },
+      data: {
+        refreshToken: newRefreshToken,
+        expiresAt: new Date(now.getTime() + parseExpiryToMs(env.JWT_REFRESH_EXPIRY)),
+        lastUsedAt: now,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers["user-agent"],
+      },
+    });
+    if (count === 0) return false;
+    await tx.retiredRefreshToken.create({
+      data: { tokenHash: sha256(refreshToken), sessionId: session.id, retiredAt: now },
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    throw new ConflictError("Refresh token was just rotated");
+  }
+
+  return { session, refreshToken: newRefreshToken };
+}
+
+async function handleRetiredToken(refreshToken: string, req: Request): Promise<void> {
+  const retired = await prisma.retiredRefreshToken.findUnique({
+    where: { tokenHash: sha256(refreshToken) },
+    include: { session: { include: { user: true } } },
+  });
+  if (!retired) return;
+  if (retired.retiredAt.getTime() > Date.now() - REUSE_GRACE_MS) {
+    throw new ConflictError("Refresh token was just rotated");
+  }
+
+  const { session } = retired;
+  await prisma.session.deleteMany({ where: { id: session.id } });
+
+  createAuditEntry({
+    organizationId: session.user.organizationId,
+    userId: session.userId,
+    action: "REVOKE_SESSION_TOKEN_REUSE",
+    entityType: "Session",
+    entityId: session.id,
+    changes: { ipAddress: getClientIp(req), userAgent: req.headers["user-agent"] ?? null },
+    ipAddress: getClientIp(req),
+  });
+}
+
+/**
+ * Remembers the device a user just signed in from and emails them when
+ * it's one we haven't seen. The first device on an account is trusted.
+ */
+export async function recordSignInDevice(user: User, req: Request): Promise<void> {
+  const userAgent = req.headers["user-agent"];
+  const device = describeUserAgent(userAgent);
+  const fingerprint = sha256(device);
+
+  if (user.knownDevices.includes(fingerprint)) return;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { knownDevices: [fingerprint, ...user.knownDevices].slice(0, MAX_KNOWN_DEVICES) },
+  });
+
+  if (user.knownDevices.length === 0) return;
+
+  const frontendUrl = user.role === "TENANT" ? env.PORTAL_URL : env.WEB_URL;
+  const emailContent = buildNewDeviceSignInEmail({
+    recipientName: `${user.firstName} ${user.lastName}`,
+    device,
+    ipAddress: getClientIp(req),
+    signedInAt: new Date(),
+    securityUrl: `${frontendUrl}/${user.role === "TENANT" ? "profile" : "settings"}`,
+  });
+  queueEmail({ to: user.email, ...emailContent }).catch(() => {});
+}
+
+/** The user's live sessions, most recently used first. */
+export async function listSessions(userId: string, currentSessionId?: string) {
+  const sessions = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+      lastUsedAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+  return sessions.map((s) => ({
+    ...s,
+    device: describeUserAgent(s.userAgent),
+    current: s.id === currentSessionId,
+  }));
+}
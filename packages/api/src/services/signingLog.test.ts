@@ -0,0 +1,153 @@
+import type { SigningEvent } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+  buildSigningReport,
+  hashEvent,
+  verifySigningChain,
+  verifySigningReport,
+} from "./signingLog.js";
+
+const LEASE_ID = "6f0c1f7e-2a55-4c1b-9a43-0d1f5a3b8e21";
+const ORG_ID = "b2d4e6f8-1a3c-4e5f-8a7b-9c0d1e2f3a4b";
+const TYPES = ["SENT", "VIEWED", "CONSENTED", "SIGNED", "COUNTERSIGNED"] as const;
+
+/** A valid chain of `length` events on the test lease */
+function buildChain(length: number): SigningEvent[] {
+  const events: SigningEvent[] = [];
+  for (let i = 0; i < length; i++) {
+    const event = {
+      id: `00000000-0000-4000-8000-00000000000${i}`,
+      organizationId: ORG_ID,
+      leaseId: LEASE_ID,
+      addendumId: null,
+      chainId: LEASE_ID,
+      sequence: i + 1,
+      type: TYPES[i % TYPES.length]!,
+      actorType: "TENANT",
+      actorId: null,
+      actorName: "Jane Doe",
+      actorEmail: "jane@example.com",
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+      documentHash: "ab".repeat(32),
+      details: { step: i + 1, source: "portal" },
+      previousHash: events[i - 1]?.hash ?? null,
+      createdAt: new Date(Date.UTC(2026, 2, 1, 12, i)),
+    };
+    events.push({ ...event, hash: hashEvent(event) });
+  }
+  return events;
+}
+
+const headOf = (events: SigningEvent[]) => events[events.length - 1]?.hash ?? null;
+
+describe("verifySigningChain", () => {
+  it("accepts an intact chain in any order", () => {
+    const events = buildChain(4);
+    expect(verifySigningChain([...events].reverse(), headOf(events))).toEqual({
+      valid: true,
+      eventCount: 4,
+      issues: [],
+    });
+  });
+
+  it("accepts details whose keys were reordered by storage", () => {
+    const events = buildChain(2);
+    events[1] = { ...events[1]!, details: { source: "portal", step: 2 } };
+    expect(verifySigningChain(events, headOf(events)).valid).toBe(true);
+  });
+
+  it("flags an event edited after it was hashed", () => {
+    const events = buildChain(3);
+    events[1] = { ...events[1]!, actorName: "Someone Else" };
+    const result = verifySigningChain(events, headOf(events));
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(["Event #2 has been modified"]);
+  });
+
+  it("flags a removed event and the broken link after it", () => {
+    const events = buildChain(4);
+    const result = verifySigningChain([events[0]!, events[2]!, events[3]!], headOf(events));
+    expect(result.issues).toEqual([
+      "Event #2 is missing",
+      "Event #3 does not link to the event before it",
+    ]);
+  });
+
+  it("flags an event rehashed onto the wrong predecessor", () => {
+    const events = buildChain(3);
+    const relinked = { ...events[2]!, previousHash: "0".repeat(64) };
+    events[2] = { ...relinked, hash: hashEvent(relinked) };
+    expect(verifySigningChain(events, events[2].hash).issues).toEqual([
+      "Event #3 does not link to the event before it",
+    ]);
+  });
+
+  it("flags events removed from the end by the recorded head", () => {
+    const events = buildChain(3);
+    expect(verifySigningChain(events.slice(0, 2), headOf(events)).issues).toEqual([
+      "The log ends before its latest recorded event; events were removed",
+    ]);
+    expect(verifySigningChain([], headOf(events)).issues).toEqual([
+      "All events have been removed from the log",
+    ]);
+  });
+
+  it("accepts an empty chain with no head", () => {
+    expect(verifySigningChain([], null).valid).toBe(true);
+  });
+});
+
+describe("verifySigningReport", () => {
+  function signedReport() {
+    const events = buildChain(3);
+    const head = headOf(events);
+    return buildSigningReport(
+      LEASE_ID,
+      [
+        {
+          subject: "LEASE",
+          id: LEASE_ID,
+          title: "Lease",
+          head,
+          events,
+          verification: verifySigningChain(events, head),
+        },
+      ],
+      "owner@example.com"
+    );
+  }
+
+  it("accepts an unchanged report", () => {
+    const result = verifySigningReport(signedReport());
+    expect(result.signatureValid).toBe(true);
+    expect(result.chains).toEqual([
+      {
+        id: LEASE_ID,
+        subject: "LEASE",
+        verification: { valid: true, eventCount: 3, issues: [] },
+      },
+    ]);
+  });
+
+  it("survives a JSON round trip", () => {
+    const result = verifySigningReport(JSON.parse(JSON.stringify(signedReport())));
+    expect(result.signatureValid).toBe(true);
+    expect(result.chains[0]!.verification.valid).toBe(true);
+  });
+
+  it("rejects a report edited after signing", () => {
+    const signed = signedReport();
+    const chain = signed.report.chains[0]!;
+    chain.events[0] = { ...chain.events[0]!, ipAddress: "198.51.100.1" };
+    const result = verifySigningReport(signed);
+    expect(result.signatureValid).toBe(false);
+    expect(result.chains[0]!.verification.issues).toEqual(["Event #1 has been modified"]);
+  });
+
+  it("rejects a forged signature", () => {
+    const signed = signedReport();
+    signed.signature.value = "A".repeat(signed.signature.value.length);
+    expect(verifySigningReport(signed).signatureValid).toBe(false);
+  });
+});
@@ -0,0 +1,329 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { Prisma } from "@prisma/client";
+import type { SigningEvent, SigningEventType } from "@prisma/client";
+import { env } from "../config/env.js";
+import { prisma } from "../lib/prisma.js";
+
+/** Concurrent appends to one chain race for the next sequence number */
+const APPEND_ATTEMPTS = 3;
+
+export interface SigningEventInput {
+  organizationId: string;
+  leaseId: string;
+  /** Omit for events on the lease itself */
+  addendumId?: string | null;
+  type: SigningEventType;
+  actorType: "TENANT" | "USER";
+  actorId?: string | null;
+  actorName?: string | null;
+  actorEmail?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  documentHash?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/** The parts of an event covered by its hash */
+type HashedFields = Pick<
+  SigningEvent,
+  | "chainId"
+  | "leaseId"
+  | "addendumId"
+  | "sequence"
+  | "type"
+  | "actorType"
+  | "actorId"
+  | "actorName"
+  | "actorEmail"
+  | "ipAddress"
+  | "userAgent"
+  | "documentHash"
+  | "details"
+  | "previousHash"
+> & { createdAt: Date | string };
+
+type ChainEvent = HashedFields & { hash: string };
+
+export interface ChainVerification {
+  valid: boolean;
+  eventCount: number;
+  issues: string[];
+}
+
+export interface SigningChain {
+  subject: "LEASE" | "ADDENDUM";
+  id: string;
+  title: string;
+  head: string | null;
+  events: SigningEvent[];
+  verification: ChainVerification;
+}
+
+/**
+ * JSON with object keys sorted, so a hash computed before storing an event
+ * still matches once jsonb has reordered its details.
+ */
+function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** SHA-256 of an event's hashed fields, including its link to the one before. */
+export function hashEvent(event: HashedFields): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        chainId: event.chainId,
+        leaseId: event.leaseId,
+        addendumId: event.addendumId,
+        sequence: event.sequence,
+        type: event.type,
+        actorType: event.actorType,
+        actorId: event.actorId,
+        actorName: event.actorName,
+        actorEmail: event.actorEmail,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        documentHash: event.documentHash,
+        details: event.details,
+        previousHash: event.previousHash,
+        createdAt: new Date(event.createdAt).toISOString(),
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Add an event to the end of a lease's or addendum's chain and move the
+ * record's signingLogHead to it.
+ */
+export async function appendSigningEvent(input: SigningEventInput): Promise<SigningEvent> {
+  const chainId = input.addendumId ?? input.leaseId;
+  // Round-trip through JSON so the hashed details are exactly what's stored
+  const details = input.details
+    ? (JSON.parse(JSON.stringify(input.details)) as Prisma.JsonObject)
+    : null;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const last = await tx.signingEvent.findFirst({
+          where: { chainId },
+          orderBy: { sequence: "desc" },
+          select: { sequence: true, hash: true },
+        });
+
+        const fields = {
+          chainId,
+          leaseId: input.leaseId,
+          addendumId: input.addendumId ?? null,
+          sequence: (last?.sequence ?? 0) + 1,
+          type: input.type,
+          actorType: input.actorType,
+          actorId: input.actorId ?? null,
+          actorName: input.actorName ?? null,
+          actorEmail: input.actorEmail ?? null,
+          ipAddress: input.ipAddress ?? null,
+          userAgent: input.userAgent ?? null,
+          documentHash: input.documentHash ?? null,
+          details,
+          previousHash: last?.hash ?? null,
+          createdAt: new Date(),
+        };
+        const hash = hashEvent(fields);
+
+        const event = await tx.signingEvent.create({
+          data: {
+            ...fields,
+            organizationId: input.organizationId,
+            details: details ?? Prisma.JsonNull,
+            hash,
+          },
+        });
+
+        if (input.addendumId) {
+          await tx.leaseAddendum.update({
+            where: { id: input.addendumId },
+            data: { signingLogHead: hash },
+          });
+        } else {
+          await tx.lease.update({
+            where: { id: input.leaseId },
+            data: { signingLogHead: hash },
+          });
+        }
+        return event;
+      });
+    } catch (err) {
+      const lostRace =
+        err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+      if (!lostRace || attempt >= APPEND_ATTEMPTS) throw err;
+    }
+  }
+}
+
+/**
+ * Re-hash a chain and walk its links. `head` is the hash the lease or
+ * addendum recorded for its latest event, which catches events removed
+ * from the end.
+ */
+export function verifySigningChain(events: ChainEvent[], head: string | null): ChainVerification {
+  const sorted = [...events].sort((a, b) => a.sequence - b.sequence);
+  const issues: string[] = [];
+
+  let previous: ChainEvent | null = null;
+  for (const event of sorted) {
+    const expected = (previous?.sequence ?? 0) + 1;
+    if (event.sequence > expected) {
+      issues.push(
+        event.sequence - expected === 1
+          ? `Event #${expected} is missing`
+          : `Events #${expected}–${event.sequence - 1} are missing`
+      );
+    } else if (event.sequence < expected) {
+      issues.push(`Event #${event.sequence} appears more than once`);
+    }
+    if (event.previousHash !== (previous?.hash ?? null)) {
+      issues.push(`Event #${event.sequence} does not link to the event before it`);
+    }
+    if (hashEvent(event) !== event.hash) {
+      issues.push(`Event #${event.sequence} has been modified`);
+    }
+    previous = event;
+  }
+
+  const lastHash = previous?.hash ?? null;
+  if (lastHash !== head) {
+    issues.push(
+      lastHash
+        ? "The log ends before its latest recorded event; events were removed"
+        : "All events have been removed from the log"
+    );
+  }
+
+  return { valid: issues.length === 0, eventCount: sorted.length, issues };
+}
+
+/** The lease's chain followed by one chain per addendum that has events. */
+export async function loadSigningChains(lease: {
+  id: string;
+  signingLogHead: string | null;
+}): Promise<SigningChain[]> {
+  const [events, addendums] = await Promise.all([
+    prisma.signingEvent.findMany({
+      where: { leaseId: lease.id },
+      orderBy: { sequence: "asc" },
+    }),
+    prisma.leaseAddendum.findMany({
+      where: {
+        leaseId: lease.id,
+        OR: [{ signingLogHead: { not: null } }, { signingEvents: { some: {} } }],
+      },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, title: true, signingLogHead: true },
+    }),
+  ]);
+
+  const chains = [
+    { subject: "LEASE" as const, id: lease.id, title: "Lease", head: lease.signingLogHead },
+    ...addendums.map((a) => ({
+      subject: "ADDENDUM" as const,
+      id: a.id,
+      title: a.title,
+      head: a.signingLogHead,
+    })),
+  ];
+
+  return chains.map((chain) => {
+    const chainEvents = events.filter((e) => e.chainId === chain.id);
+    return {
+      ...chain,
+      events: chainEvents,
+      verification: verifySigningChain(chainEvents, chain.head),
+    };
+  });
+}
+
+// ─── Signed audit reports ───────────────────────────────────────────
+
+export interface SigningReport {
+  leaseId: string;
+  generatedAt: string;
+  generatedBy: string;
+  chains: {
+    subject: "LEASE" | "ADDENDUM";
+    id: string;
+    title: string;
+    head: string | null;
+    valid: boolean;
+    issues: string[];
+    events: (Omit<SigningEvent, "organizationId" | "createdAt"> & { createdAt: string })[];
+  }[];
+}
+
+export interface SignedSigningReport {
+  report: SigningReport;
+  signature: { algorithm: "HMAC-SHA256"; value: string };
+}
+
+function reportSignature(report: unknown): string {
+  return createHmac("sha256", env.JWT_SECRET)
+    .update(`signing-report:${canonicalJson(report)}`)
+    .digest("base64url");
+}
+
+export function buildSigningReport(
+  leaseId: string,
+  chains: SigningChain[],
+  generatedBy: string
+): SignedSigningReport {
+  const report: SigningReport = {
+    leaseId,
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    chains: chains.map((chain) => ({
+      subject: chain.subject,
+      id: chain.id,
+      title: chain.title,
+      head: chain.head,
+      valid: chain.verification.valid,
+      issues: chain.verification.issues,
+      events: chain.events.map(({ organizationId: _org, createdAt, ...event }) => ({
+        ...event,
+        createdAt: createdAt.toISOString(),
+      })),
+    })),
+  };
+  return { report, signature: { algorithm: "HMAC-SHA256", value: reportSignature(report) } };
+}
+
+/**
+ * Check an exported report: that Brevva signed it unchanged, and that each
+ * chain inside it still hashes and links correctly.
+ */
+export function verifySigningReport(signed: SignedSigningReport): {
+  signatureValid: boolean;
+  chains: { id: string; subject: string; verification: ChainVerification }[];
+} {
+  const expected = Buffer.from(reportSignature(signed.report));
+  const actual = Buffer.from(signed.signature.value);
+  const signatureValid =
+    expected.length === actual.length && timingSafeEqual(expected, actual);
+
+  return {
+    signatureValid,
+    chains: signed.report.chains.map((chain) => ({
+      id: chain.id,
+      subject: chain.subject,
+      verification: verifySigningChain(chain.events, chain.head),
+    })),
+  };
+}
@@ -0,0 +1,181 @@
+import fs from "fs/promises";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { env } from "../config/env.js";
+import { prisma } from "../lib/prisma.js";
+
+export type SmsDriver = "console" | "twilio";
+
+export interface SmsSendResult {
+  /** Provider message id, stored on the Message for delivery lookups */
+  externalId: string;
+}
+
+/**
+ * An SMS gateway. Outbound texts go through `send`; inbound texts arrive as
+ * form-encoded webhooks that `verifyWebhook` authenticates.
+ */
+export interface SmsProvider {
+  readonly driver: SmsDriver;
+  send(to: string, body: string): Promise<SmsSendResult>;
+  verifyWebhook(
+    url: string,
+    params: Record<string, string>,
+    signature: string | undefined
+  ): boolean;
+}
+
+// ─── Phone numbers ──────────────────────────────────────────────────
+
+/**
+ * Normalize a phone number to E.164. Ten-digit numbers are assumed to be
+ * US/Canada. Returns null for anything that can't be a real number.
+ */
+export function normalizePhone(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const digits = value.replace(/\D/g, "");
+  if (value.trim().startsWith("+")) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+// ─── Console provider ───────────────────────────────────────────────
+
+/**
+ * Development provider. Texts are logged, and appended as JSON lines to
+ * SMS_LOG_FILE when set. Unsigned inbound webhooks are accepted outside
+ * production so replies can be simulated with curl.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly driver = "console" as const;
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const externalId = `console-${randomUUID()}`;
+    console.log(`[SMS] To ${to}: ${body}`);
+    if (env.SMS_LOG_FILE) {
+      const entry = { id: externalId, to, from: env.SMS_FROM_NUMBER ?? null, body, sentAt: new Date().toISOString() };
+      await fs.appendFile(env.SMS_LOG_FILE, `${JSON.stringify(entry)}\n`);
+    }
+    return { externalId };
+  }
+
+  verifyWebhook(): boolean {
+    return env.NODE_ENV !== "production";
+  }
+}
+
+// ─── Twilio provider ────────────────────────────────────────────────
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly driver = "twilio" as const;
+  private readonly accountSid = env.TWILIO_ACCOUNT_SID!;
+  private readonly authToken = env.TWILIO_AUTH_TOKEN!;
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const res = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: to, From: env.SMS_FROM_NUMBER!, Body: body }),
+      }
+    );
+    const data = (await res.json().catch(() => ({}))) as { sid?: string; message?: string };
+    if (!res.ok || !data.sid) {
+      throw new Error(`Twilio send failed (${res.status}): ${data.message ?? "no message id returned"}`);
+    }
+    return { externalId: data.sid };
+  }
+
+  /**
+   * X-Twilio-Signature is an HMAC-SHA1 of the webhook URL followed by each
+   * POST parameter name and value, sorted by name.
+   */
+  verifyWebhook(
+    url: string,
+    params: Record<string, string>,
+    signature: string | undefined
+  ): boolean {
+    if (!signature) return false;
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], url);
+    const expected = createHmac("sha1", this.authToken).update(payload).digest();
+    const actual = Buffer.from(signature, "base64");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
+
+// ─── Active provider ────────────────────────────────────────────────
+
+export function createSmsProvider(driver: SmsDriver): SmsProvider {
+  return driver === "twilio" ? new TwilioSmsProvider() : new ConsoleSmsProvider();
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Provider selected by SMS_PROVIDER.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (!provider) {
+    provider = createSmsProvider(env.SMS_PROVIDER);
+  }
+  return provider;
+}
+
+// ─── Opt-out ────────────────────────────────────────────────────────
+
+const STOP_KEYWORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+const START_KEYWORDS = ["START", "UNSTOP", "YES"];
+const HELP_KEYWORDS = ["HELP", "INFO"];
+
+export type SmsKeyword = "STOP" | "START" | "HELP";
+
+/**
+ * Carrier compliance keywords. Only a message consisting of the keyword
+ * alone counts, so "stop by tomorrow" is still threaded as a reply.
+ */
+export function parseSmsKeyword(body: string): SmsKeyword | null {
+  const word = body.trim().toUpperCase().replace(/[.!]+$/, "");
+  if (STOP_KEYWORDS.includes(word)) return "STOP";
+  if (START_KEYWORDS.includes(word)) return "START";
+  if (HELP_KEYWORDS.includes(word)) return "HELP";
+  return null;
+}
+
+export async function isSmsOptedOut(phone: string): Promise<boolean> {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return false;
+  const optOut = await prisma.smsOptOut.findUnique({ where: { phone: normalized } });
+  return optOut !== null;
+}
+
+export async function setSmsOptOut(phone: string, optedOut: boolean): Promise<void> {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return;
+  if (optedOut) {
+    await prisma.smsOptOut.upsert({
+      where: { phone: normalized },
+      create: { phone: normalized },
+      update: {},
+    });
+  } else {
+    await prisma.smsOptOut.deleteMany({ where: { phone: normalized } });
+  }
+}
+
+/**
+ * Send a text unless the number is invalid or has opted out. Returns null
+ * when nothing was sent.
+ */
+export async function sendSms(to: string, body: string): Promise<SmsSendResult | null> {
+  const normalized = normalizePhone(to);
+  if (!normalized || (await isSmsOptedOut(normalized))) return null;
+  return getSmsProvider().send(normalized, body);
+}
@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import type { UserRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { AuthenticationError } from "../lib/errors.js";
+import { generateTotpSecret, totpUri, verifyTotp } from "../lib/totp.js";
+import { env } from "../config/env.js";
+
+const ISSUER = "Brevva";
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/**
+ * What a challenge token lets its holder do: `login` finishes a sign-in
+ * with a code, `enroll` sets up 2FA when the organization requires it.
+ */
+export type TwoFactorChallengePurpose = "login" | "enroll";
+
+export function signTwoFactorChallenge(
+  userId: string,
+  purpose: TwoFactorChallengePurpose
+): string {
+  return jwt.sign({ userId, purpose: `2fa-${purpose}` }, env.JWT_SECRET, {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  });
+}
+
+export function verifyTwoFactorChallenge(
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): string {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET) as { userId?: string; purpose?: string };
+    if (payload.purpose !== `2fa-${purpose}` || !payload.userId) throw new Error("wrong purpose");
+    return payload.userId;
+  } catch {
+    throw new AuthenticationError("Your sign-in has expired. Please sign in again.");
+  }
+}
+
+/** Owners and team members must enroll when their organization requires it. */
+export function isTwoFactorRequired(role: UserRole, organization: { requireTwoFactor: boolean }) {
+  return organization.requireTwoFactor && role !== "TENANT";
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/** Fresh recovery codes; only the hashes are stored. */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Starts (or restarts) enrollment with a new secret. 2FA stays off until
+ * the user proves their app works with `confirmTwoFactorEnrollment`.
+ */
+export async function beginTwoFactorEnrollment(user: { id: string; email: string }) {
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: secret, twoFactorEnabledAt: null, twoFactorLastStep: null },
+  });
+
+  const otpauthUrl = totpUri(secret, user.email, ISSUER);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/** Turns 2FA on if `code` matches the pending secret; returns recovery codes. */
+export async function confirmTwoFactorEnrollment(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<string[] | null> {
+  if (!user.twoFactorSecret) return null;
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: hashes,
+    },
+  });
+  return codes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: [],
+    },
+  });
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: hashes },
+  });
+  return codes;
+}
+
+/**
+ * Checks an authenticator code or a recovery code for an enrolled user.
+ * Accepted codes are burned: TOTP steps can't be reused and each recovery
+ * code works once. The conditional updates make concurrent replays fail.
+ */
+export async function verifySecondFactor(
+  user: {
+    id: string;
+    twoFactorSecret: string | null;
+    twoFactorLastStep: number | null;
+    twoFactorRecoveryCodes: string[];
+  },
+  input: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (input.code && user.twoFactorSecret) {
+    const step = verifyTotp(user.twoFactorSecret, input.code, {
+      afterStep: user.twoFactorLastStep,
+    });
+    if (step === null) return false;
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return count === 1;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+      data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((h) => h !== hash) },
+    });
+    return count === 1;
+  }
+
+  return false;
+}
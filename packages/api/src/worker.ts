@@ -0,0 +1,88 @@
+import { Worker } from "bullmq";
+import { env } from "./config/env.js";
+import { prisma } from "./lib/prisma.js";
+import {
+  NOTIFICATION_QUEUE_NAME,
+  SCHEDULED_QUEUE_NAME,
+  getRedisConnection,
+  getScheduledQueue,
+  closeQueues,
+} from "./lib/queue.js";
+import { SCHEDULED_JOBS } from "./jobs/index.js";
+import { deliverNotification } from "./services/notifications.js";
+import type { NotificationDelivery } from "./services/notifications.js";
+
+const handlers = new Map(SCHEDULED_JOBS.map((job) => [job.name, job.handler]));
+
+async function registerSchedules() {
+  const queue = getScheduledQueue();
+
+  for (const job of SCHEDULED_JOBS) {
+    await queue.upsertJobScheduler(
+      job.name,
+      { pattern: job.pattern, tz: "UTC" },
+      { name: job.name }
+    );
+  }
+
+  // Drop schedulers for jobs that are no longer registered
+  const schedulers = await queue.getJobSchedulers();
+  for (const scheduler of schedulers) {
+    if (scheduler.key && !handlers.has(scheduler.key)) {
+      await queue.removeJobScheduler(scheduler.key);
+    }
+  }
+}
+
+const worker = new Worker(
+  SCHEDULED_QUEUE_NAME,
+  async (job) => {
+    const handler = handlers.get(job.name);
+    if (!handler) {
+      throw new Error(`No handler registered for job '${job.name}'`);
+    }
+    return handler();
+  },
+  { connection: getRedisConnection(), concurrency: 1 }
+);
+
+worker.on("completed", (job, result) => {
+  console.log(`[Worker] ${job.name} completed`, result ?? "");
+});
+
+worker.on("failed", (job, err) => {
+  console.error(`[Worker] ${job?.name ?? "unknown"} failed:`, err);
+});
+
+const notificationWorker = new Worker<NotificationDelivery>(
+  NOTIFICATION_QUEUE_NAME,
+  (job) => deliverNotification(job.data),
+  { connection: getRedisConnection(), concurrency: 5 }
+);
+
+notificationWorker.on("failed", (job, err) => {
+  const attempts = job ? `attempt ${job.attemptsMade}/${job.opts.attempts ?? 1}` : "";
+  console.error(`[Worker] notification ${job?.id ?? "unknown"} failed ${attempts}:`, err);
+});
+
+async function shutdown() {
+  await worker.close();
+  await notificationWorker.close();
+  await closeQueues();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
+
+registerSchedules()
+  .then(() => {
+    console.log(
+      `Brevva worker running ${SCHEDULED_JOBS.length} scheduled job(s) (${env.NODE_ENV})`
+    );
+  })
+  .catch((err: unknown) => {
+    console.error("Failed to register job schedules:", err);
+    process.exit(1);
+  });
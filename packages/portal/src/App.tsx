@@ -10,8 +10,10 @@ import Payments from "@/pages/Payments";
 import Maintenance from "@/pages/Maintenance";
 import Messages from "@/pages/Messages";
 import Profile from "@/pages/Profile";
+import Documents from "@/pages/Documents";
 import SignLease from "@/pages/SignLease";
 import SignAddendum from "@/pages/SignAddendum";
+import Apply from "@/pages/Apply";
 import NotFound from "@/pages/NotFound";
 
 export default function App() {
@@ -22,6 +24,7 @@ export default function App() {
       <Route path="/reset-password" element={<ResetPassword />} />
       <Route path="/sign/:token" element={<SignLease />} />
       <Route path="/sign/addendum/:token" element={<SignAddendum />} />
+      <Route path="/apply/:unitId" element={<Apply />} />
       <Route
         element={
           <PrivateRoute>
@@ -34,6 +37,7 @@ export default function App() {
         <Route path="payments" element={<Payments />} />
         <Route path="maintenance" element={<Maintenance />} />
         <Route path="messages" element={<Messages />} />
+        <Route path="documents" element={<Documents />} />
         <Route path="profile" element={<Profile />} />
       </Route>
       <Route path="*" element={<NotFound />} />
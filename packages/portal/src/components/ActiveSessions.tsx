@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { Monitor } from "lucide-react";
+
+interface Session {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+/** Devices signed in to the tenant's account. */
+export default function ActiveSessions() {
+  const { logout } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["sessions"],
+    queryFn: () => api<{ data: Session[] }>("/auth/sessions"),
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: string) => api(`/auth/sessions/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["sessions"] }),
+  });
+
+  const logoutAll = useMutation({
+    mutationFn: () => api("/auth/logout-all", { method: "POST" }),
+    onSuccess: () => logout(),
+  });
+
+  const sessions = data?.data ?? [];
+
+  return (
+    <div className="rounded-xl border bg-white p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold"><Monitor className="h-4 w-4" /> Signed-In Devices</h2>
+        <button
+          onClick={() => {
+            if (confirm("Sign out of every device, including this one?")) logoutAll.mutate();
+          }}
+          disabled={logoutAll.isPending}
+          className="text-sm font-medium text-red-600 hover:underline disabled:opacity-50"
+        >
+          Log out everywhere
+        </button>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : (
+        <div className="divide-y">
+          {sessions.map((s) => (
+            <div key={s.id} className="flex items-center gap-3 py-2 text-sm">
+              <div className="flex-1">
+                <p className="font-medium">
+                  {s.device}
+                  {s.current && <span className="ml-2 text-xs font-normal text-teal-600">This device</span>}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {s.ipAddress ?? "Unknown IP"} · Last active {new Date(s.lastUsedAt).toLocaleString()}
+                </p>
+              </div>
+              {!s.current && (
+                <button
+                  onClick={() => revoke.mutate(s.id)}
+                  disabled={revoke.isPending}
+                  className="text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
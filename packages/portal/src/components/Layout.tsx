@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Link, NavLink, Outlet, useNavigate } from "react-router";
 import { useAuth } from "@/lib/auth";
+import { useRealtimeUpdates } from "@/lib/realtime";
 import { clsx } from "clsx";
 import {
   LayoutDashboard,
@@ -8,6 +9,7 @@ import {
   CreditCard,
   Wrench,
   MessageSquare,
+  FolderOpen,
   User,
   LogOut,
   Menu,
@@ -20,11 +22,13 @@ const navItems = [
   { to: "/payments", icon: CreditCard, label: "Payments" },
   { to: "/maintenance", icon: Wrench, label: "Maintenance" },
   { to: "/messages", icon: MessageSquare, label: "Messages" },
+  { to: "/documents", icon: FolderOpen, label: "Documents" },
   { to: "/profile", icon: User, label: "Profile" },
 ];
 
 export default function Layout() {
   const { user, logout } = useAuth();
+  useRealtimeUpdates();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { Bell } from "lucide-react";
+
+interface Preference {
+  type: string;
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  pushEnabled: boolean;
+}
+
+type Channel = "emailEnabled" | "smsEnabled" | "pushEnabled";
+
+const TYPE_LABELS: Record<string, { label: string; description: string }> = {
+  RENT_DUE: { label: "Rent due", description: "Reminders before rent is due" },
+  PAYMENT_RECEIVED: { label: "Payment received", description: "When a payment completes" },
+  MAINTENANCE_UPDATE: { label: "Maintenance updates", description: "New requests and status changes" },
+  LEASE_EXPIRING: { label: "Lease expiring", description: "60 and 30 days before a lease ends" },
+  NEW_MESSAGE: { label: "New messages", description: "When someone messages you" },
+};
+
+const CHANNELS: { key: Channel; label: string }[] = [
+  { key: "emailEnabled", label: "Email" },
+  { key: "smsEnabled", label: "SMS" },
+  { key: "pushEnabled", label: "Push" },
+];
+
+export default function NotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["notification-preferences"],
+    queryFn: () => api<{ data: Preference[] }>("/me/notification-preferences"),
+  });
+
+  const mutation = useMutation({
+    mutationFn: (preference: Preference) =>
+      api<{ data: Preference[] }>("/me/notification-preferences", {
+        method: "PUT",
+        body: JSON.stringify({ preferences: [preference] }),
+      }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(["notification-preferences"], result);
+    },
+  });
+
+  const preferences = data?.data ?? [];
+
+  return (
+    <div className="rounded-xl border bg-white p-6">
+      <h2 className="mb-4 flex items-center gap-2 font-semibold"><Bell className="h-4 w-4" /> Notifications</h2>
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pb-2 font-medium">Notification</th>
+              {CHANNELS.map((c) => (
+                <th key={c.key} className="w-16 pb-2 text-center font-medium">{c.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {preferences.map((p) => (
+              <tr key={p.type}>
+                <td className="py-3">
+                  <p className="font-medium">{TYPE_LABELS[p.type]?.label ?? p.type}</p>
+                  <p className="text-xs text-gray-500">{TYPE_LABELS[p.type]?.description}</p>
+                </td>
+                {CHANNELS.map((c) => (
+                  <td key={c.key} className="py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={p[c.key]}
+                      disabled={mutation.isPending}
+                      onChange={(e) => mutation.mutate({ ...p, [c.key]: e.target.checked })}
+                      className="h-4 w-4 accent-teal-600"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {mutation.isError && (
+        <p className="mt-3 text-sm text-red-600">Failed to save notification preferences</p>
+      )}
+    </div>
+  );
+}
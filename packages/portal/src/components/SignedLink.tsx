@@ -0,0 +1,16 @@
+import type { AnchorHTMLAttributes } from "react";
+import { useSignedUrl } from "@/lib/files";
+
+interface SignedLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, "href"> {
+  url: string;
+}
+
+/** Link to a stored upload, swapped for a signed URL once it's issued. */
+export default function SignedLink({ url, children, ...props }: SignedLinkProps) {
+  const href = useSignedUrl(url);
+  return (
+    <a {...props} href={href ?? undefined} aria-disabled={!href}>
+      {children}
+    </a>
+  );
+}
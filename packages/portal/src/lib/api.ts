@@ -14,41 +14,76 @@ class ApiError extends Error {
   }
 }
 
-function getTokens() {
-  const raw = localStorage.getItem("auth");
-  if (!raw) return null;
-  return JSON.parse(raw) as { accessToken: string; refreshToken: string };
+const CLIENT_APP = "portal";
+const UNSAFE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// The refresh token lives in an httpOnly cookie; the short-lived access
+// token is only ever held in memory.
+let accessToken: string | null = null;
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
 }
 
-function setTokens(accessToken: string, refreshToken: string) {
-  const raw = localStorage.getItem("auth");
-  const auth = raw ? JSON.parse(raw) : {};
-  auth.accessToken = accessToken;
-  auth.refreshToken = refreshToken;
-  localStorage.setItem("auth", JSON.stringify(auth));
+export function getAccessToken(): string | null {
+  return accessToken;
 }
 
-let refreshPromise: Promise<string> | null = null;
+function readCookie(name: string): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((c) => c.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+}
 
-async function refreshAccessToken(): Promise<string> {
-  const tokens = getTokens();
-  if (!tokens?.refreshToken) throw new Error("No refresh token");
+function sessionHeaders(headers: Headers, method = "GET") {
+  headers.set("X-Client-App", CLIENT_APP);
+  const csrf = readCookie("brevva_csrf");
+  if (csrf && UNSAFE_METHODS.has(method.toUpperCase())) {
+    headers.set("X-CSRF-Token", decodeURIComponent(csrf));
+  }
+}
 
-  const res = await fetch(`${API_BASE}/auth/refresh`, {
+export interface RefreshedSession {
+  accessToken: string;
+  user: any;
+  organization: any;
+}
+
+let refreshPromise: Promise<RefreshedSession | null> | null = null;
+
+async function requestRefresh(): Promise<Response> {
+  const headers = new Headers();
+  sessionHeaders(headers, "POST");
+  return fetch(`${API_BASE}/auth/refresh`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+    headers,
+    credentials: "include",
   });
+}
 
-  if (!res.ok) {
-    localStorage.removeItem("auth");
-    window.location.href = "/login";
-    throw new Error("Refresh failed");
+/**
+ * Trades the refresh cookie for a new access token. Resolves to null when
+ * there is no session, e.g. on first load or after signing out.
+ */
+export function refreshSession(): Promise<RefreshedSession | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      let res = await requestRefresh();
+      // Another tab rotated the cookie first; retry with the one it received
+      if (res.status === 409) res = await requestRefresh();
+      if (!res.ok) {
+        accessToken = null;
+        return null;
+      }
+      const data: RefreshedSession = await res.json();
+      accessToken = data.accessToken;
+      return data;
+    })().finally(() => {
+      refreshPromise = null;
+    });
   }
-
-  const data = await res.json();
-  setTokens(data.accessToken, data.refreshToken);
-  return data.accessToken;
+  return refreshPromise;
 }
 
 export async function api<T = unknown>(
@@ -67,11 +102,12 @@ export async function api<T = unknown>(
     if (qs) url += `?${qs}`;
   }
 
-  const tokens = getTokens();
+  const hadSession = !!accessToken;
   const headers = new Headers(fetchOptions.headers);
-  if (tokens?.accessToken) {
-    headers.set("Authorization", `Bearer ${tokens.accessToken}`);
+  if (accessToken) {
+    headers.set("Authorization", `Bearer ${accessToken}`);
   }
+  sessionHeaders(headers, fetchOptions.method);
   if (
     !headers.has("Content-Type") &&
     fetchOptions.body &&
@@ -80,17 +116,16 @@ export async function api<T = unknown>(
     headers.set("Content-Type", "application/json");
   }
 
-  let res = await fetch(url, { ...fetchOptions, headers });
+  let res = await fetch(url, { ...fetchOptions, headers, credentials: "include" });
 
-  if (res.status === 401 && tokens?.refreshToken) {
-    if (!refreshPromise) {
-      refreshPromise = refreshAccessToken().finally(() => {
-        refreshPromise = null;
-      });
+  if (res.status === 401 && hadSession) {
+    const session = await refreshSession();
+    if (!session) {
+      window.location.href = "/login";
+      throw new ApiError(401, null);
     }
-    const newToken = await refreshPromise;
-    headers.set("Authorization", `Bearer ${newToken}`);
-    res = await fetch(url, { ...fetchOptions, headers });
+    headers.set("Authorization", `Bearer ${session.accessToken}`);
+    res = await fetch(url, { ...fetchOptions, headers, credentials: "include" });
   }
 
   if (!res.ok) {
@@ -6,7 +6,7 @@ import {
   useCallback,
   type ReactNode,
 } from "react";
-import { api } from "./api";
+import { api, refreshSession, setAccessToken } from "./api";
 
 interface User {
   userId: string;
@@ -30,29 +30,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Restore the session from the refresh cookie, if there is one
   useEffect(() => {
-    const raw = localStorage.getItem("auth");
-    if (raw) {
-      try {
-        const auth = JSON.parse(raw);
-        if (auth.user) setUser(auth.user);
-      } catch {
-        localStorage.removeItem("auth");
-      }
-    }
-    setIsLoading(false);
+    refreshSession()
+      .then((session) => setUser(session?.user ?? null))
+      .finally(() => setIsLoading(false));
   }, []);
 
   const login = useCallback(async (email: string, password: string) => {
     const data = await api<{
       accessToken: string;
-      refreshToken: string;
       user: User;
     }>("/auth/login", {
       method: "POST",
       body: JSON.stringify({ email, password }),
     });
-    localStorage.setItem("auth", JSON.stringify(data));
+    setAccessToken(data.accessToken);
     setUser(data.user);
   }, []);
 
@@ -62,7 +55,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch {
       // ignore
     }
-    localStorage.removeItem("auth");
+    setAccessToken(null);
     setUser(null);
   }, []);
 
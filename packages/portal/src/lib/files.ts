@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+
+interface SignedFiles {
+  data: { url: string; signedUrl: string }[];
+  expiresAt: string;
+}
+
+// Signed links last 15 minutes; refresh well before they expire
+const SIGNED_URL_STALE_MS = 10 * 60 * 1000;
+
+/** Stored files are referenced by key; anything with a scheme is external */
+function isStoredFile(url: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * Stored files are only served through short-lived signed links.
+ * Returns the signed link for a stored file: undefined while it loads, null
+ * if the file can't be opened.
+ */
+export function useSignedUrl(url: string | null | undefined) {
+  const { data, isError } = useQuery({
+    queryKey: ["signed-url", url],
+    queryFn: () =>
+      api<SignedFiles>("/files/sign", {
+        method: "POST",
+        body: JSON.stringify({ urls: [url] }),
+      }),
+    enabled: !!url && isStoredFile(url),
+    staleTime: SIGNED_URL_STALE_MS,
+    refetchInterval: SIGNED_URL_STALE_MS,
+  });
+
+  if (url && !isStoredFile(url)) return url;
+  if (isError) return null;
+  return data?.data[0]?.signedUrl;
+}
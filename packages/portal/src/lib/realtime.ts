@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { getAccessToken, refreshSession } from "./api";
+
+type RealtimeEvent =
+  | { type: "message.created"; threadId: string; messageId: string }
+  | { type: "maintenance.updated"; requestId: string; status: string }
+  | { type: "payment.completed"; paymentId: string; leaseId: string }
+  | { type: "signature.captured"; leaseId: string; addendumId: string | null };
+
+const MAX_RETRY_MS = 30_000;
+
+function invalidate(queryClient: QueryClient, event: RealtimeEvent) {
+  const keys: unknown[][] = [["portal-dashboard"]];
+  switch (event.type) {
+    case "message.created":
+      keys.push(["threads"], ["thread", event.threadId]);
+      break;
+    case "maintenance.updated":
+      keys.push(["portal-maintenance"]);
+      break;
+    case "payment.completed":
+      keys.push(["portal-payments"], ["portal-ledger"]);
+      break;
+    case "signature.captured":
+      keys.push(["portal-lease"]);
+      break;
+  }
+  for (const queryKey of keys) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+/** Reads `event:`/`data:` frames off a server-sent event stream. */
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice(6))
+        .join("\n");
+      if (data) onEvent(data);
+    }
+  }
+}
+
+/**
+ * Keeps react-query caches fresh from the server's event stream while
+ * signed in. EventSource can't send the Authorization header, so the
+ * stream is read with fetch and reconnected by hand.
+ */
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let retryMs = 1000;
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const token = getAccessToken() ?? (await refreshSession())?.accessToken;
+          if (!token) return;
+
+          const res = await fetch("/api/v1/events", {
+            headers: { Authorization: `Bearer ${token}` },
+            signal: controller.signal,
+          });
+          if (res.status === 401) {
+            if (!(await refreshSession())) return;
+            continue;
+          }
+          if (!res.ok || !res.body) throw new Error(`Event stream failed: ${res.status}`);
+
+          retryMs = 1000;
+          await readEvents(res.body, (data) => invalidate(queryClient, JSON.parse(data)));
+          // The server ends the stream when the access token expires; refresh before reconnecting
+          await refreshSession();
+        } catch {
+          if (controller.signal.aborted) return;
+          await new Promise((resolve) => setTimeout(resolve, retryMs));
+          retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+        }
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  }, [queryClient]);
+}
@@ -0,0 +1,611 @@
+import { useState, type FormEvent } from "react";
+import { useParams } from "react-router";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Building2,
+  CheckCircle,
+  AlertTriangle,
+  Loader2,
+  Plus,
+  Trash2,
+  Upload,
+  BedDouble,
+  Bath,
+  Ruler,
+} from "lucide-react";
+
+function currency(n: number) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(n);
+}
+
+interface Listing {
+  id: string;
+  unitNumber: string;
+  bedrooms: number;
+  bathrooms: string;
+  sqFt: number | null;
+  rent: string;
+  deposit: string | null;
+  description: string | null;
+  photos: { id: string; url: string; caption: string | null }[];
+  organization: { name: string };
+  property: { name: string; address: string; city: string; state: string; zip: string };
+}
+
+interface ApplicantForm {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  dateOfBirth: string;
+  ssn: string;
+  employerName: string;
+  position: string;
+  employerPhone: string;
+  employmentStartDate: string;
+  monthlyIncome: string;
+}
+
+interface PetForm {
+  type: string;
+  breed: string;
+  name: string;
+  weight: string;
+  vaccinated: boolean;
+}
+
+interface VehicleForm {
+  make: string;
+  model: string;
+  year: string;
+  color: string;
+  licensePlate: string;
+  state: string;
+}
+
+interface DocumentForm {
+  file: File;
+  type: "ID" | "PAY_STUB" | "REFERENCE" | "OTHER";
+}
+
+const emptyApplicant: ApplicantForm = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  dateOfBirth: "",
+  ssn: "",
+  employerName: "",
+  position: "",
+  employerPhone: "",
+  employmentStartDate: "",
+  monthlyIncome: "",
+};
+
+const emptyPet: PetForm = { type: "", breed: "", name: "", weight: "", vaccinated: false };
+
+const emptyVehicle: VehicleForm = { make: "", model: "", year: "", color: "", licensePlate: "", state: "" };
+
+const documentTypeLabels: Record<DocumentForm["type"], string> = {
+  ID: "Photo ID",
+  PAY_STUB: "Pay Stub",
+  REFERENCE: "Reference",
+  OTHER: "Other",
+};
+
+const inputClass =
+  "w-full rounded-lg border px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-2 focus:ring-teal-200";
+
+function optional(value: string) {
+  return value.trim() === "" ? undefined : value.trim();
+}
+
+function toApplicantPayload(a: ApplicantForm) {
+  return {
+    firstName: a.firstName.trim(),
+    lastName: a.lastName.trim(),
+    email: a.email.trim(),
+    phone: optional(a.phone),
+    dateOfBirth: optional(a.dateOfBirth),
+    ssn: optional(a.ssn),
+    employment: a.employerName.trim()
+      ? {
+          employerName: a.employerName.trim(),
+          position: optional(a.position),
+          employerPhone: optional(a.employerPhone),
+          startDate: optional(a.employmentStartDate),
+          monthlyIncome: Number(a.monthlyIncome || 0),
+        }
+      : undefined,
+  };
+}
+
+function ApplicantFields({
+  value,
+  onChange,
+  requireSensitive,
+}: {
+  value: ApplicantForm;
+  onChange: (next: ApplicantForm) => void;
+  requireSensitive: boolean;
+}) {
+  const set = (field: keyof ApplicantForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...value, [field]: e.target.value });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className="mb-1 block text-sm font-medium">First Name *</label>
+          <input required value={value.firstName} onChange={set("firstName")} className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Last Name *</label>
+          <input required value={value.lastName} onChange={set("lastName")} className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Email *</label>
+          <input type="email" required value={value.email} onChange={set("email")} className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Phone</label>
+          <input type="tel" value={value.phone} onChange={set("phone")} className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Date of Birth{requireSensitive ? " *" : ""}</label>
+          <input type="date" required={requireSensitive} value={value.dateOfBirth} onChange={set("dateOfBirth")} className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Social Security Number{requireSensitive ? " *" : ""}</label>
+          <input
+            required={requireSensitive}
+            value={value.ssn}
+            onChange={set("ssn")}
+            placeholder="123-45-6789"
+            pattern="\d{3}-?\d{2}-?\d{4}"
+            autoComplete="off"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-sm font-medium text-gray-700">Employment</p>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <input value={value.employerName} onChange={set("employerName")} placeholder="Employer" className={inputClass} />
+          <input value={value.position} onChange={set("position")} placeholder="Position" className={inputClass} />
+          <input type="tel" value={value.employerPhone} onChange={set("employerPhone")} placeholder="Employer phone" className={inputClass} />
+          <input type="date" value={value.employmentStartDate} onChange={set("employmentStartDate")} title="Start date" className={inputClass} />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.monthlyIncome}
+            onChange={set("monthlyIncome")}
+            placeholder="Gross monthly income"
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function Apply() {
+  const { unitId } = useParams();
+  const [startedAt] = useState(() => new Date().toISOString());
+
+  const [applicant, setApplicant] = useState<ApplicantForm>(emptyApplicant);
+  const [coApplicants, setCoApplicants] = useState<ApplicantForm[]>([]);
+  const [desiredMoveIn, setDesiredMoveIn] = useState("");
+  const [currentAddress, setCurrentAddress] = useState("");
+  const [landlordName, setLandlordName] = useState("");
+  const [landlordPhone, setLandlordPhone] = useState("");
+  const [pets, setPets] = useState<PetForm[]>([]);
+  const [vehicles, setVehicles] = useState<VehicleForm[]>([]);
+  const [documents, setDocuments] = useState<DocumentForm[]>([]);
+  const [notes, setNotes] = useState("");
+  const [consentScreening, setConsentScreening] = useState(false);
+  const [consentAccuracy, setConsentAccuracy] = useState(false);
+  const [website, setWebsite] = useState("");
+
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const { data: listing, isLoading, error } = useQuery<Listing>({
+    queryKey: ["apply-listing", unitId],
+    queryFn: async () => {
+      const res = await fetch("/api/v1/applications/apply/" + unitId);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        const message = body?.error?.message ?? `Request failed (${res.status})`;
+        throw new Error(typeof message === "string" ? message : String(message));
+      }
+      return res.json();
+    },
+    enabled: !!unitId,
+    retry: false,
+  });
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setSubmitError(null);
+
+    const payload = {
+      applicant: toApplicantPayload(applicant),
+      coApplicants: coApplicants.map(toApplicantPayload),
+      desiredMoveIn: optional(desiredMoveIn),
+      currentAddress: optional(currentAddress),
+      currentLandlord: landlordName.trim()
+        ? { name: landlordName.trim(), phone: optional(landlordPhone) }
+        : undefined,
+      pets: pets.map((p) => ({
+        type: p.type.trim(),
+        breed: optional(p.breed),
+        name: p.name.trim(),
+        weight: p.weight ? Number(p.weight) : undefined,
+        vaccinated: p.vaccinated,
+      })),
+      vehicles: vehicles.map((v) => ({
+        make: v.make.trim(),
+        model: v.model.trim(),
+        year: Number(v.year),
+        color: v.color.trim(),
+        licensePlate: v.licensePlate.trim(),
+        state: v.state.trim().toUpperCase(),
+      })),
+      notes: optional(notes),
+      documentTypes: documents.map((d) => d.type),
+      consent: { screening: consentScreening, accuracy: consentAccuracy },
+      website,
+      startedAt,
+    };
+
+    const formData = new FormData();
+    formData.append("data", JSON.stringify(payload));
+    for (const doc of documents) {
+      formData.append("documents", doc.file);
+    }
+
+    try {
+      const res = await fetch("/api/v1/applications/apply/" + unitId, {
+        method: "POST",
+        body: formData,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        const detail = body?.error?.details?.[0];
+        const msg =
+          (detail ? `${detail.path}: ${detail.message}` : null) ??
+          body?.error?.message ??
+          `Submission failed (${res.status})`;
+        throw new Error(typeof msg === "string" ? msg : String(msg));
+      }
+      setSubmitted(true);
+      window.scrollTo(0, 0);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <Loader2 className="h-10 w-10 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  if (error || !listing) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+        <div className="w-full max-w-md rounded-xl border bg-white p-8 text-center shadow-sm">
+          <AlertTriangle className="mx-auto h-14 w-14 text-amber-500" />
+          <h1 className="mt-4 text-xl font-bold text-gray-900">Listing Unavailable</h1>
+          <p className="mt-2 text-sm text-gray-500">
+            This unit is no longer accepting applications. Please contact the property manager for
+            other available homes.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const fullAddress = `${listing.property.address}, ${listing.property.city}, ${listing.property.state} ${listing.property.zip}`;
+
+  if (submitted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+        <div className="w-full max-w-md rounded-xl border bg-white p-8 text-center shadow-sm">
+          <CheckCircle className="mx-auto h-14 w-14 text-green-500" />
+          <h1 className="mt-4 text-xl font-bold text-gray-900">Application Submitted</h1>
+          <p className="mt-2 text-sm text-gray-500">
+            Thank you for applying to {fullAddress}, Unit {listing.unitNumber}.{" "}
+            {listing.organization.name} will review your application and contact you by email.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8">
+      <div className="mx-auto max-w-3xl">
+        <div className="mb-6 flex items-center gap-2">
+          <Building2 className="h-8 w-8 text-teal-600" />
+          <div>
+            <p className="text-lg font-bold">{listing.organization.name}</p>
+            <p className="text-sm text-teal-600">Rental Application</p>
+          </div>
+        </div>
+
+        {/* Listing */}
+        <div className="mb-6 overflow-hidden rounded-xl border bg-white">
+          {listing.photos[0] && (
+            <img src={listing.photos[0].url} alt={listing.photos[0].caption ?? ""} className="h-56 w-full object-cover" />
+          )}
+          <div className="p-5">
+            <h1 className="text-xl font-bold">
+              {listing.property.name} — Unit {listing.unitNumber}
+            </h1>
+            <p className="text-sm text-gray-500">{fullAddress}</p>
+            <div className="mt-3 flex flex-wrap gap-4 text-sm text-gray-600">
+              <span className="flex items-center gap-1"><BedDouble className="h-4 w-4" /> {listing.bedrooms} bd</span>
+              <span className="flex items-center gap-1"><Bath className="h-4 w-4" /> {Number(listing.bathrooms)} ba</span>
+              {listing.sqFt && (
+                <span className="flex items-center gap-1"><Ruler className="h-4 w-4" /> {listing.sqFt} sq ft</span>
+              )}
+              <span className="font-semibold text-teal-600">{currency(Number(listing.rent))}/mo</span>
+              {listing.deposit && (
+                <span>Deposit {currency(Number(listing.deposit))}</span>
+              )}
+            </div>
+            {listing.description && <p className="mt-3 text-sm text-gray-600">{listing.description}</p>}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Honeypot: hidden from people, filled in by bots */}
+          <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+            <label>
+              Website
+              <input tabIndex={-1} autoComplete="off" value={website} onChange={(e) => setWebsite(e.target.value)} />
+            </label>
+          </div>
+
+          <section className="rounded-xl border bg-white p-5">
+            <h2 className="mb-4 font-semibold">Your Information</h2>
+            <ApplicantFields value={applicant} onChange={setApplicant} requireSensitive />
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="font-semibold">Co-Applicants</h2>
+              {coApplicants.length < 4 && (
+                <button
+                  type="button"
+                  onClick={() => setCoApplicants([...coApplicants, emptyApplicant])}
+                  className="flex items-center gap-1 text-sm text-teal-600 hover:underline"
+                >
+                  <Plus className="h-4 w-4" /> Add co-applicant
+                </button>
+              )}
+            </div>
+            {coApplicants.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                Add every adult who will live in the home. Each co-applicant is screened separately.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                {coApplicants.map((co, i) => (
+                  <div key={i} className="rounded-lg border border-gray-200 p-4">
+                    <div className="mb-3 flex items-center justify-between">
+                      <p className="text-sm font-medium">Co-applicant {i + 1}</p>
+                      <button
+                        type="button"
+                        onClick={() => setCoApplicants(coApplicants.filter((_, j) => j !== i))}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <ApplicantFields
+                      value={co}
+                      onChange={(next) => setCoApplicants(coApplicants.map((c, j) => (j === i ? next : c)))}
+                      requireSensitive
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <h2 className="mb-4 font-semibold">Residence</h2>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <label className="mb-1 block text-sm font-medium">Current Address</label>
+                <input value={currentAddress} onChange={(e) => setCurrentAddress(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Current Landlord</label>
+                <input value={landlordName} onChange={(e) => setLandlordName(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Landlord Phone</label>
+                <input type="tel" value={landlordPhone} onChange={(e) => setLandlordPhone(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Desired Move-in Date</label>
+                <input type="date" value={desiredMoveIn} onChange={(e) => setDesiredMoveIn(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="font-semibold">Pets</h2>
+              {pets.length < 5 && (
+                <button
+                  type="button"
+                  onClick={() => setPets([...pets, emptyPet])}
+                  className="flex items-center gap-1 text-sm text-teal-600 hover:underline"
+                >
+                  <Plus className="h-4 w-4" /> Add pet
+                </button>
+              )}
+            </div>
+            {pets.length === 0 ? (
+              <p className="text-sm text-gray-400">No pets</p>
+            ) : (
+              <div className="space-y-3">
+                {pets.map((pet, i) => {
+                  const update = (patch: Partial<PetForm>) =>
+                    setPets(pets.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+                  return (
+                    <div key={i} className="grid items-center gap-3 sm:grid-cols-6">
+                      <input required value={pet.type} onChange={(e) => update({ type: e.target.value })} placeholder="Type (dog, cat)" className={inputClass} />
+                      <input required value={pet.name} onChange={(e) => update({ name: e.target.value })} placeholder="Name" className={inputClass} />
+                      <input value={pet.breed} onChange={(e) => update({ breed: e.target.value })} placeholder="Breed" className={inputClass} />
+                      <input type="number" min="0" step="0.1" value={pet.weight} onChange={(e) => update({ weight: e.target.value })} placeholder="Weight (lb)" className={inputClass} />
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={pet.vaccinated} onChange={(e) => update({ vaccinated: e.target.checked })} />
+                        Vaccinated
+                      </label>
+                      <button type="button" onClick={() => setPets(pets.filter((_, j) => j !== i))} className="justify-self-end text-gray-400 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="font-semibold">Vehicles</h2>
+              {vehicles.length < 5 && (
+                <button
+                  type="button"
+                  onClick={() => setVehicles([...vehicles, emptyVehicle])}
+                  className="flex items-center gap-1 text-sm text-teal-600 hover:underline"
+                >
+                  <Plus className="h-4 w-4" /> Add vehicle
+                </button>
+              )}
+            </div>
+            {vehicles.length === 0 ? (
+              <p className="text-sm text-gray-400">No vehicles</p>
+            ) : (
+              <div className="space-y-3">
+                {vehicles.map((vehicle, i) => {
+                  const update = (patch: Partial<VehicleForm>) =>
+                    setVehicles(vehicles.map((v, j) => (j === i ? { ...v, ...patch } : v)));
+                  return (
+                    <div key={i} className="grid items-center gap-3 sm:grid-cols-7">
+                      <input required value={vehicle.make} onChange={(e) => update({ make: e.target.value })} placeholder="Make" className={inputClass} />
+                      <input required value={vehicle.model} onChange={(e) => update({ model: e.target.value })} placeholder="Model" className={inputClass} />
+                      <input required type="number" min="1900" max="2100" value={vehicle.year} onChange={(e) => update({ year: e.target.value })} placeholder="Year" className={inputClass} />
+                      <input required value={vehicle.color} onChange={(e) => update({ color: e.target.value })} placeholder="Color" className={inputClass} />
+                      <input required value={vehicle.licensePlate} onChange={(e) => update({ licensePlate: e.target.value })} placeholder="Plate" className={inputClass} />
+                      <input required maxLength={2} minLength={2} value={vehicle.state} onChange={(e) => update({ state: e.target.value })} placeholder="State" className={inputClass} />
+                      <button type="button" onClick={() => setVehicles(vehicles.filter((_, j) => j !== i))} className="justify-self-end text-gray-400 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <h2 className="mb-1 font-semibold">Documents</h2>
+            <p className="mb-4 text-sm text-gray-500">Photo ID and recent pay stubs (JPEG, PNG, WebP or PDF).</p>
+            <label className="flex cursor-pointer items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 p-4 text-sm text-gray-500 hover:border-teal-400">
+              <Upload className="h-4 w-4" />
+              Choose files
+              <input
+                type="file"
+                multiple
+                accept="image/jpeg,image/png,image/webp,application/pdf"
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  setDocuments([...documents, ...files.map((file) => ({ file, type: "OTHER" as const }))].slice(0, 10));
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {documents.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {documents.map((doc, i) => (
+                  <div key={i} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 truncate">{doc.file.name}</span>
+                    <select
+                      value={doc.type}
+                      onChange={(e) =>
+                        setDocuments(documents.map((d, j) => (j === i ? { ...d, type: e.target.value as DocumentForm["type"] } : d)))
+                      }
+                      className="rounded-lg border px-2 py-1 text-sm"
+                    >
+                      {Object.entries(documentTypeLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <button type="button" onClick={() => setDocuments(documents.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-600">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <h2 className="mb-4 font-semibold">Anything Else?</h2>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className={inputClass}
+            />
+          </section>
+
+          <section className="rounded-xl border bg-white p-5">
+            <h2 className="mb-4 font-semibold">Authorization</h2>
+            <label className="mb-3 flex items-start gap-3 text-sm">
+              <input type="checkbox" required checked={consentScreening} onChange={(e) => setConsentScreening(e.target.checked)} className="mt-0.5" />
+              <span>
+                I authorize {listing.organization.name} to obtain consumer reports, including credit, criminal
+                and eviction history, for myself and verify the information in this application.
+              </span>
+            </label>
+            <label className="flex items-start gap-3 text-sm">
+              <input type="checkbox" required checked={consentAccuracy} onChange={(e) => setConsentAccuracy(e.target.checked)} className="mt-0.5" />
+              <span>I certify that the information I have provided is true and complete.</span>
+            </label>
+          </section>
+
+          {submitError && (
+            <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{submitError}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting || !consentScreening || !consentAccuracy}
+            className="w-full rounded-lg bg-teal-600 px-4 py-3 font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            {submitting ? "Submitting..." : "Submit Application"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
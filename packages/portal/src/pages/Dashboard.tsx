@@ -8,6 +8,7 @@ import {
   MessageSquare,
   AlertTriangle,
   Home,
+  Wallet,
 } from "lucide-react";
 
 function currency(n: number) {
@@ -73,6 +74,33 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Balance */}
+      {data.balance && (
+        <Link
+          to="/payments"
+          className="mb-6 flex items-center gap-3 rounded-xl border bg-white p-5 transition-shadow hover:shadow-md"
+        >
+          <div className={`rounded-lg p-2.5 ${data.balance.pastDue > 0 ? "bg-red-50" : "bg-teal-50"}`}>
+            <Wallet className={`h-5 w-5 ${data.balance.pastDue > 0 ? "text-red-600" : "text-teal-600"}`} />
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Balance Due</p>
+            <p className={`text-lg font-bold ${data.balance.pastDue > 0 ? "text-red-600" : ""}`}>
+              {currency(Math.max(data.balance.balance, 0))}
+            </p>
+          </div>
+          <div className="ml-auto text-right text-xs text-gray-400">
+            {data.balance.pastDue > 0 ? (
+              <p className="font-medium text-red-600">{currency(data.balance.pastDue)} past due</p>
+            ) : data.balance.unappliedCredit > 0 ? (
+              <p>{currency(data.balance.unappliedCredit)} credit on account</p>
+            ) : (
+              <p>You're all caught up</p>
+            )}
+          </div>
+        </Link>
+      )}
+
       {/* Quick Stats */}
       <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <Link to="/payments" className="rounded-xl border bg-white p-4 transition-shadow hover:shadow-md">
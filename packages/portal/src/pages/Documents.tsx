@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import SignedLink from "@/components/SignedLink";
+import { FolderOpen, FileText } from "lucide-react";
+
+export default function Documents() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["portal-documents"],
+    queryFn: () => api<{ data: any[] }>("/portal/documents"),
+  });
+
+  if (isLoading) {
+    return <div className="flex justify-center py-20"><div className="h-8 w-8 animate-spin rounded-full border-4 border-teal-600 border-t-transparent" /></div>;
+  }
+
+  const documents = data?.data ?? [];
+
+  // Group by folder; documents without one go last
+  const groups = new Map<string, any[]>();
+  for (const d of documents) {
+    const key = d.folder ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  const folders = [...groups.keys()].sort((a, b) => (a === "" ? 1 : b === "" ? -1 : a.localeCompare(b)));
+
+  return (
+    <div>
+      <h1 className="mb-6 text-2xl font-bold">Documents</h1>
+
+      {documents.length === 0 ? (
+        <div className="rounded-xl border bg-white p-10 text-center">
+          <FolderOpen className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-3 text-gray-500">No documents have been shared with you yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {folders.map((folder) => (
+            <div key={folder || "other"} className="rounded-xl border bg-white p-6">
+              <h2 className="mb-4 flex items-center gap-2 font-semibold">
+                <FolderOpen className="h-4 w-4" /> {folder || "Other Documents"}
+              </h2>
+              <div className="divide-y">
+                {groups.get(folder)!.map((d: any) => (
+                  <div key={d.id} className="flex items-start gap-3 py-3">
+                    <FileText className="mt-0.5 h-4 w-4 shrink-0 text-teal-600" />
+                    <div className="min-w-0 flex-1">
+                      <SignedLink url={d.url} target="_blank" rel="noopener noreferrer" className="font-medium text-teal-700 hover:underline">
+                        {d.name}
+                      </SignedLink>
+                      {d.description && <p className="text-sm text-gray-500">{d.description}</p>}
+                      <p className="mt-0.5 text-xs text-gray-400">
+                        {d.property?.name}
+                        {d.unit ? ` — Unit ${d.unit.unitNumber}` : ""} · {new Date(d.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,130 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
-import { FileText, Users, ClipboardList } from "lucide-react";
+import SignedLink from "@/components/SignedLink";
+import { FileText, Users, ClipboardList, ExternalLink, Download, Repeat } from "lucide-react";
 
 function currency(n: number) {
   return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(n);
 }
 
+function RenewalOffer({ renewal }: { renewal: any }) {
+  const queryClient = useQueryClient();
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = useMutation({
+    mutationFn: (action: "accept" | "decline") =>
+      api(`/portal/renewals/${renewal.id}/${action}`, {
+        method: "POST",
+        body: JSON.stringify(action === "decline" && reason.trim() ? { reason: reason.trim() } : {}),
+      }),
+    onSuccess: () => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ["portal-lease"] });
+    },
+    onError: (err: any) =>
+      setError(err?.data?.error?.message ?? "Something went wrong. Please try again."),
+  });
+
+  const rent = Number(renewal.monthlyRent);
+  const previousRent = Number(renewal.previousRent);
+
+  return (
+    <div className="mb-6 rounded-xl border border-teal-200 bg-teal-50 p-6">
+      <h2 className="mb-1 flex items-center gap-2 text-lg font-semibold text-teal-900">
+        <Repeat className="h-5 w-5" /> Lease Renewal
+      </h2>
+      {renewal.status === "ACCEPTED" ? (
+        <p className="text-sm text-teal-800">
+          You accepted the renewal for {new Date(renewal.startDate).toLocaleDateString()} –{" "}
+          {new Date(renewal.endDate).toLocaleDateString()}.{" "}
+          {renewal.successorLease?.status === "PENDING_SIGNATURE"
+            ? "The renewed lease has been sent to you for signature — check your email for the signing link."
+            : "Your landlord will send the renewed lease for your signature."}
+        </p>
+      ) : (
+        <>
+          <p className="mb-4 text-sm text-teal-800">
+            Your landlord is offering to renew your lease.
+            {renewal.respondBy &&
+              ` Please respond by ${new Date(renewal.respondBy).toLocaleDateString()}.`}
+          </p>
+          <div className="mb-4 grid gap-4 sm:grid-cols-3">
+            <div className="rounded-lg bg-white p-3">
+              <p className="text-xs text-gray-500">New Term</p>
+              <p className="font-bold">
+                {new Date(renewal.startDate).toLocaleDateString()} – {new Date(renewal.endDate).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="rounded-lg bg-white p-3">
+              <p className="text-xs text-gray-500">Monthly Rent</p>
+              <p className="font-bold">{currency(rent)}</p>
+              {rent !== previousRent && (
+                <p className="text-xs text-gray-500">Currently {currency(previousRent)}</p>
+              )}
+            </div>
+            <div className="rounded-lg bg-white p-3">
+              <p className="text-xs text-gray-500">Security Deposit</p>
+              <p className="font-bold">{currency(Number(renewal.securityDeposit))}</p>
+            </div>
+          </div>
+          {renewal.message && (
+            <p className="mb-4 whitespace-pre-line rounded-lg bg-white p-3 text-sm text-gray-700">
+              {renewal.message}
+            </p>
+          )}
+          {declining ? (
+            <div className="space-y-2">
+              <textarea
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Let your landlord know why (optional)"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => respond.mutate("decline")}
+                  disabled={respond.isPending}
+                  className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  Decline Renewal
+                </button>
+                <button
+                  onClick={() => setDeclining(false)}
+                  className="rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => respond.mutate("accept")}
+                disabled={respond.isPending}
+                className="rounded-lg bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+              >
+                Accept Renewal
+              </button>
+              <button
+                onClick={() => setDeclining(true)}
+                disabled={respond.isPending}
+                className="rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
 export default function Lease() {
   const { data, isLoading } = useQuery({
     queryKey: ["portal-lease"],
@@ -33,6 +152,8 @@ export default function Lease() {
     <div>
       <h1 className="mb-6 text-2xl font-bold">My Lease</h1>
 
+      {data.renewal && <RenewalOffer renewal={data.renewal} />}
+
       <div className="mb-6 rounded-xl border bg-white p-6">
         <div className="flex items-start justify-between">
           <div>
@@ -67,6 +188,30 @@ export default function Lease() {
             <p className="text-lg font-bold">{new Date(lease.endDate).toLocaleDateString()}</p>
           </div>
         </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {lease.documentUrl && (
+            <SignedLink
+              url={lease.documentPdfUrl ?? lease.documentUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1.5 rounded-lg border px-4 py-2 text-sm font-medium text-teal-700 hover:bg-teal-50"
+            >
+              <FileText className="h-4 w-4" />
+              View Lease Document
+            </SignedLink>
+          )}
+          {lease.documentPdfUrl && (
+            <SignedLink
+              url={lease.documentPdfUrl}
+              download
+              className="inline-flex items-center gap-1.5 rounded-lg border px-4 py-2 text-sm font-medium text-teal-700 hover:bg-teal-50"
+            >
+              <Download className="h-4 w-4" />
+              Download PDF
+            </SignedLink>
+          )}
+        </div>
       </div>
 
       {data.signedAt && (
@@ -113,11 +258,24 @@ export default function Lease() {
               <p className="text-sm text-gray-400">No addendums</p>
             ) : (
               lease.addendums.map((a: any) => (
-                <div key={a.id} className="text-sm">
-                  <p className="font-medium">{a.title}</p>
-                  <p className="text-xs text-gray-400">
-                    Added {new Date(a.createdAt).toLocaleDateString()}
-                  </p>
+                <div key={a.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{a.title}</p>
+                    <p className="text-xs text-gray-400">
+                      Added {new Date(a.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {(a.documentPdfUrl ?? a.documentUrl) && (
+                    <SignedLink
+                      url={a.documentPdfUrl ?? a.documentUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs font-medium text-teal-600 hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      View
+                    </SignedLink>
+                  )}
                 </div>
               ))
             )}
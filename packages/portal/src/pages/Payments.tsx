@@ -14,6 +14,15 @@ const statusColors: Record<string, string> = {
   REFUNDED: "bg-gray-100 text-gray-600",
 };
 
+const entryTypeLabels: Record<string, string> = {
+  RENT: "Rent",
+  LATE_FEE: "Late Fee",
+  DEPOSIT: "Deposit",
+  CREDIT: "Credit",
+  ADJUSTMENT: "Adjustment",
+  PAYMENT: "Payment",
+};
+
 export default function Payments() {
   const [page, setPage] = useState(1);
 
@@ -25,12 +34,78 @@ export default function Payments() {
       }),
   });
 
+  const { data: ledger, isLoading: ledgerLoading } = useQuery({
+    queryKey: ["portal-ledger"],
+    queryFn: () => api<{ entries: any[]; summary: any }>("/portal/ledger"),
+  });
+
   return (
     <div>
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-bold">Payments</h1>
       </div>
 
+      {ledger?.summary && (
+        <div className="mb-6 grid gap-4 sm:grid-cols-3">
+          <div className="rounded-xl border bg-white p-4">
+            <p className="text-sm text-gray-500">Current Balance</p>
+            <p className="text-lg font-bold">{currency(ledger.summary.balance)}</p>
+          </div>
+          <div className="rounded-xl border bg-white p-4">
+            <p className="text-sm text-gray-500">Past Due</p>
+            <p className={`text-lg font-bold ${ledger.summary.pastDue > 0 ? "text-red-600" : ""}`}>
+              {currency(ledger.summary.pastDue)}
+            </p>
+          </div>
+          <div className="rounded-xl border bg-white p-4">
+            <p className="text-sm text-gray-500">Credit on Account</p>
+            <p className="text-lg font-bold text-teal-600">{currency(ledger.summary.unappliedCredit)}</p>
+          </div>
+        </div>
+      )}
+
+      <h2 className="mb-3 font-semibold">Account Activity</h2>
+      <div className="mb-8 overflow-x-auto rounded-xl border bg-white">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b bg-gray-50 text-xs uppercase text-gray-500">
+            <tr>
+              <th className="px-4 py-3">Date</th>
+              <th className="px-4 py-3">Description</th>
+              <th className="px-4 py-3">Type</th>
+              <th className="px-4 py-3 text-right">Amount</th>
+              <th className="px-4 py-3 text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {ledgerLoading ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center"><div className="inline-block h-6 w-6 animate-spin rounded-full border-4 border-teal-600 border-t-transparent" /></td></tr>
+            ) : (ledger?.entries ?? []).length === 0 ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-400">No account activity yet</td></tr>
+            ) : (
+              (ledger?.entries ?? []).map((e: any) => (
+                <tr key={e.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-500">
+                    {new Date(e.date).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                  </td>
+                  <td className="px-4 py-3">
+                    {e.description}
+                    {e.outstanding > 0 && e.amountPaid > 0 && (
+                      <span className="ml-2 text-xs text-gray-400">({currency(e.outstanding)} remaining)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-500">{entryTypeLabels[e.type] ?? e.type}</td>
+                  <td className={`px-4 py-3 text-right font-medium ${e.amount < 0 ? "text-green-600" : ""}`}>
+                    {currency(e.amount)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-500">{currency(e.balance)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <h2 className="mb-3 font-semibold">Payment History</h2>
       <div className="overflow-x-auto rounded-xl border bg-white">
         <table className="w-full text-left text-sm">
           <thead className="border-b bg-gray-50 text-xs uppercase text-gray-500">
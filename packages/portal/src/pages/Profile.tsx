@@ -1,5 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import NotificationPreferences from "@/components/NotificationPreferences";
+import ActiveSessions from "@/components/ActiveSessions";
 import { User, Home, Car, PawPrint, FileText } from "lucide-react";
 
 export default function Profile() {
@@ -105,6 +107,14 @@ export default function Profile() {
           )}
         </div>
       </div>
+
+      <div className="mt-6">
+        <NotificationPreferences />
+      </div>
+
+      <div className="mt-6">
+        <ActiveSessions />
+      </div>
     </div>
   );
 }
@@ -438,6 +438,7 @@ interface SignResult {
   allSigned: boolean;
   remainingSignatures: number;
   documentUrl?: string | null;
+  documentPdfUrl?: string | null;
   signatureReceipt?: SignatureReceipt;
 }
 
@@ -729,10 +730,10 @@ export default function SignLease() {
           </div>
 
           {/* Download button */}
-          {signResult.allSigned && (signResult.documentUrl ?? lease.documentUrl) && (
+          {signResult.allSigned && (signResult.documentPdfUrl ?? signResult.documentUrl ?? lease.documentUrl) && (
             <div className="mt-4 text-center">
               <a
-                href={signResult.documentUrl ?? lease.documentUrl!}
+                href={signResult.documentPdfUrl ?? signResult.documentUrl ?? lease.documentUrl!}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-5 py-2.5 text-sm font-medium text-white hover:bg-blue-700"
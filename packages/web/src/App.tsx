@@ -5,6 +5,7 @@ import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import ForgotPassword from "@/pages/ForgotPassword";
 import ResetPassword from "@/pages/ResetPassword";
+import AcceptInvite from "@/pages/AcceptInvite";
 import Dashboard from "@/pages/Dashboard";
 import Properties from "@/pages/Properties";
 import PropertyDetail from "@/pages/PropertyDetail";
@@ -13,6 +14,7 @@ import TenantDetail from "@/pages/TenantDetail";
 import Leases from "@/pages/Leases";
 import LeaseDetail from "@/pages/LeaseDetail";
 import LeaseBuilder from "@/pages/LeaseBuilder";
+import LeaseTemplates from "@/pages/LeaseTemplates";
 import UploadLease from "@/pages/UploadLease";
 import CreateAddendum from "@/pages/CreateAddendum";
 import EditAddendum from "@/pages/EditAddendum";
@@ -22,6 +24,8 @@ import Maintenance from "@/pages/Maintenance";
 import Vendors from "@/pages/Vendors";
 import Messages from "@/pages/Messages";
 import Reports from "@/pages/Reports";
+import Settings from "@/pages/Settings";
+import Team from "@/pages/Team";
 import NotFound from "@/pages/NotFound";
 
 export default function App() {
@@ -31,6 +35,7 @@ export default function App() {
       <Route path="/register" element={<Register />} />
       <Route path="/forgot-password" element={<ForgotPassword />} />
       <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/accept-invite" element={<AcceptInvite />} />
       <Route
         element={
           <PrivateRoute>
@@ -46,6 +51,7 @@ export default function App() {
         <Route path="leases" element={<Leases />} />
         <Route path="leases/new" element={<LeaseBuilder />} />
         <Route path="leases/upload" element={<UploadLease />} />
+        <Route path="leases/templates" element={<LeaseTemplates />} />
         <Route path="leases/:id" element={<LeaseDetail />} />
         <Route path="leases/:id/addendum" element={<CreateAddendum />} />
         <Route path="leases/:id/addendum/:addendumId/edit" element={<EditAddendum />} />
@@ -55,6 +61,8 @@ export default function App() {
         <Route path="vendors" element={<Vendors />} />
         <Route path="messages" element={<Messages />} />
         <Route path="reports" element={<Reports />} />
+        <Route path="team" element={<Team />} />
+        <Route path="settings" element={<Settings />} />
       </Route>
       <Route path="*" element={<NotFound />} />
     </Routes>
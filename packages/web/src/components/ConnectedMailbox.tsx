@@ -0,0 +1,147 @@
+import { useEffect } from "react";
+import { useSearchParams } from "react-router";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import { Mail } from "lucide-react";
+
+interface Mailbox {
+  id: string;
+  provider: "GOOGLE" | "MICROSOFT";
+  email: string;
+  isActive: boolean;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  GOOGLE: "Google",
+  MICROSOFT: "Microsoft 365",
+};
+
+/** Owner setting for sending tenant email from the organization's own mailbox. */
+export default function ConnectedMailbox() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["mailboxes"],
+    queryFn: () => api<{ data: Mailbox[]; providers: string[] }>("/mailboxes"),
+  });
+
+  // The OAuth callback redirects back here with the outcome
+  useEffect(() => {
+    const status = searchParams.get("mailbox");
+    if (!status) return;
+    const reason = searchParams.get("reason");
+    if (status === "connected") toast("Mailbox connected");
+    else if (status === "unverified") toast(`Mailbox connected but a test email failed: ${reason ?? "unknown error"}`, "error");
+    else toast(`Could not connect mailbox${reason ? `: ${reason}` : ""}`, "error");
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
+  const connect = useMutation({
+    mutationFn: (provider: string) =>
+      api<{ url: string }>(`/mailboxes/connect/${provider.toLowerCase()}`, { method: "POST" }),
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to start connection", "error"),
+  });
+
+  const verify = useMutation({
+    mutationFn: (id: string) =>
+      api<Mailbox & { error: string | null }>(`/mailboxes/${id}/verify`, { method: "POST" }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["mailboxes"] });
+      if (result.error) toast(`Test email failed: ${result.error}`, "error");
+      else toast("Test email sent");
+    },
+    onError: () => toast("Failed to verify mailbox", "error"),
+  });
+
+  const disconnect = useMutation({
+    mutationFn: (id: string) => api(`/mailboxes/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["mailboxes"] });
+      toast("Mailbox disconnected");
+    },
+    onError: () => toast("Failed to disconnect mailbox", "error"),
+  });
+
+  const mailboxes = data?.data ?? [];
+  const providers = data?.providers ?? [];
+
+  return (
+    <div className="mb-6 rounded-xl border bg-white p-6">
+      <h2 className="mb-1 flex items-center gap-2 font-semibold"><Mail className="h-4 w-4" /> Sending Mailbox</h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Send lease, payment and maintenance emails to tenants from your own address instead of Brevva's.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : (
+        <>
+          {mailboxes.length > 0 && (
+            <div className="mb-4 divide-y rounded-lg border">
+              {mailboxes.map((m) => {
+                const status = !m.isActive ? "Inactive" : m.verifiedAt ? "Sending" : "Not verified";
+                return (
+                  <div key={m.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium">{m.email}</p>
+                      <p className="text-xs text-gray-400">{PROVIDER_LABELS[m.provider] ?? m.provider}</p>
+                    </div>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        status === "Sending" ? "bg-green-50 text-green-700" : "bg-amber-50 text-amber-700"
+                      }`}
+                    >
+                      {status}
+                    </span>
+                    {status !== "Sending" && (
+                      <button
+                        onClick={() => verify.mutate(m.id)}
+                        disabled={verify.isPending}
+                        className="text-xs font-medium text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        {m.isActive ? "Send test" : "Reactivate"}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (confirm(`Disconnect ${m.email}?`)) disconnect.mutate(m.id);
+                      }}
+                      className="text-xs font-medium text-red-600 hover:underline"
+                    >
+                      Disconnect
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {providers.length === 0 ? (
+            <p className="text-sm text-gray-400">Mailbox connections are not configured on this server.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {providers.map((p) => (
+                <button
+                  key={p}
+                  onClick={() => connect.mutate(p)}
+                  disabled={connect.isPending}
+                  className="rounded-lg border px-4 py-2 text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Connect {PROVIDER_LABELS[p] ?? p}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import SignedLink from "@/components/SignedLink";
+import UploadDocumentModal, { DOCUMENT_TYPES } from "@/components/UploadDocumentModal";
+import { FolderOpen, Share2, Trash2, Upload } from "lucide-react";
+
+interface Props {
+  propertyId?: string;
+  tenantId?: string;
+  units?: { id: string; unitNumber: string }[];
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Document library section for a property or tenant page. */
+export default function DocumentLibrary({ propertyId, tenantId, units }: Props) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [showUpload, setShowUpload] = useState(false);
+  const [folder, setFolder] = useState("");
+  const [type, setType] = useState("");
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["documents", { propertyId, tenantId, folder, type, search }],
+    queryFn: () =>
+      api<{ data: any[] }>("/documents", {
+        params: {
+          propertyId,
+          tenantId,
+          folder: folder || undefined,
+          type: type || undefined,
+          search: search || undefined,
+          limit: 100,
+        },
+      }),
+  });
+
+  const { data: foldersData } = useQuery({
+    queryKey: ["document-folders"],
+    queryFn: () => api<{ data: { name: string; count: number }[] }>("/documents/folders"),
+  });
+
+  const toggleShare = useMutation({
+    mutationFn: (doc: any) =>
+      api(`/documents/${doc.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ sharedWithTenant: !doc.sharedWithTenant }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["documents"] }),
+    onError: () => toast("Failed to update sharing", "error"),
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => api(`/documents/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-folders"] });
+      toast("Document deleted");
+    },
+    onError: () => toast("Failed to delete document", "error"),
+  });
+
+  const documents = data?.data ?? [];
+  const selectCls = "rounded-lg border px-2 py-1.5 text-sm";
+
+  return (
+    <div className="rounded-xl border bg-white p-5">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <h2 className="flex items-center gap-2 font-semibold"><FolderOpen className="h-4 w-4" /> Document Library</h2>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search..." className={`${selectCls} w-36`} />
+          <select value={folder} onChange={(e) => setFolder(e.target.value)} className={selectCls}>
+            <option value="">All folders</option>
+            {(foldersData?.data ?? []).map((f) => (
+              <option key={f.name} value={f.name}>{f.name}</option>
+            ))}
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value)} className={selectCls}>
+            <option value="">All types</option>
+            {DOCUMENT_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowUpload(true)}
+            className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            <Upload className="h-4 w-4" /> Upload
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-400">No documents</p>
+      ) : (
+        <div className="divide-y">
+          {documents.map((d: any) => (
+            <div key={d.id} className="flex items-center gap-3 py-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <SignedLink url={d.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+                  {d.name}
+                </SignedLink>
+                <div className="mt-0.5 flex flex-wrap gap-x-2 text-xs text-gray-400">
+                  <span>{d.type}</span>
+                  {d.folder && <span>{d.folder}</span>}
+                  {d.unit && <span>Unit {d.unit.unitNumber}</span>}
+                  <span>{formatSize(d.size)}</span>
+                  <span>{new Date(d.createdAt).toLocaleDateString()}</span>
+                </div>
+                {(d.tags ?? []).length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {d.tags.map((tag: string) => (
+                      <span key={tag} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => toggleShare.mutate(d)}
+                title={d.sharedWithTenant ? "Shared in the tenant portal" : "Not shared with tenants"}
+                className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${d.sharedWithTenant ? "bg-teal-50 text-teal-700" : "bg-gray-100 text-gray-500"}`}
+              >
+                <Share2 className="h-3 w-3" /> {d.sharedWithTenant ? "Shared" : "Private"}
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete "${d.name}"?`)) remove.mutate(d.id);
+                }}
+                className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <UploadDocumentModal
+        open={showUpload}
+        onClose={() => setShowUpload(false)}
+        propertyId={propertyId}
+        tenantId={tenantId}
+        units={units}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { FileText, Download, Loader2, AlertTriangle } from "lucide-react";
+import { useSignedUrl } from "@/lib/files";
 
 interface DocumentViewerProps {
   documentUrl: string | null | undefined;
@@ -9,6 +10,7 @@ interface DocumentViewerProps {
 export default function DocumentViewer({ documentUrl, className }: DocumentViewerProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
+  const signedUrl = useSignedUrl(documentUrl);
 
   if (!documentUrl) {
     return (
@@ -18,6 +20,23 @@ export default function DocumentViewer({ documentUrl, className }: DocumentViewe
     );
   }
 
+  if (signedUrl === null) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border py-12">
+        <AlertTriangle className="h-8 w-8 text-amber-500" />
+        <p className="mt-2 text-sm text-gray-500">Failed to load document</p>
+      </div>
+    );
+  }
+
+  if (!signedUrl) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
   const ext = documentUrl.split(".").pop()?.toLowerCase();
   const isPdf = ext === "pdf";
   const isHtml = ext === "html";
@@ -34,7 +53,7 @@ export default function DocumentViewer({ documentUrl, className }: DocumentViewe
           </div>
         </div>
         <a
-          href={documentUrl}
+          href={signedUrl}
           download
           className="inline-flex items-center gap-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
         >
@@ -58,7 +77,7 @@ export default function DocumentViewer({ documentUrl, className }: DocumentViewe
             <AlertTriangle className="h-8 w-8 text-amber-500" />
             <p className="mt-2 text-sm text-gray-500">Failed to load document</p>
             <a
-              href={documentUrl}
+              href={signedUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="mt-2 text-sm text-blue-600 hover:underline"
@@ -68,7 +87,7 @@ export default function DocumentViewer({ documentUrl, className }: DocumentViewe
           </div>
         )}
         <iframe
-          src={documentUrl}
+          src={signedUrl}
           title="Document Viewer"
           className={`w-full ${loading || error ? "hidden" : ""}`}
           style={{ height: 600 }}
@@ -88,7 +107,7 @@ export default function DocumentViewer({ documentUrl, className }: DocumentViewe
         <p className="text-sm font-medium text-gray-700">Document</p>
       </div>
       <a
-        href={documentUrl}
+        href={signedUrl}
         download
         className="inline-flex items-center gap-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
       >
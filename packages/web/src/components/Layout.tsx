@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Link, NavLink, Outlet, useNavigate } from "react-router";
 import { useAuth } from "@/lib/auth";
+import { useRealtimeUpdates } from "@/lib/realtime";
 import { clsx } from "clsx";
 import {
   LayoutDashboard,
@@ -13,6 +14,8 @@ import {
   HardHat,
   MessageSquare,
   BarChart3,
+  UserCog,
+  Settings,
   LogOut,
   Menu,
   X,
@@ -29,10 +32,13 @@ const navItems = [
   { to: "/vendors", icon: HardHat, label: "Vendors" },
   { to: "/messages", icon: MessageSquare, label: "Messages" },
   { to: "/reports", icon: BarChart3, label: "Reports" },
+  { to: "/team", icon: UserCog, label: "Team" },
+  { to: "/settings", icon: Settings, label: "Settings" },
 ];
 
 export default function Layout() {
   const { user, logout } = useAuth();
+  useRealtimeUpdates();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import Modal from "@/components/Modal";
+
+export interface MemberAccess {
+  id: string;
+  firstName: string;
+  lastName: string;
+  permissionRole: { id: string; name: string } | null;
+  allPropertiesAccess: boolean;
+  accessibleProperties: { id: string; name: string }[];
+}
+
+interface Props {
+  member: MemberAccess | null;
+  roles: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+/** Owner control for a team member's permission role and property scope. */
+export default function MemberAccessModal({ member, roles, onClose }: Props) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [roleId, setRoleId] = useState("");
+  const [allProperties, setAllProperties] = useState(true);
+  const [propertyIds, setPropertyIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!member) return;
+    setRoleId(member.permissionRole?.id ?? "");
+    setAllProperties(member.allPropertiesAccess);
+    setPropertyIds(member.accessibleProperties.map((p) => p.id));
+  }, [member]);
+
+  const { data: propertiesData } = useQuery({
+    queryKey: ["properties-list"],
+    queryFn: () => api<{ data: { id: string; name: string }[] }>("/properties", { params: { limit: 100 } }),
+    enabled: !!member && !allProperties,
+  });
+
+  const save = useMutation({
+    mutationFn: () =>
+      api(`/team/members/${member!.id}/access`, {
+        method: "PUT",
+        body: JSON.stringify({
+          permissionRoleId: roleId || null,
+          allPropertiesAccess: allProperties,
+          propertyIds: allProperties ? [] : propertyIds,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team-members"] });
+      toast("Access updated");
+      onClose();
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to update access", "error"),
+  });
+
+  const toggleProperty = (id: string) =>
+    setPropertyIds((ids) => (ids.includes(id) ? ids.filter((p) => p !== id) : [...ids, id]));
+
+  const properties = propertiesData?.data ?? [];
+
+  return (
+    <Modal
+      open={!!member}
+      onClose={onClose}
+      title={member ? `Access for ${member.firstName} ${member.lastName}` : "Access"}
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          save.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label className="mb-1 block text-sm font-medium">Permission role</label>
+          <select
+            value={roleId}
+            onChange={(e) => setRoleId(e.target.value)}
+            className="w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            <option value="">Default (property manager)</option>
+            {roles.map((r) => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={allProperties}
+              onChange={(e) => setAllProperties(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Access to all properties
+          </label>
+          {!allProperties && (
+            <div className="mt-2 max-h-60 space-y-1 overflow-y-auto rounded-lg border p-3">
+              {properties.length === 0 ? (
+                <p className="text-sm text-gray-400">No properties yet.</p>
+              ) : (
+                properties.map((p) => (
+                  <label key={p.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={propertyIds.includes(p.id)}
+                      onChange={() => toggleProperty(p.id)}
+                      className="rounded border-gray-300"
+                    />
+                    {p.name}
+                  </label>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <button type="button" onClick={onClose} className="rounded-lg border px-4 py-2 text-sm hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={save.isPending || (!allProperties && propertyIds.length === 0)}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {save.isPending ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Braces, ChevronDown, ChevronUp } from "lucide-react";
+import { useToast } from "@/components/Toast";
+import { useMergeFieldCatalog, type MergeContext } from "@/lib/mergeFields";
+
+/** Collapsible list of merge fields; clicking one copies its tag. */
+export default function MergeFieldReference({ context = "lease" }: { context?: MergeContext }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data } = useMergeFieldCatalog();
+
+  const fields = (data?.data ?? []).filter((f) => context === "addendum" || !f.addendumOnly);
+
+  const copy = async (tag: string) => {
+    try {
+      await navigator.clipboard.writeText(tag);
+      toast(`Copied ${tag}`);
+    } catch {
+      toast("Couldn't copy to the clipboard", "error");
+    }
+  };
+
+  return (
+    <div className="rounded-xl border bg-white">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center justify-between px-4 py-3 text-sm font-semibold text-gray-600"
+      >
+        <span className="flex items-center gap-2">
+          <Braces className="h-4 w-4" /> Merge fields
+        </span>
+        {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {open && (
+        <div className="border-t px-4 py-3 text-xs">
+          <p className="mb-3 text-gray-500">
+            Fields are filled in when the document is generated. Add a filter with{" "}
+            <code className="rounded bg-gray-100 px-1">{"{{lease.monthlyRent | currency}}"}</code>, or show text
+            only sometimes with{" "}
+            <code className="rounded bg-gray-100 px-1">{"{{#if tenants.hasPets}}…{{else}}…{{/if}}"}</code>.
+          </p>
+          <div className="grid gap-1 sm:grid-cols-2">
+            {fields.map((f) => (
+              <button
+                key={f.key}
+                type="button"
+                onClick={() => copy(`{{${f.key}}}`)}
+                className="flex items-baseline justify-between gap-2 rounded px-2 py-1 text-left hover:bg-gray-50"
+              >
+                <code className="text-blue-700">{f.key}</code>
+                <span className="truncate text-gray-400">{f.label}</span>
+              </button>
+            ))}
+          </div>
+          {data && data.filters.length > 0 && (
+            <p className="mt-3 text-gray-500">
+              Filters:{" "}
+              {data.filters.map((f, idx) => (
+                <span key={f.name} title={f.description}>
+                  <code className="rounded bg-gray-100 px-1">{f.name}</code>
+                  {idx < data.filters.length - 1 ? ", " : ""}
+                </span>
+              ))}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
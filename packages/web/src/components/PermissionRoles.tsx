@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import Modal from "@/components/Modal";
+import { ShieldCheck } from "lucide-react";
+
+export interface PermissionRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  _count: { users: number };
+}
+
+interface Catalog {
+  data: { key: string; description: string }[];
+  templates: { key: string; name: string; description: string; permissions: string[] }[];
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_DRAFT: Draft = { name: "", description: "", permissions: [] };
+
+/** Owner-managed permission roles assignable to team members. */
+export default function PermissionRoles({ roles }: { roles: PermissionRole[] }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data: catalog } = useQuery({
+    queryKey: ["team-permissions"],
+    queryFn: () => api<Catalog>("/team/permissions"),
+  });
+
+  const save = useMutation({
+    mutationFn: ({ id, ...body }: Draft) =>
+      api(id ? `/team/roles/${id}` : "/team/roles", {
+        method: id ? "PATCH" : "POST",
+        body: JSON.stringify({ ...body, description: body.description || undefined }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team-roles"] });
+      toast("Role saved");
+      setDraft(null);
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to save role", "error"),
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => api(`/team/roles/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team-roles"] });
+      queryClient.invalidateQueries({ queryKey: ["team-members"] });
+    },
+    onError: () => toast("Failed to delete role", "error"),
+  });
+
+  const togglePermission = (key: string) =>
+    setDraft((d) =>
+      d && {
+        ...d,
+        permissions: d.permissions.includes(key)
+          ? d.permissions.filter((p) => p !== key)
+          : [...d.permissions, key],
+      }
+    );
+
+  return (
+    <div className="mt-6 rounded-xl border bg-white p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold"><ShieldCheck className="h-4 w-4" /> Permission Roles</h2>
+        <button
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="text-sm font-medium text-blue-600 hover:underline"
+        >
+          New role
+        </button>
+      </div>
+      {roles.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Team members without a role can do everything except refund payments and view tenant PII.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {roles.map((r) => (
+            <div key={r.id} className="flex items-center gap-3 py-2 text-sm">
+              <div className="flex-1">
+                <p className="font-medium">{r.name}</p>
+                <p className="text-xs text-gray-400">
+                  {r.permissions.length} permissions · {r._count.users} {r._count.users === 1 ? "member" : "members"}
+                </p>
+              </div>
+              <button
+                onClick={() =>
+                  setDraft({ id: r.id, name: r.name, description: r.description ?? "", permissions: r.permissions })
+                }
+                className="text-xs font-medium text-blue-600 hover:underline"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete the ${r.name} role? Members with it fall back to the default permissions.`)) {
+                    remove.mutate(r.id);
+                  }
+                }}
+                className="text-xs font-medium text-red-600 hover:underline"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal open={!!draft} onClose={() => setDraft(null)} title={draft?.id ? "Edit role" : "New role"}>
+        {draft && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              save.mutate(draft);
+            }}
+            className="space-y-4"
+          >
+            {!draft.id && catalog && (
+              <div>
+                <label className="mb-1 block text-sm font-medium">Start from</label>
+                <select
+                  defaultValue=""
+                  onChange={(e) => {
+                    const template = catalog.templates.find((t) => t.key === e.target.value);
+                    if (template) {
+                      setDraft({
+                        name: template.name,
+                        description: template.description,
+                        permissions: template.permissions,
+                      });
+                    }
+                  }}
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">Blank role</option>
+                  {catalog.templates.map((t) => (
+                    <option key={t.key} value={t.key}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="mb-1 block text-sm font-medium">Name</label>
+              <input
+                required
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">Description</label>
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </div>
+            <div className="space-y-1">
+              {catalog?.data.map((p) => (
+                <label key={p.key} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.permissions.includes(p.key)}
+                    onChange={() => togglePermission(p.key)}
+                    className="mt-0.5 rounded border-gray-300"
+                  />
+                  <span>
+                    {p.description} <span className="text-xs text-gray-400">{p.key}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <button type="button" onClick={() => setDraft(null)} className="rounded-lg border px-4 py-2 text-sm hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={save.isPending}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {save.isPending ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/components/Toast";
+import Modal from "@/components/Modal";
+import { Lock } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface SecurityPolicy {
+  requireTwoFactor: boolean;
+  membersWithoutTwoFactor: number;
+}
+
+type Dialog = "enroll" | "disable" | "regenerate" | null;
+
+const inputClass =
+  "w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200";
+
+/** Authenticator-app 2FA for the signed-in user, plus the owner's org policy. */
+export default function TwoFactorSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isOwner = user?.role === "OWNER";
+
+  const [dialog, setDialog] = useState<Dialog>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery({
+    queryKey: ["two-factor"],
+    queryFn: () => api<TwoFactorStatus>("/auth/2fa"),
+  });
+
+  const { data: policy } = useQuery({
+    queryKey: ["team-security"],
+    queryFn: () => api<SecurityPolicy>("/team/security"),
+    enabled: isOwner,
+  });
+
+  const setup = useMutation({
+    mutationFn: () =>
+      api<{ secret: string; qrCode: string }>("/auth/2fa/setup", { method: "POST", body: "{}" }),
+    onSuccess: () => setDialog("enroll"),
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to start setup", "error"),
+  });
+
+  const close = () => {
+    setDialog(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+    setup.reset();
+  };
+
+  const onCodes = (result: { recoveryCodes: string[] }) => {
+    queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+    queryClient.invalidateQueries({ queryKey: ["team-security"] });
+    setRecoveryCodes(result.recoveryCodes);
+  };
+
+  const enable = useMutation({
+    mutationFn: () =>
+      api<{ recoveryCodes: string[] }>("/auth/2fa/enable", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      }),
+    onSuccess: (result) => {
+      toast("Two-factor authentication enabled");
+      onCodes(result);
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Invalid code", "error"),
+  });
+
+  const regenerate = useMutation({
+    mutationFn: () =>
+      api<{ recoveryCodes: string[] }>("/auth/2fa/recovery-codes", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      }),
+    onSuccess: onCodes,
+    onError: (err: any) => toast(err?.data?.error?.message || "Invalid code", "error"),
+  });
+
+  const disable = useMutation({
+    mutationFn: () =>
+      api("/auth/2fa/disable", {
+        method: "POST",
+        body: JSON.stringify({ password, code }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+      queryClient.invalidateQueries({ queryKey: ["team-security"] });
+      toast("Two-factor authentication disabled");
+      close();
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to disable", "error"),
+  });
+
+  const updatePolicy = useMutation({
+    mutationFn: (requireTwoFactor: boolean) =>
+      api<SecurityPolicy>("/team/security", {
+        method: "PATCH",
+        body: JSON.stringify({ requireTwoFactor }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team-security"] });
+      queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+    },
+    onError: (err: any) => toast(err?.data?.error?.message || "Failed to update policy", "error"),
+  });
+
+  const submit = () => {
+    if (dialog === "enroll") enable.mutate();
+    else if (dialog === "regenerate") regenerate.mutate();
+    else if (dialog === "disable") disable.mutate();
+  };
+
+  const pending = enable.isPending || regenerate.isPending || disable.isPending;
+
+  return (
+    <div className="mb-6 rounded-xl border bg-white p-6">
+      <h2 className="mb-4 flex items-center gap-2 font-semibold"><Lock className="h-4 w-4" /> Two-Factor Authentication</h2>
+      {!status ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : status.enabled ? (
+        <div className="flex items-center gap-3 text-sm">
+          <div className="flex-1">
+            <p className="font-medium text-green-700">On</p>
+            <p className="text-xs text-gray-500">
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+            </p>
+          </div>
+          <button
+            onClick={() => setDialog("regenerate")}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            New recovery codes
+          </button>
+          {!status.required && (
+            <button
+              onClick={() => setDialog("disable")}
+              className="text-xs font-medium text-red-600 hover:underline"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-sm">
+          <p className="flex-1 text-gray-500">
+            Require a code from an authenticator app each time you sign in.
+          </p>
+          <button
+            onClick={() => setup.mutate()}
+            disabled={setup.isPending}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Set up
+          </button>
+        </div>
+      )}
+
+      {isOwner && policy && (
+        <div className="mt-4 border-t pt-4">
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={policy.requireTwoFactor}
+              disabled={updatePolicy.isPending}
+              onChange={(e) => updatePolicy.mutate(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300"
+            />
+            <span>
+              <span className="font-medium">Require two-factor authentication for the team</span>
+              <span className="block text-xs text-gray-500">
+                Owners and team members without it set it up at their next sign-in.
+                {policy.membersWithoutTwoFactor > 0 &&
+                  ` ${policy.membersWithoutTwoFactor} active ${policy.membersWithoutTwoFactor === 1 ? "member hasn't" : "members haven't"} yet.`}
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
+      <Modal
+        open={!!dialog}
+        onClose={close}
+        title={
+          dialog === "enroll"
+            ? "Set up two-factor authentication"
+            : dialog === "disable"
+              ? "Turn off two-factor authentication"
+              : "New recovery codes"
+        }
+      >
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Each code signs you in once if you lose your device. Store them somewhere safe — they
+              won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <div className="flex justify-end border-t pt-4">
+              <button
+                onClick={close}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+            className="space-y-4"
+          >
+            {dialog === "enroll" && setup.data && (
+              <>
+                <p className="text-sm text-gray-500">
+                  Scan this code with an authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={setup.data.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+                <p className="text-center text-xs text-gray-500">
+                  Can't scan? Enter this key: <span className="font-mono break-all text-gray-700">{setup.data.secret}</span>
+                </p>
+              </>
+            )}
+            {dialog === "regenerate" && (
+              <p className="text-sm text-gray-500">Your current recovery codes will stop working.</p>
+            )}
+            {dialog === "disable" && (
+              <div>
+                <label className="mb-1 block text-sm font-medium">Password</label>
+                <input
+                  type="password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="mb-1 block text-sm font-medium">Authenticator code</label>
+              <input
+                required
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                pattern="\d{6}"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={`font-mono tracking-widest ${inputClass}`}
+                placeholder="123456"
+              />
+            </div>
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <button type="button" onClick={close} className="rounded-lg border px-4 py-2 text-sm hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={pending}
+                className={`rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50 ${
+                  dialog === "disable" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+                }`}
+              >
+                {pending ? "Verifying..." : dialog === "disable" ? "Turn off" : "Verify"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
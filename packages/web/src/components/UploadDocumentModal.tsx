@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import Modal from "@/components/Modal";
+
+export const DOCUMENT_TYPES = [
+  { value: "INSURANCE", label: "Insurance" },
+  { value: "INSPECTION", label: "Inspection" },
+  { value: "HOA", label: "HOA" },
+  { value: "PERMIT", label: "Permit" },
+  { value: "WARRANTY", label: "Warranty" },
+  { value: "NOTICE", label: "Notice" },
+  { value: "CONTRACT", label: "Contract" },
+  { value: "OTHER", label: "Other" },
+];
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  propertyId?: string;
+  tenantId?: string;
+  /** Units of the property, to file a document under one of them */
+  units?: { id: string; unitNumber: string }[];
+}
+
+export default function UploadDocumentModal({ open, onClose, propertyId, tenantId, units }: Props) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState("OTHER");
+  const [folder, setFolder] = useState("");
+  const [tags, setTags] = useState("");
+  const [unitId, setUnitId] = useState("");
+  const [description, setDescription] = useState("");
+  const [shared, setShared] = useState(false);
+
+  const { data: foldersData } = useQuery({
+    queryKey: ["document-folders"],
+    queryFn: () => api<{ data: { name: string; count: number }[] }>("/documents/folders"),
+    enabled: open,
+  });
+
+  const reset = () => {
+    setFile(null);
+    setName("");
+    setType("OTHER");
+    setFolder("");
+    setTags("");
+    setUnitId("");
+    setDescription("");
+    setShared(false);
+  };
+
+  const mutation = useMutation({
+    mutationFn: () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("type", type);
+      if (name.trim()) formData.append("name", name.trim());
+      if (folder.trim()) formData.append("folder", folder.trim());
+      if (tags.trim()) formData.append("tags", tags);
+      if (description.trim()) formData.append("description", description.trim());
+      if (propertyId) formData.append("propertyId", propertyId);
+      if (unitId) formData.append("unitId", unitId);
+      if (tenantId) formData.append("tenantId", tenantId);
+      formData.append("sharedWithTenant", String(shared));
+      return api("/documents", { method: "POST", body: formData });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-folders"] });
+      toast("Document uploaded");
+      reset();
+      onClose();
+    },
+    onError: (err: any) => {
+      toast(err?.data?.error?.message || "Failed to upload document", "error");
+    },
+  });
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const inputCls =
+    "w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200";
+  const labelCls = "mb-1 block text-sm font-medium text-gray-700";
+
+  return (
+    <Modal open={open} onClose={handleClose} title="Upload Document">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (file) mutation.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label className={labelCls}>File *</label>
+          <input
+            type="file"
+            required
+            accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.txt,image/jpeg,image/png,image/webp"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="w-full text-sm"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelCls}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputCls} placeholder={file?.name ?? "Defaults to file name"} />
+          </div>
+          <div>
+            <label className={labelCls}>Type</label>
+            <select value={type} onChange={(e) => setType(e.target.value)} className={inputCls}>
+              {DOCUMENT_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelCls}>Folder</label>
+            <input value={folder} onChange={(e) => setFolder(e.target.value)} list="document-folders" className={inputCls} placeholder="e.g. Insurance 2026" />
+            <datalist id="document-folders">
+              {(foldersData?.data ?? []).map((f) => (
+                <option key={f.name} value={f.name} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className={labelCls}>Tags</label>
+            <input value={tags} onChange={(e) => setTags(e.target.value)} className={inputCls} placeholder="Comma separated" />
+          </div>
+        </div>
+
+        {units && units.length > 0 && (
+          <div>
+            <label className={labelCls}>Unit</label>
+            <select value={unitId} onChange={(e) => setUnitId(e.target.value)} className={inputCls}>
+              <option value="">Whole property</option>
+              {units.map((u) => (
+                <option key={u.id} value={u.id}>Unit {u.unitNumber}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className={labelCls}>Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputCls} />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+          Share with {tenantId ? "this tenant" : unitId ? "tenants of this unit" : "tenants of this property"} in the portal
+        </label>
+
+        <div className="flex justify-end gap-3 border-t pt-4">
+          <button type="button" onClick={handleClose} className="rounded-lg border px-4 py-2 text-sm font-medium hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!file || mutation.isPending}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {mutation.isPending ? "Uploading..." : "Upload"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -6,7 +6,7 @@ import {
   useCallback,
   type ReactNode,
 } from "react";
-import { api } from "./api";
+import { api, refreshSession, setAccessToken } from "./api";
 
 interface User {
   userId: string;
@@ -17,10 +17,23 @@ interface User {
   organizationId: string;
 }
 
+export interface AuthSession {
+  accessToken: string;
+  user: User;
+}
+
+/** Returned by login when the password was right but a second step is needed. */
+export interface LoginChallenge {
+  challengeToken: string;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
 interface AuthState {
   user: User | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginChallenge | null>;
+  completeLogin: (session: AuthSession) => void;
   logout: () => Promise<void>;
 }
 
@@ -30,31 +43,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Restore the session from the refresh cookie, if there is one
   useEffect(() => {
-    const raw = localStorage.getItem("auth");
-    if (raw) {
-      try {
-        const auth = JSON.parse(raw);
-        if (auth.user) setUser(auth.user);
-      } catch {
-        localStorage.removeItem("auth");
-      }
-    }
-    setIsLoading(false);
+    refreshSession()
+      .then((session) => setUser(session?.user ?? null))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const completeLogin = useCallback((session: AuthSession) => {
+    setAccessToken(session.accessToken);
+    setUser(session.user);
   }, []);
 
   const login = useCallback(async (email: string, password: string) => {
-    const data = await api<{
-      accessToken: string;
-      refreshToken: string;
-      user: User;
-    }>("/auth/login", {
+    const data = await api<AuthSession | LoginChallenge>("/auth/login", {
       method: "POST",
       body: JSON.stringify({ email, password }),
     });
-    localStorage.setItem("auth", JSON.stringify(data));
-    setUser(data.user);
-  }, []);
+    if ("challengeToken" in data) return data;
+    completeLogin(data);
+    return null;
+  }, [completeLogin]);
 
   const logout = useCallback(async () => {
     try {
@@ -62,12 +71,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch {
       // ignore
     }
-    localStorage.removeItem("auth");
+    setAccessToken(null);
     setUser(null);
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, login, completeLogin, logout }}>
       {children}
     </AuthContext.Provider>
   );
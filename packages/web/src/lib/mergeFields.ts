@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { api } from "./api";
+
+export type MergeContext = "lease" | "addendum";
+
+export interface MergeField {
+  key: string;
+  label: string;
+  type: "text" | "number" | "date" | "boolean";
+  addendumOnly?: boolean;
+}
+
+export interface MergeFilter {
+  name: string;
+  description: string;
+}
+
+export function useMergeFieldCatalog() {
+  return useQuery({
+    queryKey: ["merge-fields"],
+    queryFn: () => api<{ data: MergeField[]; filters: MergeFilter[] }>("/leases/merge-fields"),
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Merge-field problems per item id, checked by the API a moment after the
+ * user stops typing. Content without `{{` is never sent.
+ */
+export function useMergeFieldErrors(
+  items: { id: string; content: string }[],
+  context: MergeContext = "lease",
+): Record<string, string[]> {
+  const withFields = items.filter((item) => item.content.includes("{{"));
+  const key = JSON.stringify(withFields);
+  const [debounced, setDebounced] = useState(key);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(key), 400);
+    return () => clearTimeout(timer);
+  }, [key]);
+
+  const { data } = useQuery({
+    queryKey: ["merge-field-errors", context, debounced],
+    queryFn: () =>
+      api<{ errors: Record<string, string[]> }>("/leases/merge-fields/validate", {
+        method: "POST",
+        body: JSON.stringify({ context, items: JSON.parse(debounced) }),
+      }),
+    enabled: debounced !== "[]",
+    placeholderData: keepPreviousData,
+  });
+
+  const errors: Record<string, string[]> = {};
+  for (const item of withFields) {
+    const problems = data?.errors[item.id];
+    if (problems) errors[item.id] = problems;
+  }
+  return errors;
+}
@@ -0,0 +1,234 @@
+import { useState, useMemo, useEffect, type FormEvent } from "react";
+import { Link, useSearchParams } from "react-router";
+import { Building2, CheckCircle, AlertTriangle, Lock, Eye, EyeOff, Check, X } from "lucide-react";
+
+const PASSWORD_RULES = [
+  { label: "At least 8 characters", test: (p: string) => p.length >= 8 },
+  { label: "One uppercase letter", test: (p: string) => /[A-Z]/.test(p) },
+  { label: "One lowercase letter", test: (p: string) => /[a-z]/.test(p) },
+  { label: "One number", test: (p: string) => /[0-9]/.test(p) },
+  { label: "One special character", test: (p: string) => /[^A-Za-z0-9]/.test(p) },
+];
+
+interface InvitationDetails {
+  email: string;
+  organizationName: string;
+  invitedBy: string;
+}
+
+export default function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [invalid, setInvalid] = useState(!token);
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    fetch(`/api/v1/auth/invitations/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error();
+        setInvitation(await res.json());
+      })
+      .catch(() => setInvalid(true));
+  }, [token]);
+
+  const ruleResults = useMemo(
+    () => PASSWORD_RULES.map((r) => ({ ...r, passed: r.test(password) })),
+    [password],
+  );
+  const allRulesPassed = ruleResults.every((r) => r.passed);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!allRulesPassed) {
+      setError("Please meet all password requirements");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/v1/auth/accept-invitation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, firstName, lastName, password }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(
+          data?.error?.message ?? data?.message ?? "Request failed"
+        );
+      }
+      setSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (invalid) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+        <div className="w-full max-w-md rounded-xl bg-white p-8 text-center shadow-lg">
+          <AlertTriangle className="mx-auto h-12 w-12 text-amber-500" />
+          <h2 className="mt-4 text-xl font-semibold">Invalid Invitation</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            This invitation link is invalid, has already been used, or has
+            expired. Ask the person who invited you to send a new one.
+          </p>
+          <Link
+            to="/login"
+            className="mt-6 inline-block rounded-lg bg-blue-600 px-6 py-2.5 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Go to Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (success) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+        <div className="w-full max-w-md">
+          <div className="mb-8 flex items-center justify-center gap-2">
+            <Building2 className="h-10 w-10 text-blue-600" />
+            <h1 className="text-3xl font-bold">Brevva</h1>
+          </div>
+          <div className="rounded-xl bg-white p-8 text-center shadow-lg">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="mt-4 text-xl font-semibold">Welcome Aboard!</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              Your account has been created. Sign in with {invitation?.email} to
+              get started.
+            </p>
+            <Link
+              to="/login"
+              className="mt-6 inline-block rounded-lg bg-blue-600 px-6 py-2.5 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-100">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  const inputCls =
+    "w-full rounded-lg border px-3 py-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 flex items-center justify-center gap-2">
+          <Building2 className="h-10 w-10 text-blue-600" />
+          <h1 className="text-3xl font-bold">Brevva</h1>
+        </div>
+        <form onSubmit={handleSubmit} className="rounded-xl bg-white p-8 shadow-lg">
+          <h2 className="mb-2 text-xl font-semibold">Join {invitation.organizationName}</h2>
+          <p className="mb-6 text-sm text-gray-500">
+            {invitation.invitedBy} invited {invitation.email}. Set up your
+            account to continue.
+          </p>
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-600">
+              {error}
+            </div>
+          )}
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium">First Name</label>
+              <input required value={firstName} onChange={(e) => setFirstName(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">Last Name</label>
+              <input required value={lastName} onChange={(e) => setLastName(e.target.value)} className={inputCls} />
+            </div>
+          </div>
+          <label className="mb-1 block text-sm font-medium">Password</label>
+          <div className="relative mb-4">
+            <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type={showPassword ? "text" : "password"}
+              required
+              minLength={8}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full rounded-lg border py-2.5 pl-10 pr-10 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              placeholder="Min. 8 characters"
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+            >
+              {showPassword ? (
+                <EyeOff className="h-4 w-4" />
+              ) : (
+                <Eye className="h-4 w-4" />
+              )}
+            </button>
+          </div>
+          {password.length > 0 && (
+            <ul className="mb-4 space-y-1">
+              {ruleResults.map((r) => (
+                <li
+                  key={r.label}
+                  className={`flex items-center gap-2 text-xs ${r.passed ? "text-green-600" : "text-gray-400"}`}
+                >
+                  {r.passed ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                  {r.label}
+                </li>
+              ))}
+            </ul>
+          )}
+          <label className="mb-1 block text-sm font-medium">
+            Confirm Password
+          </label>
+          <div className="relative mb-6">
+            <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type={showPassword ? "text" : "password"}
+              required
+              minLength={8}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full rounded-lg border py-2.5 pl-10 pr-3 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              placeholder="Re-enter your password"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading || !allRulesPassed || password !== confirmPassword}
+            className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? "Creating account..." : "Create Account"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
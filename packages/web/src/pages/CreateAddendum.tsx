@@ -3,6 +3,8 @@ import { useParams, useNavigate, Link } from "react-router";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useToast } from "@/components/Toast";
+import MergeFieldReference from "@/components/MergeFieldReference";
+import { useMergeFieldErrors } from "@/lib/mergeFields";
 import { ArrowLeft, FileText, Loader2 } from "lucide-react";
 
 const labelCls = "mb-1 block text-sm font-medium text-gray-700";
@@ -19,6 +21,7 @@ export default function CreateAddendum() {
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const mergeErrors = useMergeFieldErrors([{ id: "content", content }], "addendum");
 
   const validate = () => {
     const e: Record<string, string> = {};
@@ -42,7 +45,7 @@ export default function CreateAddendum() {
       navigate(`/leases/${id}`);
     },
     onError: (err: any) => {
-      const msg = err?.data?.message || "Failed to create addendum";
+      const msg = err?.data?.error?.message || "Failed to create addendum";
       toast(msg, "error");
     },
   });
@@ -51,7 +54,7 @@ export default function CreateAddendum() {
     e.preventDefault();
     const validationErrors = validate();
     setErrors(validationErrors);
-    if (Object.keys(validationErrors).length > 0) return;
+    if (Object.keys(validationErrors).length > 0 || mergeErrors.content) return;
     mutation.mutate();
   };
 
@@ -113,6 +116,15 @@ export default function CreateAddendum() {
               className={inputCls + " resize-y"}
             />
             {errors.content && <p className={errorCls}>{errors.content}</p>}
+            {mergeErrors.content?.map((message) => (
+              <p key={message} className={errorCls}>
+                {message}
+              </p>
+            ))}
+          </div>
+
+          <div>
+            <MergeFieldReference context="addendum" />
           </div>
         </div>
 
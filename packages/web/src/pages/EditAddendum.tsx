@@ -3,6 +3,8 @@ import { useParams, useNavigate, Link } from "react-router";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useToast } from "@/components/Toast";
+import MergeFieldReference from "@/components/MergeFieldReference";
+import { useMergeFieldErrors } from "@/lib/mergeFields";
 import { ArrowLeft, FileText, Loader2 } from "lucide-react";
 
 const labelCls = "mb-1 block text-sm font-medium text-gray-700";
@@ -20,6 +22,7 @@ export default function EditAddendum() {
   const [content, setContent] = useState("");
   const [effectiveDate, setEffectiveDate] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const mergeErrors = useMergeFieldErrors([{ id: "content", content }], "addendum");
   const [loaded, setLoaded] = useState(false);
 
   const { data: addendum, isLoading } = useQuery({
@@ -67,7 +70,7 @@ export default function EditAddendum() {
       navigate(`/leases/${id}`);
     },
     onError: (err: any) => {
-      const msg = err?.data?.message || err?.data?.error || "Failed to update addendum";
+      const msg = err?.data?.error?.message || "Failed to update addendum";
       toast(msg, "error");
     },
   });
@@ -76,7 +79,7 @@ export default function EditAddendum() {
     e.preventDefault();
     const validationErrors = validate();
     setErrors(validationErrors);
-    if (Object.keys(validationErrors).length > 0) return;
+    if (Object.keys(validationErrors).length > 0 || mergeErrors.content) return;
     mutation.mutate();
   };
 
@@ -173,6 +176,15 @@ export default function EditAddendum() {
               className={inputCls + " resize-y"}
             />
             {errors.content && <p className={errorCls}>{errors.content}</p>}
+            {mergeErrors.content?.map((message) => (
+              <p key={message} className={errorCls}>
+                {message}
+              </p>
+            ))}
+          </div>
+
+          <div>
+            <MergeFieldReference context="addendum" />
           </div>
         </div>
 
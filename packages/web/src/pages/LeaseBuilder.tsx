@@ -4,6 +4,8 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { api } from "@/lib/api";
 import { useToast } from "@/components/Toast";
+import MergeFieldReference from "@/components/MergeFieldReference";
+import { useMergeFieldErrors } from "@/lib/mergeFields";
 import { addMonths, format, getDaysInMonth, differenceInDays } from "date-fns";
 import {
   Search,
@@ -46,6 +48,7 @@ interface Unit {
   property?: {
     id: string;
     name: string;
+    state?: string;
   };
 }
 
@@ -70,6 +73,46 @@ interface Clause {
   isCustom?: boolean;
 }
 
+interface LibraryClause {
+  id: string;
+  title: string;
+  content: string;
+  category: string | null;
+}
+
+interface LeaseTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  state: string | null;
+  currentVersion: number;
+}
+
+interface LeaseTemplateDetail extends LeaseTemplateSummary {
+  current: {
+    id: string;
+    version: number;
+    clauses: { clauseId: string | null; title: string; content: string }[];
+    monthlyRent: string | null;
+    securityDeposit: string | null;
+    lateFeeAmount: string | null;
+    lateFeeType: "FLAT" | "PERCENTAGE";
+    lateFeeAccrual: "ONE_TIME" | "DAILY";
+    lateFeeDailyAmount: string | null;
+    lateFeeMaxAmount: string | null;
+    gracePeriodDays: number;
+    rentDueDay: number;
+  };
+}
+
+interface AppliedTemplate {
+  templateId: string;
+  versionId: string;
+  version: number;
+  name: string;
+  state: string | null;
+}
+
 interface LeaseTerms {
   startDate: string;
   endDate: string;
@@ -77,6 +120,9 @@ interface LeaseTerms {
   securityDeposit: number;
   lateFeeAmount: number;
   lateFeeType: "FLAT" | "PERCENTAGE";
+  lateFeeAccrual: "ONE_TIME" | "DAILY";
+  lateFeeDailyAmount: number;
+  lateFeeMaxAmount: number;
   gracePeriodDays: number;
   rentDueDay: number;
 }
@@ -717,6 +763,82 @@ function StepTenants({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Template picker (top of Step 3)
+// ---------------------------------------------------------------------------
+
+function TemplatePicker({
+  state,
+  applied,
+  onApply,
+  onClear,
+}: {
+  state?: string;
+  applied: AppliedTemplate | null;
+  onApply: (template: LeaseTemplateDetail) => void;
+  onClear: () => void;
+}) {
+  const { toast } = useToast();
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ["lease-templates", state ?? "all"],
+    queryFn: () =>
+      api<{ data: LeaseTemplateSummary[] }>("/lease-templates", {
+        params: state ? { state } : {},
+      }),
+  });
+  const templates = data?.data ?? [];
+
+  const handleChange = async (id: string) => {
+    if (!id) {
+      onClear();
+      return;
+    }
+    setLoadingId(id);
+    try {
+      onApply(await api<LeaseTemplateDetail>(`/lease-templates/${id}`));
+    } catch {
+      toast("Failed to load template", "error");
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  if (templates.length === 0 && !applied) return null;
+
+  return (
+    <div className="rounded-xl border bg-white p-6">
+      <h3 className="mb-1 font-semibold">Template</h3>
+      <p className="mb-4 text-sm text-gray-500">
+        Starts the lease with the template's clauses, rent and fee settings.
+        Choosing a template replaces the clauses you've edited.
+      </p>
+      <select
+        value={applied?.templateId ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={loadingId !== null}
+        className={inputCls}
+      >
+        <option value="">No template</option>
+        {templates.map((t) => (
+          <option key={t.id} value={t.id}>
+            {t.name}
+            {t.state ? ` (${t.state})` : ""} — v{t.currentVersion}
+          </option>
+        ))}
+      </select>
+      {applied && (
+        <p className="mt-2 text-xs text-gray-500">
+          Using {applied.name}
+          {applied.state ? ` (${applied.state})` : ""}, version{" "}
+          {applied.version}
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Step 3: Lease Terms
 // ---------------------------------------------------------------------------
@@ -725,10 +847,12 @@ function StepLeaseTerms({
   terms,
   setTerms,
   unitRent,
+  templatePicker,
 }: {
   terms: LeaseTerms;
   setTerms: React.Dispatch<React.SetStateAction<LeaseTerms>>;
   unitRent: number;
+  templatePicker: React.ReactNode;
 }) {
   const handleTermShortcut = (months: number | "mtm") => {
     if (!terms.startDate) return;
@@ -771,6 +895,8 @@ function StepLeaseTerms({
       <h2 className="mb-4 text-xl font-bold">Lease Terms</h2>
 
       <div className="space-y-6">
+        {templatePicker}
+
         {/* Dates */}
         <div className="rounded-xl border bg-white p-6">
           <h3 className="mb-4 font-semibold">Lease Period</h3>
@@ -958,6 +1084,76 @@ function StepLeaseTerms({
                 </label>
               </div>
             </div>
+            <div>
+              <label className={labelCls}>Late Fee Accrual</label>
+              <div className="mt-1 flex gap-4">
+                <label className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="lateFeeAccrual"
+                    checked={terms.lateFeeAccrual === "ONE_TIME"}
+                    onChange={() =>
+                      setTerms((prev) => ({
+                        ...prev,
+                        lateFeeAccrual: "ONE_TIME",
+                      }))
+                    }
+                    className="h-4 w-4 text-blue-600"
+                  />
+                  One-time
+                </label>
+                <label className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="lateFeeAccrual"
+                    checked={terms.lateFeeAccrual === "DAILY"}
+                    onChange={() =>
+                      setTerms((prev) => ({
+                        ...prev,
+                        lateFeeAccrual: "DAILY",
+                      }))
+                    }
+                    className="h-4 w-4 text-blue-600"
+                  />
+                  Daily
+                </label>
+              </div>
+            </div>
+            <div>
+              <label className={labelCls}>Maximum Late Fee per Month</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={terms.lateFeeMaxAmount || ""}
+                placeholder="No cap"
+                onChange={(e) =>
+                  setTerms((prev) => ({
+                    ...prev,
+                    lateFeeMaxAmount: parseFloat(e.target.value) || 0,
+                  }))
+                }
+                className={inputCls}
+              />
+            </div>
+            {terms.lateFeeAccrual === "DAILY" && (
+              <div>
+                <label className={labelCls}>Additional Fee per Day Late</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={terms.lateFeeDailyAmount}
+                  onChange={(e) =>
+                    setTerms((prev) => ({
+                      ...prev,
+                      lateFeeDailyAmount: parseFloat(e.target.value) || 0,
+                    }))
+                  }
+                  className={inputCls}
+                />
+              </div>
+            )}
             <div>
               <label className={labelCls}>Grace Period (days)</label>
               <input
@@ -1015,13 +1211,23 @@ function StepLeaseTerms({
 function StepClauses({
   clauses,
   setClauses,
+  mergeErrors,
 }: {
   clauses: Clause[];
   setClauses: React.Dispatch<React.SetStateAction<Clause[]>>;
+  mergeErrors: Record<string, string[]>;
 }) {
   const [newClauseTitle, setNewClauseTitle] = useState("");
   const [newClauseContent, setNewClauseContent] = useState("");
 
+  const { data: libraryData } = useQuery({
+    queryKey: ["lease-clauses"],
+    queryFn: () => api<{ data: LibraryClause[] }>("/lease-templates/clauses"),
+  });
+  const library = (libraryData?.data ?? []).filter(
+    (lc) => !clauses.some((c) => c.id === `library-${lc.id}`),
+  );
+
   const { isLoading } = useQuery({
     queryKey: ["default-clauses"],
     queryFn: () => api<{ data: Clause[] }>("/leases/default-clauses"),
@@ -1078,6 +1284,21 @@ function StepClauses({
     setClauses((prev) => prev.filter((c) => c.id !== id));
   };
 
+  const addLibraryClause = (id: string) => {
+    const clause = library.find((lc) => lc.id === id);
+    if (!clause) return;
+    setClauses((prev) => [
+      ...prev,
+      {
+        id: `library-${clause.id}`,
+        title: clause.title,
+        content: clause.content,
+        enabled: true,
+        isCustom: true,
+      },
+    ]);
+  };
+
   const addCustomClause = () => {
     if (!newClauseTitle.trim()) return;
     const clause: Clause = {
@@ -1096,6 +1317,10 @@ function StepClauses({
     <div>
       <h2 className="mb-4 text-xl font-bold">Clauses & Terms</h2>
 
+      <div className="mb-4">
+        <MergeFieldReference />
+      </div>
+
       {isLoading && clauses.length === 0 ? (
         <div className="flex justify-center py-12">
           <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
@@ -1171,10 +1396,37 @@ function StepClauses({
                     className="w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
                   />
                 )}
+                {clause.enabled &&
+                  mergeErrors[clause.id]?.map((message) => (
+                    <p key={message} className={errorCls}>
+                      {message}
+                    </p>
+                  ))}
               </div>
             ))}
           </div>
 
+          {library.length > 0 && (
+            <div className="mt-6 rounded-xl border bg-white p-5">
+              <h3 className="mb-3 text-sm font-semibold text-gray-500">
+                Add From Clause Library
+              </h3>
+              <select
+                value=""
+                onChange={(e) => addLibraryClause(e.target.value)}
+                className={inputCls}
+              >
+                <option value="">Choose a clause...</option>
+                {library.map((lc) => (
+                  <option key={lc.id} value={lc.id}>
+                    {lc.category ? `${lc.category}: ` : ""}
+                    {lc.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Add custom clause */}
           <div className="mt-6 rounded-xl border bg-white p-5">
             <h3 className="mb-3 text-sm font-semibold text-gray-500">
@@ -1350,6 +1602,13 @@ function StepReview({
                   ({terms.lateFeeType.toLowerCase()})
                 </span>
               </p>
+              {terms.lateFeeAccrual === "DAILY" && (
+                <p className="text-xs text-gray-500">
+                  + {currency(terms.lateFeeDailyAmount)}/day
+                  {terms.lateFeeMaxAmount > 0 &&
+                    `, max ${currency(terms.lateFeeMaxAmount)}`}
+                </p>
+              )}
             </div>
             <div className="rounded-lg bg-gray-50 p-3">
               <p className="text-xs text-gray-500">Grace Period</p>
@@ -1458,10 +1717,59 @@ export default function LeaseBuilder() {
     securityDeposit: 0,
     lateFeeAmount: 50,
     lateFeeType: "FLAT",
+    lateFeeAccrual: "ONE_TIME",
+    lateFeeDailyAmount: 0,
+    lateFeeMaxAmount: 0,
     gracePeriodDays: 5,
     rentDueDay: 1,
   });
   const [clauses, setClauses] = useState<Clause[]>([]);
+  const [appliedTemplate, setAppliedTemplate] =
+    useState<AppliedTemplate | null>(null);
+  const mergeErrors = useMergeFieldErrors(
+    clauses
+      .filter((c) => c.enabled)
+      .map((c) => ({ id: c.id, content: c.content })),
+  );
+
+  const applyTemplate = useCallback(
+    (template: LeaseTemplateDetail) => {
+      const v = template.current;
+      const unitRent = Number(selectedUnit?.rent) || 0;
+      const rent = v.monthlyRent !== null ? Number(v.monthlyRent) : unitRent;
+      setTerms((prev) => ({
+        ...prev,
+        monthlyRent: rent,
+        securityDeposit:
+          v.securityDeposit !== null ? Number(v.securityDeposit) : rent,
+        lateFeeAmount:
+          v.lateFeeAmount !== null ? Number(v.lateFeeAmount) : prev.lateFeeAmount,
+        lateFeeType: v.lateFeeType,
+        lateFeeAccrual: v.lateFeeAccrual,
+        lateFeeDailyAmount: Number(v.lateFeeDailyAmount ?? 0),
+        lateFeeMaxAmount: Number(v.lateFeeMaxAmount ?? 0),
+        gracePeriodDays: v.gracePeriodDays,
+        rentDueDay: v.rentDueDay,
+      }));
+      setClauses(
+        v.clauses.map((c, idx) => ({
+          id: c.clauseId ? `library-${c.clauseId}` : `template-${idx}`,
+          title: c.title,
+          content: c.content,
+          enabled: true,
+          isCustom: false,
+        })),
+      );
+      setAppliedTemplate({
+        templateId: template.id,
+        versionId: v.id,
+        version: v.version,
+        name: template.name,
+        state: template.state,
+      });
+    },
+    [selectedUnit],
+  );
 
   // When unit is selected, pre-fill rent
   const handleUnitSelect = useCallback(
@@ -1491,6 +1799,13 @@ export default function LeaseBuilder() {
         securityDeposit: terms.securityDeposit,
         lateFeeAmount: terms.lateFeeAmount,
         lateFeeType: terms.lateFeeType,
+        lateFeeAccrual: terms.lateFeeAccrual,
+        ...(terms.lateFeeAccrual === "DAILY"
+          ? { lateFeeDailyAmount: terms.lateFeeDailyAmount }
+          : {}),
+        ...(terms.lateFeeMaxAmount > 0
+          ? { lateFeeMaxAmount: terms.lateFeeMaxAmount }
+          : {}),
         gracePeriodDays: terms.gracePeriodDays,
         rentDueDay: terms.rentDueDay,
         terms: {
@@ -1502,9 +1817,12 @@ export default function LeaseBuilder() {
               order: idx,
             })),
         },
+        ...(appliedTemplate
+          ? { templateVersionId: appliedTemplate.versionId }
+          : {}),
       };
     },
-    [selectedUnit, selectedTenants, terms, clauses],
+    [selectedUnit, selectedTenants, terms, clauses, appliedTemplate],
   );
 
   // Save as Draft mutation
@@ -1569,14 +1887,14 @@ export default function LeaseBuilder() {
             new Date(terms.endDate) > new Date(terms.startDate)
           );
         case 3:
-          return true; // Clauses are optional
+          return Object.keys(mergeErrors).length === 0; // Clauses are optional
         case 4:
           return true;
         default:
           return false;
       }
     },
-    [selectedUnit, selectedTenants, terms],
+    [selectedUnit, selectedTenants, terms, mergeErrors],
   );
 
   const goNext = () => {
@@ -1628,10 +1946,22 @@ export default function LeaseBuilder() {
             terms={terms}
             setTerms={setTerms}
             unitRent={Number(selectedUnit?.rent ?? 0)}
+            templatePicker={
+              <TemplatePicker
+                state={selectedUnit?.property?.state}
+                applied={appliedTemplate}
+                onApply={applyTemplate}
+                onClear={() => setAppliedTemplate(null)}
+              />
+            }
           />
         )}
         {currentStep === 3 && (
-          <StepClauses clauses={clauses} setClauses={setClauses} />
+          <StepClauses
+            clauses={clauses}
+            setClauses={setClauses}
+            mergeErrors={mergeErrors}
+          />
         )}
         {currentStep === 4 && selectedUnit && (
           <StepReview
@@ -31,8 +31,12 @@ import {
   Upload,
   ChevronDown,
   Save,
+  Receipt,
+  Repeat,
 } from "lucide-react";
 import DocumentViewer from "@/components/DocumentViewer";
+import SignedLink from "@/components/SignedLink";
+import Modal from "@/components/Modal";
 
 function currency(n: number) {
   return new Intl.NumberFormat("en-US", {
@@ -307,6 +311,577 @@ function SignaturePad({
   );
 }
 
+const ledgerTypeLabels: Record<string, string> = {
+  RENT: "Rent",
+  LATE_FEE: "Late Fee",
+  DEPOSIT: "Deposit",
+  CREDIT: "Credit",
+  ADJUSTMENT: "Adjustment",
+  PAYMENT: "Payment",
+};
+
+function LeaseLedger({ leaseId }: { leaseId: string }) {
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [entryType, setEntryType] = useState("CREDIT");
+  const [entryAmount, setEntryAmount] = useState("");
+  const [entryDate, setEntryDate] = useState(
+    new Date().toISOString().slice(0, 10)
+  );
+  const [entryDescription, setEntryDescription] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["lease-ledger", leaseId],
+    queryFn: () =>
+      api<{ entries: any[]; summary: any }>(`/leases/${leaseId}/ledger`),
+  });
+
+  const addEntry = useMutation({
+    mutationFn: () =>
+      api(`/leases/${leaseId}/ledger`, {
+        method: "POST",
+        body: JSON.stringify({
+          type: entryType,
+          amount: Number(entryAmount),
+          date: entryDate,
+          description: entryDescription,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lease-ledger", leaseId] });
+      setShowForm(false);
+      setEntryAmount("");
+      setEntryDescription("");
+      setFormError(null);
+    },
+    onError: (err: any) =>
+      setFormError(err?.data?.error ?? err?.message ?? "Failed to add entry"),
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: (entryId: string) =>
+      api(`/leases/${leaseId}/ledger/${entryId}`, { method: "DELETE" }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ["lease-ledger", leaseId] }),
+  });
+
+  const entries = data?.entries ?? [];
+  const summary = data?.summary;
+
+  return (
+    <div className="mt-6 rounded-xl border bg-white p-5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold">
+          <Receipt className="h-4 w-4 text-blue-600" />
+          Ledger
+        </h2>
+        <button
+          onClick={() => setShowForm((v) => !v)}
+          className="flex items-center gap-1 rounded-lg border px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-50"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add Entry
+        </button>
+      </div>
+
+      {summary && (
+        <div className="mb-4 grid gap-3 sm:grid-cols-3">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500">Balance</p>
+            <p className="font-semibold">{currency(summary.balance)}</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500">Past Due</p>
+            <p
+              className={`font-semibold ${summary.pastDue > 0 ? "text-red-600" : ""}`}
+            >
+              {currency(summary.pastDue)}
+            </p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500">Unapplied Credit</p>
+            <p className="font-semibold">{currency(summary.unappliedCredit)}</p>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addEntry.mutate();
+          }}
+          className="mb-4 grid gap-3 rounded-lg border border-gray-200 p-3 sm:grid-cols-4"
+        >
+          <select
+            value={entryType}
+            onChange={(e) => setEntryType(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="CREDIT">Credit</option>
+            <option value="ADJUSTMENT">Adjustment</option>
+            <option value="DEPOSIT">Deposit</option>
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            required
+            value={entryAmount}
+            onChange={(e) => setEntryAmount(e.target.value)}
+            placeholder="Amount"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="date"
+            required
+            value={entryDate}
+            onChange={(e) => setEntryDate(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            required
+            value={entryDescription}
+            onChange={(e) => setEntryDescription(e.target.value)}
+            placeholder="Description"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <p className="text-xs text-gray-400 sm:col-span-3">
+            Adjustments are charges when positive and credits when negative.
+          </p>
+          <button
+            type="submit"
+            disabled={addEntry.isPending}
+            className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {addEntry.isPending ? "Saving..." : "Save Entry"}
+          </button>
+          {formError && (
+            <p className="text-sm text-red-600 sm:col-span-4">{formError}</p>
+          )}
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-400">No ledger entries yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b text-xs uppercase text-gray-500">
+              <tr>
+                <th className="pb-2 pr-4">Date</th>
+                <th className="pb-2 pr-4">Description</th>
+                <th className="pb-2 pr-4">Type</th>
+                <th className="pb-2 pr-4 text-right">Amount</th>
+                <th className="pb-2 pr-4 text-right">Balance</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {entries.map((e: any) => (
+                <tr key={e.id}>
+                  <td className="py-2.5 pr-4 text-gray-500">
+                    {new Date(e.date).toLocaleDateString("en-US", {
+                      year: "numeric",
+                      month: "short",
+                      day: "numeric",
+                      timeZone: "UTC",
+                    })}
+                  </td>
+                  <td className="py-2.5 pr-4">
+                    {e.description}
+                    {e.outstanding > 0 && (
+                      <span className="ml-2 text-xs text-red-500">
+                        {currency(e.outstanding)} open
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2.5 pr-4 text-gray-500">
+                    {ledgerTypeLabels[e.type] ?? e.type}
+                  </td>
+                  <td
+                    className={`py-2.5 pr-4 text-right font-medium ${e.amount < 0 ? "text-green-600" : ""}`}
+                  >
+                    {currency(e.amount)}
+                  </td>
+                  <td className="py-2.5 pr-4 text-right text-gray-500">
+                    {currency(e.balance)}
+                  </td>
+                  <td className="py-2.5 text-right">
+                    {e.isManual && (
+                      <button
+                        onClick={() => {
+                          if (confirm("Delete this ledger entry?")) {
+                            deleteEntry.mutate(e.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete entry"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Renewals
+// ---------------------------------------------------------------------------
+const renewalStatusColors: Record<string, string> = {
+  PENDING: "bg-yellow-100 text-yellow-700",
+  ACCEPTED: "bg-blue-100 text-blue-700",
+  DECLINED: "bg-red-100 text-red-700",
+  WITHDRAWN: "bg-gray-100 text-gray-600",
+  EXPIRED: "bg-gray-100 text-gray-600",
+  COMPLETED: "bg-green-100 text-green-700",
+};
+
+const renewalStatusLabels: Record<string, string> = {
+  PENDING: "Awaiting Response",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+  WITHDRAWN: "Withdrawn",
+  EXPIRED: "Expired",
+  COMPLETED: "Renewed",
+};
+
+/** `YYYY-MM-DD` for a date input, shifted by whole UTC days and months. */
+function shiftDate(iso: string, { days = 0, months = 0 }: { days?: number; months?: number }) {
+  const d = new Date(iso);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function roundCents(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function RenewalOfferModal({
+  lease,
+  open,
+  onClose,
+}: {
+  lease: any;
+  open: boolean;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const currentRent = Number(lease.monthlyRent);
+  const defaultStart = shiftDate(lease.endDate, { days: 1 });
+
+  const [startDate, setStartDate] = useState(defaultStart);
+  const [endDate, setEndDate] = useState(shiftDate(defaultStart, { months: 12, days: -1 }));
+  const [increaseType, setIncreaseType] = useState<"PERCENT" | "FLAT">("PERCENT");
+  const [increaseValue, setIncreaseValue] = useState("0");
+  const [monthlyRent, setMonthlyRent] = useState(String(currentRent));
+  const [securityDeposit, setSecurityDeposit] = useState(String(Number(lease.securityDeposit)));
+  const [respondBy, setRespondBy] = useState("");
+  const [message, setMessage] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const applyIncrease = (type: "PERCENT" | "FLAT", value: string) => {
+    setIncreaseType(type);
+    setIncreaseValue(value);
+    const amount = Number(value) || 0;
+    const rent = type === "PERCENT" ? currentRent * (1 + amount / 100) : currentRent + amount;
+    setMonthlyRent(String(roundCents(Math.max(rent, 0))));
+  };
+
+  const offerRenewal = useMutation({
+    mutationFn: () =>
+      api(`/leases/${lease.id}/renewals`, {
+        method: "POST",
+        body: JSON.stringify({
+          startDate,
+          endDate,
+          monthlyRent: Number(monthlyRent),
+          securityDeposit: Number(securityDeposit),
+          ...(respondBy ? { respondBy } : {}),
+          ...(message.trim() ? { message: message.trim() } : {}),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lease", lease.id] });
+      setFormError(null);
+      onClose();
+    },
+    onError: (err: any) =>
+      setFormError(
+        err?.data?.error?.message ?? err?.message ?? "Failed to send renewal offer"
+      ),
+  });
+
+  const change = roundCents(Number(monthlyRent) - currentRent);
+
+  return (
+    <Modal open={open} onClose={onClose} title="Offer Renewal">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          offerRenewal.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="text-sm">
+            <span className="mb-1 block font-medium text-gray-700">New Start Date</span>
+            <input
+              type="date"
+              required
+              min={defaultStart}
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="mb-1 block font-medium text-gray-700">New End Date</span>
+            <input
+              type="date"
+              required
+              min={startDate}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+        <div className="flex gap-2 text-xs">
+          {[6, 12, 24].map((months) => (
+            <button
+              key={months}
+              type="button"
+              onClick={() => setEndDate(shiftDate(startDate, { months, days: -1 }))}
+              className="rounded-full border px-2.5 py-1 text-gray-600 hover:bg-gray-50"
+            >
+              {months} months
+            </button>
+          ))}
+        </div>
+
+        <div className="rounded-lg bg-gray-50 p-3">
+          <p className="mb-2 text-sm font-medium text-gray-700">
+            Rent increase{" "}
+            <span className="font-normal text-gray-500">(currently {currency(currentRent)})</span>
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <select
+              value={increaseType}
+              onChange={(e) => applyIncrease(e.target.value as "PERCENT" | "FLAT", increaseValue)}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="PERCENT">Percent</option>
+              <option value="FLAT">Flat amount</option>
+            </select>
+            <input
+              type="number"
+              step={increaseType === "PERCENT" ? "0.1" : "0.01"}
+              value={increaseValue}
+              onChange={(e) => applyIncrease(increaseType, e.target.value)}
+              placeholder={increaseType === "PERCENT" ? "%" : "$"}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              required
+              value={monthlyRent}
+              onChange={(e) => setMonthlyRent(e.target.value)}
+              title="New monthly rent"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-semibold"
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {change === 0
+              ? "Rent stays the same."
+              : `${change > 0 ? "+" : "\u2212"}${currency(Math.abs(change))} per month${
+                  currentRent > 0
+                    ? ` (${change > 0 ? "+" : "\u2212"}${Math.abs((change / currentRent) * 100).toFixed(1)}%)`
+                    : ""
+                }`}
+          </p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="text-sm">
+            <span className="mb-1 block font-medium text-gray-700">Security Deposit</span>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              required
+              value={securityDeposit}
+              onChange={(e) => setSecurityDeposit(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="mb-1 block font-medium text-gray-700">Respond By (optional)</span>
+            <input
+              type="date"
+              max={shiftDate(startDate, { days: -1 })}
+              value={respondBy}
+              onChange={(e) => setRespondBy(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+
+        <label className="block text-sm">
+          <span className="mb-1 block font-medium text-gray-700">Message to Tenants (optional)</span>
+          <textarea
+            rows={3}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={offerRenewal.isPending}
+            className="inline-flex items-center gap-1.5 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+            {offerRenewal.isPending ? "Sending..." : "Send Offer"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function LeaseRenewals({ lease }: { lease: any }) {
+  const queryClient = useQueryClient();
+  const [showOffer, setShowOffer] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const renewals: any[] = lease.renewals ?? [];
+  const hasOpenOffer = renewals.some((r) => r.status === "PENDING" || r.status === "ACCEPTED");
+
+  const withdraw = useMutation({
+    mutationFn: (renewalId: string) =>
+      api(`/leases/${lease.id}/renewals/${renewalId}/withdraw`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lease", lease.id] });
+      setError(null);
+    },
+    onError: (err: any) =>
+      setError(err?.data?.error?.message ?? err?.message ?? "Failed to withdraw offer"),
+  });
+
+  return (
+    <div className="mt-6 rounded-xl border bg-white p-5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold">
+          <Repeat className="h-4 w-4 text-blue-600" />
+          Renewal
+        </h2>
+        {lease.status === "ACTIVE" && !hasOpenOffer && (
+          <button
+            onClick={() => setShowOffer(true)}
+            className="flex items-center gap-1 rounded-lg border px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Offer Renewal
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      {renewals.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          No renewal offered. The lease ends {fmtDate(lease.endDate)}.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {renewals.map((r) => (
+            <div key={r.id} className="flex flex-wrap items-start justify-between gap-3 py-3 first:pt-0 last:pb-0">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {fmtDate(r.startDate)} &ndash; {fmtDate(r.endDate)} at {currency(Number(r.monthlyRent))}/mo
+                  {Number(r.monthlyRent) !== Number(r.previousRent) && (
+                    <span className="ml-1 font-normal text-gray-500">
+                      (was {currency(Number(r.previousRent))})
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Offered {fmtDate(r.createdAt)}
+                  {r.respondBy && r.status === "PENDING" && ` \u00b7 respond by ${fmtDate(r.respondBy)}`}
+                  {r.respondedAt &&
+                    ` \u00b7 ${r.status === "DECLINED" ? "declined" : "accepted"} ${fmtDate(r.respondedAt)}${
+                      r.respondedBy ? ` by ${r.respondedBy.firstName} ${r.respondedBy.lastName}` : ""
+                    }`}
+                </p>
+                {r.declineReason && (
+                  <p className="mt-1 text-xs text-gray-600">&ldquo;{r.declineReason}&rdquo;</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${renewalStatusColors[r.status] ?? "bg-gray-100 text-gray-600"}`}
+                >
+                  {renewalStatusLabels[r.status] ?? r.status}
+                </span>
+                {r.successorLease && (
+                  <Link
+                    to={`/leases/${r.successorLease.id}`}
+                    className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:underline"
+                  >
+                    Renewed lease ({statusLabels[r.successorLease.status] ?? r.successorLease.status})
+                  </Link>
+                )}
+                {r.status === "PENDING" && (
+                  <button
+                    onClick={() => {
+                      if (confirm("Withdraw this renewal offer?")) withdraw.mutate(r.id);
+                    }}
+                    disabled={withdraw.isPending}
+                    className="text-xs font-medium text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Withdraw
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showOffer && (
+        <RenewalOfferModal lease={lease} open={showOffer} onClose={() => setShowOffer(false)} />
+      )}
+    </div>
+  );
+}
+
 const paymentStatusColors: Record<string, string> = {
   COMPLETED: "bg-green-100 text-green-700",
   PENDING: "bg-yellow-100 text-yellow-700",
@@ -663,6 +1238,19 @@ export default function LeaseDetail() {
               {property?.address}, {property?.city}, {property?.state}{" "}
               {property?.zip}
             </p>
+            {lease.renewedFrom && (
+              <p className="mt-1 flex items-center gap-1 text-sm text-gray-500">
+                <Repeat className="h-3.5 w-3.5" />
+                Renews the{" "}
+                <Link
+                  to={`/leases/${lease.renewedFrom.lease.id}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {fmtDate(lease.renewedFrom.lease.startDate)} &ndash;{" "}
+                  {fmtDate(lease.renewedFrom.lease.endDate)} lease
+                </Link>
+              </p>
+            )}
           </div>
           <span
             className={`rounded-full px-3 py-1 text-sm font-medium ${statusColors[status] ?? "bg-gray-100 text-gray-600"}`}
@@ -716,6 +1304,13 @@ export default function LeaseDetail() {
                   ? `${lease.lateFeeAmount}%`
                   : currency(Number(lease.lateFeeAmount))}
               </p>
+              {lease.lateFeeAccrual === "DAILY" && (
+                <p className="text-xs text-gray-500">
+                  + {currency(Number(lease.lateFeeDailyAmount ?? 0))}/day
+                  {lease.lateFeeMaxAmount != null &&
+                    `, max ${currency(Number(lease.lateFeeMaxAmount))}`}
+                </p>
+              )}
             </div>
           )}
           {lease.gracePeriodDays != null && (
@@ -757,6 +1352,26 @@ export default function LeaseDetail() {
               {lease.leaseType ?? "Standard"}
             </p>
           </div>
+          {lease.templateVersion && (
+            <div className="rounded-lg bg-gray-50 p-3">
+              <div className="flex items-center gap-1.5 text-xs text-gray-500">
+                <FileText className="h-3.5 w-3.5" />
+                Template
+              </div>
+              <p className="mt-1 text-sm font-bold">
+                {lease.templateVersion.template.name}
+                {lease.templateVersion.template.state &&
+                  ` (${lease.templateVersion.template.state})`}{" "}
+                v{lease.templateVersion.version}
+              </p>
+              {lease.templateVersion.template.currentVersion >
+                lease.templateVersion.version && (
+                <p className="text-xs text-gray-500">
+                  Latest is v{lease.templateVersion.template.currentVersion}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -803,15 +1418,15 @@ export default function LeaseDetail() {
               Resend Email
             </button>
             {lease.documentUrl && (
-              <a
-                href={lease.documentUrl}
+              <SignedLink
+                url={lease.documentPdfUrl ?? lease.documentUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-flex items-center gap-1.5 rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
               >
                 <ExternalLink className="h-4 w-4" />
                 View Document
-              </a>
+              </SignedLink>
             )}
             <button
               onClick={handleTerminate}
@@ -829,23 +1444,23 @@ export default function LeaseDetail() {
           <>
             {lease.documentUrl && (
               <>
-                <a
-                  href={lease.documentUrl}
+                <SignedLink
+                  url={lease.documentPdfUrl ?? lease.documentUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center gap-1.5 rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
                 >
                   <ExternalLink className="h-4 w-4" />
                   View Document
-                </a>
-                <a
-                  href={lease.documentUrl}
+                </SignedLink>
+                <SignedLink
+                  url={lease.documentPdfUrl ?? lease.documentUrl}
                   download
                   className="inline-flex items-center gap-1.5 rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
                 >
                   <Download className="h-4 w-4" />
-                  Download
-                </a>
+                  {lease.documentPdfUrl ? "Download PDF" : "Download"}
+                </SignedLink>
               </>
             )}
             {!lease.landlordSignedAt && (
@@ -905,15 +1520,15 @@ export default function LeaseDetail() {
         {status === "EXPIRED" && (
           <>
             {lease.documentUrl && (
-              <a
-                href={lease.documentUrl}
+              <SignedLink
+                url={lease.documentPdfUrl ?? lease.documentUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-flex items-center gap-1.5 rounded-lg border bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
               >
                 <ExternalLink className="h-4 w-4" />
                 View Document
-              </a>
+              </SignedLink>
             )}
             <Link
               to={`/leases/new?renewFrom=${id}`}
@@ -1117,23 +1732,23 @@ export default function LeaseDetail() {
                       <>
                         {a.documentUrl && (
                           <>
-                            <a
-                              href={a.documentUrl}
+                            <SignedLink
+                              url={a.documentPdfUrl ?? a.documentUrl}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50"
                             >
                               <ExternalLink className="h-3 w-3" />
                               View Document
-                            </a>
-                            <a
-                              href={a.documentUrl}
+                            </SignedLink>
+                            <SignedLink
+                              url={a.documentPdfUrl ?? a.documentUrl}
                               download
                               className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-200"
                             >
                               <Download className="h-3 w-3" />
-                              Download
-                            </a>
+                              {a.documentPdfUrl ? "Download PDF" : "Download"}
+                            </SignedLink>
                           </>
                         )}
                         {!a.landlordSignedAt && (
@@ -1154,15 +1769,15 @@ export default function LeaseDetail() {
 
                     {/* VOID - show document link if available */}
                     {a.status === "VOID" && a.documentUrl && (
-                      <a
-                        href={a.documentUrl}
+                      <SignedLink
+                        url={a.documentPdfUrl ?? a.documentUrl}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-medium text-gray-500 hover:bg-gray-200"
                       >
                         <ExternalLink className="h-3 w-3" />
                         View Document
-                      </a>
+                      </SignedLink>
                     )}
                   </div>
 
@@ -1206,7 +1821,7 @@ export default function LeaseDetail() {
             <FileText className="h-4 w-4 text-blue-600" />
             Lease Document
           </h2>
-          <DocumentViewer documentUrl={lease.documentUrl} />
+          <DocumentViewer documentUrl={lease.documentPdfUrl ?? lease.documentUrl} />
         </div>
       )}
 
@@ -1262,6 +1877,14 @@ export default function LeaseDetail() {
         )}
       </div>
 
+      {/* Renewal */}
+      {(status === "ACTIVE" || (lease.renewals ?? []).length > 0) && (
+        <LeaseRenewals lease={lease} />
+      )}
+
+      {/* Ledger */}
+      {lease.status !== "DRAFT" && <LeaseLedger leaseId={lease.id} />}
+
       {/* Recent Payments */}
       <div className="mt-6 rounded-xl border bg-white p-5">
         <h2 className="mb-4 flex items-center gap-2 font-semibold">
@@ -0,0 +1,661 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/components/Toast";
+import Modal from "@/components/Modal";
+import { ArrowLeft, ChevronDown, ChevronUp, FileText, Library, Trash2 } from "lucide-react";
+
+interface LibraryClause {
+  id: string;
+  title: string;
+  content: string;
+  category: string | null;
+}
+
+interface TemplateClause {
+  clauseId: string | null;
+  title: string;
+  content: string;
+}
+
+interface LeaseTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  state: string | null;
+  currentVersion: number;
+  updatedAt: string;
+}
+
+interface LeaseTemplateDetail extends LeaseTemplate {
+  current: {
+    clauses: TemplateClause[];
+    monthlyRent: string | null;
+    securityDeposit: string | null;
+    lateFeeAmount: string | null;
+    lateFeeType: "FLAT" | "PERCENTAGE";
+    lateFeeAccrual: "ONE_TIME" | "DAILY";
+    lateFeeDailyAmount: string | null;
+    lateFeeMaxAmount: string | null;
+    gracePeriodDays: number;
+    rentDueDay: number;
+  };
+  versions: { id: string; version: number; createdAt: string; _count: { leases: number } }[];
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  state: string;
+  clauses: TemplateClause[];
+  monthlyRent: string;
+  securityDeposit: string;
+  lateFeeAmount: string;
+  lateFeeType: "FLAT" | "PERCENTAGE";
+  lateFeeAccrual: "ONE_TIME" | "DAILY";
+  lateFeeDailyAmount: string;
+  lateFeeMaxAmount: string;
+  gracePeriodDays: string;
+  rentDueDay: string;
+  versions?: LeaseTemplateDetail["versions"];
+}
+
+interface ClauseDraft {
+  id?: string;
+  title: string;
+  content: string;
+  category: string;
+}
+
+const EMPTY_TEMPLATE: TemplateDraft = {
+  name: "",
+  description: "",
+  state: "",
+  clauses: [],
+  monthlyRent: "",
+  securityDeposit: "",
+  lateFeeAmount: "50",
+  lateFeeType: "FLAT",
+  lateFeeAccrual: "ONE_TIME",
+  lateFeeDailyAmount: "",
+  lateFeeMaxAmount: "",
+  gracePeriodDays: "5",
+  rentDueDay: "1",
+};
+
+const EMPTY_CLAUSE: ClauseDraft = { title: "", content: "", category: "" };
+
+const inputCls =
+  "w-full rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200";
+
+function amount(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function toDraft(t: LeaseTemplateDetail): TemplateDraft {
+  const v = t.current;
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description ?? "",
+    state: t.state ?? "",
+    clauses: v.clauses,
+    monthlyRent: v.monthlyRent ?? "",
+    securityDeposit: v.securityDeposit ?? "",
+    lateFeeAmount: v.lateFeeAmount ?? "",
+    lateFeeType: v.lateFeeType,
+    lateFeeAccrual: v.lateFeeAccrual,
+    lateFeeDailyAmount: v.lateFeeDailyAmount ?? "",
+    lateFeeMaxAmount: v.lateFeeMaxAmount ?? "",
+    gracePeriodDays: String(v.gracePeriodDays),
+    rentDueDay: String(v.rentDueDay),
+    versions: t.versions,
+  };
+}
+
+/** Organization lease templates and the clause library they draw from. */
+export default function LeaseTemplates() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [clauseDraft, setClauseDraft] = useState<ClauseDraft | null>(null);
+
+  const { data: templatesData, isLoading } = useQuery({
+    queryKey: ["lease-templates", "all"],
+    queryFn: () => api<{ data: LeaseTemplate[] }>("/lease-templates"),
+  });
+  const { data: clausesData } = useQuery({
+    queryKey: ["lease-clauses"],
+    queryFn: () => api<{ data: LibraryClause[] }>("/lease-templates/clauses"),
+  });
+  const templates = templatesData?.data ?? [];
+  const library = clausesData?.data ?? [];
+
+  const onError = (fallback: string) => (err: any) =>
+    toast(err?.data?.error?.message || fallback, "error");
+
+  const openTemplate = useMutation({
+    mutationFn: (id: string) => api<LeaseTemplateDetail>(`/lease-templates/${id}`),
+    onSuccess: (t) => setTemplateDraft(toDraft(t)),
+    onError: onError("Failed to load template"),
+  });
+
+  const saveTemplate = useMutation({
+    mutationFn: ({ id, versions: _versions, ...d }: TemplateDraft) =>
+      api(id ? `/lease-templates/${id}` : "/lease-templates", {
+        method: id ? "PATCH" : "POST",
+        body: JSON.stringify({
+          name: d.name,
+          description: d.description || (id ? null : undefined),
+          state: d.state || null,
+          clauses: d.clauses,
+          monthlyRent: amount(d.monthlyRent),
+          securityDeposit: amount(d.securityDeposit),
+          lateFeeAmount: amount(d.lateFeeAmount),
+          lateFeeType: d.lateFeeType,
+          lateFeeAccrual: d.lateFeeAccrual,
+          lateFeeDailyAmount: amount(d.lateFeeDailyAmount),
+          lateFeeMaxAmount: amount(d.lateFeeMaxAmount),
+          gracePeriodDays: Number(d.gracePeriodDays || 0),
+          rentDueDay: Number(d.rentDueDay || 1),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lease-templates"] });
+      toast("Template saved");
+      setTemplateDraft(null);
+    },
+    onError: onError("Failed to save template"),
+  });
+
+  const archiveTemplate = useMutation({
+    mutationFn: (id: string) => api(`/lease-templates/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["lease-templates"] }),
+    onError: onError("Failed to archive template"),
+  });
+
+  const saveClause = useMutation({
+    mutationFn: ({ id, ...d }: ClauseDraft) =>
+      api(id ? `/lease-templates/clauses/${id}` : "/lease-templates/clauses", {
+        method: id ? "PATCH" : "POST",
+        body: JSON.stringify({
+          title: d.title,
+          content: d.content,
+          category: d.category || (id ? null : undefined),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lease-clauses"] });
+      toast("Clause saved");
+      setClauseDraft(null);
+    },
+    onError: onError("Failed to save clause"),
+  });
+
+  const archiveClause = useMutation({
+    mutationFn: (id: string) => api(`/lease-templates/clauses/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["lease-clauses"] }),
+    onError: onError("Failed to archive clause"),
+  });
+
+  const importDefaults = useMutation({
+    mutationFn: () =>
+      api<{ imported: number }>("/lease-templates/clauses/import-defaults", { method: "POST" }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["lease-clauses"] });
+      toast(`Imported ${result.imported} clause${result.imported === 1 ? "" : "s"}`);
+    },
+    onError: onError("Failed to import clauses"),
+  });
+
+  const updateTemplateClauses = (fn: (clauses: TemplateClause[]) => TemplateClause[]) =>
+    setTemplateDraft((d) => d && { ...d, clauses: fn(d.clauses) });
+
+  const moveClause = (index: number, offset: number) =>
+    updateTemplateClauses((clauses) => {
+      const target = index + offset;
+      if (target < 0 || target >= clauses.length) return clauses;
+      const next = [...clauses];
+      [next[index], next[target]] = [next[target]!, next[index]!];
+      return next;
+    });
+
+  return (
+    <div>
+      <Link to="/leases" className="mb-4 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+        <ArrowLeft className="h-4 w-4" /> Leases
+      </Link>
+      <h1 className="mb-6 text-2xl font-bold">Lease Templates</h1>
+
+      <div className="rounded-xl border bg-white p-4">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 font-semibold"><FileText className="h-4 w-4" /> Templates</h2>
+          <button
+            onClick={() => setTemplateDraft(EMPTY_TEMPLATE)}
+            className="text-sm font-medium text-blue-600 hover:underline"
+          >
+            New template
+          </button>
+        </div>
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Templates hold the clauses and rent and fee defaults you use most, so new leases start from them.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {templates.map((t) => (
+              <div key={t.id} className="flex items-center gap-3 py-2 text-sm">
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {t.name}
+                    {t.state && (
+                      <span className="ml-2 rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700">{t.state}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Version {t.currentVersion}
+                    {t.description ? ` · ${t.description}` : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => openTemplate.mutate(t.id)}
+                  disabled={openTemplate.isPending}
+                  className="text-xs font-medium text-blue-600 hover:underline"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Archive ${t.name}? Leases already drafted from it are unaffected.`)) {
+                      archiveTemplate.mutate(t.id);
+                    }
+                  }}
+                  className="text-xs font-medium text-red-600 hover:underline"
+                >
+                  Archive
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 rounded-xl border bg-white p-4">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="flex items-center gap-2 font-semibold"><Library className="h-4 w-4" /> Clause Library</h2>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => importDefaults.mutate()}
+              disabled={importDefaults.isPending}
+              className="text-sm font-medium text-gray-600 hover:underline"
+            >
+              Import starter clauses
+            </button>
+            <button
+              onClick={() => setClauseDraft(EMPTY_CLAUSE)}
+              className="text-sm font-medium text-blue-600 hover:underline"
+            >
+              New clause
+            </button>
+          </div>
+        </div>
+        {library.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Save clauses you reuse across leases. Templates and the lease builder can pull from this library.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {library.map((c) => (
+              <div key={c.id} className="flex items-center gap-3 py-2 text-sm">
+                <div className="flex-1">
+                  <p className="font-medium">{c.title}</p>
+                  {c.category && <p className="text-xs text-gray-400">{c.category}</p>}
+                </div>
+                <button
+                  onClick={() =>
+                    setClauseDraft({ id: c.id, title: c.title, content: c.content, category: c.category ?? "" })
+                  }
+                  className="text-xs font-medium text-blue-600 hover:underline"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Archive ${c.title}? Templates that include it keep their copy.`)) {
+                      archiveClause.mutate(c.id);
+                    }
+                  }}
+                  className="text-xs font-medium text-red-600 hover:underline"
+                >
+                  Archive
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        open={!!templateDraft}
+        onClose={() => setTemplateDraft(null)}
+        title={templateDraft?.id ? "Edit template" : "New template"}
+      >
+        {templateDraft && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveTemplate.mutate(templateDraft);
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <label className="mb-1 block text-sm font-medium">Name</label>
+                <input
+                  required
+                  value={templateDraft.name}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">State</label>
+                <input
+                  value={templateDraft.state}
+                  maxLength={2}
+                  placeholder="All"
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, state: e.target.value.toUpperCase() })}
+                  className={inputCls}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">Description</label>
+              <input
+                value={templateDraft.description}
+                onChange={(e) => setTemplateDraft({ ...templateDraft, description: e.target.value })}
+                className={inputCls}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="mb-1 block text-sm font-medium">Monthly rent</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Unit's rent"
+                  value={templateDraft.monthlyRent}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, monthlyRent: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Security deposit</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="One month's rent"
+                  value={templateDraft.securityDeposit}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, securityDeposit: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Late fee</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={templateDraft.lateFeeAmount}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, lateFeeAmount: e.target.value })}
+                    className={inputCls}
+                  />
+                  <select
+                    value={templateDraft.lateFeeType}
+                    onChange={(e) =>
+                      setTemplateDraft({ ...templateDraft, lateFeeType: e.target.value as TemplateDraft["lateFeeType"] })
+                    }
+                    className="rounded-lg border px-2 text-sm"
+                  >
+                    <option value="FLAT">$</option>
+                    <option value="PERCENTAGE">%</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Late fee accrual</label>
+                <select
+                  value={templateDraft.lateFeeAccrual}
+                  onChange={(e) =>
+                    setTemplateDraft({ ...templateDraft, lateFeeAccrual: e.target.value as TemplateDraft["lateFeeAccrual"] })
+                  }
+                  className={inputCls}
+                >
+                  <option value="ONE_TIME">One time</option>
+                  <option value="DAILY">Daily</option>
+                </select>
+              </div>
+              {templateDraft.lateFeeAccrual === "DAILY" && (
+                <div>
+                  <label className="mb-1 block text-sm font-medium">Daily amount</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={templateDraft.lateFeeDailyAmount}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, lateFeeDailyAmount: e.target.value })}
+                    className={inputCls}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="mb-1 block text-sm font-medium">Max late fee per period</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No cap"
+                  value={templateDraft.lateFeeMaxAmount}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, lateFeeMaxAmount: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Grace period (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={templateDraft.gracePeriodDays}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, gracePeriodDays: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">Rent due day</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="28"
+                  value={templateDraft.rentDueDay}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, rentDueDay: e.target.value })}
+                  className={inputCls}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="mb-1 block text-sm font-medium">Clauses</label>
+              <div className="space-y-2">
+                {templateDraft.clauses.map((c, idx) => (
+                  <div key={`${c.clauseId ?? "custom"}-${idx}`} className="rounded-lg border p-2">
+                    <div className="flex items-center gap-1">
+                      <input
+                        value={c.title}
+                        onChange={(e) =>
+                          updateTemplateClauses((clauses) =>
+                            clauses.map((x, i) => (i === idx ? { ...x, title: e.target.value } : x))
+                          )
+                        }
+                        className="flex-1 rounded border-transparent px-1 py-0.5 text-sm font-medium hover:border-gray-300 focus:border-blue-500 focus:outline-none"
+                      />
+                      <button type="button" onClick={() => moveClause(idx, -1)} className="rounded p-1 text-gray-400 hover:bg-gray-100" title="Move up">
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => moveClause(idx, 1)} className="rounded p-1 text-gray-400 hover:bg-gray-100" title="Move down">
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateTemplateClauses((clauses) => clauses.filter((_, i) => i !== idx))}
+                        className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-500"
+                        title="Remove clause"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <textarea
+                      value={c.content}
+                      rows={3}
+                      onChange={(e) =>
+                        updateTemplateClauses((clauses) =>
+                          clauses.map((x, i) => (i === idx ? { ...x, content: e.target.value } : x))
+                        )
+                      }
+                      className="mt-1 w-full rounded border px-2 py-1 text-xs focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 flex gap-2">
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const clause = library.find((c) => c.id === e.target.value);
+                    if (clause) {
+                      updateTemplateClauses((clauses) => [
+                        ...clauses,
+                        { clauseId: clause.id, title: clause.title, content: clause.content },
+                      ]);
+                    }
+                  }}
+                  className="flex-1 rounded-lg border px-3 py-2 text-sm"
+                >
+                  <option value="">Add from library...</option>
+                  {library.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.category ? `${c.category}: ` : ""}
+                      {c.title}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateTemplateClauses((clauses) => [...clauses, { clauseId: null, title: "New clause", content: "" }])
+                  }
+                  className="rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  Custom clause
+                </button>
+              </div>
+            </div>
+
+            {templateDraft.versions && templateDraft.versions.length > 0 && (
+              <div>
+                <p className="mb-1 text-sm font-medium">Versions</p>
+                <div className="max-h-32 divide-y overflow-y-auto rounded-lg border text-xs">
+                  {templateDraft.versions.map((v) => (
+                    <div key={v.id} className="flex justify-between px-3 py-1.5">
+                      <span className="font-medium">v{v.version}</span>
+                      <span className="text-gray-500">
+                        {new Date(v.createdAt).toLocaleDateString()} · {v._count.leases}{" "}
+                        {v._count.leases === 1 ? "lease" : "leases"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                  Changing clauses or defaults saves a new version; existing leases keep theirs.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <button type="button" onClick={() => setTemplateDraft(null)} className="rounded-lg border px-4 py-2 text-sm hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveTemplate.isPending}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saveTemplate.isPending ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <Modal open={!!clauseDraft} onClose={() => setClauseDraft(null)} title={clauseDraft?.id ? "Edit clause" : "New clause"}>
+        {clauseDraft && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveClause.mutate(clauseDraft);
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <label className="mb-1 block text-sm font-medium">Title</label>
+              <input
+                required
+                value={clauseDraft.title}
+                onChange={(e) => setClauseDraft({ ...clauseDraft, title: e.target.value })}
+                className={inputCls}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">Category</label>
+              <input
+                value={clauseDraft.category}
+                placeholder="e.g. Pets, Utilities"
+                onChange={(e) => setClauseDraft({ ...clauseDraft, category: e.target.value })}
+                className={inputCls}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">Content</label>
+              <textarea
+                required
+                rows={8}
+                value={clauseDraft.content}
+                onChange={(e) => setClauseDraft({ ...clauseDraft, content: e.target.value })}
+                className={inputCls}
+              />
+            </div>
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <button type="button" onClick={() => setClauseDraft(null)} className="rounded-lg border px-4 py-2 text-sm hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveClause.isPending}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saveClause.isPending ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -1,26 +1,72 @@
 import { useState, type FormEvent } from "react";
 import { useNavigate, useLocation, Link } from "react-router";
-import { useAuth } from "@/lib/auth";
+import { useAuth, type AuthSession } from "@/lib/auth";
+import { api } from "@/lib/api";
 import { Building2 } from "lucide-react";
 
+type Step = "password" | "code" | "enroll" | "recovery-codes";
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+const inputClass =
+  "w-full rounded-lg border px-3 py-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200";
+
 export default function Login() {
-  const { login } = useAuth();
+  const { login, completeLogin } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const from = (location.state as { from?: { pathname: string } })?.from?.pathname || "/";
 
+  const [step, setStep] = useState<Step>("password");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [challengeToken, setChallengeToken] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingSession, setPendingSession] = useState<AuthSession | null>(null);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
+  const finish = (session: AuthSession) => {
+    completeLogin(session);
+    navigate(from, { replace: true });
+  };
+
+  const startOver = (message?: string) => {
+    setStep("password");
+    setPassword("");
+    setCode("");
+    setChallengeToken("");
+    setEnrollment(null);
+    setError(message ?? "");
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError("");
     setLoading(true);
     try {
-      await login(email, password);
-      navigate(from, { replace: true });
+      const challenge = await login(email, password);
+      if (!challenge) {
+        navigate(from, { replace: true });
+        return;
+      }
+      setChallengeToken(challenge.challengeToken);
+      if (challenge.twoFactorSetupRequired) {
+        const setup = await api<Enrollment>("/auth/2fa/setup", {
+          method: "POST",
+          body: JSON.stringify({ challengeToken: challenge.challengeToken }),
+        });
+        setEnrollment(setup);
+        setStep("enroll");
+      } else {
+        setStep("code");
+      }
     } catch {
       setError("Invalid email or password");
     } finally {
@@ -28,6 +74,61 @@ export default function Login() {
     }
   };
 
+  const handleCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const session = await api<AuthSession>("/auth/login/2fa", {
+        method: "POST",
+        body: JSON.stringify(
+          useRecoveryCode ? { challengeToken, recoveryCode: code } : { challengeToken, code }
+        ),
+      });
+      finish(session);
+    } catch (err: any) {
+      const message = err?.data?.error?.message || "Invalid authentication code";
+      if (message.includes("expired")) {
+        startOver(message);
+      } else {
+        setError(message);
+        setCode("");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnroll = async (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const result = await api<AuthSession & { recoveryCodes: string[] }>("/auth/2fa/enable", {
+        method: "POST",
+        body: JSON.stringify({ challengeToken, code }),
+      });
+      const { recoveryCodes, ...session } = result;
+      setRecoveryCodes(recoveryCodes);
+      setPendingSession(session);
+      setStep("recovery-codes");
+    } catch (err: any) {
+      const message = err?.data?.error?.message || "That code didn't match";
+      if (message.includes("expired")) {
+        startOver(message);
+      } else {
+        setError(message);
+        setCode("");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorBox = error && (
+    <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>
+  );
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
       <div className="w-full max-w-md">
@@ -35,51 +136,158 @@ export default function Login() {
           <Building2 className="h-10 w-10 text-blue-600" />
           <h1 className="text-3xl font-bold">Brevva</h1>
         </div>
-        <form onSubmit={handleSubmit} className="rounded-xl bg-white p-8 shadow-lg">
-          <h2 className="mb-6 text-xl font-semibold">Sign in to your account</h2>
-          {error && (
-            <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>
-          )}
-          <label className="mb-1 block text-sm font-medium">Email</label>
-          <input
-            type="email"
-            required
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            className="mb-4 w-full rounded-lg border px-3 py-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
-            placeholder="you@example.com"
-          />
-          <div className="mb-1 flex items-center justify-between">
-            <label className="block text-sm font-medium">Password</label>
-            <Link
-              to="/forgot-password"
-              className="text-xs text-blue-600 hover:underline"
+
+        {step === "password" && (
+          <form onSubmit={handleSubmit} className="rounded-xl bg-white p-8 shadow-lg">
+            <h2 className="mb-6 text-xl font-semibold">Sign in to your account</h2>
+            {errorBox}
+            <label className="mb-1 block text-sm font-medium">Email</label>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={`mb-4 ${inputClass}`}
+              placeholder="you@example.com"
+            />
+            <div className="mb-1 flex items-center justify-between">
+              <label className="block text-sm font-medium">Password</label>
+              <Link
+                to="/forgot-password"
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
+            <input
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`mb-6 ${inputClass}`}
+              placeholder="********"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Signing in..." : "Sign in"}
+            </button>
+            <p className="mt-4 text-center text-sm text-gray-500">
+              Don't have an account?{" "}
+              <Link to="/register" className="font-medium text-blue-600 hover:underline">
+                Sign Up
+              </Link>
+            </p>
+          </form>
+        )}
+
+        {step === "code" && (
+          <form onSubmit={handleCode} className="rounded-xl bg-white p-8 shadow-lg">
+            <h2 className="mb-2 text-xl font-semibold">Two-factor authentication</h2>
+            <p className="mb-6 text-sm text-gray-500">
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                : "Enter the 6-digit code from your authenticator app."}
+            </p>
+            {errorBox}
+            <input
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode={useRecoveryCode ? "text" : "numeric"}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={`mb-6 font-mono tracking-widest ${inputClass}`}
+              placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Verifying..." : "Verify"}
+            </button>
+            <div className="mt-4 flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                  setError("");
+                }}
+                className="text-blue-600 hover:underline"
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </button>
+              <button type="button" onClick={() => startOver()} className="text-gray-500 hover:underline">
+                Back
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === "enroll" && enrollment && (
+          <form onSubmit={handleEnroll} className="rounded-xl bg-white p-8 shadow-lg">
+            <h2 className="mb-2 text-xl font-semibold">Set up two-factor authentication</h2>
+            <p className="mb-4 text-sm text-gray-500">
+              Your organization requires two-factor authentication. Scan this code with an
+              authenticator app such as Google Authenticator or 1Password, then enter the 6-digit
+              code it shows.
+            </p>
+            {errorBox}
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="mx-auto mb-3 h-48 w-48" />
+            <p className="mb-4 text-center text-xs text-gray-500">
+              Can't scan? Enter this key: <span className="font-mono break-all text-gray-700">{enrollment.secret}</span>
+            </p>
+            <input
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={`mb-6 font-mono tracking-widest ${inputClass}`}
+              placeholder="123456"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Verifying..." : "Turn on and sign in"}
+            </button>
+            <button
+              type="button"
+              onClick={() => startOver()}
+              className="mt-4 w-full text-center text-sm text-gray-500 hover:underline"
+            >
+              Back
+            </button>
+          </form>
+        )}
+
+        {step === "recovery-codes" && pendingSession && (
+          <div className="rounded-xl bg-white p-8 shadow-lg">
+            <h2 className="mb-2 text-xl font-semibold">Save your recovery codes</h2>
+            <p className="mb-4 text-sm text-gray-500">
+              Each code signs you in once if you lose your device. Store them somewhere safe — they
+              won't be shown again.
+            </p>
+            <div className="mb-6 grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <button
+              onClick={() => finish(pendingSession)}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700"
             >
-              Forgot password?
-            </Link>
+              I've saved my codes
+            </button>
           </div>
-          <input
-            type="password"
-            required
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="mb-6 w-full rounded-lg border px-3 py-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
-            placeholder="********"
-          />
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
-          >
-            {loading ? "Signing in..." : "Sign in"}
-          </button>
-          <p className="mt-4 text-center text-sm text-gray-500">
-            Don't have an account?{" "}
-            <Link to="/register" className="font-medium text-blue-600 hover:underline">
-              Sign Up
-            </Link>
-          </p>
-        </form>
+        )}
       </div>
     </div>
   );
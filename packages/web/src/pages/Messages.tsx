@@ -2,14 +2,17 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useAuth } from "@/lib/auth";
-import { Send } from "lucide-react";
+import { useToast } from "@/components/Toast";
+import { Mail, MessageSquare, Send } from "lucide-react";
 import { clsx } from "clsx";
 
 export default function Messages() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
   const [replyBody, setReplyBody] = useState("");
+  const [channel, setChannel] = useState<"IN_APP" | "SMS">("IN_APP");
 
   const { data: threadsData } = useQuery({
     queryKey: ["threads"],
@@ -26,13 +29,16 @@ export default function Messages() {
     mutationFn: (body: string) =>
       api(`/messages/threads/${selectedThreadId}/reply`, {
         method: "POST",
-        body: JSON.stringify({ body }),
+        body: JSON.stringify({ body, channel }),
       }),
     onSuccess: () => {
       setReplyBody("");
       queryClient.invalidateQueries({ queryKey: ["thread", selectedThreadId] });
       queryClient.invalidateQueries({ queryKey: ["threads"] });
     },
+    onError: (err: any) => {
+      toast(err?.data?.error?.message || "Failed to send message", "error");
+    },
   });
 
   const threads = threadsData?.data ?? [];
@@ -100,8 +106,12 @@ export default function Messages() {
                         isMe ? "bg-blue-600 text-white" : "bg-gray-100"
                       )}>
                         <p className="text-sm">{m.body}</p>
-                        <p className={clsx("mt-1 text-xs", isMe ? "text-blue-200" : "text-gray-400")}>
+                        <p className={clsx("mt-1 flex items-center gap-1 text-xs", isMe ? "text-blue-200" : "text-gray-400")}>
+                          {m.channel === "SMS" && <MessageSquare className="h-3 w-3" />}
+                          {m.channel === "EMAIL" && <Mail className="h-3 w-3" />}
                           {m.sender?.firstName} {m.sender?.lastName} · {new Date(m.createdAt).toLocaleString()}
+                          {m.channel === "SMS" && " · SMS"}
+                          {m.channel === "EMAIL" && " · Email"}
                         </p>
                       </div>
                     </div>
@@ -113,11 +123,21 @@ export default function Messages() {
                 onSubmit={(e) => { e.preventDefault(); if (replyBody.trim()) replyMutation.mutate(replyBody); }}
                 className="flex items-center gap-2 border-t p-3"
               >
+                <select
+                  value={channel}
+                  onChange={(e) => setChannel(e.target.value as "IN_APP" | "SMS")}
+                  className="rounded-lg border px-2 py-2 text-sm"
+                  title="Send in the portal or as a text message"
+                >
+                  <option value="IN_APP">Portal</option>
+                  <option value="SMS">SMS</option>
+                </select>
                 <input
                   type="text"
                   value={replyBody}
                   onChange={(e) => setReplyBody(e.target.value)}
-                  placeholder="Type a message..."
+                  maxLength={channel === "SMS" ? 1600 : undefined}
+                  placeholder={channel === "SMS" ? "Text the tenant..." : "Type a message..."}
                   className="flex-1 rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
                 />
                 <button
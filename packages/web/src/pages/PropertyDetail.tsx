@@ -1,6 +1,7 @@
 import { useParams, Link } from "react-router";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import DocumentLibrary from "@/components/DocumentLibrary";
 import { ArrowLeft, Home } from "lucide-react";
 
 export default function PropertyDetail() {
@@ -65,6 +66,10 @@ export default function PropertyDetail() {
           </div>
         ))}
       </div>
+
+      <div className="mt-8">
+        <DocumentLibrary propertyId={property.id} units={units} />
+      </div>
     </div>
   );
 }
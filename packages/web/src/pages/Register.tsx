@@ -5,7 +5,7 @@ import { api } from "@/lib/api";
 import { Building2 } from "lucide-react";
 
 export default function Register() {
-  const { login } = useAuth();
+  const { completeLogin } = useAuth();
   const navigate = useNavigate();
 
   const [form, setForm] = useState({
@@ -45,7 +45,6 @@ export default function Register() {
     try {
       const data = await api<{
         accessToken: string;
-        refreshToken: string;
         user: any;
         organization: any;
       }>("/auth/register", {
@@ -59,17 +58,9 @@ export default function Register() {
         }),
       });
 
-      // Store auth data and redirect (same shape as login response)
-      localStorage.setItem(
-        "auth",
-        JSON.stringify({
-          accessToken: data.accessToken,
-          refreshToken: data.refreshToken,
-          user: data.user,
-        })
-      );
-      // Trigger a page reload to pick up the new auth state
-      window.location.href = "/";
+      // Same shape as the login response; the refresh token arrives as a cookie
+      completeLogin(data);
+      navigate("/", { replace: true });
     } catch (err: any) {
       const msg =
         err?.data?.message || err?.data?.error || "Registration failed. Please try again.";
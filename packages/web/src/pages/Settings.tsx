@@ -0,0 +1,19 @@
+import { useAuth } from "@/lib/auth";
+import ConnectedMailbox from "@/components/ConnectedMailbox";
+import NotificationPreferences from "@/components/NotificationPreferences";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import ActiveSessions from "@/components/ActiveSessions";
+
+export default function Settings() {
+  const { user } = useAuth();
+
+  return (
+    <div className="max-w-3xl">
+      <h1 className="mb-6 text-2xl font-bold">Settings</h1>
+      <TwoFactorSettings />
+      <ActiveSessions />
+      {user?.role === "OWNER" && <ConnectedMailbox />}
+      <NotificationPreferences />
+    </div>
+  );
+}
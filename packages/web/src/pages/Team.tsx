@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/components/Toast";
+import MemberAccessModal, { type MemberAccess } from "@/components/MemberAccessModal";
+import PermissionRoles, { type PermissionRole } from "@/components/PermissionRoles";
+import { Mail, UserPlus } from "lucide-react";
+import { clsx } from "clsx";
+
+interface Member extends MemberAccess {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: "OWNER" | "TEAM_MEMBER";
+  isActive: boolean;
+  lastLoginAt: string | null;
+  twoFactorEnabledAt: string | null;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  expiresAt: string;
+  invitedBy: { firstName: string; lastName: string };
+  permissionRole: { id: string; name: string } | null;
+  allPropertiesAccess: boolean;
+  properties: { id: string; name: string }[];
+}
+
+const ROLE_LABELS: Record<string, string> = { OWNER: "Owner", TEAM_MEMBER: "Team member" };
+
+function accessSummary(access: {
+  permissionRole: { name: string } | null;
+  allPropertiesAccess: boolean;
+  properties: { name: string }[];
+}) {
+  const scope = access.allPropertiesAccess
+    ? "All properties"
+    : access.properties.length > 0
+      ? access.properties.map((p) => p.name).join(", ")
+      : "No properties";
+  return `${access.permissionRole?.name ?? "Default permissions"} · ${scope}`;
+}
+
+export default function Team() {
+  const { user, logout } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRoleId, setInviteRoleId] = useState("");
+  const [inviteAllProperties, setInviteAllProperties] = useState(false);
+  const [accessMember, setAccessMember] = useState<Member | null>(null);
+  const isOwner = user?.role === "OWNER";
+
+  const { data: membersData, isLoading } = useQuery({
+    queryKey: ["team-members"],
+    queryFn: () => api<{ data: Member[] }>("/team/members"),
+  });
+
+  const { data: invitationsData } = useQuery({
+    queryKey: ["team-invitations"],
+    queryFn: () => api<{ data: Invitation[] }>("/team/invitations"),
+    enabled: isOwner,
+  });
+
+  const { data: rolesData } = useQuery({
+    queryKey: ["team-roles"],
+    queryFn: () => api<{ data: PermissionRole[] }>("/team/roles"),
+    enabled: isOwner,
+  });
+
+  const onError = (fallback: string) => (err: any) =>
+    toast(err?.data?.error?.message || fallback, "error");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["team-members"] });
+    queryClient.invalidateQueries({ queryKey: ["team-invitations"] });
+  };
+
+  const invite = useMutation({
+    mutationFn: (email: string) =>
+      api("/team/invitations", {
+        method: "POST",
+        body: JSON.stringify({
+          email,
+          permissionRoleId: inviteRoleId || null,
+          allPropertiesAccess: inviteAllProperties,
+        }),
+      }),
+    onSuccess: () => {
+      toast("Invitation sent");
+      setInviteEmail("");
+      setInviteRoleId("");
+      setInviteAllProperties(false);
+      refresh();
+    },
+    onError: onError("Failed to send invitation"),
+  });
+
+  const resend = useMutation({
+    mutationFn: (id: string) => api(`/team/invitations/${id}/resend`, { method: "POST" }),
+    onSuccess: () => {
+      toast("Invitation resent");
+      refresh();
+    },
+    onError: onError("Failed to resend invitation"),
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: string) => api(`/team/invitations/${id}`, { method: "DELETE" }),
+    onSuccess: refresh,
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: string }) =>
+      api(`/team/members/${id}`, { method: "PATCH", body: JSON.stringify({ role }) }),
+    onSuccess: refresh,
+    onError: onError("Failed to change role"),
+  });
+
+  const setActive = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) =>
+      api(`/team/members/${id}/${active ? "reactivate" : "deactivate"}`, { method: "POST" }),
+    onSuccess: refresh,
+    onError: onError("Failed to update member"),
+  });
+
+  const transfer = useMutation({
+    mutationFn: (userId: string) =>
+      api("/team/transfer-ownership", { method: "POST", body: JSON.stringify({ userId }) }),
+    onSuccess: () => {
+      toast("Ownership transferred. Please sign in again.");
+      logout();
+    },
+    onError: onError("Failed to transfer ownership"),
+  });
+
+  const members = membersData?.data ?? [];
+  const invitations = invitationsData?.data ?? [];
+  const roles = rolesData?.data ?? [];
+
+  return (
+    <div className="max-w-4xl">
+      <h1 className="mb-6 text-2xl font-bold">Team</h1>
+
+      {isOwner && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (inviteEmail.trim()) invite.mutate(inviteEmail.trim());
+          }}
+          className="mb-6 rounded-xl border bg-white p-4"
+        >
+          <div className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-gray-400" />
+            <input
+              type="email"
+              required
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              className="flex-1 rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+            <select
+              value={inviteRoleId}
+              onChange={(e) => setInviteRoleId(e.target.value)}
+              className="rounded-lg border px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            >
+              <option value="">Default (property manager)</option>
+              {roles.map((r) => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={invite.isPending}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {invite.isPending ? "Sending..." : "Invite"}
+            </button>
+          </div>
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={inviteAllProperties}
+              onChange={(e) => setInviteAllProperties(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Access to all properties
+          </label>
+          {!inviteAllProperties && (
+            <p className="mt-1 text-xs text-gray-400">
+              New members start with no properties; choose theirs under Access once they join.
+            </p>
+          )}
+        </form>
+      )}
+
+      <div className="rounded-xl border bg-white">
+        {isLoading ? (
+          <p className="p-4 text-sm text-gray-400">Loading...</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs text-gray-500">
+                <th className="px-4 py-3 font-medium">Name</th>
+                <th className="px-4 py-3 font-medium">Role</th>
+                <th className="px-4 py-3 font-medium">Last sign-in</th>
+                {isOwner && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {members.map((m) => {
+                const isSelf = m.id === user?.userId;
+                return (
+                  <tr key={m.id} className={clsx(!m.isActive && "text-gray-400")}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium">
+                        {m.firstName} {m.lastName} {isSelf && <span className="text-xs text-gray-400">(you)</span>}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {m.email}
+                        {m.twoFactorEnabledAt && <span className="ml-2 text-green-600">2FA</span>}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      {m.role === "TEAM_MEMBER" && m.isActive && (
+                        <p className="mb-1 text-xs text-gray-400">
+                          {accessSummary({ ...m, properties: m.accessibleProperties })}
+                        </p>
+                      )}
+                      {isOwner && !isSelf && m.isActive ? (
+                        <select
+                          value={m.role}
+                          onChange={(e) => changeRole.mutate({ id: m.id, role: e.target.value })}
+                          className="rounded-lg border px-2 py-1 text-sm"
+                        >
+                          <option value="TEAM_MEMBER">Team member</option>
+                          <option value="OWNER">Owner</option>
+                        </select>
+                      ) : (
+                        <span>{m.isActive ? ROLE_LABELS[m.role] : "Deactivated"}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">
+                      {m.lastLoginAt ? new Date(m.lastLoginAt).toLocaleDateString() : "Never"}
+                    </td>
+                    {isOwner && (
+                      <td className="px-4 py-3 text-right">
+                        {!isSelf && (
+                          <div className="flex justify-end gap-3">
+                            {m.isActive && m.role === "TEAM_MEMBER" && (
+                              <button
+                                onClick={() => setAccessMember(m)}
+                                className="text-xs font-medium text-blue-600 hover:underline"
+                              >
+                                Access
+                              </button>
+                            )}
+                            {m.isActive && m.role === "TEAM_MEMBER" && (
+                              <button
+                                onClick={() => {
+                                  if (confirm(`Make ${m.firstName} ${m.lastName} the owner? You will become a team member.`)) {
+                                    transfer.mutate(m.id);
+                                  }
+                                }}
+                                className="text-xs font-medium text-blue-600 hover:underline"
+                              >
+                                Transfer ownership
+                              </button>
+                            )}
+                            <button
+                              onClick={() => {
+                                if (m.isActive && !confirm(`Deactivate ${m.firstName} ${m.lastName}? They will be signed out.`)) return;
+                                setActive.mutate({ id: m.id, active: !m.isActive });
+                              }}
+                              className={clsx(
+                                "text-xs font-medium hover:underline",
+                                m.isActive ? "text-red-600" : "text-green-600"
+                              )}
+                            >
+                              {m.isActive ? "Deactivate" : "Reactivate"}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {isOwner && <PermissionRoles roles={roles} />}
+
+      {isOwner && invitations.length > 0 && (
+        <div className="mt-6 rounded-xl border bg-white p-4">
+          <h2 className="mb-3 flex items-center gap-2 font-semibold"><Mail className="h-4 w-4" /> Pending Invitations</h2>
+          <div className="divide-y">
+            {invitations.map((inv) => {
+              const expired = new Date(inv.expiresAt) < new Date();
+              return (
+                <div key={inv.id} className="flex items-center gap-3 py-2 text-sm">
+                  <div className="flex-1">
+                    <p className="font-medium">{inv.email}</p>
+                    <p className="text-xs text-gray-400">
+                      Invited by {inv.invitedBy.firstName} {inv.invitedBy.lastName} ·{" "}
+                      {expired ? "Expired" : `Expires ${new Date(inv.expiresAt).toLocaleDateString()}`}
+                    </p>
+                    <p className="text-xs text-gray-400">{accessSummary(inv)}</p>
+                  </div>
+                  <button
+                    onClick={() => resend.mutate(inv.id)}
+                    className="text-xs font-medium text-blue-600 hover:underline"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    onClick={() => revoke.mutate(inv.id)}
+                    className="text-xs font-medium text-red-600 hover:underline"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <MemberAccessModal member={accessMember} roles={roles} onClose={() => setAccessMember(null)} />
+    </div>
+  );
+}
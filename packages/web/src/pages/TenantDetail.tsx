@@ -1,10 +1,18 @@
+import { useState } from "react";
 import { useParams, Link } from "react-router";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
-import { ArrowLeft, FileText, Car, PawPrint } from "lucide-react";
+import DocumentLibrary from "@/components/DocumentLibrary";
+import { ArrowLeft, FileText, Car, PawPrint, Eye } from "lucide-react";
 
 export default function TenantDetail() {
   const { id } = useParams();
+  const [revealedSsn, setRevealedSsn] = useState<string | null>(null);
+
+  const revealSsn = useMutation({
+    mutationFn: () => api<{ ssn: string | null }>(`/tenants/${id}/reveal-ssn`, { method: "POST" }),
+    onSuccess: (data) => setRevealedSsn(data.ssn),
+  });
 
   const { data: tenant, isLoading } = useQuery({
     queryKey: ["tenant", id],
@@ -27,6 +35,21 @@ export default function TenantDetail() {
             <h1 className="text-2xl font-bold">{tenant.firstName} {tenant.lastName}</h1>
             <p className="text-gray-500">{tenant.email}</p>
             {tenant.phone && <p className="text-gray-500">{tenant.phone}</p>}
+            {tenant.ssn && (
+              <p className="mt-1 flex items-center gap-2 text-sm text-gray-500">
+                SSN: <span className="font-mono">{revealedSsn ?? tenant.ssn}</span>
+                {/* The masked SSN is only sent to users allowed to reveal it */}
+                {!revealedSsn && (
+                  <button
+                    onClick={() => revealSsn.mutate()}
+                    disabled={revealSsn.isPending}
+                    className="inline-flex items-center gap-1 text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    <Eye className="h-3.5 w-3.5" /> Reveal
+                  </button>
+                )}
+              </p>
+            )}
           </div>
           <span className={`rounded-full px-3 py-1 text-sm font-medium ${tenant.status === "ACTIVE" ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-600"}`}>
             {tenant.status}
@@ -92,6 +115,10 @@ export default function TenantDetail() {
           </div>
         </div>
       </div>
+
+      <div className="mt-6">
+        <DocumentLibrary tenantId={tenant.id} />
+      </div>
     </div>
   );
 }